@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import {
+  archiveProductionRecords,
+  getStorageReport,
+  MIN_RETENTION_DAYS,
+  setRetentionDays,
+} from '@/lib/retention';
+import { readJsonObject } from '@/lib/request-body';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    return NextResponse.json(getStorageReport());
+  } catch (error) {
+    console.error('Retention API error:', error);
+    return NextResponse.json({ error: 'Failed to read storage report' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: Request) {
+  try {
+    const parsed = await readJsonObject<{ retentionDays?: unknown }>(request);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const days = parsed.body.retentionDays;
+
+    if (typeof days !== 'number' || !Number.isInteger(days) || days < MIN_RETENTION_DAYS) {
+      return NextResponse.json(
+        { error: `retentionDays must be a whole number of at least ${MIN_RETENTION_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    setRetentionDays(days);
+    return NextResponse.json(getStorageReport());
+  } catch (error) {
+    console.error('Update retention error:', error);
+    return NextResponse.json({ error: 'Failed to update retention policy' }, { status: 500 });
+  }
+}
+
+// Runs archival now; { "compact": true } also reclaims the freed space
+export async function POST(request: Request) {
+  try {
+    const parsed = await readJsonObject<{ compact?: unknown }>(request, { optional: true });
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const body = parsed.body;
+    if (body.compact !== undefined && typeof body.compact !== 'boolean') {
+      return NextResponse.json({ error: 'compact must be true or false' }, { status: 400 });
+    }
+
+    const result = archiveProductionRecords({ compact: body.compact === true });
+    return NextResponse.json({ result, report: getStorageReport() });
+  } catch (error) {
+    console.error('Archive run error:', error);
+    return NextResponse.json({ error: 'Failed to archive production records' }, { status: 500 });
+  }
+}
@@ -1,11 +1,13 @@
 import { NextResponse } from 'next/server';
-import { getDatabase, getActiveAlerts } from '@/lib/database';
+import { getActiveAlerts, getDefaultLineId } from '@/lib/database';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const alerts = getActiveAlerts();
+    const { searchParams } = new URL(request.url);
+    const lineId = searchParams.get('lineId') || getDefaultLineId();
+    const alerts = getActiveAlerts(lineId);
     return NextResponse.json(alerts);
   } catch (error) {
     console.error('Alerts API error:', error);
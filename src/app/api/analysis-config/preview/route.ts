@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { getDefaultLineId } from '@/lib/database';
+import {
+  getScopeLineId,
+  getStationAnalysisConfigs,
+  validateAnalysisConfigGroups,
+  validateAnalysisConfigScope,
+} from '@/lib/analysis-config';
+import { analyzeBottleneckInputs, getBottleneckInputs } from '@/lib/bottleneck-inputs';
+import { readJsonObject } from '@/lib/request-body';
+import type { AnalysisConfigOverride, RankingPreviewEntry } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+// Ranks the line's stations with the stored configuration and with the proposed override,
+// without saving anything
+export async function POST(request: Request) {
+  try {
+    const parsed = await readJsonObject<Partial<AnalysisConfigOverride> & { lineId?: string }>(request);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const body = parsed.body;
+
+    const scopeError = validateAnalysisConfigScope(body.scope, body.scopeId);
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status: scopeError.endsWith('not found') ? 404 : 400 });
+    }
+    const groupError = validateAnalysisConfigGroups(body);
+    if (groupError) return NextResponse.json({ error: groupError }, { status: 400 });
+
+    const scope = body.scope!;
+    const scopeId = scope === 'global' ? null : body.scopeId!;
+    const lineId = getScopeLineId(scope, scopeId, body.lineId || getDefaultLineId());
+
+    const inputs = getBottleneckInputs(lineId, 24);
+    const current = analyzeBottleneckInputs(inputs, getStationAnalysisConfigs(lineId));
+    const proposed = analyzeBottleneckInputs(inputs, getStationAnalysisConfigs(lineId, {
+      scope,
+      scopeId,
+      severityThresholds: body.severityThresholds ?? null,
+      impactWeights: body.impactWeights ?? null,
+    }));
+
+    const ranking: RankingPreviewEntry[] = proposed.map((analysis, index) => {
+      const currentIndex = current.findIndex(a => a.stationId === analysis.stationId);
+      return {
+        stationId: analysis.stationId,
+        stationName: analysis.stationName,
+        currentRank: currentIndex + 1,
+        proposedRank: index + 1,
+        currentImpactScore: current[currentIndex].impactScore,
+        proposedImpactScore: analysis.impactScore,
+        currentSeverity: current[currentIndex].severity,
+        proposedSeverity: analysis.severity,
+      };
+    });
+
+    return NextResponse.json({ lineId, ranking });
+  } catch (error) {
+    console.error('Analysis config preview error:', error);
+    return NextResponse.json({ error: 'Failed to preview analysis configuration' }, { status: 500 });
+  }
+}
@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server';
+import {
+  deleteAnalysisConfig,
+  getDefaultLineId,
+  saveAnalysisConfig,
+} from '@/lib/database';
+import {
+  ANALYSIS_CONFIG_SCOPES,
+  DEFAULT_ANALYSIS_CONFIG,
+  getAnalysisConfigOverrides,
+  getScopeLineId,
+  getStationAnalysisConfigs,
+  validateAnalysisConfigGroups,
+  validateAnalysisConfigScope,
+} from '@/lib/analysis-config';
+import { readJsonObject } from '@/lib/request-body';
+import type { AnalysisConfigOverride, AnalysisConfigScope } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+function getConfigReport(lineId: string | null) {
+  const configs = getStationAnalysisConfigs(lineId);
+  return {
+    lineId,
+    defaults: DEFAULT_ANALYSIS_CONFIG,
+    overrides: getAnalysisConfigOverrides(lineId),
+    stations: Object.values(configs),
+  };
+}
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const lineId = searchParams.get('lineId') || getDefaultLineId();
+    return NextResponse.json(getConfigReport(lineId));
+  } catch (error) {
+    console.error('Analysis config API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch analysis configuration' }, { status: 500 });
+  }
+}
+
+// Sets a scope's override. Either group may be null to inherit it from the wider scope.
+export async function PUT(request: Request) {
+  try {
+    const parsed = await readJsonObject<Partial<AnalysisConfigOverride> & { lineId?: string }>(request);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const body = parsed.body;
+
+    const scopeError = validateAnalysisConfigScope(body.scope, body.scopeId);
+    if (scopeError) {
+      return NextResponse.json({ error: scopeError }, { status: scopeError.endsWith('not found') ? 404 : 400 });
+    }
+    const groupError = validateAnalysisConfigGroups(body);
+    if (groupError) return NextResponse.json({ error: groupError }, { status: 400 });
+    if (typeof body.updatedBy !== 'string' || !body.updatedBy.trim()) {
+      return NextResponse.json({ error: 'updatedBy is required' }, { status: 400 });
+    }
+
+    const scope = body.scope!;
+    const scopeId = scope === 'global' ? null : body.scopeId!;
+    saveAnalysisConfig({
+      scope,
+      scopeId,
+      severityThresholds: body.severityThresholds ?? null,
+      impactWeights: body.impactWeights ?? null,
+      updatedBy: body.updatedBy.trim(),
+    });
+
+    return NextResponse.json(getConfigReport(getScopeLineId(scope, scopeId, body.lineId || getDefaultLineId())));
+  } catch (error) {
+    console.error('Save analysis config error:', error);
+    return NextResponse.json({ error: 'Failed to save analysis configuration' }, { status: 500 });
+  }
+}
+
+// Removes a scope's override so it inherits both groups again
+export async function DELETE(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const scope = searchParams.get('scope') as AnalysisConfigScope | null;
+    const scopeId = searchParams.get('scopeId');
+
+    if (!scope || !ANALYSIS_CONFIG_SCOPES.includes(scope)) {
+      return NextResponse.json(
+        { error: `scope must be one of ${ANALYSIS_CONFIG_SCOPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (scope !== 'global' && !scopeId) {
+      return NextResponse.json({ error: `scopeId is required at ${scope} scope` }, { status: 400 });
+    }
+
+    const lineId = getScopeLineId(scope, scopeId, searchParams.get('lineId') || getDefaultLineId());
+    if (!deleteAnalysisConfig(scope, scope === 'global' ? null : scopeId)) {
+      return NextResponse.json({ error: 'No override at this scope' }, { status: 404 });
+    }
+
+    return NextResponse.json(getConfigReport(lineId));
+  } catch (error) {
+    console.error('Delete analysis config error:', error);
+    return NextResponse.json({ error: 'Failed to delete analysis configuration' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { getDefaultLineId } from '@/lib/database';
+import { BASELINE_KINDS, getBottleneckComparison, parseAnalysisWindow } from '@/lib/bottleneck-comparison';
+import type { BaselineKind } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+// Bottleneck analysis of a window against a baseline window, station by station
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const lineId = searchParams.get('lineId') || getDefaultLineId();
+    const baselineKind = (searchParams.get('baseline') || 'previous_period') as BaselineKind;
+
+    if (!BASELINE_KINDS.includes(baselineKind)) {
+      return NextResponse.json({ error: `baseline must be one of ${BASELINE_KINDS.join(', ')}` }, { status: 400 });
+    }
+
+    const parsed = parseAnalysisWindow(searchParams);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    let baseline;
+    if (baselineKind === 'custom') {
+      if (!searchParams.get('baselineFrom') || !searchParams.get('baselineTo')) {
+        return NextResponse.json({ error: 'A custom baseline needs baselineFrom and baselineTo' }, { status: 400 });
+      }
+      const parsedBaseline = parseAnalysisWindow(searchParams, 'baseline');
+      if ('error' in parsedBaseline) {
+        return NextResponse.json({ error: parsedBaseline.error }, { status: 400 });
+      }
+      baseline = { ...parsedBaseline.window, shift: parsedBaseline.window.shift ?? parsed.window.shift ?? null };
+    }
+
+    return NextResponse.json(getBottleneckComparison({ lineId, window: parsed.window, baselineKind, baseline }));
+  } catch (error) {
+    console.error('Bottleneck comparison API error:', error);
+    return NextResponse.json({ error: 'Failed to compare bottlenecks' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { getStationById } from '@/lib/database';
+import { parseAnalysisWindow } from '@/lib/bottleneck-comparison';
+import { DEFAULT_RECORD_LIMIT, MAX_RECORD_LIMIT, getEvidenceDrillDown, parseEvidenceRequest } from '@/lib/evidence';
+
+export const dynamic = 'force-dynamic';
+
+// The records and statistics behind a piece of root-cause evidence; each evidence item
+// carries the request for its own drill-down
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const parsedWindow = parseAnalysisWindow(searchParams);
+    if ('error' in parsedWindow) {
+      return NextResponse.json({ error: parsedWindow.error }, { status: 400 });
+    }
+    const parsed = parseEvidenceRequest(searchParams, parsedWindow.window);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const limit = Number(searchParams.get('limit') || DEFAULT_RECORD_LIMIT);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_RECORD_LIMIT) {
+      return NextResponse.json({ error: `limit must be a whole number between 1 and ${MAX_RECORD_LIMIT}` }, { status: 400 });
+    }
+    const offset = Number(searchParams.get('offset') || 0);
+    if (!Number.isInteger(offset) || offset < 0) {
+      return NextResponse.json({ error: 'offset must be a whole number of at least 0' }, { status: 400 });
+    }
+
+    const { filter } = parsed;
+    if (!getStationById(filter.stationId) || (filter.relatedStationId && !getStationById(filter.relatedStationId))) {
+      return NextResponse.json({ error: 'Station not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(getEvidenceDrillDown(parsed.metric, filter, { limit, offset }));
+  } catch (error) {
+    console.error('Evidence API error:', error);
+    return NextResponse.json({ error: 'Failed to load evidence' }, { status: 500 });
+  }
+}
@@ -1,55 +1,70 @@
 import { NextResponse } from 'next/server';
-import { getDatabase, getBottleneckAnalysis } from '@/lib/database';
-import { analyzeBottlenecks } from '@/lib/agent';
+import { getDefaultLineId } from '@/lib/database';
+import { analyzeBottleneckInputs, getBottleneckInputs } from '@/lib/bottleneck-inputs';
+import { getStationAnalysisConfigs } from '@/lib/analysis-config';
+import { parseAnalysisWindow } from '@/lib/bottleneck-comparison';
+import { costRecommendations } from '@/lib/cost-model';
+import { createEvidence } from '@/lib/evidence';
+import { markStoredRecommendations, trackRecommendations } from '@/lib/recommendations';
+import type { AnalysisWindow } from '@/types';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET() {
+// Runs the agent analysis with each station's thresholds and weights, and costs its
+// recommendations under the line's cost model
+function analyze(lineId: string | null, window: AnalysisWindow) {
+  return costRecommendations(lineId, analyzeBottleneckInputs(
+    getBottleneckInputs(lineId, window),
+    getStationAnalysisConfigs(lineId)
+  ));
+}
+
+// Stores the recommendations of the analysis ending now as proposed; ?repropose=true also
+// reopens actions that were rejected or recently verified
+export async function POST(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const lineId = searchParams.get('lineId') || getDefaultLineId();
+
+    if (searchParams.get('from') || searchParams.get('to')) {
+      return NextResponse.json({ error: 'Only windows ending now propose recommendations' }, { status: 400 });
+    }
+    const parsed = parseAnalysisWindow(searchParams);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const repropose = searchParams.get('repropose') === 'true';
+    return NextResponse.json(trackRecommendations(lineId, analyze(lineId, parsed.window), { repropose }));
+  } catch (error) {
+    console.error('Propose recommendations error:', error);
+    return NextResponse.json({ error: 'Failed to propose recommendations' }, { status: 500 });
+  }
+}
+
+export async function GET(request: Request) {
   try {
-    const db = getDatabase();
-    const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
-    
-    // Get station data with production metrics
-    const stationData = db.prepare(`
-      SELECT 
-        s.id as station_id,
-        s.name as station_name,
-        s.target_cycle_time,
-        AVG(pr.cycle_time) as avg_cycle_time,
-        AVG((pr.cycle_time - AVG(pr.cycle_time) OVER (PARTITION BY s.id)) * 
-            (pr.cycle_time - AVG(pr.cycle_time) OVER (PARTITION BY s.id))) as stddev_cycle_time,
-        COUNT(*) as sample_count,
-        SUM(pr.downtime_minutes) as total_downtime,
-        ((AVG(pr.cycle_time) - s.target_cycle_time) / s.target_cycle_time * 100) as variance_percent
-      FROM stations s
-      LEFT JOIN production_records pr ON s.id = pr.station_id AND pr.timestamp >= ?
-      GROUP BY s.id
-      HAVING avg_cycle_time IS NOT NULL
-      ORDER BY variance_percent DESC
-    `).all(cutoff);
-    
-    // Get shift-based data for root cause analysis
-    const shiftData = db.prepare(`
-      SELECT 
-        shift,
-        station_id,
-        AVG(cycle_time) as avg_cycle_time,
-        COUNT(*) as sample_count
-      FROM production_records
-      WHERE timestamp >= ?
-      GROUP BY shift, station_id
-    `).all(cutoff);
-    
-    // Run the agent analysis
-    const bottlenecks = analyzeBottlenecks(
-      stationData as Parameters<typeof analyzeBottlenecks>[0],
-      shiftData as Parameters<typeof analyzeBottlenecks>[1]
-    );
-    
+    const { searchParams } = new URL(request.url);
+    const lineId = searchParams.get('lineId') || getDefaultLineId();
+
+    const parsed = parseAnalysisWindow(searchParams);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const bottlenecks = analyze(lineId, parsed.window);
+
+    // Windows ending now show what became of recommendations already proposed; past windows
+    // only describe the past
+    if (!searchParams.get('from') && !searchParams.get('to')) {
+      return NextResponse.json(markStoredRecommendations(bottlenecks));
+    }
     return NextResponse.json(bottlenecks);
   } catch (error) {
     console.error('Bottlenecks API error:', error);
     // Return mock data
+    const to = new Date();
+    const mockFilter = (stationId: string) => ({ stationId, from: new Date(to.getTime() - 24 * 60 * 60 * 1000).toISOString(), to: to.toISOString() });
     return NextResponse.json([
       {
         stationId: 'ST003',
@@ -59,10 +74,22 @@ export async function GET() {
         targetCycleTime: 90,
         variancePercent: 25.3,
         frequency: 8,
+        soleBottleneckPercent: 25,
+        shiftingBottleneckPercent: 8.3,
+        blockedPercent: 3.1,
+        starvedPercent: 1.8,
+        constraintRole: 'constraint',
         impactScore: 85,
+        cycleTimeStats: null,
         rootCauses: [
-          { type: 'shift', description: 'Night shift shows 18% higher cycle times', confidence: 0.82, evidence: ['Night shift average: 121s', 'Target: 90s'] },
-          { type: 'operator', description: 'High cycle time variability suggests inconsistent operator performance', confidence: 0.75, evidence: ['Coefficient of variation: 18%', 'Standard deviation: 20s'] },
+          { type: 'shift', description: 'Night shift shows 18% higher cycle times', confidence: 0.82, evidence: [
+            createEvidence('shift_cycle_time', 'Night shift average: 121s', 121, 's', { ...mockFilter('ST003'), shift: 'night' }),
+            createEvidence('shift_cycle_time', 'Target: 90s', 90, 's', { ...mockFilter('ST003'), shift: 'night' }),
+          ] },
+          { type: 'operator', description: 'High cycle time variability suggests inconsistent operator performance', confidence: 0.75, evidence: [
+            createEvidence('cycle_time_variability', 'Coefficient of variation: 18%', 18, '%', mockFilter('ST003')),
+            createEvidence('cycle_time_variability', 'Standard deviation: 20s', 20, 's', mockFilter('ST003')),
+          ] },
         ],
         recommendations: [
           { id: 'rec-1', type: 'training', description: 'Provide additional training for night shift at Welding Cell', expectedImprovement: 12, implementationCost: 'low', timeToImplement: '1-2 weeks', priority: 1 },
@@ -77,9 +104,17 @@ export async function GET() {
         targetCycleTime: 100,
         variancePercent: 18.5,
         frequency: 6,
+        soleBottleneckPercent: 16.7,
+        shiftingBottleneckPercent: 8.3,
+        blockedPercent: 6.4,
+        starvedPercent: 4.2,
+        constraintRole: 'constraint',
         impactScore: 72,
+        cycleTimeStats: null,
         rootCauses: [
-          { type: 'operator', description: 'High cycle time variability suggests inconsistent operator performance', confidence: 0.68, evidence: ['Coefficient of variation: 15%'] },
+          { type: 'operator', description: 'High cycle time variability suggests inconsistent operator performance', confidence: 0.68, evidence: [
+            createEvidence('cycle_time_variability', 'Coefficient of variation: 15%', 15, '%', mockFilter('ST007')),
+          ] },
         ],
         recommendations: [
           { id: 'rec-3', type: 'training', description: 'Standardize work procedures at Final Assembly', expectedImprovement: 8, implementationCost: 'low', timeToImplement: '1 week', priority: 1 },
@@ -93,9 +128,17 @@ export async function GET() {
         targetCycleTime: 120,
         variancePercent: 7.1,
         frequency: 3,
+        soleBottleneckPercent: 4.2,
+        shiftingBottleneckPercent: 8.3,
+        blockedPercent: 4.0,
+        starvedPercent: 6.5,
+        constraintRole: 'constraint',
         impactScore: 45,
+        cycleTimeStats: null,
         rootCauses: [
-          { type: 'equipment', description: 'Consistently slow performance suggests equipment limitations', confidence: 0.65, evidence: ['Consistent 7% above target'] },
+          { type: 'equipment', description: 'Consistently slow performance suggests equipment limitations', confidence: 0.65, evidence: [
+            createEvidence('cycle_time', 'Consistent 7% above target', 7.1, '%', mockFilter('ST002')),
+          ] },
         ],
         recommendations: [
           { id: 'rec-4', type: 'maintenance', description: 'Implement predictive maintenance schedule', expectedImprovement: 5, implementationCost: 'medium', timeToImplement: '2 weeks', priority: 1 },
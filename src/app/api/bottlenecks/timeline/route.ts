@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { getDefaultLineId } from '@/lib/database';
+import { DEFAULT_SHIFTING_TOLERANCE, getBottleneckTimeline } from '@/lib/bottleneck-timeline';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_HOURS = 24 * 30;
+
+function validateParams(hours: number, sliceHours: number, tolerance: number): string | null {
+  if (!Number.isInteger(hours) || hours < 1 || hours > MAX_HOURS) {
+    return `hours must be a whole number between 1 and ${MAX_HOURS}`;
+  }
+  if (!Number.isInteger(sliceHours) || sliceHours < 1 || sliceHours > 24) {
+    return 'sliceHours must be a whole number between 1 and 24';
+  }
+  if (sliceHours > hours) return 'sliceHours cannot exceed hours';
+  if (!Number.isFinite(tolerance) || tolerance < 0 || tolerance > 0.5) {
+    return 'tolerance must be between 0 and 0.5';
+  }
+  return null;
+}
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const lineId = searchParams.get('lineId') || getDefaultLineId();
+    const hours = Number(searchParams.get('hours') || '24');
+    const sliceHours = Number(searchParams.get('sliceHours') || '1');
+    const tolerance = Number(searchParams.get('tolerance') ?? DEFAULT_SHIFTING_TOLERANCE);
+
+    const error = validateParams(hours, sliceHours, tolerance);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    return NextResponse.json(getBottleneckTimeline(lineId, { hours, sliceHours, tolerance }));
+  } catch (error) {
+    console.error('Bottleneck timeline API error:', error);
+    return NextResponse.json({ error: 'Failed to build bottleneck timeline' }, { status: 500 });
+  }
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import { deleteCostModel, getDefaultLineId, getLineById, saveCostModel } from '@/lib/database';
+import { DEFAULT_COST_MODEL, RECOMMENDATION_TYPES, getLineCostModel, validateCostModel } from '@/lib/cost-model';
+import { readJsonObject } from '@/lib/request-body';
+import type { CostModel } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+type CostModelBody = {
+  lineId?: unknown;
+  costModel?: unknown;
+  updatedBy?: unknown;
+};
+
+function getCostModelReport(lineId: string | null) {
+  return { ...getLineCostModel(lineId), defaults: DEFAULT_COST_MODEL };
+}
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const lineId = searchParams.get('lineId') || getDefaultLineId();
+    return NextResponse.json(getCostModelReport(lineId));
+  } catch (error) {
+    console.error('Cost model API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch cost model' }, { status: 500 });
+  }
+}
+
+// Sets a line's cost model in full
+export async function PUT(request: Request) {
+  try {
+    const parsed = await readJsonObject<CostModelBody>(request);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const body = parsed.body;
+
+    if (typeof body.lineId !== 'string' || !body.lineId) {
+      return NextResponse.json({ error: 'lineId is required' }, { status: 400 });
+    }
+    const error = validateCostModel(body.costModel);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    if (typeof body.updatedBy !== 'string' || !body.updatedBy.trim()) {
+      return NextResponse.json({ error: 'updatedBy is required' }, { status: 400 });
+    }
+    if (!getLineById(body.lineId)) {
+      return NextResponse.json({ error: 'Line not found' }, { status: 404 });
+    }
+
+    const costModel = body.costModel as CostModel;
+    saveCostModel(body.lineId, {
+      labourRates: { day: costModel.labourRates.day, swing: costModel.labourRates.swing, night: costModel.labourRates.night },
+      overtimeMultiplier: costModel.overtimeMultiplier,
+      contributionMargin: costModel.contributionMargin,
+      discountRate: costModel.discountRate,
+      horizonYears: costModel.horizonYears,
+      typeCosts: Object.fromEntries(RECOMMENDATION_TYPES.map(type => {
+        const { equipmentCost, overtimeHours, addedOperators } = costModel.typeCosts[type];
+        return [type, { equipmentCost, overtimeHours, addedOperators }];
+      })) as CostModel['typeCosts'],
+    }, body.updatedBy.trim());
+
+    return NextResponse.json(getCostModelReport(body.lineId));
+  } catch (error) {
+    console.error('Save cost model error:', error);
+    return NextResponse.json({ error: 'Failed to save cost model' }, { status: 500 });
+  }
+}
+
+// Returns a line to the built-in cost model
+export async function DELETE(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const lineId = searchParams.get('lineId');
+
+    if (!lineId) {
+      return NextResponse.json({ error: 'lineId is required' }, { status: 400 });
+    }
+    if (!deleteCostModel(lineId)) {
+      return NextResponse.json({ error: 'The line has no cost model of its own' }, { status: 404 });
+    }
+
+    return NextResponse.json(getCostModelReport(lineId));
+  } catch (error) {
+    console.error('Delete cost model error:', error);
+    return NextResponse.json({ error: 'Failed to delete cost model' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getDefaultLineId } from '@/lib/database';
+import { DEFAULT_BUCKET_HOURS, DEFAULT_DOWNTIME_HOURS, getDowntimeAnalysis } from '@/lib/downtime';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_HOURS = 24 * 90;
+
+// Downtime reasons, MTBF, MTTR and availability per station and for the line
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const lineId = searchParams.get('lineId') || getDefaultLineId();
+    const hours = Number(searchParams.get('hours') || DEFAULT_DOWNTIME_HOURS);
+    const bucketHours = Number(searchParams.get('bucketHours') || DEFAULT_BUCKET_HOURS);
+
+    if (!Number.isInteger(hours) || hours < 1 || hours > MAX_HOURS) {
+      return NextResponse.json({ error: `hours must be a whole number between 1 and ${MAX_HOURS}` }, { status: 400 });
+    }
+    if (!Number.isInteger(bucketHours) || bucketHours < 1 || bucketHours > hours) {
+      return NextResponse.json({ error: 'bucketHours must be a whole number between 1 and hours' }, { status: 400 });
+    }
+
+    return NextResponse.json(getDowntimeAnalysis({ lineId, hours, bucketHours }));
+  } catch (error) {
+    console.error('Downtime API error:', error);
+    return NextResponse.json({ error: 'Failed to analyze downtime' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { getDefaultLineId, getStationById } from '@/lib/database';
+import { DEFAULT_DOWNTIME_HOURS, listStoppages } from '@/lib/downtime';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_HOURS = 24 * 90;
+const MAX_LIMIT = 1000;
+
+// The individual stoppages behind a station's or reason's downtime
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const lineId = searchParams.get('lineId') || getDefaultLineId();
+    const stationId = searchParams.get('stationId') || undefined;
+    const reason = searchParams.get('reason') || undefined;
+    const hours = Number(searchParams.get('hours') || DEFAULT_DOWNTIME_HOURS);
+    const limit = Number(searchParams.get('limit') || 200);
+
+    if (!Number.isInteger(hours) || hours < 1 || hours > MAX_HOURS) {
+      return NextResponse.json({ error: `hours must be a whole number between 1 and ${MAX_HOURS}` }, { status: 400 });
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json({ error: `limit must be a whole number between 1 and ${MAX_LIMIT}` }, { status: 400 });
+    }
+    if (stationId && !getStationById(stationId)) {
+      return NextResponse.json({ error: 'Station not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(listStoppages({ lineId, stationId, reason, hours, limit }));
+  } catch (error) {
+    console.error('Stoppages API error:', error);
+    return NextResponse.json({ error: 'Failed to list stoppages' }, { status: 500 });
+  }
+}
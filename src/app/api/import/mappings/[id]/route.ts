@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { deleteImportMapping } from '@/lib/database';
+
+export const dynamic = 'force-dynamic';
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const result = deleteImportMapping(params.id);
+    if (result.changes === 0) {
+      return NextResponse.json({ error: 'Mapping not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete import mapping error:', error);
+    return NextResponse.json({ error: 'Failed to delete mapping' }, { status: 500 });
+  }
+}
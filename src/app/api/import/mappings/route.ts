@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { getImportMappings, saveImportMapping } from '@/lib/database';
+import { isValidTimezone, rowToImportMapping, IMPORT_FIELDS, TIMESTAMP_FORMATS } from '@/lib/import';
+import { readJsonObject } from '@/lib/request-body';
+import type { ImportMapping } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const rows = getImportMappings() as Parameters<typeof rowToImportMapping>[0][];
+    return NextResponse.json(rows.map(rowToImportMapping));
+  } catch (error) {
+    console.error('Import mappings API error:', error);
+    return NextResponse.json([]);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const parsed = await readJsonObject<Partial<ImportMapping>>(request);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const body = parsed.body;
+
+    if (!body.name || typeof body.name !== 'string') {
+      return NextResponse.json({ error: 'Mapping name is required' }, { status: 400 });
+    }
+    if (!body.columnMap || typeof body.columnMap !== 'object') {
+      return NextResponse.json({ error: 'columnMap is required' }, { status: 400 });
+    }
+
+    const unknownFields = Object.keys(body.columnMap).filter(
+      f => !IMPORT_FIELDS.includes(f as (typeof IMPORT_FIELDS)[number])
+    );
+    if (unknownFields.length > 0) {
+      return NextResponse.json({ error: `Unknown fields: ${unknownFields.join(', ')}` }, { status: 400 });
+    }
+
+    const timestampFormat = body.timestampFormat || 'auto';
+    const timezone = body.timezone || 'UTC';
+    if (!TIMESTAMP_FORMATS.includes(timestampFormat)) {
+      return NextResponse.json({ error: `Unknown timestamp format ${timestampFormat}` }, { status: 400 });
+    }
+    if (!isValidTimezone(timezone)) {
+      return NextResponse.json({ error: `Unknown time zone ${timezone}` }, { status: 400 });
+    }
+
+    const mapping = {
+      id: body.id || randomUUID(),
+      name: body.name.trim(),
+      columnMap: body.columnMap as Record<string, string>,
+      timestampFormat,
+      timezone,
+    };
+    saveImportMapping(mapping);
+
+    // Saving under an existing name keeps that mapping's id
+    const rows = getImportMappings() as Parameters<typeof rowToImportMapping>[0][];
+    const saved = rows.find(r => r.name === mapping.name);
+    return NextResponse.json(saved ? rowToImportMapping(saved) : mapping);
+  } catch (error) {
+    console.error('Save import mapping error:', error);
+    return NextResponse.json({ error: 'Failed to save mapping' }, { status: 500 });
+  }
+}
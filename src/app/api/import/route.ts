@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { getImportMappingById } from '@/lib/database';
+import {
+  importProductionData,
+  isValidTimezone,
+  rowToImportMapping,
+  TIMESTAMP_FORMATS,
+} from '@/lib/import';
+import type { ImportMapping, TimestampFormat } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+// Multipart form fields:
+//   file            CSV or XLSX upload (required)
+//   mappingId       saved mapping to apply, or
+//   columnMap       JSON object of target field -> source column
+//   timestampFormat one of TIMESTAMP_FORMATS (default 'auto')
+//   timezone        IANA zone of the source timestamps (default 'UTC')
+//   dryRun          'true' to validate and preview without inserting
+export async function POST(request: Request) {
+  try {
+    const form = await request.formData();
+    const file = form.get('file');
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ error: 'A CSV or XLSX file is required' }, { status: 400 });
+    }
+
+    let mapping: Pick<ImportMapping, 'columnMap' | 'timestampFormat' | 'timezone'>;
+    const mappingId = form.get('mappingId');
+
+    if (typeof mappingId === 'string' && mappingId) {
+      const saved = getImportMappingById(mappingId) as Parameters<typeof rowToImportMapping>[0] | undefined;
+      if (!saved) {
+        return NextResponse.json({ error: `Mapping ${mappingId} not found` }, { status: 404 });
+      }
+      mapping = rowToImportMapping(saved);
+    } else {
+      let columnMap: ImportMapping['columnMap'] = {};
+      const rawMap = form.get('columnMap');
+      if (typeof rawMap === 'string' && rawMap) {
+        try {
+          columnMap = JSON.parse(rawMap);
+        } catch {
+          return NextResponse.json({ error: 'columnMap must be valid JSON' }, { status: 400 });
+        }
+      }
+
+      const timestampFormat = (form.get('timestampFormat') as TimestampFormat | null) || 'auto';
+      const timezone = (form.get('timezone') as string | null) || 'UTC';
+
+      if (!TIMESTAMP_FORMATS.includes(timestampFormat)) {
+        return NextResponse.json({ error: `Unknown timestamp format ${timestampFormat}` }, { status: 400 });
+      }
+      if (!isValidTimezone(timezone)) {
+        return NextResponse.json({ error: `Unknown time zone ${timezone}` }, { status: 400 });
+      }
+
+      mapping = { columnMap, timestampFormat, timezone };
+    }
+
+    const dryRun = form.get('dryRun') === 'true';
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const result = importProductionData(buffer, mapping, dryRun);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Import API error:', error);
+    return NextResponse.json({ error: 'Failed to import file' }, { status: 500 });
+  }
+}
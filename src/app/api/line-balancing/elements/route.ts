@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { getAllStations, getDefaultLineId, getLineById, replaceWorkElements } from '@/lib/database';
+import { getLineWorkElements, validateWorkElements } from '@/lib/line-balancing';
+import { readJsonObject } from '@/lib/request-body';
+import type { WorkElement } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const lineId = searchParams.get('lineId') || getDefaultLineId();
+    if (!lineId || !getLineById(lineId)) {
+      return NextResponse.json({ error: `Unknown line ${lineId}` }, { status: 404 });
+    }
+
+    return NextResponse.json({ lineId, elements: getLineWorkElements(lineId) });
+  } catch (error) {
+    console.error('Work elements API error:', error);
+    return NextResponse.json({ error: 'Failed to load work elements' }, { status: 500 });
+  }
+}
+
+// Replaces the line's work elements:
+// { lineId, elements: [{ id, name, duration, stationId, predecessors }] }
+export async function PUT(request: Request) {
+  try {
+    const parsed = await readJsonObject<{ lineId?: string; elements?: unknown }>(request);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const body = parsed.body;
+    const lineId = body.lineId || getDefaultLineId();
+    if (!lineId || !getLineById(lineId)) {
+      return NextResponse.json({ error: `Unknown line ${body.lineId}` }, { status: 400 });
+    }
+    if (!Array.isArray(body.elements)) {
+      return NextResponse.json({ error: 'elements must be an array' }, { status: 400 });
+    }
+
+    const elements: WorkElement[] = body.elements.map(element => {
+      const e = (element ?? {}) as Partial<WorkElement>;
+      return {
+        id: e.id as string,
+        name: e.name as string,
+        duration: e.duration as number,
+        stationId: e.stationId || null,
+        predecessors: e.predecessors ?? [],
+      };
+    });
+
+    const invalid = validateWorkElements(getAllStations(lineId) as Parameters<typeof validateWorkElements>[0], elements);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    replaceWorkElements(lineId, elements);
+    return NextResponse.json({ lineId, elements: getLineWorkElements(lineId) });
+  } catch (error) {
+    console.error('Update work elements error:', error);
+    return NextResponse.json({ error: 'Failed to update work elements' }, { status: 500 });
+  }
+}
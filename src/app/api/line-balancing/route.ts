@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { getDefaultLineId, getLineById } from '@/lib/database';
+import { BALANCING_PROBLEMS, MAX_WORK_ELEMENTS, balanceLine } from '@/lib/line-balancing';
+import { readJsonObject } from '@/lib/request-body';
+import type { BalancingProblem } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+type BalanceBody = {
+  lineId?: unknown;
+  problem?: unknown;
+  cycleTime?: unknown;
+  stationCount?: unknown;
+};
+
+// Checks a balancing request; returns the first problem found
+function validateBalance(body: BalanceBody): string | null {
+  if (!BALANCING_PROBLEMS.includes(body.problem as BalancingProblem)) {
+    return `problem must be one of ${BALANCING_PROBLEMS.join(', ')}`;
+  }
+  if (body.problem === 'salbp1') {
+    if (typeof body.cycleTime !== 'number' || !isFinite(body.cycleTime) || body.cycleTime <= 0) {
+      return 'cycleTime must be a number of seconds greater than 0';
+    }
+  } else if (
+    typeof body.stationCount !== 'number' || !Number.isInteger(body.stationCount) ||
+    body.stationCount < 1 || body.stationCount > MAX_WORK_ELEMENTS
+  ) {
+    return `stationCount must be a whole number between 1 and ${MAX_WORK_ELEMENTS}`;
+  }
+  return null;
+}
+
+// Balances the line's work elements: salbp1 finds the fewest stations for a takt (cycleTime),
+// salbp2 the shortest cycle time for a number of stations (stationCount)
+export async function POST(request: Request) {
+  try {
+    const parsed = await readJsonObject<BalanceBody>(request);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const body = parsed.body;
+
+    const error = validateBalance(body);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    const lineId = (typeof body.lineId === 'string' && body.lineId) || getDefaultLineId();
+    if (!lineId || !getLineById(lineId)) {
+      return NextResponse.json({ error: `Unknown line ${body.lineId}` }, { status: 404 });
+    }
+
+    const result = balanceLine(lineId, {
+      problem: body.problem as BalancingProblem,
+      cycleTime: body.cycleTime as number | undefined,
+      stationCount: body.stationCount as number | undefined,
+    });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.balance);
+  } catch (error) {
+    console.error('Line balancing API error:', error);
+    return NextResponse.json({ error: 'Failed to balance line' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { getPlants, getLines } from '@/lib/database';
+import type { Plant } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const plants = getPlants() as Array<{
+      id: string;
+      name: string;
+      location: string;
+      timezone: string;
+    }>;
+    const lines = getLines() as Array<{
+      id: string;
+      plant_id: string;
+      name: string;
+      description: string;
+    }>;
+
+    const result: Plant[] = plants.map(plant => ({
+      id: plant.id,
+      name: plant.name,
+      location: plant.location,
+      timezone: plant.timezone,
+      lines: lines
+        .filter(line => line.plant_id === plant.id)
+        .map(line => ({
+          id: line.id,
+          plantId: line.plant_id,
+          name: line.name,
+          description: line.description,
+        })),
+    }));
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Lines API error:', error);
+    return NextResponse.json([]);
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { getAllStations, getDefaultLineId, getLineById, replaceStationRoutes } from '@/lib/database';
+import { getLineTopology, validateRoutes } from '@/lib/topology';
+import { readJsonObject } from '@/lib/request-body';
+import type { StationRoute } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const lineId = searchParams.get('lineId') || getDefaultLineId();
+    if (!lineId || !getLineById(lineId)) {
+      return NextResponse.json({ error: `Unknown line ${lineId}` }, { status: 404 });
+    }
+
+    return NextResponse.json(getLineTopology(lineId));
+  } catch (error) {
+    console.error('Topology API error:', error);
+    return NextResponse.json({ error: 'Failed to load line topology' }, { status: 500 });
+  }
+}
+
+// Replaces the line's routing: { lineId, routes: [{ fromStationId, toStationId, kind, fraction }] }.
+// An empty list returns the line to serial flow in station order.
+export async function PUT(request: Request) {
+  try {
+    const parsed = await readJsonObject<{ lineId?: string; routes?: unknown }>(request);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const body = parsed.body;
+    const lineId = body.lineId || getDefaultLineId();
+    if (!lineId || !getLineById(lineId)) {
+      return NextResponse.json({ error: `Unknown line ${body.lineId}` }, { status: 400 });
+    }
+    if (!Array.isArray(body.routes)) {
+      return NextResponse.json({ error: 'routes must be an array' }, { status: 400 });
+    }
+
+    const routes: StationRoute[] = body.routes.map(route => {
+      const r = (route ?? {}) as Partial<StationRoute>;
+      return {
+        fromStationId: r.fromStationId as string,
+        toStationId: r.toStationId as string,
+        kind: r.kind ?? 'flow',
+        fraction: r.fraction ?? 1,
+      };
+    });
+
+    const invalid = validateRoutes(getAllStations(lineId) as Parameters<typeof validateRoutes>[0], routes);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    replaceStationRoutes(lineId, routes);
+    return NextResponse.json(getLineTopology(lineId));
+  } catch (error) {
+    console.error('Update topology error:', error);
+    return NextResponse.json({ error: 'Failed to update line topology' }, { status: 500 });
+  }
+}
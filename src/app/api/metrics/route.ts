@@ -1,57 +1,85 @@
 import { NextResponse } from 'next/server';
-import { getDatabase, getActiveAlerts, getBottleneckAnalysis } from '@/lib/database';
+import { getDatabase, getActiveAlerts, getBottleneckAnalysis, getHourCutoff, getDefaultLineId } from '@/lib/database';
+import { DEFAULT_ANALYSIS_CONFIG, getStationAnalysisConfigs } from '@/lib/analysis-config';
+import { getLineTopology } from '@/lib/topology';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET() {
+function clampPercent(value: number): number {
+  return Math.min(100, Math.max(0, value));
+}
+
+export async function GET(request: Request) {
   try {
     const db = getDatabase();
+    const { searchParams } = new URL(request.url);
+    const lineId = searchParams.get('lineId') || getDefaultLineId();
     
     // Get recent production data (last 24 hours)
-    const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    const cutoff = getHourCutoff(24);
     
     const productionStats = db.prepare(`
       SELECT 
         SUM(quantity) as total_output,
-        AVG(cycle_time) as avg_cycle_time,
+        SUM(cycle_time_sum) / NULLIF(SUM(record_count), 0) as avg_cycle_time,
         SUM(defects) as total_defects,
         SUM(downtime_minutes) as total_downtime,
-        COUNT(*) as record_count
-      FROM production_records
-      WHERE timestamp >= ?
-    `).get(cutoff) as {
+        SUM(record_count) as record_count,
+        SUM(target_cycle_time_sum) as total_target_time
+      FROM station_hourly_rollups r
+      JOIN stations s ON s.id = r.station_id
+      WHERE r.hour >= ? AND s.line_id = ?
+    `).get(cutoff, lineId) as {
       total_output: number;
       avg_cycle_time: number;
       total_defects: number;
       total_downtime: number;
       record_count: number;
+      total_target_time: number;
     };
     
     // Calculate metrics
     const totalOutput = productionStats?.total_output || 0;
     const avgCycleTime = productionStats?.avg_cycle_time || 0;
     const totalDefects = productionStats?.total_defects || 0;
-    const recordCount = productionStats?.record_count || 1;
     
-    // Get station count and target cycle times
-    const stationStats = db.prepare(`
-      SELECT 
-        COUNT(*) as station_count,
-        SUM(target_cycle_time) as total_target,
-        MAX(target_cycle_time) as max_target
-      FROM stations
-    `).get() as {
-      station_count: number;
-      total_target: number;
-      max_target: number;
+    // Get target cycle times for the product mix built at each station, and its output
+    const stationTargets = db.prepare(`
+      SELECT s.id as station_id, COALESCE(
+        SUM(r.target_cycle_time_sum) / NULLIF(SUM(r.record_count), 0), s.target_cycle_time
+      ) as target_cycle_time,
+      COALESCE(SUM(r.quantity), 0) as output
+      FROM stations s
+      LEFT JOIN station_hourly_rollups r ON s.id = r.station_id AND r.hour >= ?
+      WHERE s.line_id = ?
+      GROUP BY s.id
+    `).all(cutoff, lineId) as Array<{ station_id: string; target_cycle_time: number; output: number }>;
+    const stationStats = {
+      station_count: stationTargets.length,
+      total_target: stationTargets.reduce((sum, s) => sum + s.target_cycle_time, 0),
     };
     
-    // Calculate throughput (units per hour based on last 24h)
-    const currentThroughput = Math.round(totalOutput / 24);
-    const targetThroughput = Math.round(3600 / (stationStats?.max_target || 120));
+    // Calculate throughput in finished units per hour (last 24h). Finished units leave at the
+    // line's sink stations, whose output is divided by their visits per unit so rework passes
+    // don't count twice. The target rate is set by the station with the most target seconds
+    // per finished unit once its parallel units and visit ratio are accounted for.
+    const nodes = lineId ? getLineTopology(lineId).nodes : [];
+    const sinks = nodes.filter(n => n.downstreamCount === 0);
+    const sinkOutput = stationTargets
+      .filter(station => sinks.some(n => n.stationId === station.station_id))
+      .reduce((sum, station) => sum + station.output, 0);
+    const sinkVisits = sinks.reduce((sum, n) => sum + n.visitRatio, 0);
+    const currentThroughput = sinkVisits > 0 ? Math.round(sinkOutput / sinkVisits / 24) : 0;
+    const maxTargetPerUnit = Math.max(0, ...stationTargets.map(station => {
+      const node = nodes.find(n => n.stationId === station.station_id);
+      return (station.target_cycle_time * (node?.visitRatio ?? 1)) / (node?.parallelUnits ?? 1);
+    }));
+    const targetThroughput = Math.round(3600 / (maxTargetPerUnit || 120));
     
-    // Calculate line efficiency
-    const avgTargetCycleTime = (stationStats?.total_target || 0) / (stationStats?.station_count || 1);
+    // Calculate line efficiency against the target of each record's product
+    const avgTargetCycleTime = productionStats?.record_count
+      ? productionStats.total_target_time / productionStats.record_count
+      : (stationStats?.total_target || 0) / (stationStats?.station_count || 1);
     const lineEfficiency = avgTargetCycleTime > 0 
       ? Math.min(100, (avgTargetCycleTime / avgCycleTime) * 100)
       : 75;
@@ -62,18 +90,21 @@ export async function GET() {
       : 99;
     
     // Get active alerts count
-    const alerts = getActiveAlerts();
+    const alerts = getActiveAlerts(lineId) as Array<{ acknowledged: number }>;
     const activeAlerts = alerts.filter((a: { acknowledged: number }) => !a.acknowledged).length;
     
-    // Get bottleneck count (stations with variance > 10%)
-    const bottleneckAnalysis = getBottleneckAnalysis(24);
+    // Get bottleneck count (stations over their high severity threshold)
+    const bottleneckAnalysis = getBottleneckAnalysis(24, lineId) as Array<{ station_id: string; variance_percent: number | null }>;
+    const analysisConfigs = getStationAnalysisConfigs(lineId);
     const bottleneckCount = bottleneckAnalysis.filter(
-      (b: { variance_percent: number | null }) => (b.variance_percent || 0) > 10
+      b => (b.variance_percent || 0) > (analysisConfigs[b.station_id]?.severityThresholds ?? DEFAULT_ANALYSIS_CONFIG.severityThresholds).high
     ).length;
     
-    // Calculate OEE components
-    const availabilityRate = Math.min(100, 100 - ((productionStats?.total_downtime || 0) / (24 * 60)) * 100);
-    const performanceRate = Math.min(100, (avgTargetCycleTime / avgCycleTime) * 100);
+    // Calculate OEE components. Downtime is summed over the line's stations, so availability is
+    // judged against the planned time of every station, and each rate stays within 0-100.
+    const plannedMinutes = 24 * 60 * (stationStats?.station_count || 1);
+    const availabilityRate = clampPercent(100 - ((productionStats?.total_downtime || 0) / plannedMinutes) * 100);
+    const performanceRate = avgCycleTime > 0 ? clampPercent((avgTargetCycleTime / avgCycleTime) * 100) : 0;
     const oee = (availabilityRate / 100) * (performanceRate / 100) * (qualityRate / 100) * 100;
     
     return NextResponse.json({
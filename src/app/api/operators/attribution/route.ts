@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getDefaultLineId, getStationById } from '@/lib/database';
+import { DEFAULT_ATTRIBUTION_HOURS, getOperatorAttribution } from '@/lib/operator-attribution';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_HOURS = 24 * 90;
+
+// Each operator against peers at the same station, shift and weekday
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const lineId = searchParams.get('lineId') || getDefaultLineId();
+    const stationId = searchParams.get('stationId') || undefined;
+    const hours = Number(searchParams.get('hours') || DEFAULT_ATTRIBUTION_HOURS);
+
+    if (!Number.isInteger(hours) || hours < 24 || hours > MAX_HOURS) {
+      return NextResponse.json({ error: `hours must be a whole number between 24 and ${MAX_HOURS}` }, { status: 400 });
+    }
+    if (stationId && !getStationById(stationId)) {
+      return NextResponse.json({ error: 'Station not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(getOperatorAttribution({ lineId, stationId, hours }));
+  } catch (error) {
+    console.error('Operator attribution API error:', error);
+    return NextResponse.json({ error: 'Failed to compare operators' }, { status: 500 });
+  }
+}
@@ -0,0 +1,225 @@
+import { NextResponse } from 'next/server';
+import {
+  assignOperator,
+  deactivateOperator,
+  getDatabase,
+  getDefaultLineId,
+  getOperatorById,
+  getOperators,
+  getStationById,
+  insertOperator,
+  reactivateOperator,
+  updateOperator,
+} from '@/lib/database';
+import { readJsonObject } from '@/lib/request-body';
+import type { Operator } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+const SHIFTS: Operator['shift'][] = ['day', 'night', 'swing'];
+
+type OperatorRow = {
+  id: string;
+  line_id: string;
+  name: string;
+  shift: Operator['shift'];
+  skill_level: number;
+  station_id: string | null;
+  efficiency: number;
+  active: number;
+  deactivated_at: string | null;
+};
+
+type StationRow = {
+  id: string;
+  line_id: string;
+};
+
+function toOperator(row: OperatorRow): Operator {
+  return {
+    id: row.id,
+    lineId: row.line_id,
+    name: row.name,
+    shift: row.shift,
+    skillLevel: row.skill_level,
+    stationId: row.station_id,
+    efficiency: row.efficiency,
+    active: row.active === 1,
+    deactivatedAt: row.deactivated_at,
+  };
+}
+
+// Checks the editable fields that are present; returns the first problem found
+function validateOperatorFields(body: Partial<Operator>): string | null {
+  if (body.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) {
+    return 'Operator name cannot be empty';
+  }
+  if (body.shift !== undefined && !SHIFTS.includes(body.shift)) {
+    return `shift must be one of ${SHIFTS.join(', ')}`;
+  }
+  if (
+    body.skillLevel !== undefined &&
+    (typeof body.skillLevel !== 'number' || !Number.isInteger(body.skillLevel) || body.skillLevel < 1 || body.skillLevel > 5)
+  ) {
+    return 'skillLevel must be a whole number from 1 to 5';
+  }
+  if (
+    body.efficiency !== undefined &&
+    (typeof body.efficiency !== 'number' || !isFinite(body.efficiency) || body.efficiency <= 0 || body.efficiency > 200)
+  ) {
+    return 'efficiency must be a percentage between 0 and 200';
+  }
+  return null;
+}
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const lineId = searchParams.get('lineId') || getDefaultLineId();
+    const includeInactive = searchParams.get('includeInactive') === 'true';
+
+    const operators = getOperators(lineId, includeInactive) as OperatorRow[];
+    return NextResponse.json(operators.map(toOperator));
+  } catch (error) {
+    console.error('Operators API error:', error);
+    return NextResponse.json([]);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const parsed = await readJsonObject<Partial<Operator>>(request);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const body = parsed.body;
+
+    if (!body.id || typeof body.id !== 'string' || !body.id.trim()) {
+      return NextResponse.json({ error: 'Operator id is required' }, { status: 400 });
+    }
+    if (!body.name) {
+      return NextResponse.json({ error: 'Operator name is required' }, { status: 400 });
+    }
+    if (!body.shift) {
+      return NextResponse.json({ error: 'shift is required' }, { status: 400 });
+    }
+    if (!body.stationId) {
+      return NextResponse.json({ error: 'stationId is required' }, { status: 400 });
+    }
+
+    const invalid = validateOperatorFields(body);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const id = body.id.trim();
+    if (getOperatorById(id)) {
+      return NextResponse.json({ error: `Operator ${id} already exists` }, { status: 409 });
+    }
+
+    const station = getStationById(body.stationId) as StationRow | undefined;
+    if (!station) {
+      return NextResponse.json({ error: `Unknown station ${body.stationId}` }, { status: 400 });
+    }
+
+    insertOperator({
+      id,
+      name: body.name.trim(),
+      shift: body.shift,
+      skillLevel: body.skillLevel,
+      stationId: station.id,
+      lineId: station.line_id,
+      efficiency: body.efficiency,
+    });
+
+    return NextResponse.json(toOperator(getOperatorById(id) as OperatorRow), { status: 201 });
+  } catch (error) {
+    console.error('Create operator error:', error);
+    return NextResponse.json({ error: 'Failed to create operator' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: Request) {
+  try {
+    const parsed = await readJsonObject<Partial<Operator> & { effectiveFrom?: string }>(request);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const body = parsed.body;
+
+    if (!body.id || typeof body.id !== 'string') {
+      return NextResponse.json({ error: 'Operator id is required' }, { status: 400 });
+    }
+    const existing = getOperatorById(body.id) as OperatorRow | undefined;
+    if (!existing) {
+      return NextResponse.json({ error: `Operator ${body.id} not found` }, { status: 404 });
+    }
+
+    const invalid = validateOperatorFields(body);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+    if (body.active !== undefined && typeof body.active !== 'boolean') {
+      return NextResponse.json({ error: 'active must be true or false' }, { status: 400 });
+    }
+
+    // Operators move between stations of their own line only
+    let station: StationRow | undefined;
+    if (body.stationId !== undefined && body.stationId !== null) {
+      station = getStationById(body.stationId) as StationRow | undefined;
+      if (!station) {
+        return NextResponse.json({ error: `Unknown station ${body.stationId}` }, { status: 400 });
+      }
+      if (station.line_id !== existing.line_id) {
+        return NextResponse.json(
+          { error: `Station ${station.id} is not on operator ${existing.id}'s line` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const reactivating = body.active === true && existing.active === 0;
+    const deactivating = body.active === false && existing.active === 1;
+    if (reactivating && !station) {
+      return NextResponse.json({ error: 'stationId is required to reactivate an operator' }, { status: 400 });
+    }
+    if (station && !reactivating && (existing.active === 0 || deactivating)) {
+      return NextResponse.json({ error: 'Inactive operators cannot be reassigned' }, { status: 400 });
+    }
+
+    // Reassignments apply from now unless back-dated to correct the record
+    let effectiveFrom: string | undefined;
+    if (body.effectiveFrom !== undefined && body.effectiveFrom !== null && body.effectiveFrom !== '') {
+      const parsed = new Date(body.effectiveFrom);
+      if (isNaN(parsed.getTime())) {
+        return NextResponse.json({ error: 'effectiveFrom must be a valid date' }, { status: 400 });
+      }
+      if (parsed.getTime() > Date.now()) {
+        return NextResponse.json({ error: 'effectiveFrom cannot be in the future' }, { status: 400 });
+      }
+      effectiveFrom = parsed.toISOString();
+    }
+
+    const db = getDatabase();
+    db.transaction(() => {
+      updateOperator(existing.id, {
+        name: body.name?.trim(),
+        shift: body.shift,
+        skillLevel: body.skillLevel,
+        efficiency: body.efficiency,
+      });
+      if (deactivating) {
+        deactivateOperator(existing.id);
+      } else if (reactivating) {
+        reactivateOperator(existing.id, station!.id);
+      } else if (station && station.id !== existing.station_id) {
+        assignOperator({ operatorId: existing.id, stationId: station.id, effectiveFrom });
+      }
+    })();
+
+    return NextResponse.json(toOperator(getOperatorById(existing.id) as OperatorRow));
+  } catch (error) {
+    console.error('Update operator error:', error);
+    return NextResponse.json({ error: 'Failed to update operator' }, { status: 500 });
+  }
+}
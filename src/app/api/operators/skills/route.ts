@@ -0,0 +1,150 @@
+import { NextResponse } from 'next/server';
+import {
+  deleteOperatorSkill,
+  getDefaultLineId,
+  getOperatorById,
+  getOperatorSkills,
+  getStationById,
+  saveOperatorSkill,
+} from '@/lib/database';
+import { readJsonObject } from '@/lib/request-body';
+import type { OperatorSkill } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+// Certifications inside this window are flagged for renewal
+const EXPIRY_WARNING_DAYS = 30;
+
+type SkillRow = {
+  operator_id: string;
+  operator_name: string;
+  station_id: string;
+  station_name: string;
+  certified: number;
+  proficiency: number;
+  certified_at: string | null;
+  expires_at: string | null;
+};
+
+function getCertificationStatus(row: SkillRow, now: number): OperatorSkill['status'] {
+  if (!row.certified) return 'uncertified';
+  if (!row.expires_at) return 'certified';
+
+  const expires = new Date(row.expires_at).getTime();
+  if (expires <= now) return 'expired';
+  if (expires - now <= EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000) return 'expiring';
+  return 'certified';
+}
+
+function toSkill(row: SkillRow, now: number): OperatorSkill {
+  return {
+    operatorId: row.operator_id,
+    operatorName: row.operator_name,
+    stationId: row.station_id,
+    stationName: row.station_name,
+    certified: row.certified === 1,
+    proficiency: row.proficiency,
+    certifiedAt: row.certified_at,
+    expiresAt: row.expires_at,
+    status: getCertificationStatus(row, now),
+  };
+}
+
+function parseOptionalDate(value: unknown): string | null | undefined {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = new Date(value as string);
+  return isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+}
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const stationId = searchParams.get('stationId') || undefined;
+    const operatorId = searchParams.get('operatorId') || undefined;
+    // A station or operator filter already pins the line
+    const lineId = stationId || operatorId ? null : searchParams.get('lineId') || getDefaultLineId();
+    const includeInactive = searchParams.get('includeInactive') === 'true';
+
+    const now = Date.now();
+    const skills = (getOperatorSkills({ lineId, stationId, operatorId }) as Array<SkillRow & { active: number }>)
+      .filter(row => includeInactive || row.active === 1)
+      .map(row => toSkill(row, now));
+
+    return NextResponse.json(skills);
+  } catch (error) {
+    console.error('Operator skills API error:', error);
+    return NextResponse.json([]);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const parsed = await readJsonObject<Partial<OperatorSkill>>(request);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const body = parsed.body;
+
+    if (!body.operatorId || !getOperatorById(body.operatorId)) {
+      return NextResponse.json({ error: `Unknown operator ${body.operatorId}` }, { status: 400 });
+    }
+    if (!body.stationId || !getStationById(body.stationId)) {
+      return NextResponse.json({ error: `Unknown station ${body.stationId}` }, { status: 400 });
+    }
+    if (typeof body.certified !== 'boolean') {
+      return NextResponse.json({ error: 'certified must be true or false' }, { status: 400 });
+    }
+    if (
+      typeof body.proficiency !== 'number' ||
+      !Number.isInteger(body.proficiency) ||
+      body.proficiency < 1 ||
+      body.proficiency > 5
+    ) {
+      return NextResponse.json({ error: 'proficiency must be a whole number from 1 to 5' }, { status: 400 });
+    }
+
+    const certifiedAt = parseOptionalDate(body.certifiedAt);
+    const expiresAt = parseOptionalDate(body.expiresAt);
+    if (certifiedAt === undefined || expiresAt === undefined) {
+      return NextResponse.json({ error: 'certifiedAt and expiresAt must be valid dates' }, { status: 400 });
+    }
+    if (certifiedAt && expiresAt && expiresAt <= certifiedAt) {
+      return NextResponse.json({ error: 'expiresAt must be after certifiedAt' }, { status: 400 });
+    }
+
+    // Uncertified entries record training progress only
+    saveOperatorSkill({
+      operatorId: body.operatorId,
+      stationId: body.stationId,
+      certified: body.certified,
+      proficiency: body.proficiency,
+      certifiedAt: body.certified ? certifiedAt ?? new Date().toISOString() : null,
+      expiresAt: body.certified ? expiresAt : null,
+    });
+
+    const saved = getOperatorSkills({ operatorId: body.operatorId, stationId: body.stationId }) as SkillRow[];
+    return NextResponse.json(toSkill(saved[0], Date.now()));
+  } catch (error) {
+    console.error('Save operator skill error:', error);
+    return NextResponse.json({ error: 'Failed to save operator skill' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const operatorId = searchParams.get('operatorId');
+    const stationId = searchParams.get('stationId');
+    if (!operatorId || !stationId) {
+      return NextResponse.json({ error: 'operatorId and stationId are required' }, { status: 400 });
+    }
+
+    if (!deleteOperatorSkill(operatorId, stationId)) {
+      return NextResponse.json({ error: `No skill recorded for ${operatorId} at ${stationId}` }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete operator skill error:', error);
+    return NextResponse.json({ error: 'Failed to delete operator skill' }, { status: 500 });
+  }
+}
@@ -0,0 +1,122 @@
+import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import {
+  getAllStations,
+  getDatabase,
+  getDefaultLineId,
+  getLineById,
+  getProductById,
+  getProductTargets,
+  getProducts,
+  saveProduct,
+} from '@/lib/database';
+import { readJsonObject } from '@/lib/request-body';
+import type { Product } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+type ProductRow = {
+  id: string;
+  line_id: string | null;
+  sku: string;
+  name: string;
+  description: string | null;
+};
+
+type TargetRow = {
+  station_id: string;
+  product_id: string;
+  target_cycle_time: number;
+};
+
+function toProduct(row: ProductRow, targets: TargetRow[]): Product {
+  return {
+    id: row.id,
+    lineId: row.line_id,
+    sku: row.sku,
+    name: row.name,
+    description: row.description || '',
+    targets: targets
+      .filter(t => t.product_id === row.id)
+      .map(t => ({ stationId: t.station_id, targetCycleTime: t.target_cycle_time })),
+  };
+}
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const lineId = searchParams.get('lineId') || getDefaultLineId();
+
+    const products = getProducts(lineId) as ProductRow[];
+    const targets = getProductTargets() as TargetRow[];
+
+    return NextResponse.json(products.map(p => toProduct(p, targets)));
+  } catch (error) {
+    console.error('Products API error:', error);
+    return NextResponse.json([]);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const parsed = await readJsonObject<Partial<Product>>(request);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const body = parsed.body;
+
+    if (!body.sku || typeof body.sku !== 'string') {
+      return NextResponse.json({ error: 'SKU is required' }, { status: 400 });
+    }
+    if (!body.name || typeof body.name !== 'string') {
+      return NextResponse.json({ error: 'Product name is required' }, { status: 400 });
+    }
+
+    if (body.lineId && !getLineById(body.lineId)) {
+      return NextResponse.json({ error: `Unknown line ${body.lineId}` }, { status: 400 });
+    }
+
+    const targets = body.targets ?? [];
+    if (!Array.isArray(targets)) {
+      return NextResponse.json({ error: 'targets must be an array' }, { status: 400 });
+    }
+
+    const stationIds = new Set((getAllStations() as Array<{ id: string }>).map(s => s.id));
+    for (const target of targets) {
+      if (!stationIds.has(target?.stationId)) {
+        return NextResponse.json({ error: `Unknown station ${target?.stationId}` }, { status: 400 });
+      }
+      if (typeof target.targetCycleTime !== 'number' || !(target.targetCycleTime > 0)) {
+        return NextResponse.json(
+          { error: `Target cycle time for ${target.stationId} must be a positive number` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const sku = body.sku.trim();
+    const id = body.id || randomUUID();
+    const existing = getDatabase().prepare('SELECT id FROM products WHERE sku = ?').get(sku) as
+      | { id: string }
+      | undefined;
+    if (existing && existing.id !== id) {
+      return NextResponse.json({ error: `SKU ${sku} already belongs to product ${existing.id}` }, { status: 409 });
+    }
+
+    saveProduct({
+      id,
+      lineId: body.lineId ?? null,
+      sku,
+      name: body.name.trim(),
+      description: body.description,
+      targets,
+    });
+
+    return NextResponse.json(
+      toProduct(getProductById(id) as ProductRow, getProductTargets(id) as TargetRow[])
+    );
+  } catch (error) {
+    console.error('Save product error:', error);
+    return NextResponse.json({ error: 'Failed to save product' }, { status: 500 });
+  }
+}
@@ -1,25 +1,34 @@
 import { NextResponse } from 'next/server';
-import { getDatabase, executeSQL } from '@/lib/database';
+import { getDatabase, executeSQL, getDefaultLineId } from '@/lib/database';
 import { parseNaturalLanguageQuery, generateAgentResponse } from '@/lib/agent';
+import { readJsonObject } from '@/lib/request-body';
 
 export const dynamic = 'force-dynamic';
 
 export async function POST(request: Request) {
   try {
-    const { query } = await request.json();
+    const parsed = await readJsonObject<{ query?: unknown; lineId?: unknown }>(request);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { query, lineId: requestedLineId } = parsed.body;
     
     if (!query || typeof query !== 'string') {
       return NextResponse.json({ error: 'Query is required' }, { status: 400 });
     }
     
+    const lineId = typeof requestedLineId === 'string' && requestedLineId
+      ? requestedLineId
+      : getDefaultLineId();
+
     // Parse the natural language query
-    const parsedQuery = parseNaturalLanguageQuery(query);
+    const parsedQuery = parseNaturalLanguageQuery(query, lineId);
     
     let data: Record<string, unknown>[] = [];
     
     try {
       // Execute the generated SQL
-      data = executeSQL(parsedQuery.sql) as Record<string, unknown>[];
+      data = executeSQL(parsedQuery.sql, parsedQuery.params) as Record<string, unknown>[];
     } catch (sqlError) {
       console.error('SQL execution error:', sqlError);
       // Return a helpful response even if SQL fails
@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { RECOMMENDATION_STATUSES, updateRecommendation } from '@/lib/recommendations';
+import { readJsonObject } from '@/lib/request-body';
+import type { RecommendationStatus } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+type UpdateBody = {
+  status?: unknown;
+  owner?: unknown;
+  note?: unknown;
+  at?: unknown;
+  updatedBy?: unknown;
+};
+
+function isOptionalText(value: unknown): boolean {
+  return value === undefined || value === null || typeof value === 'string';
+}
+
+// Checks a lifecycle update; returns the first problem found
+function validateUpdate(body: UpdateBody): string | null {
+  if (body.status !== undefined && !RECOMMENDATION_STATUSES.includes(body.status as RecommendationStatus)) {
+    return `status must be one of ${RECOMMENDATION_STATUSES.join(', ')}`;
+  }
+  if (body.status === undefined && body.owner === undefined && body.note === undefined) {
+    return 'status, owner or note is required';
+  }
+  if (!isOptionalText(body.owner)) return 'owner must be a string';
+  if (!isOptionalText(body.note)) return 'note must be a string';
+
+  if (body.at !== undefined) {
+    if (body.status === undefined || body.status === 'verified') {
+      return 'at can only be given with a status other than verified';
+    }
+    const at = typeof body.at === 'string' ? new Date(body.at) : null;
+    if (!at || isNaN(at.getTime())) return 'at must be an ISO timestamp';
+    if (at > new Date()) return 'at cannot be in the future';
+  }
+
+  if (typeof body.updatedBy !== 'string' || !body.updatedBy.trim()) return 'updatedBy is required';
+  return null;
+}
+
+function trimmed(value: unknown): string | null | undefined {
+  if (value === undefined) return undefined;
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+// Moves a recommendation along proposed → accepted → implemented → verified (or rejected),
+// or reassigns or annotates it. Verifying measures the station before and after implementation.
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const parsed = await readJsonObject<UpdateBody>(request);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const body = parsed.body;
+
+    const error = validateUpdate(body);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const result = updateRecommendation(params.id, {
+      status: body.status as RecommendationStatus | undefined,
+      owner: trimmed(body.owner),
+      note: trimmed(body.note),
+      at: body.at !== undefined ? new Date(body.at as string).toISOString() : undefined,
+      updatedBy: (body.updatedBy as string).trim(),
+    });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.recommendation);
+  } catch (error) {
+    console.error('Update recommendation error:', error);
+    return NextResponse.json({ error: 'Failed to update recommendation' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { getDefaultLineId } from '@/lib/database';
+import {
+  RECOMMENDATION_STATUSES,
+  getTrackRecords,
+  listRecommendations,
+  verifyDueRecommendations,
+} from '@/lib/recommendations';
+import type { RecommendationStatus } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+// Stored recommendations with their lifecycle, and how far each type has delivered;
+// implemented recommendations whose verification week has passed are verified first
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const lineId = searchParams.get('lineId') || getDefaultLineId();
+    const stationId = searchParams.get('stationId') || undefined;
+    const status = searchParams.get('status');
+
+    if (status !== null && !RECOMMENDATION_STATUSES.includes(status as RecommendationStatus)) {
+      return NextResponse.json(
+        { error: `status must be one of ${RECOMMENDATION_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    verifyDueRecommendations(lineId);
+
+    return NextResponse.json({
+      recommendations: listRecommendations({
+        lineId,
+        stationId,
+        status: (status as RecommendationStatus | null) ?? undefined,
+      }),
+      trackRecords: Object.values(getTrackRecords(lineId)),
+    });
+  } catch (error) {
+    console.error('Recommendations API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch recommendations' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { ingestProductionRecords, MAX_BATCH_SIZE } from '@/lib/ingest';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+    }
+
+    // Accept a single record, a bare array, or { records: [...] }
+    const rows = Array.isArray(body)
+      ? body
+      : body && typeof body === 'object' && Array.isArray((body as { records?: unknown }).records)
+        ? (body as { records: unknown[] }).records
+        : [body];
+
+    if (rows.length === 0) {
+      return NextResponse.json({ error: 'At least one record is required' }, { status: 400 });
+    }
+    if (rows.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `Batch too large: ${rows.length} records (max ${MAX_BATCH_SIZE})` },
+        { status: 413 }
+      );
+    }
+
+    const result = ingestProductionRecords(rows);
+
+    // Nothing accepted means the caller needs to fix the payload
+    const status = result.inserted === 0 ? 422 : 200;
+    return NextResponse.json(result, { status });
+  } catch (error) {
+    console.error('Records API error:', error);
+    return NextResponse.json({ error: 'Failed to ingest production records' }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { getDefaultLineId, getHourCutoff, getStationStateEvents } from '@/lib/database';
+import { ingestStationStateEvents, MAX_BATCH_SIZE } from '@/lib/ingest';
+import type { StationStateEvent } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+type StationStateEventRow = ReturnType<typeof getStationStateEvents>[number];
+
+function toStationStateEvent(row: StationStateEventRow): StationStateEvent {
+  return {
+    id: row.id,
+    stationId: row.station_id,
+    state: row.state,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    durationSeconds: row.duration_seconds,
+    reason: row.reason ?? undefined,
+  };
+}
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const stationId = searchParams.get('stationId') || undefined;
+    const lineId = stationId ? null : searchParams.get('lineId') || getDefaultLineId();
+    const hours = parseInt(searchParams.get('hours') || '24');
+    const limit = Math.min(5000, parseInt(searchParams.get('limit') || '1000'));
+
+    const events = getStationStateEvents({
+      stationId,
+      lineId,
+      since: getHourCutoff(hours).replace(' ', 'T'),
+      limit,
+    });
+    return NextResponse.json(events.map(toStationStateEvent));
+  } catch (error) {
+    console.error('Station states API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch station state events' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+    }
+
+    // Accept a single event, a bare array, or { events: [...] }
+    const rows = Array.isArray(body)
+      ? body
+      : body && typeof body === 'object' && Array.isArray((body as { events?: unknown }).events)
+        ? (body as { events: unknown[] }).events
+        : [body];
+
+    if (rows.length === 0) {
+      return NextResponse.json({ error: 'At least one event is required' }, { status: 400 });
+    }
+    if (rows.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `Batch too large: ${rows.length} events (max ${MAX_BATCH_SIZE})` },
+        { status: 413 }
+      );
+    }
+
+    const result = ingestStationStateEvents(rows);
+
+    const status = result.inserted === 0 ? 422 : 200;
+    return NextResponse.json(result, { status });
+  } catch (error) {
+    console.error('Station states API error:', error);
+    return NextResponse.json({ error: 'Failed to ingest station state events' }, { status: 500 });
+  }
+}
@@ -1,44 +1,58 @@
 import { NextResponse } from 'next/server';
-import { getDatabase } from '@/lib/database';
+import { getDatabase, getHourCutoff, getDefaultLineId } from '@/lib/database';
 import { runSimulation } from '@/lib/agent';
+import { getLineTopology } from '@/lib/topology';
+import { readJsonObject } from '@/lib/request-body';
 import type { SimulationChange } from '@/types';
 
 export const dynamic = 'force-dynamic';
 
 export async function POST(request: Request) {
   try {
-    const { changes } = await request.json() as { changes: SimulationChange[] };
+    const parsed = await readJsonObject<{ changes?: SimulationChange[]; lineId?: string }>(request);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { changes, lineId: requestedLineId } = parsed.body;
     
     if (!changes || !Array.isArray(changes)) {
       return NextResponse.json({ error: 'Changes array is required' }, { status: 400 });
     }
     
     const db = getDatabase();
-    const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    const cutoff = getHourCutoff(24);
+    const lineId = requestedLineId || getDefaultLineId();
+    if (!lineId) {
+      return NextResponse.json({ error: 'lineId is required' }, { status: 400 });
+    }
     
     // Get current station data
     const stationData = db.prepare(`
       SELECT 
         s.id,
         s.name,
-        s.target_cycle_time as targetCycleTime,
+        COALESCE(SUM(r.target_cycle_time_sum) / NULLIF(SUM(r.record_count), 0), s.target_cycle_time) as targetCycleTime,
         s.operator_count as operatorCount,
-        COALESCE(AVG(pr.cycle_time), s.target_cycle_time) as avgCycleTime
+        s.parallel_units as parallelUnits,
+        COALESCE(SUM(r.cycle_time_sum) / NULLIF(SUM(r.record_count), 0), s.target_cycle_time) as avgCycleTime
       FROM stations s
-      LEFT JOIN production_records pr ON s.id = pr.station_id AND pr.timestamp >= ?
+      LEFT JOIN station_hourly_rollups r ON s.id = r.station_id AND r.hour >= ?
+      WHERE s.line_id = ?
       GROUP BY s.id
       ORDER BY s.position
-    `).all(cutoff) as Array<{
+    `).all(cutoff, lineId) as Array<{
       id: string;
       name: string;
       targetCycleTime: number;
       operatorCount: number;
+      parallelUnits: number;
       avgCycleTime: number;
     }>;
     
     // Run simulation
     const results = runSimulation({
       stations: stationData,
+      topology: getLineTopology(lineId),
       changes,
     });
     
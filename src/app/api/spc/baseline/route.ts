@@ -0,0 +1,130 @@
+import { NextResponse } from 'next/server';
+import { deleteSpcBaseline, getStationById, saveSpcBaseline } from '@/lib/database';
+import {
+  countBaselinePoints,
+  getSpcChartSet,
+  MAX_SUBGROUP_SIZE,
+  MIN_BASELINE_POINTS,
+  MIN_SUBGROUP_SIZE,
+  raiseSpcAlerts,
+  SPC_CHART_TYPES,
+  SPC_METRICS,
+} from '@/lib/spc';
+import { readJsonObject } from '@/lib/request-body';
+import type { SpcChartType, SpcMetric } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+type BaselineBody = {
+  stationId?: unknown;
+  metric?: unknown;
+  chartType?: unknown;
+  subgroupSize?: unknown;
+  from?: unknown;
+  to?: unknown;
+  updatedBy?: unknown;
+};
+
+function parseInstant(value: unknown): Date | null {
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Checks a baseline request; returns the first problem found
+function validateBaseline(body: BaselineBody): string | null {
+  if (typeof body.stationId !== 'string' || !body.stationId) return 'stationId is required';
+  if (!SPC_METRICS.includes(body.metric as SpcMetric)) return `metric must be one of ${SPC_METRICS.join(', ')}`;
+  if (!SPC_CHART_TYPES.includes(body.chartType as SpcChartType)) {
+    return `chartType must be one of ${SPC_CHART_TYPES.join(', ')}`;
+  }
+  if (
+    body.chartType === 'xbar_r' &&
+    (typeof body.subgroupSize !== 'number' || !Number.isInteger(body.subgroupSize) ||
+      body.subgroupSize < MIN_SUBGROUP_SIZE || body.subgroupSize > MAX_SUBGROUP_SIZE)
+  ) {
+    return `subgroupSize must be a whole number between ${MIN_SUBGROUP_SIZE} and ${MAX_SUBGROUP_SIZE}`;
+  }
+
+  const from = parseInstant(body.from);
+  const to = parseInstant(body.to);
+  if (!from || !to) return 'from and to must be ISO timestamps';
+  if (to <= from) return 'to must be after from';
+  if (to > new Date()) return 'The baseline cannot extend into the future';
+
+  if (typeof body.updatedBy !== 'string' || !body.updatedBy.trim()) return 'updatedBy is required';
+  return null;
+}
+
+// Fixes the period a station's control limits come from, then re-checks the current
+// window against the new limits
+export async function PUT(request: Request) {
+  try {
+    const parsed = await readJsonObject<BaselineBody>(request);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const body = parsed.body;
+
+    const error = validateBaseline(body);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    const stationId = body.stationId as string;
+    if (!getStationById(stationId)) {
+      return NextResponse.json({ error: 'Station not found' }, { status: 404 });
+    }
+
+    const baseline = {
+      stationId,
+      metric: body.metric as SpcMetric,
+      chartType: body.chartType as SpcChartType,
+      subgroupSize: body.chartType === 'i_mr' ? 1 : body.subgroupSize as number,
+      from: new Date(body.from as string).toISOString(),
+      to: new Date(body.to as string).toISOString(),
+    };
+
+    const points = countBaselinePoints(baseline);
+    if (points < MIN_BASELINE_POINTS) {
+      return NextResponse.json(
+        { error: `The baseline has ${points} points; at least ${MIN_BASELINE_POINTS} are needed for control limits` },
+        { status: 422 }
+      );
+    }
+
+    saveSpcBaseline({ ...baseline, updatedBy: (body.updatedBy as string).trim() });
+    const alertsRaised = raiseSpcAlerts([stationId]);
+
+    return NextResponse.json({
+      chartSet: getSpcChartSet({ stationId, metric: baseline.metric }),
+      alertsRaised,
+    });
+  } catch (error) {
+    console.error('Save SPC baseline error:', error);
+    return NextResponse.json({ error: 'Failed to save SPC baseline' }, { status: 500 });
+  }
+}
+
+// Returns a station's metric to the default baseline, the week before the charted window
+export async function DELETE(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const stationId = searchParams.get('stationId');
+    const metric = searchParams.get('metric');
+
+    if (!stationId) {
+      return NextResponse.json({ error: 'stationId is required' }, { status: 400 });
+    }
+    if (!SPC_METRICS.includes(metric as SpcMetric)) {
+      return NextResponse.json({ error: `metric must be one of ${SPC_METRICS.join(', ')}` }, { status: 400 });
+    }
+    if (!deleteSpcBaseline(stationId, metric as SpcMetric)) {
+      return NextResponse.json({ error: 'No stored baseline for this station and metric' }, { status: 404 });
+    }
+
+    return NextResponse.json({ chartSet: getSpcChartSet({ stationId, metric: metric as SpcMetric }) });
+  } catch (error) {
+    console.error('Delete SPC baseline error:', error);
+    return NextResponse.json({ error: 'Failed to delete SPC baseline' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import {
+  getSpcChartSet,
+  MAX_SUBGROUP_SIZE,
+  MIN_SUBGROUP_SIZE,
+  SPC_CHART_TYPES,
+  SPC_METRICS,
+} from '@/lib/spc';
+import type { SpcChartType, SpcMetric } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_HOURS = 24 * 30;
+
+function validateParams(
+  metric: string,
+  chartType: string | null,
+  subgroupSize: number | null,
+  hours: number
+): string | null {
+  if (!SPC_METRICS.includes(metric as SpcMetric)) return `metric must be one of ${SPC_METRICS.join(', ')}`;
+  if (chartType !== null && !SPC_CHART_TYPES.includes(chartType as SpcChartType)) {
+    return `chartType must be one of ${SPC_CHART_TYPES.join(', ')}`;
+  }
+  if (
+    subgroupSize !== null &&
+    (!Number.isInteger(subgroupSize) || subgroupSize < MIN_SUBGROUP_SIZE || subgroupSize > MAX_SUBGROUP_SIZE)
+  ) {
+    return `subgroupSize must be a whole number between ${MIN_SUBGROUP_SIZE} and ${MAX_SUBGROUP_SIZE}`;
+  }
+  if (!Number.isInteger(hours) || hours < 1 || hours > MAX_HOURS) {
+    return `hours must be a whole number between 1 and ${MAX_HOURS}`;
+  }
+  return null;
+}
+
+// Control charts for one station; reading a chart never raises alerts
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const stationId = searchParams.get('stationId');
+    const metric = searchParams.get('metric') || 'cycle_time';
+    const chartType = searchParams.get('chartType');
+    const subgroupSize = searchParams.has('subgroupSize') ? Number(searchParams.get('subgroupSize')) : null;
+    const hours = Number(searchParams.get('hours') || '72');
+
+    if (!stationId) {
+      return NextResponse.json({ error: 'stationId is required' }, { status: 400 });
+    }
+    const error = validateParams(metric, chartType, subgroupSize, hours);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const chartSet = getSpcChartSet({
+      stationId,
+      metric: metric as SpcMetric,
+      chartType: (chartType as SpcChartType | null) ?? undefined,
+      subgroupSize: subgroupSize ?? undefined,
+      hours,
+      productId: searchParams.get('productId'),
+    });
+    if (!chartSet) {
+      return NextResponse.json({ error: 'Station not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(chartSet);
+  } catch (error) {
+    console.error('SPC API error:', error);
+    return NextResponse.json({ error: 'Failed to build control charts' }, { status: 500 });
+  }
+}
@@ -0,0 +1,321 @@
+import { NextResponse } from 'next/server';
+import {
+  getAllStations,
+  getDatabase,
+  getDefaultLineId,
+  getLineById,
+  getStationById,
+  getStationTargetChanges,
+  insertStation,
+  recordTargetChange,
+  reorderStations,
+  updateStation,
+  deleteStation,
+} from '@/lib/database';
+import { readJsonObject } from '@/lib/request-body';
+import type { Station, StationTargetChange } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+const STATION_STATUSES: Station['status'][] = ['running', 'idle', 'maintenance', 'blocked'];
+
+type StationRow = {
+  id: string;
+  line_id: string;
+  name: string;
+  description: string | null;
+  target_cycle_time: number;
+  position: number;
+  operator_count: number;
+  parallel_units: number;
+  status: Station['status'];
+};
+
+type TargetChangeRow = {
+  id: number;
+  station_id: string;
+  old_target_cycle_time: number | null;
+  new_target_cycle_time: number;
+  changed_by: string;
+  changed_at: string;
+  effective_from: string | null;
+};
+
+type PatchBody = Partial<Station> & {
+  changedBy?: string;
+  order?: string[];
+  effectiveFrom?: string;
+};
+
+function toStation(row: StationRow): Station {
+  return {
+    id: row.id,
+    lineId: row.line_id,
+    name: row.name,
+    description: row.description || '',
+    targetCycleTime: row.target_cycle_time,
+    position: row.position,
+    operatorCount: row.operator_count,
+    parallelUnits: row.parallel_units,
+    status: row.status,
+  };
+}
+
+function toTargetChange(row: TargetChangeRow): StationTargetChange {
+  return {
+    id: row.id,
+    stationId: row.station_id,
+    oldTargetCycleTime: row.old_target_cycle_time,
+    newTargetCycleTime: row.new_target_cycle_time,
+    changedBy: row.changed_by,
+    changedAt: row.changed_at,
+    effectiveFrom: row.effective_from,
+  };
+}
+
+// Checks the editable fields that are present; returns the first problem found
+function validateStationFields(body: Partial<Station>): string | null {
+  if (body.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) {
+    return 'Station name cannot be empty';
+  }
+  if (body.description !== undefined && typeof body.description !== 'string') {
+    return 'description must be a string';
+  }
+  if (
+    body.targetCycleTime !== undefined &&
+    (typeof body.targetCycleTime !== 'number' || !isFinite(body.targetCycleTime) || body.targetCycleTime <= 0)
+  ) {
+    return 'targetCycleTime must be a positive number of seconds';
+  }
+  if (
+    body.operatorCount !== undefined &&
+    (typeof body.operatorCount !== 'number' || !Number.isInteger(body.operatorCount) || body.operatorCount < 1)
+  ) {
+    return 'operatorCount must be a whole number of at least 1';
+  }
+  if (
+    body.parallelUnits !== undefined &&
+    (typeof body.parallelUnits !== 'number' || !Number.isInteger(body.parallelUnits) || body.parallelUnits < 1)
+  ) {
+    return 'parallelUnits must be a whole number of at least 1';
+  }
+  if (body.status !== undefined && !STATION_STATUSES.includes(body.status)) {
+    return `status must be one of ${STATION_STATUSES.join(', ')}`;
+  }
+  if (
+    body.position !== undefined &&
+    (typeof body.position !== 'number' || !Number.isInteger(body.position) || body.position < 1)
+  ) {
+    return 'position must be a whole number of at least 1';
+  }
+  return null;
+}
+
+// Moves a station to a 1-based position, shifting the rest of the line around it
+function moveStation(lineId: string, stationId: string, position: number) {
+  const ids = (getAllStations(lineId) as StationRow[]).map(s => s.id).filter(id => id !== stationId);
+  ids.splice(Math.min(position, ids.length + 1) - 1, 0, stationId);
+  reorderStations(lineId, ids);
+}
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const lineId = searchParams.get('lineId') || getDefaultLineId();
+    const stations = (getAllStations(lineId) as StationRow[]).map(toStation);
+    const history = stations.flatMap(
+      s => (getStationTargetChanges(s.id, 10) as TargetChangeRow[]).map(toTargetChange)
+    );
+
+    return NextResponse.json({ stations, history });
+  } catch (error) {
+    console.error('Station config API error:', error);
+    return NextResponse.json({ stations: [], history: [] });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const parsed = await readJsonObject<Partial<Station> & { changedBy?: string }>(request);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const body = parsed.body;
+
+    if (!body.id || typeof body.id !== 'string' || !body.id.trim()) {
+      return NextResponse.json({ error: 'Station id is required' }, { status: 400 });
+    }
+    if (!body.name) {
+      return NextResponse.json({ error: 'Station name is required' }, { status: 400 });
+    }
+    if (body.targetCycleTime === undefined) {
+      return NextResponse.json({ error: 'targetCycleTime is required' }, { status: 400 });
+    }
+    if (!body.changedBy || typeof body.changedBy !== 'string' || !body.changedBy.trim()) {
+      return NextResponse.json({ error: 'changedBy is required to record the initial target' }, { status: 400 });
+    }
+
+    const invalid = validateStationFields(body);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const id = body.id.trim();
+    if (getStationById(id)) {
+      return NextResponse.json({ error: `Station ${id} already exists` }, { status: 409 });
+    }
+
+    const lineId = body.lineId || getDefaultLineId();
+    if (!lineId || !getLineById(lineId)) {
+      return NextResponse.json({ error: `Unknown line ${body.lineId}` }, { status: 400 });
+    }
+
+    const stationCount = (getAllStations(lineId) as StationRow[]).length;
+    const db = getDatabase();
+    db.transaction(() => {
+      insertStation({
+        id,
+        lineId,
+        name: body.name!.trim(),
+        description: body.description,
+        targetCycleTime: body.targetCycleTime!,
+        position: stationCount + 1,
+        operatorCount: body.operatorCount,
+        parallelUnits: body.parallelUnits,
+        status: body.status,
+      });
+      recordTargetChange({
+        stationId: id,
+        oldTargetCycleTime: null,
+        newTargetCycleTime: body.targetCycleTime!,
+        changedBy: body.changedBy!.trim(),
+      });
+      if (body.position !== undefined && body.position <= stationCount) {
+        moveStation(lineId, id, body.position);
+      }
+    })();
+
+    return NextResponse.json(toStation(getStationById(id) as StationRow), { status: 201 });
+  } catch (error) {
+    console.error('Create station error:', error);
+    return NextResponse.json({ error: 'Failed to create station' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: Request) {
+  try {
+    const parsed = await readJsonObject<PatchBody>(request);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const body = parsed.body;
+
+    // Reorder a whole line: { lineId, order: [stationId, ...] }
+    if (body.order !== undefined) {
+      const lineId = body.lineId || getDefaultLineId();
+      if (!lineId) {
+        return NextResponse.json({ error: 'lineId is required' }, { status: 400 });
+      }
+      const current = (getAllStations(lineId) as StationRow[]).map(s => s.id);
+      const order = Array.isArray(body.order) ? body.order : [];
+      const isPermutation =
+        order.length === current.length &&
+        new Set(order).size === order.length &&
+        order.every(id => current.includes(id));
+      if (!isPermutation) {
+        return NextResponse.json({ error: 'order must list every station on the line exactly once' }, { status: 400 });
+      }
+
+      reorderStations(lineId, order);
+      return NextResponse.json((getAllStations(lineId) as StationRow[]).map(toStation));
+    }
+
+    if (!body.id || typeof body.id !== 'string') {
+      return NextResponse.json({ error: 'Station id is required' }, { status: 400 });
+    }
+    const existing = getStationById(body.id) as StationRow | undefined;
+    if (!existing) {
+      return NextResponse.json({ error: `Station ${body.id} not found` }, { status: 404 });
+    }
+
+    const invalid = validateStationFields(body);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    // Target changes apply from now unless back-dated to re-judge earlier production
+    let effectiveFrom: string | undefined;
+    if (body.effectiveFrom !== undefined && body.effectiveFrom !== null && body.effectiveFrom !== '') {
+      const parsed = new Date(body.effectiveFrom);
+      if (isNaN(parsed.getTime())) {
+        return NextResponse.json({ error: 'effectiveFrom must be a valid date' }, { status: 400 });
+      }
+      if (parsed.getTime() > Date.now()) {
+        return NextResponse.json({ error: 'effectiveFrom cannot be in the future' }, { status: 400 });
+      }
+      effectiveFrom = parsed.toISOString();
+    }
+
+    const changedBy = typeof body.changedBy === 'string' ? body.changedBy.trim() : '';
+    if (
+      body.targetCycleTime !== undefined &&
+      (body.targetCycleTime !== existing.target_cycle_time || effectiveFrom) &&
+      !changedBy
+    ) {
+      return NextResponse.json({ error: 'changedBy is required when changing a target cycle time' }, { status: 400 });
+    }
+
+    const db = getDatabase();
+    db.transaction(() => {
+      updateStation(body.id!, {
+        name: body.name?.trim(),
+        description: body.description,
+        targetCycleTime: body.targetCycleTime,
+        operatorCount: body.operatorCount,
+        parallelUnits: body.parallelUnits,
+        status: body.status,
+      }, changedBy, effectiveFrom);
+      if (body.position !== undefined && body.position !== existing.position) {
+        moveStation(existing.line_id, existing.id, body.position);
+      }
+    })();
+
+    return NextResponse.json(toStation(getStationById(body.id) as StationRow));
+  } catch (error) {
+    console.error('Update station error:', error);
+    return NextResponse.json({ error: 'Failed to update station' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'Station id is required' }, { status: 400 });
+    }
+    if (!getStationById(id)) {
+      return NextResponse.json({ error: `Station ${id} not found` }, { status: 404 });
+    }
+
+    // Production history keeps its station; retire it with status 'idle' instead
+    const hasHistory = getDatabase().prepare(`
+      SELECT 1 FROM production_records WHERE station_id = ?
+      UNION ALL
+      SELECT 1 FROM station_hourly_rollups WHERE station_id = ?
+      LIMIT 1
+    `).get(id, id);
+    if (hasHistory) {
+      return NextResponse.json(
+        { error: `Station ${id} has production history and cannot be deleted` },
+        { status: 409 }
+      );
+    }
+
+    deleteStation(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Delete station error:', error);
+    return NextResponse.json({ error: 'Failed to delete station' }, { status: 500 });
+  }
+}
@@ -1,28 +1,32 @@
 import { NextResponse } from 'next/server';
-import { getDatabase } from '@/lib/database';
+import { getDatabase, getHourCutoff, getDefaultLineId } from '@/lib/database';
+import { getLineTopology } from '@/lib/topology';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
     const db = getDatabase();
-    const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    const { searchParams } = new URL(request.url);
+    const lineId = searchParams.get('lineId') || getDefaultLineId();
+    const cutoff = getHourCutoff(24);
     
     const stationMetrics = db.prepare(`
       SELECT 
         s.id as stationId,
         s.name as stationName,
-        s.target_cycle_time as targetCycleTime,
+        COALESCE(SUM(r.target_cycle_time_sum) / NULLIF(SUM(r.record_count), 0), s.target_cycle_time) as targetCycleTime,
         s.status,
-        AVG(pr.cycle_time) as currentCycleTime,
-        SUM(pr.quantity) as throughput,
-        AVG(pr.defects * 1.0 / NULLIF(pr.quantity, 0) * 100) as defectRate,
-        COUNT(*) as recordCount
+        SUM(r.cycle_time_sum) / NULLIF(SUM(r.record_count), 0) as currentCycleTime,
+        SUM(r.quantity) as throughput,
+        (SUM(r.defects) * 1.0 / NULLIF(SUM(r.quantity), 0) * 100) as defectRate,
+        COALESCE(SUM(r.record_count), 0) as recordCount
       FROM stations s
-      LEFT JOIN production_records pr ON s.id = pr.station_id AND pr.timestamp >= ?
+      LEFT JOIN station_hourly_rollups r ON s.id = r.station_id AND r.hour >= ?
+      WHERE s.line_id = ?
       GROUP BY s.id
       ORDER BY s.position
-    `).all(cutoff) as Array<{
+    `).all(cutoff, lineId) as Array<{
       stationId: string;
       stationName: string;
       targetCycleTime: number;
@@ -33,10 +37,19 @@ export async function GET() {
       recordCount: number;
     }>;
     
+    // Seconds of one unit of capacity each finished unit takes: parallel units share the work
+    // and rework or feeder routes change how often a unit visits the station
+    const nodes = lineId ? getLineTopology(lineId).nodes : [];
+    const timePerUnit = (station: (typeof stationMetrics)[number]) => {
+      const node = nodes.find(n => n.stationId === station.stationId);
+      const cycleTime = station.currentCycleTime || station.targetCycleTime;
+      return (cycleTime * (node?.visitRatio ?? 1)) / (node?.parallelUnits ?? 1);
+    };
+    const maxTimePerUnit = Math.max(...stationMetrics.map(timePerUnit));
+
     const result = stationMetrics.map(station => {
       const currentCycleTime = station.currentCycleTime || station.targetCycleTime;
-      const maxCycleTime = Math.max(...stationMetrics.map(s => s.currentCycleTime || s.targetCycleTime));
-      const utilization = (currentCycleTime / maxCycleTime) * 100;
+      const utilization = maxTimePerUnit > 0 ? (timePerUnit(station) / maxTimePerUnit) * 100 : 0;
       
       const variance = ((currentCycleTime - station.targetCycleTime) / station.targetCycleTime) * 100;
       let trend: 'improving' | 'stable' | 'declining' = 'stable';
@@ -47,7 +60,7 @@ export async function GET() {
         stationId: station.stationId,
         stationName: station.stationName,
         currentCycleTime: Math.round(currentCycleTime * 10) / 10,
-        targetCycleTime: station.targetCycleTime,
+        targetCycleTime: Math.round(station.targetCycleTime * 10) / 10,
         utilization: Math.round(utilization * 10) / 10,
         throughput: station.throughput || 0,
         defectRate: Math.round((station.defectRate || 0) * 10) / 10,
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getDefaultLineId } from '@/lib/database';
+import { CHANGE_POINT_METRICS, DEFAULT_CHANGE_POINT_HOURS, getChangePoints } from '@/lib/change-points';
+import type { ChangePointMetric } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_HOURS = 24 * 30;
+
+// Step changes in each station's hourly series; detection only, no alerts are raised
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const metric = searchParams.get('metric') || 'cycle_time';
+    const hours = Number(searchParams.get('hours') || DEFAULT_CHANGE_POINT_HOURS);
+    const stationId = searchParams.get('stationId');
+    const lineId = searchParams.get('lineId') || getDefaultLineId();
+
+    if (!CHANGE_POINT_METRICS.includes(metric as ChangePointMetric)) {
+      return NextResponse.json(
+        { error: `metric must be one of ${CHANGE_POINT_METRICS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (!Number.isInteger(hours) || hours < 1 || hours > MAX_HOURS) {
+      return NextResponse.json({ error: `hours must be a whole number between 1 and ${MAX_HOURS}` }, { status: 400 });
+    }
+
+    const changePoints = getChangePoints({
+      metric: metric as ChangePointMetric,
+      lineId,
+      stationIds: stationId ? [stationId] : undefined,
+      hours,
+    });
+    return NextResponse.json(changePoints);
+  } catch (error) {
+    console.error('Change points API error:', error);
+    return NextResponse.json({ error: 'Failed to detect change points' }, { status: 500 });
+  }
+}
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server';
-import { getTrendData } from '@/lib/database';
+import { getTrendData, getDefaultLineId } from '@/lib/database';
 
 export const dynamic = 'force-dynamic';
 
@@ -9,8 +9,9 @@ export async function GET(request: Request) {
     const metric = searchParams.get('metric') || 'cycle_time';
     const hours = parseInt(searchParams.get('hours') || '168');
     const stationId = searchParams.get('stationId') || null;
+    const lineId = searchParams.get('lineId') || getDefaultLineId();
     
-    const data = getTrendData(metric, stationId, hours);
+    const data = getTrendData(metric, stationId, hours, lineId);
     return NextResponse.json(data);
   } catch (error) {
     console.error('Trends API error:', error);
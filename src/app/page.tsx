@@ -5,34 +5,65 @@ import { Header } from '@/components/Header';
 import { MetricsGrid } from '@/components/MetricsGrid';
 import { ProductionLine } from '@/components/ProductionLine';
 import { BottleneckPanel } from '@/components/BottleneckPanel';
+import { BottleneckTimeline } from '@/components/BottleneckTimeline';
+import { RecommendationTracker } from '@/components/RecommendationTracker';
+import { DowntimePanel } from '@/components/DowntimePanel';
 import { AlertsPanel } from '@/components/AlertsPanel';
 import { NLPQueryPanel } from '@/components/NLPQueryPanel';
 import { SimulationPanel } from '@/components/SimulationPanel';
+import { LineBalancingPanel } from '@/components/LineBalancingPanel';
 import { TrendChart } from '@/components/TrendChart';
-import type { DashboardMetrics, StationMetrics, BottleneckAnalysis, Alert } from '@/types';
+import { ControlChart } from '@/components/ControlChart';
+import { ImportPanel } from '@/components/ImportPanel';
+import { StationEditor } from '@/components/StationEditor';
+import { OperatorPanel } from '@/components/OperatorPanel';
+import { OperatorPerformance } from '@/components/OperatorPerformance';
+import { AnalysisSettings } from '@/components/AnalysisSettings';
+import { CostModelSettings } from '@/components/CostModelSettings';
+import type { DashboardMetrics, DashboardTab, StationMetrics, BottleneckAnalysis, Alert, Plant, SimulationChange } from '@/types';
 
 export default function Dashboard() {
-  const [activeTab, setActiveTab] = useState<'overview' | 'bottlenecks' | 'simulation' | 'query'>('overview');
+  const [activeTab, setActiveTab] = useState<DashboardTab>('overview');
+  const [plants, setPlants] = useState<Plant[]>([]);
+  const [selectedLineId, setSelectedLineId] = useState<string | null>(null);
   const [metrics, setMetrics] = useState<DashboardMetrics | null>(null);
   const [stations, setStations] = useState<StationMetrics[]>([]);
   const [bottlenecks, setBottlenecks] = useState<BottleneckAnalysis[]>([]);
   const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [simulationChanges, setSimulationChanges] = useState<SimulationChange[] | null>(null);
   const [loading, setLoading] = useState(true);
 
+  useEffect(() => {
+    fetchPlants();
+  }, []);
+
   useEffect(() => {
     fetchDashboardData();
     // Refresh every 30 seconds
     const interval = setInterval(fetchDashboardData, 30000);
     return () => clearInterval(interval);
-  }, []);
+  }, [selectedLineId]);
+
+  async function fetchPlants() {
+    try {
+      const response = await fetch('/api/lines');
+      const data: Plant[] = await response.json();
+      setPlants(data);
+      // Server-side default is the first line of the first plant
+      setSelectedLineId(current => current ?? data[0]?.lines[0]?.id ?? null);
+    } catch (error) {
+      console.error('Failed to fetch lines:', error);
+    }
+  }
 
   async function fetchDashboardData() {
+    const lineParam = selectedLineId ? `?lineId=${encodeURIComponent(selectedLineId)}` : '';
     try {
       const [metricsRes, stationsRes, bottlenecksRes, alertsRes] = await Promise.all([
-        fetch('/api/metrics'),
-        fetch('/api/stations'),
-        fetch('/api/bottlenecks'),
-        fetch('/api/alerts'),
+        fetch(`/api/metrics${lineParam}`),
+        fetch(`/api/stations${lineParam}`),
+        fetch(`/api/bottlenecks${lineParam}`),
+        fetch(`/api/alerts${lineParam}`),
       ]);
 
       const [metricsData, stationsData, bottlenecksData, alertsData] = await Promise.all([
@@ -79,6 +110,9 @@ export default function Dashboard() {
         activeTab={activeTab} 
         onTabChange={setActiveTab}
         alertCount={alerts.filter(a => !a.acknowledged).length}
+        plants={plants}
+        selectedLineId={selectedLineId}
+        onLineChange={setSelectedLineId}
       />
       
       <main className="max-w-[1800px] mx-auto px-6 py-6">
@@ -94,7 +128,7 @@ export default function Dashboard() {
                 <span className="text-sm text-steel-400">Real-time station monitoring</span>
               </div>
               <div className="card-body">
-                <ProductionLine stations={stations} bottlenecks={bottlenecks} />
+                <ProductionLine stations={stations} bottlenecks={bottlenecks} lineId={selectedLineId} />
               </div>
             </div>
 
@@ -119,27 +153,75 @@ export default function Dashboard() {
                 <h2 className="text-lg font-semibold">Performance Trends</h2>
               </div>
               <div className="card-body">
-                <TrendChart />
+                <TrendChart lineId={selectedLineId} />
               </div>
             </div>
+
+            <ControlChart stations={stations} />
           </div>
         )}
 
         {activeTab === 'bottlenecks' && (
+          <div className="space-y-6 animate-fade-in">
+            <BottleneckTimeline lineId={selectedLineId} />
+            <BottleneckPanel bottlenecks={bottlenecks} lineId={selectedLineId} />
+            <RecommendationTracker lineId={selectedLineId} />
+          </div>
+        )}
+
+        {activeTab === 'downtime' && (
           <div className="animate-fade-in">
-            <BottleneckPanel bottlenecks={bottlenecks} />
+            <DowntimePanel lineId={selectedLineId} />
           </div>
         )}
 
         {activeTab === 'simulation' && (
           <div className="animate-fade-in">
-            <SimulationPanel stations={stations} />
+            <SimulationPanel stations={stations} lineId={selectedLineId} initialChanges={simulationChanges} />
+          </div>
+        )}
+
+        {activeTab === 'balancing' && (
+          <div className="animate-fade-in">
+            <LineBalancingPanel
+              lineId={selectedLineId}
+              onSimulate={changes => {
+                setSimulationChanges(changes);
+                setActiveTab('simulation');
+              }}
+            />
           </div>
         )}
 
         {activeTab === 'query' && (
           <div className="animate-fade-in">
-            <NLPQueryPanel />
+            <NLPQueryPanel lineId={selectedLineId} />
+          </div>
+        )}
+
+        {activeTab === 'import' && (
+          <div className="animate-fade-in">
+            <ImportPanel />
+          </div>
+        )}
+
+        {activeTab === 'line' && (
+          <div className="animate-fade-in">
+            <StationEditor lineId={selectedLineId} onChange={fetchDashboardData} />
+          </div>
+        )}
+
+        {activeTab === 'operators' && (
+          <div className="space-y-6 animate-fade-in">
+            <OperatorPanel lineId={selectedLineId} />
+            <OperatorPerformance lineId={selectedLineId} />
+          </div>
+        )}
+
+        {activeTab === 'settings' && (
+          <div className="space-y-6 animate-fade-in">
+            <AnalysisSettings lineId={selectedLineId} />
+            <CostModelSettings lineId={selectedLineId} />
           </div>
         )}
       </main>
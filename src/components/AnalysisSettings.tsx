@@ -0,0 +1,430 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { SlidersHorizontal, Eye, Save, RotateCcw, ArrowUp, ArrowDown } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type {
+  AnalysisConfig,
+  AnalysisConfigOverride,
+  AnalysisConfigScope,
+  ImpactWeights,
+  RankingPreviewEntry,
+  SeverityThresholds,
+  StationAnalysisConfig,
+} from '@/types';
+
+// Shared with the line editor so audit entries don't need retyping
+const CHANGED_BY_KEY = 'linebalancer.changedBy';
+
+const THRESHOLD_FIELDS: Array<{ key: keyof SeverityThresholds; label: string }> = [
+  { key: 'critical', label: 'Critical above' },
+  { key: 'high', label: 'High above' },
+  { key: 'medium', label: 'Medium above' },
+];
+
+const WEIGHT_FIELDS: Array<{ key: keyof ImpactWeights; label: string }> = [
+  { key: 'variance', label: 'Over target' },
+  { key: 'consistency', label: 'Variability' },
+  { key: 'position', label: 'Line position' },
+  { key: 'downtime', label: 'Downtime' },
+];
+
+interface AnalysisSettingsProps {
+  lineId: string | null;
+}
+
+interface ConfigReport {
+  lineId: string | null;
+  defaults: AnalysisConfig;
+  overrides: AnalysisConfigOverride[];
+  stations: StationAnalysisConfig[];
+}
+
+type Form = {
+  overrideThresholds: boolean;
+  severityThresholds: SeverityThresholds;
+  overrideWeights: boolean;
+  impactWeights: ImpactWeights;
+};
+
+// 'global', 'line' or 'station:<id>'
+function parseScopeKey(key: string, lineId: string | null): { scope: AnalysisConfigScope; scopeId: string | null } {
+  if (key.startsWith('station:')) return { scope: 'station', scopeId: key.slice('station:'.length) };
+  if (key === 'line') return { scope: 'line', scopeId: lineId };
+  return { scope: 'global', scopeId: null };
+}
+
+function getSeverityBadge(severity: RankingPreviewEntry['currentSeverity']) {
+  return severity === 'critical' ? 'badge-critical' :
+    severity === 'high' ? 'badge-warning' :
+    severity === 'medium' ? 'badge-info' : 'badge-success';
+}
+
+export function AnalysisSettings({ lineId }: AnalysisSettingsProps) {
+  const [report, setReport] = useState<ConfigReport | null>(null);
+  const [scopeKey, setScopeKey] = useState('line');
+  const [form, setForm] = useState<Form | null>(null);
+  const [preview, setPreview] = useState<RankingPreviewEntry[] | null>(null);
+  const [changedBy, setChangedBy] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setChangedBy(localStorage.getItem(CHANGED_BY_KEY) || '');
+  }, []);
+
+  useEffect(() => {
+    setScopeKey(lineId ? 'line' : 'global');
+    fetchConfig();
+  }, [lineId]);
+
+  useEffect(() => {
+    if (report) setForm(buildForm(report, scopeKey));
+    setPreview(null);
+  }, [report, scopeKey]);
+
+  async function fetchConfig() {
+    try {
+      const lineParam = lineId ? `?lineId=${encodeURIComponent(lineId)}` : '';
+      const response = await fetch(`/api/analysis-config${lineParam}`);
+      setReport(await response.json());
+    } catch (error) {
+      console.error('Failed to fetch analysis config:', error);
+    }
+  }
+
+  function findOverride(data: ConfigReport, key: string) {
+    const { scope, scopeId } = parseScopeKey(key, lineId);
+    return data.overrides.find(o => o.scope === scope && o.scopeId === scopeId);
+  }
+
+  // Values in effect at a scope: its own override, else whatever it inherits
+  function buildForm(data: ConfigReport, key: string): Form {
+    const chain = (key.startsWith('station:') ? [key, 'line', 'global'] : key === 'line' ? ['line', 'global'] : ['global'])
+      .map(k => findOverride(data, k));
+    const own = chain[0];
+    return {
+      overrideThresholds: !!own?.severityThresholds,
+      severityThresholds: chain.find(o => o?.severityThresholds)?.severityThresholds ?? data.defaults.severityThresholds,
+      overrideWeights: !!own?.impactWeights,
+      impactWeights: chain.find(o => o?.impactWeights)?.impactWeights ?? data.defaults.impactWeights,
+    };
+  }
+
+  function updateForm(changes: Partial<Form>) {
+    if (!form) return;
+    setForm({ ...form, ...changes });
+    setPreview(null);
+  }
+
+  function updateChangedBy(value: string) {
+    setChangedBy(value);
+    localStorage.setItem(CHANGED_BY_KEY, value);
+  }
+
+  function buildBody() {
+    const { scope, scopeId } = parseScopeKey(scopeKey, lineId);
+    return {
+      lineId,
+      scope,
+      scopeId: scope === 'global' ? undefined : scopeId,
+      severityThresholds: form?.overrideThresholds ? form.severityThresholds : null,
+      impactWeights: form?.overrideWeights ? form.impactWeights : null,
+    };
+  }
+
+  async function send(url: string, method: 'POST' | 'PUT' | 'DELETE', body?: unknown) {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Request failed');
+        return null;
+      }
+      return data;
+    } catch (error) {
+      console.error('Analysis config request failed:', error);
+      setError('Request failed');
+      return null;
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  async function previewChange() {
+    const data = await send('/api/analysis-config/preview', 'POST', buildBody());
+    if (data) setPreview(data.ranking);
+  }
+
+  async function saveChange() {
+    const data = await send('/api/analysis-config', 'PUT', { ...buildBody(), updatedBy: changedBy });
+    if (data) setReport(data);
+  }
+
+  async function removeOverride() {
+    const { scope, scopeId } = parseScopeKey(scopeKey, lineId);
+    const params = new URLSearchParams({ scope });
+    if (scopeId && scope !== 'global') params.set('scopeId', scopeId);
+    if (lineId) params.set('lineId', lineId);
+    const data = await send(`/api/analysis-config?${params}`, 'DELETE');
+    if (data) setReport(data);
+  }
+
+  const own = report ? findOverride(report, scopeKey) : undefined;
+  const weightTotal = form ? WEIGHT_FIELDS.reduce((sum, f) => sum + form.impactWeights[f.key], 0) : 0;
+  const nothingOverridden = !form?.overrideThresholds && !form?.overrideWeights;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="card">
+        <div className="card-header flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-accent-500/20 flex items-center justify-center">
+              <SlidersHorizontal className="w-5 h-5 text-accent-400" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold">Analysis Settings</h2>
+              <p className="text-sm text-steel-400">
+                Severity thresholds and impact weights for all lines, this line or a single station
+              </p>
+            </div>
+          </div>
+
+          <div className="w-56">
+            <label className="block text-xs text-steel-400 uppercase tracking-wider mb-1">Changed By</label>
+            <input
+              className="input py-2"
+              value={changedBy}
+              onChange={e => updateChangedBy(e.target.value)}
+              placeholder="Your name"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="px-6 py-3 bg-danger-500/10 border-t border-danger-500/30 text-sm text-danger-400">
+            {error}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Editor */}
+        <div className="card">
+          <div className="card-header flex items-center justify-between">
+            <h3 className="text-lg font-semibold">Override</h3>
+            <select className="input py-1.5 w-64" value={scopeKey} onChange={e => setScopeKey(e.target.value)}>
+              <option value="global">All lines (global)</option>
+              <option value="line" disabled={!lineId}>This line</option>
+              {report?.stations.map(s => (
+                <option key={s.stationId} value={`station:${s.stationId}`}>{s.stationId} {s.stationName}</option>
+              ))}
+            </select>
+          </div>
+
+          {form && (
+            <div className="card-body space-y-6">
+              {/* Severity thresholds */}
+              <div>
+                <label className="flex items-center gap-2 text-sm font-medium mb-2">
+                  <input
+                    type="checkbox"
+                    checked={form.overrideThresholds}
+                    onChange={e => updateForm({ overrideThresholds: e.target.checked })}
+                  />
+                  Severity thresholds (% over target)
+                  {!form.overrideThresholds && <span className="text-xs text-steel-500">inherited</span>}
+                </label>
+                <div className="grid grid-cols-3 gap-3">
+                  {THRESHOLD_FIELDS.map(field => (
+                    <div key={field.key}>
+                      <label className="block text-xs text-steel-400 mb-1">{field.label}</label>
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        className="input py-1.5"
+                        disabled={!form.overrideThresholds}
+                        value={form.severityThresholds[field.key]}
+                        onChange={e => updateForm({
+                          severityThresholds: { ...form.severityThresholds, [field.key]: Number(e.target.value) },
+                        })}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Impact weights */}
+              <div>
+                <label className="flex items-center gap-2 text-sm font-medium mb-2">
+                  <input
+                    type="checkbox"
+                    checked={form.overrideWeights}
+                    onChange={e => updateForm({ overrideWeights: e.target.checked })}
+                  />
+                  Impact score weights (points)
+                  {!form.overrideWeights && <span className="text-xs text-steel-500">inherited</span>}
+                </label>
+                <div className="grid grid-cols-4 gap-3">
+                  {WEIGHT_FIELDS.map(field => (
+                    <div key={field.key}>
+                      <label className="block text-xs text-steel-400 mb-1">{field.label}</label>
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={1}
+                        className="input py-1.5"
+                        disabled={!form.overrideWeights}
+                        value={form.impactWeights[field.key]}
+                        onChange={e => updateForm({
+                          impactWeights: { ...form.impactWeights, [field.key]: Number(e.target.value) },
+                        })}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className={cn('text-xs mt-2', Math.abs(weightTotal - 100) < 1e-6 ? 'text-steel-500' : 'text-warning-400')}>
+                  Total {Math.round(weightTotal * 100) / 100} of 100
+                </p>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-steel-500">
+                  {own ? `Last changed by ${own.updatedBy} · ${new Date(`${own.updatedAt.replace(' ', 'T')}Z`).toLocaleString()}` : 'No override at this scope'}
+                </p>
+                <div className="flex gap-2">
+                  {own && (
+                    <button onClick={removeOverride} disabled={isWorking} className="btn-ghost flex items-center gap-2">
+                      <RotateCcw className="w-4 h-4" /> Inherit
+                    </button>
+                  )}
+                  <button
+                    onClick={previewChange}
+                    disabled={nothingOverridden || isWorking}
+                    className="btn-secondary flex items-center gap-2"
+                  >
+                    <Eye className="w-4 h-4" /> Preview
+                  </button>
+                  <button
+                    onClick={saveChange}
+                    disabled={nothingOverridden || !changedBy.trim() || isWorking}
+                    className="btn-primary flex items-center gap-2"
+                  >
+                    <Save className="w-4 h-4" /> Save
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Ranking preview */}
+        <div className="card">
+          <div className="card-header">
+            <h3 className="text-lg font-semibold">Ranking Preview</h3>
+            <p className="text-sm text-steel-400">Last 24 hours, current settings against the change</p>
+          </div>
+          {preview ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-steel-800/50 text-steel-400 text-xs uppercase">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Rank</th>
+                    <th className="px-3 py-2 text-left">Station</th>
+                    <th className="px-3 py-2 text-right">Impact</th>
+                    <th className="px-3 py-2 text-left">Severity</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-steel-800">
+                  {preview.map(entry => {
+                    const moved = entry.currentRank - entry.proposedRank;
+                    return (
+                      <tr key={entry.stationId} className="text-steel-300">
+                        <td className="px-3 py-2 font-mono">
+                          <span className="flex items-center gap-1">
+                            {entry.proposedRank}
+                            {moved > 0 && <span className="flex items-center text-danger-400 text-xs"><ArrowUp className="w-3 h-3" />{moved}</span>}
+                            {moved < 0 && <span className="flex items-center text-success-400 text-xs"><ArrowDown className="w-3 h-3" />{-moved}</span>}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2">{entry.stationName}</td>
+                        <td className="px-3 py-2 text-right font-mono">
+                          {entry.currentImpactScore !== entry.proposedImpactScore && (
+                            <span className="text-steel-500">{entry.currentImpactScore} → </span>
+                          )}
+                          {entry.proposedImpactScore}
+                        </td>
+                        <td className="px-3 py-2">
+                          {entry.currentSeverity !== entry.proposedSeverity && (
+                            <span className="text-steel-500 text-xs">{entry.currentSeverity} → </span>
+                          )}
+                          <span className={getSeverityBadge(entry.proposedSeverity)}>{entry.proposedSeverity.toUpperCase()}</span>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="card-body text-sm text-steel-400 text-center py-8">
+              Preview a change to see how the bottleneck ranking would move before saving it.
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Effective configuration */}
+      <div className="card">
+        <div className="card-header">
+          <h3 className="text-lg font-semibold">In Effect</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-steel-800/50 text-steel-400 text-xs uppercase">
+              <tr>
+                <th className="px-3 py-2 text-left">Station</th>
+                <th className="px-3 py-2 text-left">Critical / High / Medium</th>
+                <th className="px-3 py-2 text-left">From</th>
+                <th className="px-3 py-2 text-left">Target / Variability / Position / Downtime</th>
+                <th className="px-3 py-2 text-left">From</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-steel-800">
+              {report?.stations.map(config => (
+                <tr
+                  key={config.stationId}
+                  className={cn('text-steel-300 cursor-pointer hover:bg-steel-800/30', scopeKey === `station:${config.stationId}` && 'bg-accent-500/10')}
+                  onClick={() => setScopeKey(`station:${config.stationId}`)}
+                >
+                  <td className="px-3 py-2">{config.stationName}</td>
+                  <td className="px-3 py-2 font-mono">
+                    {config.severityThresholds.critical}% / {config.severityThresholds.high}% / {config.severityThresholds.medium}%
+                  </td>
+                  <td className={cn('px-3 py-2 text-xs', config.source.severityThresholds === 'station' ? 'text-accent-400' : 'text-steel-500')}>
+                    {config.source.severityThresholds}
+                  </td>
+                  <td className="px-3 py-2 font-mono">
+                    {WEIGHT_FIELDS.map(f => config.impactWeights[f.key]).join(' / ')}
+                  </td>
+                  <td className={cn('px-3 py-2 text-xs', config.source.impactWeights === 'station' ? 'text-accent-400' : 'text-steel-500')}>
+                    {config.source.impactWeights}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
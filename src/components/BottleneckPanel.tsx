@@ -1,17 +1,115 @@
 'use client';
 
-import { useState } from 'react';
-import { AlertTriangle, ChevronDown, ChevronRight, Lightbulb, Target, TrendingUp } from 'lucide-react';
-import { cn, formatPercent, formatDuration } from '@/lib/utils';
-import type { BottleneckAnalysis, Recommendation } from '@/types';
+import { useState, useEffect } from 'react';
+import { BarChart, Bar, Cell, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { AlertTriangle, BarChart3, ChevronDown, ChevronRight, DollarSign, Lightbulb, Target, TrendingUp } from 'lucide-react';
+import { cn, formatCurrency, formatPercent, formatDuration } from '@/lib/utils';
+import { EvidenceDrillDown } from '@/components/EvidenceDrillDown';
+import { RecommendationStatusBadge } from '@/components/RecommendationTracker';
+import type {
+  BaselineKind,
+  BottleneckAnalysis,
+  BottleneckComparison,
+  BottleneckPeriodComparison,
+  CycleTimeStats,
+  Evidence,
+  Recommendation,
+  RecommendationEconomics,
+} from '@/types';
 
 interface BottleneckPanelProps {
   bottlenecks: BottleneckAnalysis[];
   compact?: boolean;
+  // Given, the panel picks its own window and compares it with a baseline
+  lineId?: string | null;
 }
 
-export function BottleneckPanel({ bottlenecks, compact = false }: BottleneckPanelProps) {
+// The first window is the one the dashboard already loads
+const WINDOWS = [
+  { label: '24h', hours: 24 },
+  { label: '72h', hours: 72 },
+  { label: '7d', hours: 168 },
+];
+
+const BASELINES: Array<{ kind: Exclude<BaselineKind, 'custom'>; label: string }> = [
+  { kind: 'previous_period', label: 'vs previous period' },
+  { kind: 'previous_week', label: 'vs same time last week' },
+];
+
+const SHIFT_OPTIONS = ['', 'day', 'swing', 'night'];
+
+const RANKED_RECOMMENDATIONS = 10;
+
+// Highest ROI first; recommendations that cost nothing up front come first if they pay
+// at all, and last if they don't
+function roiRank(economics: RecommendationEconomics): number {
+  if (economics.roi !== null) return economics.roi;
+  return economics.npv > 0 ? Number.MAX_VALUE : -Number.MAX_VALUE;
+}
+
+export function BottleneckPanel({ bottlenecks, compact = false, lineId }: BottleneckPanelProps) {
   const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [openEvidence, setOpenEvidence] = useState<Evidence | null>(null);
+  const comparable = lineId !== undefined && !compact;
+  const [windowIndex, setWindowIndex] = useState(0);
+  const [shift, setShift] = useState('');
+  const [baselineKind, setBaselineKind] = useState<Exclude<BaselineKind, 'custom'>>('previous_period');
+  // Null shows the dashboard's own 24 hour analysis
+  const [windowed, setWindowed] = useState<BottleneckAnalysis[] | null>(null);
+  const [comparison, setComparison] = useState<BottleneckPeriodComparison | null>(null);
+  const [comparing, setComparing] = useState(false);
+
+  useEffect(() => {
+    if (comparable) fetchComparison();
+  }, [comparable, lineId, windowIndex, shift, baselineKind]);
+
+  async function fetchComparison() {
+    setComparing(true);
+    try {
+      const params = new URLSearchParams({ hours: String(WINDOWS[windowIndex].hours) });
+      if (lineId) params.set('lineId', lineId);
+      if (shift) params.set('shift', shift);
+      const isDefault = windowIndex === 0 && !shift;
+      const [comparisonResponse, windowResponse] = await Promise.all([
+        fetch(`/api/bottlenecks/compare?${params}&baseline=${baselineKind}`),
+        isDefault ? null : fetch(`/api/bottlenecks?${params}`),
+      ]);
+      if (!comparisonResponse.ok) throw new Error(`Comparison request failed: ${comparisonResponse.status}`);
+      if (windowResponse && !windowResponse.ok) throw new Error(`Bottleneck request failed: ${windowResponse.status}`);
+      setComparison(await comparisonResponse.json());
+      setWindowed(windowResponse ? await windowResponse.json() : null);
+    } catch (error) {
+      console.error('Failed to compare bottlenecks:', error);
+      setComparison(null);
+    } finally {
+      setComparing(false);
+    }
+  }
+
+  const shown = windowed ?? bottlenecks;
+  const changes = new Map((comparison?.stations ?? []).map(c => [c.stationId, c]));
+  const byRoi = shown
+    .flatMap(b => b.recommendations.map(rec => ({ rec, stationName: b.stationName, economics: rec.economics })))
+    .filter((r): r is typeof r & { economics: RecommendationEconomics } => r.economics !== undefined)
+    .sort((a, b) => roiRank(b.economics) - roiRank(a.economics))
+    .slice(0, RANKED_RECOMMENDATIONS);
+  const countChanges = (change: BottleneckComparison['change']) =>
+    comparison?.stations.filter(c => c.change === change).length ?? 0;
+
+  const getChangeBadge = (change: BottleneckComparison['change']) => {
+    switch (change) {
+      case 'new':
+        return <span className="badge badge-critical">NEW</span>;
+      case 'worse':
+        return <span className="badge badge-warning">WORSE</span>;
+      case 'recovered':
+        return <span className="badge badge-success">RECOVERED</span>;
+      case 'better':
+        return <span className="badge badge-success">IMPROVING</span>;
+      default:
+        return null;
+    }
+  };
 
   const getSeverityBadge = (severity: BottleneckAnalysis['severity']) => {
     switch (severity) {
@@ -26,6 +124,20 @@ export function BottleneckPanel({ bottlenecks, compact = false }: BottleneckPane
     }
   };
 
+  // Without state events there's no telling a constraint from a station waiting on one
+  const getRoleBadge = (role: BottleneckAnalysis['constraintRole']) => {
+    switch (role) {
+      case 'constraint':
+        return <span className="badge badge-critical">CONSTRAINT</span>;
+      case 'starved':
+        return <span className="badge badge-info">STARVED</span>;
+      case 'blocked':
+        return <span className="badge badge-info">BLOCKED</span>;
+      default:
+        return null;
+    }
+  };
+
   const getCostBadge = (cost: Recommendation['implementationCost']) => {
     switch (cost) {
       case 'low':
@@ -37,7 +149,7 @@ export function BottleneckPanel({ bottlenecks, compact = false }: BottleneckPane
     }
   };
 
-  if (bottlenecks.length === 0) {
+  if (shown.length === 0 && !comparable) {
     return (
       <div className="card p-8 text-center">
         <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-success-500/20 flex items-center justify-center">
@@ -59,15 +171,64 @@ export function BottleneckPanel({ bottlenecks, compact = false }: BottleneckPane
           <div>
             <h2 className="text-lg font-semibold">Bottleneck Analysis</h2>
             <p className="text-sm text-steel-400">
-              {bottlenecks.length} station{bottlenecks.length !== 1 ? 's' : ''} identified
+              {shown.length} station{shown.length !== 1 ? 's' : ''} identified
+              {comparison && (
+                <span className="text-steel-500">
+                  {' · '}{countChanges('new')} new, {countChanges('worse')} worse, {countChanges('recovered')} recovered
+                </span>
+              )}
             </p>
           </div>
         </div>
+        {comparable && (
+          <div className="flex items-center gap-3">
+            {comparing && (
+              <div className="w-4 h-4 border-2 border-accent-500 border-t-transparent rounded-full animate-spin" />
+            )}
+            <select value={shift} onChange={e => setShift(e.target.value)} className="input w-32">
+              {SHIFT_OPTIONS.map(s => (
+                <option key={s} value={s}>{s ? `${s[0].toUpperCase()}${s.slice(1)} shift` : 'All shifts'}</option>
+              ))}
+            </select>
+            <select
+              value={baselineKind}
+              onChange={e => setBaselineKind(e.target.value as Exclude<BaselineKind, 'custom'>)}
+              className="input w-52"
+            >
+              {BASELINES.map(b => (
+                <option key={b.kind} value={b.kind}>{b.label}</option>
+              ))}
+            </select>
+            <div className="flex gap-2">
+              {WINDOWS.map((w, index) => (
+                <button
+                  key={w.label}
+                  onClick={() => setWindowIndex(index)}
+                  className={cn(
+                    'px-3 py-1.5 rounded-lg text-sm font-medium transition-all',
+                    windowIndex === index
+                      ? 'bg-accent-600 text-white'
+                      : 'bg-steel-800 text-steel-400 hover:text-white hover:bg-steel-700'
+                  )}
+                >
+                  {w.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
+
+      {shown.length === 0 && (
+        <div className="card-body text-sm text-steel-400">No production in this window.</div>
+      )}
       
       <div className="divide-y divide-steel-800">
-        {bottlenecks.map((bottleneck, index) => {
+        {shown.map((bottleneck, index) => {
           const isExpanded = expandedId === bottleneck.stationId;
+          const change = changes.get(bottleneck.stationId);
+          const resolvedCauses = change?.rootCauses.filter(c => c.status === 'resolved') ?? [];
+          const newCauses = new Set(change?.rootCauses.filter(c => c.status === 'new').map(c => c.description));
           
           return (
             <div 
@@ -97,6 +258,8 @@ export function BottleneckPanel({ bottlenecks, compact = false }: BottleneckPane
                   <div className="flex items-center gap-2 mb-1">
                     <span className="font-semibold text-white">{bottleneck.stationName}</span>
                     {getSeverityBadge(bottleneck.severity)}
+                    {getRoleBadge(bottleneck.constraintRole)}
+                    {change && getChangeBadge(change.change)}
                   </div>
                   <div className="flex items-center gap-4 text-sm text-steel-400">
                     <span>
@@ -108,14 +271,40 @@ export function BottleneckPanel({ bottlenecks, compact = false }: BottleneckPane
                       bottleneck.variancePercent > 5 ? 'text-warning-400' : 'text-steel-400'
                     )}>
                       +{formatPercent(bottleneck.variancePercent)} over target
+                      {change?.varianceDelta != null && (
+                        <span className="text-steel-500">
+                          {' '}({change.varianceDelta > 0 ? '+' : ''}{change.varianceDelta} pts vs baseline)
+                        </span>
+                      )}
                     </span>
+                    {bottleneck.frequency > 0 && (
+                      <span title="Share of time slices with production in which this station constrained the line">
+                        Sole {formatPercent(bottleneck.soleBottleneckPercent, 0)}
+                        <span className="text-steel-500"> · </span>
+                        Shifting {formatPercent(bottleneck.shiftingBottleneckPercent, 0)}
+                      </span>
+                    )}
+                    {bottleneck.blockedPercent !== null && bottleneck.starvedPercent !== null && (
+                      <span title="Share of tracked time spent waiting on downstream / upstream stations">
+                        Blocked {formatPercent(bottleneck.blockedPercent, 0)}
+                        <span className="text-steel-500"> · </span>
+                        Starved {formatPercent(bottleneck.starvedPercent, 0)}
+                      </span>
+                    )}
                   </div>
                 </div>
 
                 {/* Impact Score */}
                 <div className="text-right mr-4">
                   <div className="text-2xl font-bold text-white">{bottleneck.impactScore}</div>
-                  <div className="text-xs text-steel-500 uppercase tracking-wider">Impact</div>
+                  <div className="text-xs text-steel-500 uppercase tracking-wider">
+                    Impact
+                    {change?.impactDelta != null && change.impactDelta !== 0 && (
+                      <span className={change.impactDelta > 0 ? 'text-danger-400' : 'text-success-400'}>
+                        {' '}{change.impactDelta > 0 ? '+' : ''}{change.impactDelta}
+                      </span>
+                    )}
+                  </div>
                 </div>
 
                 {/* Expand Icon */}
@@ -128,6 +317,14 @@ export function BottleneckPanel({ bottlenecks, compact = false }: BottleneckPane
               {/* Expanded Content */}
               {isExpanded && !compact && (
                 <div className="px-4 pb-4 space-y-4 animate-slide-down">
+                  {/* Cycle Time Distribution */}
+                  {bottleneck.cycleTimeStats && (
+                    <CycleTimeDistribution
+                      stats={bottleneck.cycleTimeStats}
+                      targetCycleTime={bottleneck.targetCycleTime}
+                    />
+                  )}
+
                   {/* Root Causes */}
                   {bottleneck.rootCauses.length > 0 && (
                     <div className="p-4 bg-steel-800/50 rounded-lg">
@@ -148,7 +345,29 @@ export function BottleneckPanel({ bottlenecks, compact = false }: BottleneckPane
                               {cause.type}
                             </div>
                             <div className="flex-1">
-                              <p className="text-sm text-white">{cause.description}</p>
+                              <p className="text-sm text-white">
+                                {cause.description}
+                                {newCauses.has(cause.description) && (
+                                  <span className="ml-2 text-xs text-warning-400">new since baseline</span>
+                                )}
+                              </p>
+                              {cause.evidence.length > 0 && (
+                                <ul className="mt-1 space-y-0.5">
+                                  {cause.evidence.map((item, j) => (
+                                    <li key={j}>
+                                      <button
+                                        onClick={() => setOpenEvidence(openEvidence?.query === item.query ? null : item)}
+                                        className={cn(
+                                          'text-left text-xs hover:text-accent-300 hover:underline',
+                                          openEvidence?.query === item.query ? 'text-accent-400' : 'text-steel-400'
+                                        )}
+                                      >
+                                        {item.summary}
+                                      </button>
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
                               <div className="flex items-center gap-2 mt-1">
                                 <div className="h-1 flex-1 bg-steel-700 rounded-full max-w-[100px]">
                                   <div 
@@ -167,6 +386,23 @@ export function BottleneckPanel({ bottlenecks, compact = false }: BottleneckPane
                     </div>
                   )}
 
+                  {openEvidence?.filter.stationId === bottleneck.stationId && (
+                    <EvidenceDrillDown evidence={openEvidence} onClose={() => setOpenEvidence(null)} />
+                  )}
+
+                  {resolvedCauses.length > 0 && (
+                    <div className="p-4 bg-steel-800/50 rounded-lg">
+                      <h4 className="text-sm font-semibold text-steel-300 mb-3">Resolved Since Baseline</h4>
+                      <ul className="space-y-1">
+                        {resolvedCauses.map((cause, i) => (
+                          <li key={i} className="text-sm text-steel-400 line-through decoration-steel-600">
+                            {cause.description}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
                   {/* Recommendations */}
                   {bottleneck.recommendations.length > 0 && (
                     <div className="p-4 bg-steel-800/50 rounded-lg">
@@ -181,7 +417,10 @@ export function BottleneckPanel({ bottlenecks, compact = false }: BottleneckPane
                               {i + 1}
                             </div>
                             <div className="flex-1">
-                              <p className="text-sm text-white mb-2">{rec.description}</p>
+                              <div className="flex items-start justify-between gap-3 mb-2">
+                                <p className="text-sm text-white">{rec.description}</p>
+                                {rec.status && <RecommendationStatusBadge status={rec.status} />}
+                              </div>
                               <div className="flex flex-wrap items-center gap-3 text-xs">
                                 <span className="flex items-center gap-1 text-success-400">
                                   <TrendingUp className="w-3 h-3" />
@@ -189,7 +428,20 @@ export function BottleneckPanel({ bottlenecks, compact = false }: BottleneckPane
                                 </span>
                                 {getCostBadge(rec.implementationCost)}
                                 <span className="text-steel-500">{rec.timeToImplement}</span>
+                                <span className="text-steel-400">{Math.round(rec.confidence * 100)}% confidence</span>
                               </div>
+                              {rec.economics && (
+                                <div className="flex flex-wrap items-center gap-3 text-xs text-steel-400 mt-1">
+                                  <span>{formatCurrency(rec.economics.annualBenefit)}/yr</span>
+                                  <span>{formatCurrency(rec.economics.oneTimeCost)} one-time</span>
+                                  <span>
+                                    {rec.economics.paybackMonths !== null
+                                      ? `pays back in ${rec.economics.paybackMonths} mo`
+                                      : 'no payback'}
+                                  </span>
+                                  <span>NPV {formatCurrency(rec.economics.npv)}</span>
+                                </div>
+                              )}
                             </div>
                           </div>
                         ))}
@@ -202,6 +454,143 @@ export function BottleneckPanel({ bottlenecks, compact = false }: BottleneckPane
           );
         })}
       </div>
+
+      {!compact && byRoi.length > 0 && (
+        <div className="border-t border-steel-800">
+          <div className="px-4 pt-4 pb-2">
+            <h3 className="text-sm font-semibold text-steel-300 flex items-center gap-2">
+              <DollarSign className="w-4 h-4 text-success-400" />
+              Recommendations by ROI
+            </h3>
+            <p className="text-xs text-steel-500 mt-1">
+              Extra output is worth the margin per unit only where the station holds back the line
+            </p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-steel-800/50 text-steel-400 text-xs uppercase">
+                <tr>
+                  <th className="px-4 py-2 text-left">Recommendation</th>
+                  <th className="px-4 py-2 text-right">Annual Benefit</th>
+                  <th className="px-4 py-2 text-right">One-Time Cost</th>
+                  <th className="px-4 py-2 text-right">Payback</th>
+                  <th className="px-4 py-2 text-right">NPV</th>
+                  <th className="px-4 py-2 text-right">ROI</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-steel-800">
+                {byRoi.map(({ rec, stationName, economics }) => (
+                  <tr key={rec.id}>
+                    <td className="px-4 py-2 max-w-md">
+                      <p className="text-white truncate">{rec.description}</p>
+                      <p className="text-xs text-steel-500">{stationName}</p>
+                    </td>
+                    <td className="px-4 py-2 text-right">{formatCurrency(economics.annualBenefit)}</td>
+                    <td className="px-4 py-2 text-right text-steel-400">{formatCurrency(economics.oneTimeCost)}</td>
+                    <td className="px-4 py-2 text-right text-steel-400">
+                      {economics.paybackMonths !== null ? `${economics.paybackMonths} mo` : '—'}
+                    </td>
+                    <td className={cn('px-4 py-2 text-right', economics.npv > 0 ? 'text-success-400' : 'text-danger-400')}>
+                      {formatCurrency(economics.npv)}
+                    </td>
+                    <td className="px-4 py-2 text-right font-medium">
+                      {economics.roi !== null ? formatPercent(economics.roi, 0) : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function CycleTimeDistribution({
+  stats,
+  targetCycleTime,
+}: {
+  stats: CycleTimeStats;
+  targetCycleTime: number;
+}) {
+  const summary = [
+    { label: 'Mean', value: formatDuration(stats.mean) },
+    { label: 'Std Dev', value: formatDuration(stats.stdDev) },
+    { label: 'CV', value: formatPercent(stats.coefficientOfVariation, 0) },
+    { label: 'P50', value: formatDuration(stats.p50) },
+    { label: 'P90', value: formatDuration(stats.p90) },
+    { label: 'P95', value: formatDuration(stats.p95) },
+    { label: 'P99', value: formatDuration(stats.p99) },
+    { label: 'IQR', value: formatDuration(stats.iqr) },
+  ];
+
+  const bins = stats.histogram.map(bin => ({
+    ...bin,
+    label: formatDuration((bin.start + bin.end) / 2),
+    overTarget: bin.start >= targetCycleTime,
+  }));
+
+  return (
+    <div className="p-4 bg-steel-800/50 rounded-lg">
+      <h4 className="text-sm font-semibold text-steel-300 mb-3 flex items-center gap-2">
+        <BarChart3 className="w-4 h-4" />
+        Cycle Time Distribution
+        <span className="text-xs font-normal text-steel-500">({stats.count} cycles)</span>
+      </h4>
+
+      <div className="grid grid-cols-4 lg:grid-cols-8 gap-2 mb-4">
+        {summary.map(item => (
+          <div key={item.label} className="p-2 bg-steel-900/50 rounded text-center">
+            <div className="text-xs text-steel-500 uppercase tracking-wider">{item.label}</div>
+            <div className="text-sm font-semibold text-white">{item.value}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Bins starting at or above the target are highlighted */}
+      <div className="h-[160px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={bins} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+            <XAxis
+              dataKey="label"
+              stroke="#667791"
+              tick={{ fill: '#667791', fontSize: 10 }}
+              tickLine={{ stroke: '#343b47' }}
+              interval="preserveStartEnd"
+            />
+            <YAxis
+              stroke="#667791"
+              tick={{ fill: '#667791', fontSize: 10 }}
+              tickLine={{ stroke: '#343b47' }}
+              allowDecimals={false}
+              width={40}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: '#22262f',
+                border: '1px solid #343b47',
+                borderRadius: '8px',
+              }}
+              labelStyle={{ color: '#b0bac9' }}
+              itemStyle={{ color: '#eceef2' }}
+              labelFormatter={(_, payload) => {
+                const bin = payload?.[0]?.payload as { start: number; end: number } | undefined;
+                return bin ? `${formatDuration(bin.start)} – ${formatDuration(bin.end)}` : '';
+              }}
+              formatter={(value) => [value, 'Cycles']}
+            />
+            <Bar dataKey="count" radius={[2, 2, 0, 0]}>
+              {bins.map((bin, i) => (
+                <Cell key={i} fill={bin.overTarget ? '#ef4444' : '#3b82f6'} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      <p className="text-xs text-steel-500 mt-2">
+        Target {formatDuration(targetCycleTime)}; bins at or above target shown in red
+      </p>
     </div>
   );
 }
@@ -0,0 +1,167 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Shuffle } from 'lucide-react';
+import { cn, formatPercent } from '@/lib/utils';
+import type { BottleneckSlice, BottleneckTimeline as Timeline } from '@/types';
+
+interface BottleneckTimelineProps {
+  lineId?: string | null;
+}
+
+// Longer windows use wider slices so each lane stays readable
+const WINDOWS = [
+  { label: '24h', hours: 24, sliceHours: 1 },
+  { label: '72h', hours: 72, sliceHours: 3 },
+  { label: '7d', hours: 168, sliceHours: 6 },
+];
+
+function formatSlice(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+  });
+}
+
+function describeSlice(slice: BottleneckSlice, stationId: string, names: Record<string, string>): string {
+  const ratio = slice.activeRatios[stationId];
+  const active = ratio !== undefined ? `${formatPercent(ratio * 100)} active` : 'no production';
+  if (slice.kind === 'idle') return `${formatSlice(slice.start)}: line idle`;
+  if (!slice.bottleneckStationIds.includes(stationId)) return `${formatSlice(slice.start)}: ${active}`;
+  if (slice.kind === 'sole') return `${formatSlice(slice.start)}: sole bottleneck, ${active}`;
+  const others = slice.bottleneckStationIds.filter(id => id !== stationId).map(id => names[id] ?? id);
+  return `${formatSlice(slice.start)}: shifting with ${others.join(', ')}, ${active}`;
+}
+
+export function BottleneckTimeline({ lineId }: BottleneckTimelineProps) {
+  const [windowIndex, setWindowIndex] = useState(0);
+  const [timeline, setTimeline] = useState<Timeline | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchTimeline();
+  }, [lineId, windowIndex]);
+
+  async function fetchTimeline() {
+    setLoading(true);
+    try {
+      const { hours, sliceHours } = WINDOWS[windowIndex];
+      const params = new URLSearchParams({ hours: String(hours), sliceHours: String(sliceHours) });
+      if (lineId) params.set('lineId', lineId);
+      const response = await fetch(`/api/bottlenecks/timeline?${params}`);
+      if (!response.ok) throw new Error(`Timeline request failed: ${response.status}`);
+      setTimeline(await response.json());
+    } catch (error) {
+      console.error('Failed to fetch bottleneck timeline:', error);
+      setTimeline(null);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const names = Object.fromEntries((timeline?.stations ?? []).map(s => [s.stationId, s.stationName]));
+
+  return (
+    <div className="card">
+      <div className="card-header flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-accent-500/20 flex items-center justify-center">
+            <Shuffle className="w-5 h-5 text-accent-400" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold">Bottleneck Timeline</h2>
+            <p className="text-sm text-steel-400">Which station constrained the line in each time slice</p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          {WINDOWS.map((w, index) => (
+            <button
+              key={w.label}
+              onClick={() => setWindowIndex(index)}
+              className={cn(
+                'px-3 py-1.5 rounded-lg text-sm font-medium transition-all',
+                windowIndex === index
+                  ? 'bg-accent-600 text-white'
+                  : 'bg-steel-800 text-steel-400 hover:text-white hover:bg-steel-700'
+              )}
+            >
+              {w.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="card-body">
+        {loading ? (
+          <div className="h-[200px] flex items-center justify-center">
+            <div className="w-8 h-8 border-2 border-accent-500 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : !timeline || timeline.slices.length === 0 ? (
+          <p className="text-sm text-steel-400 text-center py-8">No production data in this window.</p>
+        ) : (
+          <div className="space-y-1">
+            {/* Swim lanes, one per station */}
+            {timeline.stations.map(station => (
+              <div key={station.stationId} className="flex items-center gap-3">
+                <div className="w-40 shrink-0 truncate text-sm text-steel-300" title={station.stationName}>
+                  {station.stationName}
+                </div>
+                <div
+                  className="flex-1 grid gap-px"
+                  style={{ gridTemplateColumns: `repeat(${timeline.slices.length}, minmax(0, 1fr))` }}
+                >
+                  {timeline.slices.map(slice => {
+                    const holds = slice.bottleneckStationIds.includes(station.stationId);
+                    return (
+                      <div
+                        key={slice.start}
+                        title={describeSlice(slice, station.stationId, names)}
+                        className={cn(
+                          'h-5 rounded-sm',
+                          slice.kind === 'idle' ? 'bg-steel-900' :
+                          !holds ? 'bg-steel-800' :
+                          slice.kind === 'sole' ? 'bg-danger-500' : 'bg-warning-500'
+                        )}
+                      />
+                    );
+                  })}
+                </div>
+                <div className="w-32 shrink-0 text-right text-xs font-mono">
+                  <span className={station.solePercent > 0 ? 'text-danger-400' : 'text-steel-500'}>
+                    {formatPercent(station.solePercent)}
+                  </span>
+                  <span className="text-steel-600"> / </span>
+                  <span className={station.shiftingPercent > 0 ? 'text-warning-400' : 'text-steel-500'}>
+                    {formatPercent(station.shiftingPercent)}
+                  </span>
+                </div>
+              </div>
+            ))}
+
+            {/* Time axis and legend */}
+            <div className="flex items-center gap-3 pt-2 text-xs text-steel-500">
+              <div className="w-40 shrink-0" />
+              <div className="flex-1 flex justify-between">
+                <span>{formatSlice(timeline.from)}</span>
+                <span>{formatSlice(timeline.to)}</span>
+              </div>
+              <div className="w-32 shrink-0 text-right">Sole / Shifting</div>
+            </div>
+            <div className="flex items-center gap-4 pt-3 text-xs text-steel-400">
+              <span className="flex items-center gap-1.5">
+                <span className="w-3 h-3 rounded-sm bg-danger-500" /> Sole bottleneck
+              </span>
+              <span className="flex items-center gap-1.5">
+                <span className="w-3 h-3 rounded-sm bg-warning-500" /> Shifting (within {formatPercent(timeline.tolerance * 100, 0)} of the leader)
+              </span>
+              <span className="flex items-center gap-1.5">
+                <span className="w-3 h-3 rounded-sm bg-steel-900 border border-steel-700" /> No production
+              </span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
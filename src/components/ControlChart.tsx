@@ -0,0 +1,471 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Activity, Save, RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { SpcChart, SpcChartSet, SpcChartType, SpcMetric, StationMetrics } from '@/types';
+
+// Shared with the line editor so audit entries don't need retyping
+const CHANGED_BY_KEY = 'linebalancer.changedBy';
+
+const METRICS: Array<{ id: SpcMetric; label: string; unit: string }> = [
+  { id: 'cycle_time', label: 'Cycle Time', unit: 's' },
+  { id: 'defect_rate', label: 'Defect Rate', unit: '%' },
+];
+
+const CHART_TYPES: Array<{ id: SpcChartType; label: string }> = [
+  { id: 'xbar_r', label: 'X-bar / R' },
+  { id: 'i_mr', label: 'Individuals / MR' },
+];
+
+const WINDOWS = [
+  { label: '24h', hours: 24 },
+  { label: '72h', hours: 72 },
+  { label: '7d', hours: 168 },
+];
+
+interface ControlChartProps {
+  stations: StationMetrics[];
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+// datetime-local inputs take local wall-clock time without a zone
+function toInputValue(iso: string): string {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+interface ChartPanelProps {
+  chart: SpcChart;
+  flagged: Set<number>;
+  height: number;
+  unit: string;
+}
+
+function ChartPanel({ chart, flagged, height, unit }: ChartPanelProps) {
+  const data = chart.points.map((point, index) => ({
+    index,
+    time: formatTime(point.time),
+    value: round(point.value),
+    size: point.size,
+  }));
+  const limits = chart.limits;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-medium text-steel-300">{chart.label}</p>
+        {limits && (
+          <p className="text-xs text-steel-500">
+            CL {round(limits.center)}{unit} · UCL {round(limits.ucl)}{unit} · LCL {round(limits.lcl)}{unit}
+          </p>
+        )}
+      </div>
+      <div style={{ height }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#343b47" />
+            <XAxis
+              dataKey="time"
+              stroke="#667791"
+              tick={{ fill: '#667791', fontSize: 11 }}
+              tickLine={{ stroke: '#343b47' }}
+              minTickGap={40}
+            />
+            <YAxis
+              stroke="#667791"
+              tick={{ fill: '#667791', fontSize: 11 }}
+              tickLine={{ stroke: '#343b47' }}
+              domain={['auto', 'auto']}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: '#22262f',
+                border: '1px solid #343b47',
+                borderRadius: '8px',
+              }}
+              labelStyle={{ color: '#b0bac9' }}
+              itemStyle={{ color: '#eceef2' }}
+              formatter={(value: number) => [`${value}${unit}`, chart.label]}
+            />
+            {limits && (
+              <>
+                <ReferenceLine y={round(limits.center)} stroke="#667791" />
+                <ReferenceLine y={round(limits.ucl)} stroke="#ef4444" strokeDasharray="4 4" />
+                <ReferenceLine y={round(limits.lcl)} stroke="#ef4444" strokeDasharray="4 4" />
+              </>
+            )}
+            <Line
+              type="linear"
+              dataKey="value"
+              stroke="#3b82f6"
+              strokeWidth={1.5}
+              isAnimationActive={false}
+              dot={(props: { cx?: number; cy?: number; index?: number }) => (
+                <circle
+                  key={props.index}
+                  cx={props.cx}
+                  cy={props.cy}
+                  r={flagged.has(props.index ?? -1) ? 4 : 2}
+                  fill={flagged.has(props.index ?? -1) ? '#ef4444' : '#3b82f6'}
+                  stroke="none"
+                />
+              )}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+export function ControlChart({ stations }: ControlChartProps) {
+  const [stationId, setStationId] = useState<string | null>(null);
+  const [metric, setMetric] = useState<SpcMetric>('cycle_time');
+  // Null follows the station's baseline; set when the user tries another layout
+  const [chartType, setChartType] = useState<SpcChartType | null>(null);
+  const [subgroupSize, setSubgroupSize] = useState<number | null>(null);
+  const [windowIndex, setWindowIndex] = useState(1);
+  const [chartSet, setChartSet] = useState<SpcChartSet | null>(null);
+  const [baselineFrom, setBaselineFrom] = useState('');
+  const [baselineTo, setBaselineTo] = useState('');
+  const [changedBy, setChangedBy] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setChangedBy(localStorage.getItem(CHANGED_BY_KEY) || '');
+  }, []);
+
+  useEffect(() => {
+    if (stations.length > 0 && !stations.some(s => s.stationId === stationId)) {
+      setStationId(stations[0].stationId);
+    }
+  }, [stations]);
+
+  useEffect(() => {
+    if (stationId) fetchChartSet();
+  }, [stationId, metric, chartType, subgroupSize, windowIndex]);
+
+  useEffect(() => {
+    if (!chartSet) return;
+    setBaselineFrom(toInputValue(chartSet.baseline.from));
+    setBaselineTo(toInputValue(chartSet.baseline.to));
+  }, [chartSet]);
+
+  async function fetchChartSet() {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({
+        stationId: stationId!,
+        metric,
+        hours: String(WINDOWS[windowIndex].hours),
+      });
+      if (chartType) params.set('chartType', chartType);
+      if (subgroupSize && chartType !== 'i_mr') params.set('subgroupSize', String(subgroupSize));
+      const response = await fetch(`/api/spc?${params}`);
+      if (!response.ok) throw new Error(`Control chart request failed: ${response.status}`);
+      setChartSet(await response.json());
+    } catch (error) {
+      console.error('Failed to fetch control charts:', error);
+      setChartSet(null);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // A different station or metric starts from its own baseline layout
+  function selectChart(nextStationId: string, nextMetric: SpcMetric) {
+    setStationId(nextStationId);
+    setMetric(nextMetric);
+    setChartType(null);
+    setSubgroupSize(null);
+    setMessage(null);
+  }
+
+  function updateChangedBy(value: string) {
+    setChangedBy(value);
+    localStorage.setItem(CHANGED_BY_KEY, value);
+  }
+
+  async function send(url: string, method: 'PUT' | 'DELETE', body?: unknown) {
+    setIsWorking(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Request failed');
+        return null;
+      }
+      return data;
+    } catch (error) {
+      console.error('Baseline request failed:', error);
+      setError('Request failed');
+      return null;
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  // The charts re-fetch with the stored layout once the overrides are cleared
+  async function saveBaseline() {
+    if (!chartSet) return;
+    const data = await send('/api/spc/baseline', 'PUT', {
+      stationId: chartSet.stationId,
+      metric: chartSet.metric,
+      chartType: chartSet.chartType,
+      subgroupSize: chartSet.baseline.subgroupSize,
+      from: new Date(baselineFrom).toISOString(),
+      to: new Date(baselineTo).toISOString(),
+      updatedBy: changedBy,
+    });
+    if (!data) return;
+    setChartSet(data.chartSet);
+    setChartType(null);
+    setSubgroupSize(null);
+    setMessage(data.alertsRaised > 0
+      ? `Baseline saved; ${data.alertsRaised} new alert${data.alertsRaised === 1 ? '' : 's'} raised`
+      : 'Baseline saved');
+  }
+
+  async function resetBaseline() {
+    if (!chartSet) return;
+    const params = new URLSearchParams({ stationId: chartSet.stationId, metric: chartSet.metric });
+    const data = await send(`/api/spc/baseline?${params}`, 'DELETE');
+    if (!data) return;
+    setChartSet(data.chartSet);
+    setChartType(null);
+    setSubgroupSize(null);
+    setMessage('Baseline reset to the week before the chart');
+  }
+
+  const unit = METRICS.find(m => m.id === metric)!.unit;
+  const flagged = (which: 'location' | 'dispersion') =>
+    new Set((chartSet?.violations ?? []).filter(v => v.chart === which).flatMap(v => v.pointIndexes));
+  const recentViolations = [...(chartSet?.violations ?? [])]
+    .sort((a, b) => b.time.localeCompare(a.time))
+    .slice(0, 8);
+
+  return (
+    <div className="card">
+      <div className="card-header flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-accent-500/20 flex items-center justify-center">
+            <Activity className="w-5 h-5 text-accent-400" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold">Control Charts</h2>
+            <p className="text-sm text-steel-400">Western Electric and Nelson rules against baseline limits</p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          {WINDOWS.map((w, index) => (
+            <button
+              key={w.label}
+              onClick={() => setWindowIndex(index)}
+              className={cn(
+                'px-3 py-1.5 rounded-lg text-sm font-medium transition-all',
+                windowIndex === index
+                  ? 'bg-accent-600 text-white'
+                  : 'bg-steel-800 text-steel-400 hover:text-white hover:bg-steel-700'
+              )}
+            >
+              {w.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="card-body space-y-6">
+        {/* Chart selection */}
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-xs text-steel-400 mb-1">Station</label>
+            <select
+              value={stationId ?? ''}
+              onChange={e => selectChart(e.target.value, metric)}
+              className="input w-56"
+            >
+              {stations.map(s => (
+                <option key={s.stationId} value={s.stationId}>{s.stationName}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            {METRICS.map(m => (
+              <button
+                key={m.id}
+                onClick={() => stationId && selectChart(stationId, m.id)}
+                className={cn(
+                  'px-4 py-2 rounded-lg text-sm font-medium transition-all',
+                  metric === m.id
+                    ? 'bg-accent-600 text-white'
+                    : 'bg-steel-800 text-steel-400 hover:text-white hover:bg-steel-700'
+                )}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+          <div>
+            <label className="block text-xs text-steel-400 mb-1">Chart</label>
+            <select
+              value={chartSet?.chartType ?? ''}
+              onChange={e => setChartType(e.target.value as SpcChartType)}
+              className="input w-44"
+            >
+              {CHART_TYPES.map(t => (
+                <option key={t.id} value={t.id}>{t.label}</option>
+              ))}
+            </select>
+          </div>
+          {chartSet?.chartType === 'xbar_r' && (
+            <div>
+              <label className="block text-xs text-steel-400 mb-1">Subgroup size</label>
+              <input
+                type="number"
+                min={2}
+                max={10}
+                value={chartSet.baseline.subgroupSize}
+                onChange={e => setSubgroupSize(Number(e.target.value))}
+                className="input w-24"
+              />
+            </div>
+          )}
+        </div>
+
+        {loading && !chartSet ? (
+          <div className="h-[300px] flex items-center justify-center">
+            <div className="w-8 h-8 border-2 border-accent-500 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : !chartSet ? (
+          <p className="text-sm text-steel-400">No control chart data for this station.</p>
+        ) : (
+          <>
+            {!chartSet.location.limits && (
+              <p className="text-sm text-warning-400">
+                The baseline has too little data for control limits; choose a longer baseline period.
+              </p>
+            )}
+            <ChartPanel chart={chartSet.location} flagged={flagged('location')} height={260} unit={unit} />
+            <ChartPanel chart={chartSet.dispersion} flagged={flagged('dispersion')} height={160} unit={unit} />
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Violations */}
+              <div>
+                <h3 className="text-sm font-medium text-steel-300 mb-2">
+                  Rule Violations ({chartSet.violations.length})
+                </h3>
+                {recentViolations.length === 0 ? (
+                  <p className="text-sm text-steel-500">The process is in statistical control over this window.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {recentViolations.map(v => (
+                      <li
+                        key={`${v.chart}-${v.rule}-${v.time}`}
+                        className="flex items-start justify-between gap-3 p-2 rounded-lg bg-steel-800/50"
+                      >
+                        <div>
+                          <p className="text-sm text-steel-200">{v.description}</p>
+                          <p className="text-xs text-steel-500">
+                            {v.chart === 'location' ? chartSet.location.label : chartSet.dispersion.label} chart ·{' '}
+                            {formatTime(v.time)}
+                          </p>
+                        </div>
+                        <span className={v.rule === 'WE1' ? 'badge-critical' : v.rule === 'N7' ? 'badge-info' : 'badge-warning'}>
+                          {v.rule}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              {/* Baseline */}
+              <div>
+                <h3 className="text-sm font-medium text-steel-300 mb-2">Baseline</h3>
+                <p className="text-xs text-steel-500 mb-3">
+                  {chartSet.baseline.stored
+                    ? `Set by ${chartSet.baseline.updatedBy}; ${chartSet.baseline.observations} observations`
+                    : `Default: the week before the chart; ${chartSet.baseline.observations} observations`}
+                </p>
+                <div className="grid grid-cols-2 gap-3 mb-3">
+                  <div>
+                    <label className="block text-xs text-steel-400 mb-1">From</label>
+                    <input
+                      type="datetime-local"
+                      value={baselineFrom}
+                      onChange={e => setBaselineFrom(e.target.value)}
+                      className="input w-full"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-steel-400 mb-1">To</label>
+                    <input
+                      type="datetime-local"
+                      value={baselineTo}
+                      onChange={e => setBaselineTo(e.target.value)}
+                      className="input w-full"
+                    />
+                  </div>
+                </div>
+                <div className="flex items-end gap-2">
+                  <div className="flex-1">
+                    <label className="block text-xs text-steel-400 mb-1">Changed by</label>
+                    <input
+                      value={changedBy}
+                      onChange={e => updateChangedBy(e.target.value)}
+                      placeholder="Your name"
+                      className="input w-full"
+                    />
+                  </div>
+                  <button
+                    onClick={saveBaseline}
+                    disabled={isWorking || !changedBy.trim() || !baselineFrom || !baselineTo}
+                    className="btn-primary flex items-center gap-2"
+                  >
+                    <Save className="w-4 h-4" />
+                    Save
+                  </button>
+                  {chartSet.baseline.stored && (
+                    <button
+                      onClick={resetBaseline}
+                      disabled={isWorking}
+                      className="btn-ghost flex items-center gap-2"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Default
+                    </button>
+                  )}
+                </div>
+                {error && <p className="text-sm text-danger-400 mt-2">{error}</p>}
+                {message && <p className="text-sm text-success-400 mt-2">{message}</p>}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
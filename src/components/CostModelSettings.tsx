@@ -0,0 +1,233 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { DollarSign, Save, RotateCcw } from 'lucide-react';
+import type { CostModel, LineCostModel, Recommendation, RecommendationTypeCost } from '@/types';
+
+// Shared with the other editors so audit entries don't need retyping
+const CHANGED_BY_KEY = 'linebalancer.changedBy';
+
+const RATE_FIELDS: Array<{ key: keyof CostModel['labourRates']; label: string }> = [
+  { key: 'day', label: 'Day shift' },
+  { key: 'swing', label: 'Swing shift' },
+  { key: 'night', label: 'Night shift' },
+];
+
+const MODEL_FIELDS: Array<{ key: 'overtimeMultiplier' | 'contributionMargin' | 'discountRate' | 'horizonYears'; label: string; step: number }> = [
+  { key: 'contributionMargin', label: 'Margin per unit ($)', step: 1 },
+  { key: 'overtimeMultiplier', label: 'Overtime multiplier', step: 0.05 },
+  { key: 'discountRate', label: 'Discount rate (%)', step: 0.5 },
+  { key: 'horizonYears', label: 'Horizon (years)', step: 1 },
+];
+
+const TYPE_FIELDS: Array<{ key: keyof RecommendationTypeCost; label: string; step: number }> = [
+  { key: 'equipmentCost', label: 'Equipment ($)', step: 100 },
+  { key: 'overtimeHours', label: 'Overtime (h)', step: 1 },
+  { key: 'addedOperators', label: 'Added operators', step: 1 },
+];
+
+const TYPE_LABELS: Record<Recommendation['type'], string> = {
+  add_operator: 'Add operator',
+  training: 'Training',
+  equipment: 'Equipment',
+  rebalance: 'Rebalance',
+  maintenance: 'Maintenance',
+  material: 'Material',
+  process: 'Process',
+};
+
+interface CostModelSettingsProps {
+  lineId: string | null;
+}
+
+type CostModelReport = LineCostModel & { defaults: CostModel };
+
+export function CostModelSettings({ lineId }: CostModelSettingsProps) {
+  const [report, setReport] = useState<CostModelReport | null>(null);
+  const [form, setForm] = useState<CostModel | null>(null);
+  const [changedBy, setChangedBy] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setChangedBy(localStorage.getItem(CHANGED_BY_KEY) || '');
+  }, []);
+
+  useEffect(() => {
+    fetchCostModel();
+  }, [lineId]);
+
+  async function fetchCostModel() {
+    try {
+      const response = await fetch(`/api/cost-model${lineId ? `?lineId=${lineId}` : ''}`);
+      if (!response.ok) throw new Error(`Cost model request failed: ${response.status}`);
+      const data: CostModelReport = await response.json();
+      setReport(data);
+      setForm(data.costModel);
+    } catch (error) {
+      console.error('Failed to fetch cost model:', error);
+    }
+  }
+
+  function updateChangedBy(value: string) {
+    setChangedBy(value);
+    localStorage.setItem(CHANGED_BY_KEY, value);
+  }
+
+  async function send(url: string, method: 'PUT' | 'DELETE', body?: unknown) {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Request failed');
+        return;
+      }
+      setReport(data);
+      setForm(data.costModel);
+    } catch (error) {
+      console.error('Cost model request failed:', error);
+      setError('Request failed');
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  function updateTypeCost(type: Recommendation['type'], key: keyof RecommendationTypeCost, value: number) {
+    if (!form) return;
+    setForm({ ...form, typeCosts: { ...form.typeCosts, [type]: { ...form.typeCosts[type], [key]: value } } });
+  }
+
+  return (
+    <div className="card">
+      <div className="card-header flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-success-500/20 flex items-center justify-center">
+            <DollarSign className="w-5 h-5 text-success-400" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold">Cost Model</h2>
+            <p className="text-sm text-steel-400">
+              {report?.source === 'line'
+                ? `This line's model, last changed by ${report.updatedBy}`
+                : 'Built-in model; saving gives this line its own'}
+            </p>
+          </div>
+        </div>
+
+        <div className="w-56">
+          <label className="block text-xs text-steel-400 uppercase tracking-wider mb-1">Changed By</label>
+          <input
+            className="input py-2"
+            value={changedBy}
+            onChange={e => updateChangedBy(e.target.value)}
+            placeholder="Your name"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="px-6 py-3 bg-danger-500/10 border-b border-danger-500/30 text-sm text-danger-400">
+          {error}
+        </div>
+      )}
+
+      {form && (
+        <div className="card-body space-y-6">
+          <div>
+            <p className="text-sm font-medium mb-2">Labour rate per operator hour ($)</p>
+            <div className="grid grid-cols-3 gap-3">
+              {RATE_FIELDS.map(field => (
+                <div key={field.key}>
+                  <label className="block text-xs text-steel-400 mb-1">{field.label}</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    className="input py-1.5"
+                    value={form.labourRates[field.key]}
+                    onChange={e => setForm({ ...form, labourRates: { ...form.labourRates, [field.key]: Number(e.target.value) } })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {MODEL_FIELDS.map(field => (
+              <div key={field.key}>
+                <label className="block text-xs text-steel-400 mb-1">{field.label}</label>
+                <input
+                  type="number"
+                  min={0}
+                  step={field.step}
+                  className="input py-1.5"
+                  value={form[field.key]}
+                  onChange={e => setForm({ ...form, [field.key]: Number(e.target.value) })}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <p className="text-sm font-medium mb-2">Implementation by recommendation type</p>
+            <table className="w-full text-sm">
+              <thead className="bg-steel-800/50 text-steel-400 text-xs uppercase">
+                <tr>
+                  <th className="px-3 py-2 text-left">Type</th>
+                  {TYPE_FIELDS.map(field => (
+                    <th key={field.key} className="px-3 py-2 text-left">{field.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-steel-800">
+                {(Object.keys(TYPE_LABELS) as Recommendation['type'][]).map(type => (
+                  <tr key={type}>
+                    <td className="px-3 py-2 text-steel-300">{TYPE_LABELS[type]}</td>
+                    {TYPE_FIELDS.map(field => (
+                      <td key={field.key} className="px-3 py-2">
+                        <input
+                          type="number"
+                          min={0}
+                          step={field.step}
+                          className="input py-1"
+                          value={form.typeCosts[type][field.key]}
+                          onChange={e => updateTypeCost(type, field.key, Number(e.target.value))}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-steel-500 mt-2">
+              Overtime is paid at the day rate times the overtime multiplier. Added operators are paid on every shift the station runs.
+            </p>
+          </div>
+
+          <div className="flex items-center justify-end gap-2">
+            <button
+              onClick={() => send(`/api/cost-model?lineId=${lineId}`, 'DELETE')}
+              disabled={report?.source !== 'line' || isWorking}
+              className="btn-secondary flex items-center gap-2"
+            >
+              <RotateCcw className="w-4 h-4" /> Use Built-In
+            </button>
+            <button
+              onClick={() => send('/api/cost-model', 'PUT', { lineId, costModel: form, updatedBy: changedBy })}
+              disabled={!lineId || !changedBy.trim() || isWorking}
+              className="btn-primary flex items-center gap-2"
+            >
+              <Save className="w-4 h-4" /> Save
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,339 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ComposedChart, LineChart, Bar, Line, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { PauseCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { DowntimeAnalysis, DowntimeParetoEntry, DowntimeTrendPoint, Stoppage } from '@/types';
+
+interface DowntimePanelProps {
+  lineId: string | null;
+}
+
+const WINDOWS = [
+  { label: '24h', hours: 24, bucketHours: 2 },
+  { label: '7d', hours: 168, bucketHours: 24 },
+  { label: '30d', hours: 720, bucketHours: 24 },
+];
+
+const TOOLTIP_STYLE = {
+  backgroundColor: '#22262f',
+  border: '1px solid #343b47',
+  borderRadius: '8px',
+};
+
+function formatMinutes(minutes: number | null): string {
+  if (minutes === null) return '—';
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  return `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m`;
+}
+
+function formatBucket(point: DowntimeTrendPoint, bucketHours: number): string {
+  const start = new Date(point.start);
+  return bucketHours >= 24
+    ? start.toLocaleDateString([], { month: 'short', day: 'numeric' })
+    : start.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function availabilityClass(availability: number | null): string {
+  if (availability === null) return 'text-steel-500';
+  if (availability < 85) return 'text-danger-400';
+  if (availability < 95) return 'text-warning-400';
+  return 'text-success-400';
+}
+
+export function DowntimePanel({ lineId }: DowntimePanelProps) {
+  const [analysis, setAnalysis] = useState<DowntimeAnalysis | null>(null);
+  // Null shows the whole line
+  const [stationId, setStationId] = useState<string | null>(null);
+  const [reason, setReason] = useState<string | null>(null);
+  const [stoppages, setStoppages] = useState<Stoppage[]>([]);
+  const [windowIndex, setWindowIndex] = useState(1);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchAnalysis();
+  }, [lineId, windowIndex]);
+
+  useEffect(() => {
+    fetchStoppages();
+  }, [lineId, windowIndex, stationId, reason]);
+
+  async function fetchAnalysis() {
+    setLoading(true);
+    try {
+      const { hours, bucketHours } = WINDOWS[windowIndex];
+      const params = new URLSearchParams({ hours: String(hours), bucketHours: String(bucketHours) });
+      if (lineId) params.set('lineId', lineId);
+      const response = await fetch(`/api/downtime?${params}`);
+      if (!response.ok) throw new Error(`Downtime request failed: ${response.status}`);
+      const data: DowntimeAnalysis = await response.json();
+      setAnalysis(data);
+      setStationId(current => data.stations.some(s => s.stationId === current) ? current : null);
+    } catch (error) {
+      console.error('Failed to fetch downtime:', error);
+      setAnalysis(null);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function fetchStoppages() {
+    try {
+      const params = new URLSearchParams({ hours: String(WINDOWS[windowIndex].hours), limit: '100' });
+      if (lineId) params.set('lineId', lineId);
+      if (stationId) params.set('stationId', stationId);
+      if (reason) params.set('reason', reason);
+      const response = await fetch(`/api/downtime/stoppages?${params}`);
+      if (!response.ok) throw new Error(`Stoppages request failed: ${response.status}`);
+      setStoppages(await response.json());
+    } catch (error) {
+      console.error('Failed to fetch stoppages:', error);
+      setStoppages([]);
+    }
+  }
+
+  function selectStation(id: string | null) {
+    setStationId(id);
+    setReason(null);
+  }
+
+  const scope = stationId ? analysis?.stations.find(s => s.stationId === stationId) : analysis?.line;
+  const bucketHours = analysis?.bucketHours ?? WINDOWS[windowIndex].bucketHours;
+  const trend = (scope?.trend ?? []).map(point => ({
+    time: formatBucket(point, bucketHours),
+    availability: point.availability,
+    mtbf: point.mtbfMinutes,
+    mttr: point.mttrMinutes,
+  }));
+
+  return (
+    <div className="card">
+      <div className="card-header flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-accent-500/20 flex items-center justify-center">
+            <PauseCircle className="w-5 h-5 text-accent-400" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold">Downtime</h2>
+            <p className="text-sm text-steel-400">
+              Where stoppage time goes, with MTBF, MTTR and availability
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={stationId ?? ''}
+            onChange={e => selectStation(e.target.value || null)}
+            className="input w-56"
+          >
+            <option value="">Whole line</option>
+            {analysis?.stations.map(s => (
+              <option key={s.stationId} value={s.stationId}>{s.stationName}</option>
+            ))}
+          </select>
+          <div className="flex gap-2">
+            {WINDOWS.map((w, index) => (
+              <button
+                key={w.label}
+                onClick={() => setWindowIndex(index)}
+                className={cn(
+                  'px-3 py-1.5 rounded-lg text-sm font-medium transition-all',
+                  windowIndex === index
+                    ? 'bg-accent-600 text-white'
+                    : 'bg-steel-800 text-steel-400 hover:text-white hover:bg-steel-700'
+                )}
+              >
+                {w.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="h-32 flex items-center justify-center">
+          <div className="w-8 h-8 border-2 border-accent-500 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : !analysis || !scope ? (
+        <div className="card-body text-sm text-steel-400">No production records in this window.</div>
+      ) : (
+        <div className="card-body space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {[
+              { label: 'Stoppages', value: String(scope.stoppages) },
+              { label: 'Downtime', value: formatMinutes(scope.downtimeMinutes) },
+              { label: 'MTBF', value: formatMinutes(scope.mtbfMinutes) },
+              { label: 'MTTR', value: formatMinutes(scope.mttrMinutes) },
+              { label: 'Availability', value: scope.availability !== null ? `${scope.availability}%` : '—' },
+            ].map(tile => (
+              <div key={tile.label} className="bg-steel-800/50 rounded-lg p-3">
+                <p className="text-xs text-steel-400">{tile.label}</p>
+                <p className={cn(
+                  'text-xl font-semibold',
+                  tile.label === 'Availability' ? availabilityClass(scope.availability) : 'text-white'
+                )}>
+                  {tile.value}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <ParetoChart pareto={scope.pareto} selected={reason} onSelect={r => setReason(r === reason ? null : r)} />
+            <div>
+              <p className="text-sm font-medium text-steel-300 mb-2">Trend</p>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={trend} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#343b47" />
+                    <XAxis dataKey="time" stroke="#667791" tick={{ fill: '#667791', fontSize: 11 }} minTickGap={30} />
+                    <YAxis yAxisId="minutes" stroke="#667791" tick={{ fill: '#667791', fontSize: 11 }} />
+                    <YAxis yAxisId="percent" orientation="right" domain={[0, 100]} stroke="#667791" tick={{ fill: '#667791', fontSize: 11 }} />
+                    <Tooltip contentStyle={TOOLTIP_STYLE} labelStyle={{ color: '#b0bac9' }} itemStyle={{ color: '#eceef2' }} />
+                    <Legend wrapperStyle={{ fontSize: 12 }} />
+                    <Line yAxisId="percent" dataKey="availability" name="Availability %" stroke="#22c55e" dot={false} connectNulls isAnimationActive={false} />
+                    <Line yAxisId="minutes" dataKey="mtbf" name="MTBF (min)" stroke="#3b82f6" dot={false} connectNulls isAnimationActive={false} />
+                    <Line yAxisId="minutes" dataKey="mttr" name="MTTR (min)" stroke="#f59e0b" dot={false} connectNulls isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+
+          {!stationId && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-steel-800/50 text-steel-400 text-xs uppercase">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Station</th>
+                    <th className="px-3 py-2 text-left">Stoppages</th>
+                    <th className="px-3 py-2 text-left">Downtime</th>
+                    <th className="px-3 py-2 text-left">MTBF</th>
+                    <th className="px-3 py-2 text-left">MTTR</th>
+                    <th className="px-3 py-2 text-left">Availability</th>
+                    <th className="px-3 py-2 text-left">Top Reason</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-steel-800">
+                  {analysis.stations.map(s => (
+                    <tr
+                      key={s.stationId}
+                      onClick={() => selectStation(s.stationId)}
+                      className="text-steel-300 cursor-pointer hover:bg-steel-800/30"
+                    >
+                      <td className="px-3 py-2">{s.stationName}</td>
+                      <td className="px-3 py-2">{s.stoppages}</td>
+                      <td className="px-3 py-2">{formatMinutes(s.downtimeMinutes)}</td>
+                      <td className="px-3 py-2">{formatMinutes(s.mtbfMinutes)}</td>
+                      <td className="px-3 py-2">{formatMinutes(s.mttrMinutes)}</td>
+                      <td className={cn('px-3 py-2 font-medium', availabilityClass(s.availability))}>
+                        {s.availability !== null ? `${s.availability}%` : '—'}
+                      </td>
+                      <td className="px-3 py-2 text-steel-400">{s.pareto[0]?.reason ?? '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div>
+            <p className="text-sm font-medium text-steel-300 mb-2">
+              Stoppages{reason ? ` · ${reason}` : ''}
+              <span className="ml-2 text-xs text-steel-500">
+                {reason ? 'click the bar again to clear' : 'click a bar to filter by reason'}
+              </span>
+            </p>
+            {stoppages.length === 0 ? (
+              <p className="text-sm text-steel-500">No stoppages in this window.</p>
+            ) : (
+              <div className="max-h-72 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-steel-800/50 text-steel-400 text-xs uppercase sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Time</th>
+                      <th className="px-3 py-2 text-left">Station</th>
+                      <th className="px-3 py-2 text-left">Operator</th>
+                      <th className="px-3 py-2 text-left">Shift</th>
+                      <th className="px-3 py-2 text-left">Reason</th>
+                      <th className="px-3 py-2 text-right">Minutes</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-steel-800">
+                    {stoppages.map(s => (
+                      <tr key={s.id} className="text-steel-300">
+                        <td className="px-3 py-2 text-steel-400">{new Date(s.timestamp).toLocaleString()}</td>
+                        <td className="px-3 py-2">{s.stationName}</td>
+                        <td className="px-3 py-2">{s.operatorName ?? s.operatorId}</td>
+                        <td className="px-3 py-2 capitalize">{s.shift}</td>
+                        <td className="px-3 py-2">{s.reason}</td>
+                        <td className="px-3 py-2 text-right">{s.minutes}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ParetoChart({ pareto, selected, onSelect }: {
+  pareto: DowntimeParetoEntry[];
+  selected: string | null;
+  onSelect: (reason: string) => void;
+}) {
+  return (
+    <div>
+      <p className="text-sm font-medium text-steel-300 mb-2">Downtime by Reason</p>
+      {pareto.length === 0 ? (
+        <div className="h-64 flex items-center justify-center text-sm text-steel-500">No downtime recorded.</div>
+      ) : (
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={pareto} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#343b47" />
+              <XAxis dataKey="reason" stroke="#667791" tick={{ fill: '#667791', fontSize: 11 }} interval={0} />
+              <YAxis yAxisId="minutes" stroke="#667791" tick={{ fill: '#667791', fontSize: 11 }} />
+              <YAxis yAxisId="percent" orientation="right" domain={[0, 100]} stroke="#667791" tick={{ fill: '#667791', fontSize: 11 }} />
+              <Tooltip
+                contentStyle={TOOLTIP_STYLE}
+                labelStyle={{ color: '#b0bac9' }}
+                itemStyle={{ color: '#eceef2' }}
+                formatter={(value: number, name: string) => name === 'Cumulative' ? [`${value}%`, name] : [`${value} min`, name]}
+              />
+              <Bar
+                yAxisId="minutes"
+                dataKey="minutes"
+                name="Downtime"
+                cursor="pointer"
+                isAnimationActive={false}
+                onClick={(entry: DowntimeParetoEntry) => onSelect(entry.reason)}
+              >
+                {pareto.map(entry => (
+                  <Cell
+                    key={entry.reason}
+                    fill={selected === null || selected === entry.reason ? '#ef4444' : '#4b5563'}
+                  />
+                ))}
+              </Bar>
+              <Line
+                yAxisId="percent"
+                dataKey="cumulativePercent"
+                name="Cumulative"
+                stroke="#f59e0b"
+                strokeWidth={2}
+                dot={{ r: 3 }}
+                isAnimationActive={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { Evidence, EvidenceDrillDown as DrillDown, EvidenceStationSummary } from '@/types';
+
+interface EvidenceDrillDownProps {
+  evidence: Evidence;
+  onClose: () => void;
+}
+
+const TOOLTIP_STYLE = {
+  backgroundColor: '#22262f',
+  border: '1px solid #343b47',
+  borderRadius: '8px',
+};
+
+function formatWindow(evidence: Evidence): string {
+  const { from, to, shift, operatorIds, reasons, stoppagesOnly } = evidence.filter;
+  const format = (iso: string) => new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+  return [
+    `${format(from)} – ${format(to)}`,
+    shift ? `${shift} shift` : null,
+    operatorIds?.length ? `${operatorIds.length} operator${operatorIds.length !== 1 ? 's' : ''}` : null,
+    reasons?.length ? reasons.join(', ') : stoppagesOnly ? 'stoppages only' : null,
+  ].filter(Boolean).join(' · ');
+}
+
+function stationTiles(station: EvidenceStationSummary) {
+  const stats = station.cycleTimeStats;
+  return [
+    { label: 'Records', value: String(station.records) },
+    {
+      label: 'Mean Cycle',
+      value: stats ? `${stats.mean.toFixed(1)}s` : '—',
+      detail: station.avgTargetCycleTime !== null ? `target ${station.avgTargetCycleTime}s` : undefined,
+    },
+    {
+      label: 'Over Target',
+      value: station.variancePercent !== null ? `${station.variancePercent > 0 ? '+' : ''}${station.variancePercent}%` : '—',
+    },
+    { label: 'CV', value: stats ? `${stats.coefficientOfVariation.toFixed(1)}%` : '—' },
+    { label: 'Downtime', value: `${Math.round(station.downtimeMinutes)}m`, detail: `${station.stoppages} stoppages` },
+    { label: 'Defect Rate', value: station.defectRate !== null ? `${station.defectRate}%` : '—' },
+  ];
+}
+
+export function EvidenceDrillDown({ evidence, onClose }: EvidenceDrillDownProps) {
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchDrillDown();
+  }, [evidence.query]);
+
+  async function fetchDrillDown() {
+    setLoading(true);
+    try {
+      const response = await fetch(evidence.query);
+      if (!response.ok) throw new Error(`Evidence request failed: ${response.status}`);
+      setDrillDown(await response.json());
+    } catch (error) {
+      console.error('Failed to fetch evidence:', error);
+      setDrillDown(null);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const names = new Map(drillDown?.stations.map(s => [s.stationId, s.stationName]));
+
+  return (
+    <div className="p-4 bg-steel-900/60 border border-steel-700 rounded-lg space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-medium text-white">{evidence.summary}</p>
+          <p className="text-xs text-steel-500 mt-1">{formatWindow(evidence)}</p>
+        </div>
+        <button onClick={onClose} className="text-steel-400 hover:text-white">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="h-24 flex items-center justify-center">
+          <div className="w-8 h-8 border-2 border-accent-500 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : !drillDown ? (
+        <p className="text-sm text-steel-400">The records behind this evidence could not be loaded.</p>
+      ) : (
+        <>
+          {drillDown.stations.map(station => (
+            <div key={station.stationId}>
+              {drillDown.stations.length > 1 && (
+                <p className="text-xs text-steel-400 mb-2">{station.stationName}</p>
+              )}
+              <div className="grid grid-cols-3 md:grid-cols-6 gap-3">
+                {stationTiles(station).map(tile => (
+                  <div key={tile.label} className="bg-steel-800/50 rounded-lg p-2">
+                    <p className="text-xs text-steel-400">{tile.label}</p>
+                    <p className="text-sm font-semibold text-white">{tile.value}</p>
+                    {tile.detail && <p className="text-xs text-steel-500">{tile.detail}</p>}
+                  </div>
+                ))}
+              </div>
+              {evidence.metric === 'station_states' && station.states && (
+                <p className="text-xs text-steel-400 mt-2">
+                  {Object.entries(station.states.percentByState).map(([state, percent]) => `${state} ${percent}%`).join(' · ')}
+                  {' '}of {Math.round(station.states.trackedSeconds / 3600)}h tracked
+                </p>
+              )}
+            </div>
+          ))}
+
+          {drillDown.hourly && (
+            <div className="h-48">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={drillDown.hourly} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#343b47" />
+                  <XAxis dataKey="hour" stroke="#667791" tick={{ fill: '#667791', fontSize: 11 }} tickFormatter={h => h.slice(5, 13)} minTickGap={40} />
+                  <YAxis stroke="#667791" tick={{ fill: '#667791', fontSize: 11 }} />
+                  <Tooltip contentStyle={TOOLTIP_STYLE} labelStyle={{ color: '#b0bac9' }} itemStyle={{ color: '#eceef2' }} />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  <Line dataKey="value" name={names.get(drillDown.filter.stationId)} stroke="#3b82f6" dot={false} connectNulls isAnimationActive={false} />
+                  <Line
+                    dataKey="relatedValue"
+                    name={names.get(drillDown.filter.relatedStationId ?? '')}
+                    stroke="#f59e0b"
+                    dot={false}
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {drillDown.operators.length > 0 && (
+              <div>
+                <p className="text-xs font-medium text-steel-300 mb-2">Operators</p>
+                <table className="w-full text-sm">
+                  <thead className="text-steel-400 text-xs uppercase">
+                    <tr>
+                      <th className="px-2 py-1 text-left">Operator</th>
+                      <th className="px-2 py-1 text-right">Records</th>
+                      <th className="px-2 py-1 text-right">Over Target</th>
+                      <th className="px-2 py-1 text-right">Defects</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-steel-800">
+                    {drillDown.operators.slice(0, 8).map(o => (
+                      <tr key={o.operatorId}>
+                        <td className="px-2 py-1">{o.operatorName ?? o.operatorId}</td>
+                        <td className="px-2 py-1 text-right text-steel-400">{o.records}</td>
+                        <td className={cn('px-2 py-1 text-right', o.variancePercent > 10 ? 'text-warning-400' : 'text-steel-300')}>
+                          {o.variancePercent > 0 ? '+' : ''}{o.variancePercent}%
+                        </td>
+                        <td className="px-2 py-1 text-right text-steel-400">{o.defectRate !== null ? `${o.defectRate}%` : '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {drillDown.downtime.length > 0 && (
+              <div>
+                <p className="text-xs font-medium text-steel-300 mb-2">Downtime Reasons</p>
+                <div className="space-y-1">
+                  {drillDown.downtime.slice(0, 6).map(r => (
+                    <div key={r.reason} className="flex items-center justify-between text-sm">
+                      <span className="text-steel-300">{r.reason}</span>
+                      <span className="text-steel-400">{r.stoppages} × · {Math.round(r.minutes)}m ({r.percent}%)</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <p className="text-xs font-medium text-steel-300 mb-2">
+              Records
+              <span className="ml-2 text-steel-500">
+                newest {drillDown.records.length} of {drillDown.totalRecords}
+              </span>
+            </p>
+            {drillDown.records.length === 0 ? (
+              <p className="text-sm text-steel-500">No records match this evidence.</p>
+            ) : (
+              <div className="max-h-72 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-steel-800/50 text-steel-400 text-xs uppercase sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Time</th>
+                      {drillDown.stations.length > 1 && <th className="px-3 py-2 text-left">Station</th>}
+                      <th className="px-3 py-2 text-left">Operator</th>
+                      <th className="px-3 py-2 text-left">Shift</th>
+                      <th className="px-3 py-2 text-right">Cycle</th>
+                      <th className="px-3 py-2 text-right">Defects</th>
+                      <th className="px-3 py-2 text-left">Downtime</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-steel-800">
+                    {drillDown.records.map(r => (
+                      <tr key={r.id}>
+                        <td className="px-3 py-2 text-steel-400">{new Date(r.timestamp).toLocaleString()}</td>
+                        {drillDown.stations.length > 1 && <td className="px-3 py-2">{names.get(r.stationId) ?? r.stationId}</td>}
+                        <td className="px-3 py-2">{r.operatorName ?? r.operatorId}</td>
+                        <td className="px-3 py-2 capitalize">{r.shift}</td>
+                        <td className={cn('px-3 py-2 text-right', r.cycleTime > r.targetCycleTime ? 'text-warning-400' : 'text-steel-300')}>
+                          {r.cycleTime.toFixed(1)}s <span className="text-steel-500">/ {r.targetCycleTime}s</span>
+                        </td>
+                        <td className="px-3 py-2 text-right">{r.defects}/{r.quantity}</td>
+                        <td className="px-3 py-2 text-steel-400">
+                          {r.downtimeMinutes > 0 ? `${r.downtimeMinutes}m · ${r.downtimeReason || 'Unspecified'}` : '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
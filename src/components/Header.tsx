@@ -1,22 +1,39 @@
 'use client';
 
-import { Activity, AlertTriangle, Brain, FlaskConical, MessageSquare, Settings } from 'lucide-react';
+import { Activity, AlertTriangle, Brain, FlaskConical, ListTree, MessageSquare, PauseCircle, Settings, SlidersHorizontal, Upload, Users, Wrench } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import type { DashboardTab, Plant } from '@/types';
 
 interface HeaderProps {
-  activeTab: 'overview' | 'bottlenecks' | 'simulation' | 'query';
-  onTabChange: (tab: 'overview' | 'bottlenecks' | 'simulation' | 'query') => void;
+  activeTab: DashboardTab;
+  onTabChange: (tab: DashboardTab) => void;
   alertCount: number;
+  plants: Plant[];
+  selectedLineId: string | null;
+  onLineChange: (lineId: string) => void;
 }
 
 const tabs = [
   { id: 'overview', label: 'Overview', icon: Activity },
   { id: 'bottlenecks', label: 'Bottlenecks', icon: AlertTriangle },
+  { id: 'downtime', label: 'Downtime', icon: PauseCircle },
   { id: 'simulation', label: 'What-If Sim', icon: FlaskConical },
+  { id: 'balancing', label: 'Line Balancing', icon: ListTree },
   { id: 'query', label: 'Ask AI', icon: MessageSquare },
+  { id: 'import', label: 'Import', icon: Upload },
+  { id: 'line', label: 'Line Editor', icon: Wrench },
+  { id: 'operators', label: 'Operators', icon: Users },
+  { id: 'settings', label: 'Analysis', icon: SlidersHorizontal },
 ] as const;
 
-export function Header({ activeTab, onTabChange, alertCount }: HeaderProps) {
+export function Header({
+  activeTab,
+  onTabChange,
+  alertCount,
+  plants,
+  selectedLineId,
+  onLineChange,
+}: HeaderProps) {
   return (
     <header className="sticky top-0 z-50 bg-steel-950/95 backdrop-blur-md border-b border-steel-800">
       <div className="max-w-[1800px] mx-auto px-6">
@@ -63,6 +80,22 @@ export function Header({ activeTab, onTabChange, alertCount }: HeaderProps) {
 
           {/* Right side */}
           <div className="flex items-center gap-4">
+            {plants.length > 0 && (
+              <select
+                value={selectedLineId ?? ''}
+                onChange={e => onLineChange(e.target.value)}
+                className="input py-1.5 text-sm w-48"
+                aria-label="Production line"
+              >
+                {plants.map(plant => (
+                  <optgroup key={plant.id} label={plant.name}>
+                    {plant.lines.map(line => (
+                      <option key={line.id} value={line.id}>{line.name}</option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+            )}
             <div className="flex items-center gap-2 text-sm">
               <span className="status-dot running" />
               <span className="text-steel-300">System Online</span>
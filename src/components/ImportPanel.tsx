@@ -0,0 +1,369 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Upload, FileSpreadsheet, Save, Eye, Database, AlertCircle, CheckCircle2, Copy } from 'lucide-react';
+import type { ImportField, ImportMapping, ImportResult, TimestampFormat } from '@/types';
+
+const FIELDS: { field: ImportField; label: string; required?: boolean }[] = [
+  { field: 'stationId', label: 'Station ID', required: true },
+  { field: 'operatorId', label: 'Operator ID', required: true },
+  { field: 'timestamp', label: 'Timestamp', required: true },
+  { field: 'cycleTime', label: 'Cycle Time (s)', required: true },
+  { field: 'quantity', label: 'Quantity' },
+  { field: 'defects', label: 'Defects' },
+  { field: 'shift', label: 'Shift' },
+  { field: 'downtimeMinutes', label: 'Downtime (min)' },
+  { field: 'downtimeReason', label: 'Downtime Reason' },
+  { field: 'productId', label: 'Product / SKU' },
+  { field: 'id', label: 'Record ID' },
+];
+
+const TIMESTAMP_FORMATS: { value: TimestampFormat; label: string }[] = [
+  { value: 'auto', label: 'Auto-detect' },
+  { value: 'iso', label: 'ISO 8601' },
+  { value: 'ymd', label: 'YYYY-MM-DD hh:mm' },
+  { value: 'mdy', label: 'MM/DD/YYYY hh:mm' },
+  { value: 'dmy', label: 'DD/MM/YYYY hh:mm' },
+  { value: 'excel_serial', label: 'Excel serial date' },
+  { value: 'unix_seconds', label: 'Unix seconds' },
+  { value: 'unix_ms', label: 'Unix milliseconds' },
+];
+
+export function ImportPanel() {
+  const [file, setFile] = useState<File | null>(null);
+  const [columns, setColumns] = useState<string[]>([]);
+  const [columnMap, setColumnMap] = useState<ImportMapping['columnMap']>({});
+  const [timestampFormat, setTimestampFormat] = useState<TimestampFormat>('auto');
+  const [timezone, setTimezone] = useState('UTC');
+  const [savedMappings, setSavedMappings] = useState<ImportMapping[]>([]);
+  const [mappingName, setMappingName] = useState('');
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchMappings();
+  }, []);
+
+  async function fetchMappings() {
+    try {
+      const response = await fetch('/api/import/mappings');
+      setSavedMappings(await response.json());
+    } catch (error) {
+      console.error('Failed to fetch import mappings:', error);
+    }
+  }
+
+  async function submit(selectedFile: File, dryRun: boolean, map = columnMap) {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const form = new FormData();
+      form.append('file', selectedFile);
+      form.append('columnMap', JSON.stringify(map));
+      form.append('timestampFormat', timestampFormat);
+      form.append('timezone', timezone);
+      form.append('dryRun', String(dryRun));
+
+      const response = await fetch('/api/import', { method: 'POST', body: form });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Import failed');
+        return null;
+      }
+      setResult(data);
+      setColumns(data.columns);
+      return data as ImportResult;
+    } catch (error) {
+      console.error('Import failed:', error);
+      setError('Import failed');
+      return null;
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  async function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    setFile(selected);
+    setResult(null);
+
+    // First pass reads the header row; fall back to suggested columns if nothing is mapped yet
+    const data = await submit(selected, true);
+    if (data && Object.keys(columnMap).length === 0) {
+      setColumnMap(data.suggestedMapping);
+      await submit(selected, true, data.suggestedMapping);
+    }
+  }
+
+  function applySavedMapping(id: string) {
+    const mapping = savedMappings.find(m => m.id === id);
+    if (!mapping) return;
+    setColumnMap(mapping.columnMap);
+    setTimestampFormat(mapping.timestampFormat);
+    setTimezone(mapping.timezone);
+    setMappingName(mapping.name);
+    setResult(null);
+  }
+
+  async function saveMapping() {
+    if (!mappingName.trim()) return;
+    try {
+      await fetch('/api/import/mappings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: mappingName, columnMap, timestampFormat, timezone }),
+      });
+      fetchMappings();
+    } catch (error) {
+      console.error('Failed to save mapping:', error);
+    }
+  }
+
+  function updateField(field: ImportField, column: string) {
+    const updated = { ...columnMap };
+    if (column) updated[field] = column;
+    else delete updated[field];
+    setColumnMap(updated);
+    setResult(null);
+  }
+
+  const canCommit = result?.dryRun && result.validRows > 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="card">
+        <div className="card-header flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-accent-500/20 flex items-center justify-center">
+              <FileSpreadsheet className="w-5 h-5 text-accent-400" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold">Import Production History</h2>
+              <p className="text-sm text-steel-400">
+                Load CSV or Excel cycle-time history into the production database
+              </p>
+            </div>
+          </div>
+
+          <label className="btn-secondary gap-2 cursor-pointer">
+            <Upload className="w-4 h-4" />
+            {file ? file.name : 'Choose File'}
+            <input type="file" accept=".csv,.xlsx,.xls" className="hidden" onChange={handleFileChange} />
+          </label>
+        </div>
+
+        {error && (
+          <div className="px-6 py-3 bg-danger-500/10 border-t border-danger-500/30 text-sm text-danger-400">
+            {error}
+          </div>
+        )}
+      </div>
+
+      {/* Mapping */}
+      {columns.length > 0 && (
+        <div className="card">
+          <div className="card-header flex items-center justify-between">
+            <h3 className="text-lg font-semibold">Column Mapping</h3>
+            {savedMappings.length > 0 && (
+              <select
+                className="input w-auto py-2"
+                defaultValue=""
+                onChange={e => applySavedMapping(e.target.value)}
+              >
+                <option value="" disabled>Load saved mapping...</option>
+                {savedMappings.map(m => (
+                  <option key={m.id} value={m.id}>{m.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <div className="card-body space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+              {FIELDS.map(({ field, label, required }) => (
+                <div key={field}>
+                  <label className="block text-xs text-steel-400 uppercase tracking-wider mb-1">
+                    {label}{required && <span className="text-danger-400"> *</span>}
+                  </label>
+                  <select
+                    className="input py-2"
+                    value={columnMap[field] || ''}
+                    onChange={e => updateField(field, e.target.value)}
+                  >
+                    <option value="">— not mapped —</option>
+                    {columns.map(c => (
+                      <option key={c} value={c}>{c}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-xs text-steel-400 uppercase tracking-wider mb-1">Timestamp Format</label>
+                <select
+                  className="input py-2"
+                  value={timestampFormat}
+                  onChange={e => { setTimestampFormat(e.target.value as TimestampFormat); setResult(null); }}
+                >
+                  {TIMESTAMP_FORMATS.map(f => (
+                    <option key={f.value} value={f.value}>{f.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-steel-400 uppercase tracking-wider mb-1">Source Time Zone</label>
+                <input
+                  className="input py-2"
+                  value={timezone}
+                  onChange={e => { setTimezone(e.target.value); setResult(null); }}
+                  placeholder="e.g. America/Chicago"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-steel-400 uppercase tracking-wider mb-1">Save Mapping As</label>
+                <div className="flex gap-2">
+                  <input
+                    className="input py-2"
+                    value={mappingName}
+                    onChange={e => setMappingName(e.target.value)}
+                    placeholder="e.g. Plant 2 MES export"
+                  />
+                  <button onClick={saveMapping} disabled={!mappingName.trim()} className="btn-secondary gap-2">
+                    <Save className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-end gap-3">
+              <button
+                onClick={() => file && submit(file, true)}
+                disabled={!file || isWorking}
+                className="btn-secondary gap-2"
+              >
+                <Eye className="w-4 h-4" />
+                Preview
+              </button>
+              <button
+                onClick={() => file && submit(file, false)}
+                disabled={!canCommit || isWorking}
+                className="btn-primary gap-2"
+              >
+                <Database className="w-4 h-4" />
+                {isWorking ? 'Working...' : `Import ${result?.dryRun ? result.validRows : 0} Rows`}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Results */}
+      {result && (
+        <div className="card animate-slide-up">
+          <div className="card-header">
+            <h3 className="text-lg font-semibold">
+              {result.dryRun ? 'Dry Run Preview' : 'Import Complete'}
+            </h3>
+          </div>
+
+          <div className="card-body space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <SummaryTile label="Rows in File" value={result.totalRows} />
+              <SummaryTile
+                label={result.dryRun ? 'Ready to Import' : 'Imported'}
+                value={result.dryRun ? result.validRows : result.inserted}
+                icon={<CheckCircle2 className="w-4 h-4 text-success-400" />}
+              />
+              <SummaryTile
+                label="Duplicates Skipped"
+                value={result.duplicateRows}
+                icon={<Copy className="w-4 h-4 text-steel-400" />}
+              />
+              <SummaryTile
+                label="Rejected"
+                value={result.rejectedRows}
+                icon={<AlertCircle className="w-4 h-4 text-danger-400" />}
+              />
+            </div>
+
+            {result.rejected.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-steel-300 mb-3">
+                  Rejected Rows
+                  {result.rejectedRows > result.rejected.length && (
+                    <span className="text-steel-500 font-normal"> (first {result.rejected.length})</span>
+                  )}
+                </h4>
+                <div className="max-h-[300px] overflow-y-auto rounded-lg border border-steel-800">
+                  <table className="w-full text-sm">
+                    <thead className="bg-steel-800/50 text-steel-400 text-xs uppercase">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Row</th>
+                        <th className="px-3 py-2 text-left">Errors</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-steel-800">
+                      {result.rejected.map(r => (
+                        <tr key={r.row}>
+                          <td className="px-3 py-2 text-steel-400 align-top">{r.row || '—'}</td>
+                          <td className="px-3 py-2 text-danger-400">{r.errors.join('; ')}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+
+            {result.dryRun && result.preview.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-steel-300 mb-3">Mapped Records</h4>
+                <div className="overflow-x-auto rounded-lg border border-steel-800">
+                  <table className="w-full text-sm">
+                    <thead className="bg-steel-800/50 text-steel-400 text-xs uppercase">
+                      <tr>
+                        {['stationId', 'operatorId', 'timestamp', 'cycleTime', 'shift', 'defects', 'downtimeMinutes'].map(h => (
+                          <th key={h} className="px-3 py-2 text-left">{h}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-steel-800">
+                      {result.preview.map((row, i) => (
+                        <tr key={i} className="text-steel-300">
+                          <td className="px-3 py-2">{String(row.stationId)}</td>
+                          <td className="px-3 py-2">{String(row.operatorId)}</td>
+                          <td className="px-3 py-2">{String(row.timestamp)}</td>
+                          <td className="px-3 py-2">{String(row.cycleTime)}</td>
+                          <td className="px-3 py-2">{String(row.shift)}</td>
+                          <td className="px-3 py-2">{String(row.defects ?? 0)}</td>
+                          <td className="px-3 py-2">{String(row.downtimeMinutes ?? 0)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SummaryTile({ label, value, icon }: { label: string; value: number; icon?: React.ReactNode }) {
+  return (
+    <div className="p-4 bg-steel-800/50 rounded-xl">
+      <div className="flex items-center gap-2 text-steel-400 mb-2">
+        {icon}
+        <span className="text-xs uppercase tracking-wider">{label}</span>
+      </div>
+      <div className="text-2xl font-bold text-white">{value.toLocaleString()}</div>
+    </div>
+  );
+}
@@ -0,0 +1,384 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ListTree, Plus, Save, Trash2, Play, FlaskConical } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { BalanceMetrics, BalancingProblem, LineBalance, SimulationChange, Station, WorkElement } from '@/types';
+
+interface LineBalancingPanelProps {
+  lineId: string | null;
+  onSimulate?: (changes: SimulationChange[]) => void;
+}
+
+// Predecessors are edited as a comma-separated list of element ids
+type Draft = Omit<WorkElement, 'predecessors'> & { predecessors: string };
+
+const PROBLEMS: { value: BalancingProblem; label: string; hint: string }[] = [
+  { value: 'salbp1', label: 'Fewest stations', hint: 'for a takt time' },
+  { value: 'salbp2', label: 'Shortest cycle', hint: 'for a number of stations' },
+];
+
+const METRICS: { key: keyof BalanceMetrics; label: string; unit: string; lowerIsBetter: boolean }[] = [
+  { key: 'stationCount', label: 'Stations', unit: '', lowerIsBetter: true },
+  { key: 'maxStationTime', label: 'Longest Station', unit: 's', lowerIsBetter: true },
+  { key: 'balanceEfficiency', label: 'Balance Efficiency', unit: '%', lowerIsBetter: false },
+  { key: 'balanceDelay', label: 'Balance Delay', unit: '%', lowerIsBetter: true },
+  { key: 'smoothnessIndex', label: 'Smoothness Index', unit: '', lowerIsBetter: true },
+];
+
+function toDraft(element: WorkElement): Draft {
+  return { ...element, predecessors: element.predecessors.join(', ') };
+}
+
+function fromDraft(draft: Draft): WorkElement {
+  return {
+    ...draft,
+    predecessors: draft.predecessors.split(',').map(p => p.trim()).filter(Boolean),
+  };
+}
+
+export function LineBalancingPanel({ lineId, onSimulate }: LineBalancingPanelProps) {
+  const [stations, setStations] = useState<Station[]>([]);
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [problem, setProblem] = useState<BalancingProblem>('salbp1');
+  const [cycleTime, setCycleTime] = useState(100);
+  const [stationCount, setStationCount] = useState(8);
+  const [balance, setBalance] = useState<LineBalance | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchElements();
+    setBalance(null);
+  }, [lineId]);
+
+  async function fetchElements() {
+    try {
+      const lineParam = lineId ? `?lineId=${encodeURIComponent(lineId)}` : '';
+      const [stationsRes, elementsRes] = await Promise.all([
+        fetch(`/api/stations/config${lineParam}`),
+        fetch(`/api/line-balancing/elements${lineParam}`),
+      ]);
+      const stationData: { stations: Station[] } = await stationsRes.json();
+      setStations(stationData.stations);
+      if (!elementsRes.ok) return;
+      const data: { elements: WorkElement[] } = await elementsRes.json();
+      setDrafts(data.elements.map(toDraft));
+      setIsDirty(false);
+    } catch (error) {
+      console.error('Failed to fetch work elements:', error);
+    }
+  }
+
+  async function send<T>(url: string, method: 'PUT' | 'POST', body: unknown): Promise<T | null> {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Request failed');
+        return null;
+      }
+      return data;
+    } catch (error) {
+      console.error('Line balancing request failed:', error);
+      setError('Request failed');
+      return null;
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  async function saveElements() {
+    const data = await send<{ elements: WorkElement[] }>('/api/line-balancing/elements', 'PUT', {
+      lineId,
+      elements: drafts.map(fromDraft),
+    });
+    if (!data) return;
+    setDrafts(data.elements.map(toDraft));
+    setIsDirty(false);
+    setBalance(null);
+  }
+
+  async function solve() {
+    const data = await send<LineBalance>('/api/line-balancing', 'POST', {
+      lineId,
+      problem,
+      ...(problem === 'salbp1' ? { cycleTime } : { stationCount }),
+    });
+    if (data) setBalance(data);
+  }
+
+  function updateDraft(index: number, changes: Partial<Draft>) {
+    setDrafts(drafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+    setIsDirty(true);
+  }
+
+  function addDraft() {
+    const last = drafts[drafts.length - 1];
+    setDrafts([...drafts, {
+      id: `E${drafts.length + 1}`,
+      name: '',
+      duration: 10,
+      stationId: last?.stationId ?? null,
+      predecessors: last?.id ?? '',
+    }]);
+    setIsDirty(true);
+  }
+
+  function removeDraft(index: number) {
+    setDrafts(drafts.filter((_, i) => i !== index));
+    setIsDirty(true);
+  }
+
+  const elementNames = new Map(drafts.map(d => [d.id, d.name]));
+  const longestLoad = balance ? Math.max(balance.cycleTime, ...balance.stations.map(s => s.load)) : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="card">
+        <div className="card-header flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-accent-500/20 flex items-center justify-center">
+              <ListTree className="w-5 h-5 text-accent-400" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold">Work Elements</h2>
+              <p className="text-sm text-steel-400">
+                Tasks with their standard times, where each is done today and what must come first
+              </p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={addDraft} disabled={isWorking} className="btn-secondary gap-2">
+              <Plus className="w-4 h-4" />
+              Element
+            </button>
+            <button onClick={saveElements} disabled={isWorking || !isDirty} className="btn-primary gap-2">
+              <Save className="w-4 h-4" />
+              Save Elements
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="px-6 py-3 bg-danger-500/10 border-b border-danger-500/30 text-sm text-danger-400">
+            {error}
+          </div>
+        )}
+
+        <div className="card-body">
+          {drafts.length === 0 ? (
+            <p className="text-sm text-steel-400">
+              No work elements yet. Add the tasks the line&apos;s work is made of to balance it.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-steel-400 text-xs uppercase">
+                <tr>
+                  <th className="px-3 py-2 text-left">Id</th>
+                  <th className="px-3 py-2 text-left">Name</th>
+                  <th className="px-3 py-2 text-left">Time (s)</th>
+                  <th className="px-3 py-2 text-left">Station Today</th>
+                  <th className="px-3 py-2 text-left">After</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-steel-800">
+                {drafts.map((draft, index) => (
+                  <tr key={index} className="text-steel-300">
+                    <td className="px-3 py-2 w-32">
+                      <input className="input py-1.5" value={draft.id} onChange={e => updateDraft(index, { id: e.target.value })} />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input className="input py-1.5" value={draft.name} onChange={e => updateDraft(index, { name: e.target.value })} />
+                    </td>
+                    <td className="px-3 py-2 w-28">
+                      <input
+                        type="number"
+                        min={0.1}
+                        step={0.1}
+                        className="input py-1.5"
+                        value={draft.duration}
+                        onChange={e => updateDraft(index, { duration: Number(e.target.value) })}
+                      />
+                    </td>
+                    <td className="px-3 py-2 w-52">
+                      <select
+                        className="input py-1.5"
+                        value={draft.stationId ?? ''}
+                        onChange={e => updateDraft(index, { stationId: e.target.value || null })}
+                      >
+                        <option value="">Unassigned</option>
+                        {stations.map(s => (
+                          <option key={s.id} value={s.id}>{s.id} · {s.name}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-3 py-2 w-56">
+                      <input
+                        className="input py-1.5"
+                        value={draft.predecessors}
+                        onChange={e => updateDraft(index, { predecessors: e.target.value })}
+                        placeholder="Element ids, comma separated"
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        onClick={() => removeDraft(index)}
+                        disabled={isWorking}
+                        className="btn-ghost p-2 hover:text-danger-400"
+                        aria-label="Remove work element"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="card-header flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold">Balance</h3>
+            <div className="flex gap-1 mt-2">
+              {PROBLEMS.map(p => (
+                <button
+                  key={p.value}
+                  onClick={() => setProblem(p.value)}
+                  className={cn(
+                    'px-3 py-1 text-xs rounded-md transition-colors',
+                    problem === p.value
+                      ? 'bg-accent-600 text-white'
+                      : 'bg-steel-800 text-steel-400 hover:text-white hover:bg-steel-700'
+                  )}
+                  title={`${p.label} ${p.hint}`}
+                >
+                  {p.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-end gap-3">
+            <div className="w-36">
+              <label className="block text-xs text-steel-400 uppercase tracking-wider mb-1">
+                {problem === 'salbp1' ? 'Takt Time (s)' : 'Stations'}
+              </label>
+              {problem === 'salbp1' ? (
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  className="input py-2"
+                  value={cycleTime}
+                  onChange={e => setCycleTime(Number(e.target.value))}
+                />
+              ) : (
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  className="input py-2"
+                  value={stationCount}
+                  onChange={e => setStationCount(Number(e.target.value))}
+                />
+              )}
+            </div>
+            <button
+              onClick={solve}
+              disabled={isWorking || isDirty || drafts.length === 0}
+              className="btn-primary gap-2"
+              title={isDirty ? 'Save the elements first' : undefined}
+            >
+              <Play className="w-4 h-4" />
+              {isWorking ? 'Solving...' : 'Solve'}
+            </button>
+            <button
+              onClick={() => balance?.simulationChanges && onSimulate?.(balance.simulationChanges)}
+              disabled={!balance?.simulationChanges || !onSimulate}
+              className="btn-secondary gap-2"
+              title={balance?.simulationNote ?? undefined}
+            >
+              <FlaskConical className="w-4 h-4" />
+              Send to Simulator
+            </button>
+          </div>
+        </div>
+
+        {balance && (
+          <div className="card-body space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {METRICS.map(metric => {
+                const proposed = balance[metric.key];
+                const current = balance.current?.[metric.key];
+                const better = current !== undefined && (metric.lowerIsBetter ? proposed < current : proposed > current);
+                const worse = current !== undefined && (metric.lowerIsBetter ? proposed > current : proposed < current);
+                return (
+                  <div key={metric.key} className="p-4 bg-steel-800/50 rounded-xl">
+                    <div className="text-xs text-steel-400 uppercase tracking-wider mb-2">{metric.label}</div>
+                    <div className={cn('text-2xl font-bold', better ? 'text-success-400' : worse ? 'text-danger-400' : 'text-white')}>
+                      {proposed}{metric.unit}
+                    </div>
+                    <div className="text-xs text-steel-500 mt-1">
+                      {current !== undefined ? `today ${current}${metric.unit}` : 'today: some elements unassigned'}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <p className="text-xs text-steel-500">
+              {balance.totalWorkContent}s of work at a {balance.cycleTime}s cycle;{' '}
+              {balance.problem === 'salbp1'
+                ? `no balance can use fewer than ${balance.lowerBound} stations`
+                : `no balance can run faster than ${balance.lowerBound}s`}
+              .{' '}
+              {balance.optimal
+                ? 'This balance is optimal.'
+                : 'The search stopped at its limit; this is the best balance it found.'}
+              {balance.simulationNote && ` ${balance.simulationNote}.`}
+            </p>
+
+            <div className="space-y-3">
+              {balance.stations.map(station => (
+                <div key={station.index}>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="text-white">
+                      Station {station.index}
+                      {station.stationName && <span className="text-steel-500"> · in place of {station.stationName}</span>}
+                    </span>
+                    <span className="text-steel-400">
+                      {station.load}s <span className="text-steel-500">· {station.idle}s idle</span>
+                    </span>
+                  </div>
+                  <div className="h-2 bg-steel-800 rounded-full overflow-hidden">
+                    <div
+                      className={cn('h-full rounded-full', station.idle <= 0 ? 'bg-warning-500' : 'bg-accent-500')}
+                      style={{ width: `${longestLoad > 0 ? (station.load / longestLoad) * 100 : 0}%` }}
+                    />
+                  </div>
+                  <p className="text-xs text-steel-500 mt-1">
+                    {station.elementIds.length > 0
+                      ? station.elementIds.map(id => `${id} ${elementNames.get(id) ?? ''}`.trim()).join(' → ')
+                      : 'No work'}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -24,7 +24,11 @@ const EXAMPLE_QUERIES = [
   "How has quality changed this month?",
 ];
 
-export function NLPQueryPanel() {
+interface NLPQueryPanelProps {
+  lineId?: string | null;
+}
+
+export function NLPQueryPanel({ lineId }: NLPQueryPanelProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -54,7 +58,7 @@ export function NLPQueryPanel() {
       const response = await fetch('/api/query', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ query: input }),
+        body: JSON.stringify({ query: input, lineId }),
       });
 
       const result: AgentResponse & { sql?: string; data?: Record<string, unknown>[] } = await response.json();
@@ -112,7 +116,7 @@ export function NLPQueryPanel() {
             </h3>
             <p className="text-steel-400 mb-6 max-w-md">
               Ask me questions about bottlenecks, performance, quality, or trends. 
-              I'll query the database and explain the results.
+              I&apos;ll query the database and explain the results.
             </p>
             
             {/* Example queries */}
@@ -123,7 +127,7 @@ export function NLPQueryPanel() {
                   onClick={() => handleExampleClick(query)}
                   className="p-3 text-sm text-left bg-steel-800/50 hover:bg-steel-800 rounded-lg border border-steel-700 hover:border-accent-500/50 transition-all"
                 >
-                  "{query}"
+                  &quot;{query}&quot;
                 </button>
               ))}
             </div>
@@ -0,0 +1,534 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Users, Plus, Save, UserX, UserCheck, Grid3X3, Trash2 } from 'lucide-react';
+import { cn, getCertificationColor } from '@/lib/utils';
+import type { Operator, OperatorSkill, Station } from '@/types';
+
+const SHIFTS: Operator['shift'][] = ['day', 'night', 'swing'];
+
+interface OperatorPanelProps {
+  lineId: string | null;
+}
+
+type Draft = Pick<Operator, 'name' | 'shift' | 'skillLevel' | 'efficiency' | 'stationId'>;
+
+type SkillDraft = {
+  operatorId: string;
+  stationId: string;
+  certified: boolean;
+  proficiency: number;
+  certifiedAt: string;
+  expiresAt: string;
+  exists: boolean;
+};
+
+const EMPTY_OPERATOR = {
+  id: '',
+  name: '',
+  shift: 'day' as Operator['shift'],
+  skillLevel: 3,
+  efficiency: 100,
+  stationId: '',
+};
+
+const SKILL_STATUSES: OperatorSkill['status'][] = ['certified', 'expiring', 'expired', 'uncertified'];
+
+// <input type="date"> works in local calendar days; the API stores ISO instants
+function toDateInput(iso: string | null): string {
+  return iso ? iso.slice(0, 10) : '';
+}
+
+export function OperatorPanel({ lineId }: OperatorPanelProps) {
+  const [operators, setOperators] = useState<Operator[]>([]);
+  const [stations, setStations] = useState<Station[]>([]);
+  const [skills, setSkills] = useState<OperatorSkill[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [newOperator, setNewOperator] = useState(EMPTY_OPERATOR);
+  const [skillDraft, setSkillDraft] = useState<SkillDraft | null>(null);
+  const [showInactive, setShowInactive] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAll();
+  }, [lineId, showInactive]);
+
+  async function fetchAll() {
+    const params = new URLSearchParams();
+    if (lineId) params.set('lineId', lineId);
+    if (showInactive) params.set('includeInactive', 'true');
+    try {
+      const [operatorsRes, stationsRes, skillsRes] = await Promise.all([
+        fetch(`/api/operators?${params}`),
+        fetch(`/api/stations/config?${params}`),
+        fetch(`/api/operators/skills?${params}`),
+      ]);
+      const [operatorsData, stationsData, skillsData] = await Promise.all([
+        operatorsRes.json(),
+        stationsRes.json(),
+        skillsRes.json(),
+      ]);
+      setOperators(operatorsData);
+      setStations(stationsData.stations);
+      setSkills(skillsData);
+      setDrafts({});
+    } catch (error) {
+      console.error('Failed to fetch operators:', error);
+    }
+  }
+
+  async function send(url: string, method: 'POST' | 'PATCH' | 'DELETE', body?: unknown) {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Request failed');
+        return false;
+      }
+      await fetchAll();
+      return true;
+    } catch (error) {
+      console.error('Operator request failed:', error);
+      setError('Request failed');
+      return false;
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  function updateDraft(operator: Operator, changes: Partial<Draft>) {
+    const current = drafts[operator.id] ?? {
+      name: operator.name,
+      shift: operator.shift,
+      skillLevel: operator.skillLevel,
+      efficiency: operator.efficiency,
+      stationId: operator.stationId,
+    };
+    setDrafts({ ...drafts, [operator.id]: { ...current, ...changes } });
+  }
+
+  async function saveOperator(operator: Operator) {
+    const draft = drafts[operator.id];
+    if (!draft) return;
+    await send('/api/operators', 'PATCH', { id: operator.id, ...draft });
+  }
+
+  async function toggleActive(operator: Operator) {
+    if (operator.active) {
+      if (!confirm(`Deactivate ${operator.name}? Their station assignment ends now.`)) return;
+      await send('/api/operators', 'PATCH', { id: operator.id, active: false });
+      return;
+    }
+    const stationId = drafts[operator.id]?.stationId;
+    if (!stationId) {
+      setError(`Choose a station for ${operator.name} before reactivating`);
+      return;
+    }
+    await send('/api/operators', 'PATCH', { id: operator.id, active: true, stationId });
+  }
+
+  async function addOperator() {
+    const created = await send('/api/operators', 'POST', newOperator);
+    if (created) setNewOperator(EMPTY_OPERATOR);
+  }
+
+  function editSkill(operator: Operator, station: Station) {
+    const skill = getSkill(operator.id, station.id);
+    setSkillDraft({
+      operatorId: operator.id,
+      stationId: station.id,
+      certified: skill?.certified ?? false,
+      proficiency: skill?.proficiency ?? 1,
+      certifiedAt: toDateInput(skill?.certifiedAt ?? null),
+      expiresAt: toDateInput(skill?.expiresAt ?? null),
+      exists: !!skill,
+    });
+  }
+
+  async function saveSkill() {
+    if (!skillDraft) return;
+    const saved = await send('/api/operators/skills', 'POST', {
+      operatorId: skillDraft.operatorId,
+      stationId: skillDraft.stationId,
+      certified: skillDraft.certified,
+      proficiency: skillDraft.proficiency,
+      certifiedAt: skillDraft.certifiedAt || null,
+      expiresAt: skillDraft.expiresAt || null,
+    });
+    if (saved) setSkillDraft(null);
+  }
+
+  async function removeSkill() {
+    if (!skillDraft) return;
+    const query = `?operatorId=${encodeURIComponent(skillDraft.operatorId)}&stationId=${encodeURIComponent(skillDraft.stationId)}`;
+    const removed = await send(`/api/operators/skills${query}`, 'DELETE');
+    if (removed) setSkillDraft(null);
+  }
+
+  const getSkill = (operatorId: string, stationId: string) =>
+    skills.find(s => s.operatorId === operatorId && s.stationId === stationId);
+
+  const stationLabel = (operatorId: string, station: Station) => {
+    const skill = getSkill(operatorId, station.id);
+    return skill?.status === 'certified' || skill?.status === 'expiring'
+      ? `${station.id} ${station.name} ✓`
+      : `${station.id} ${station.name}`;
+  };
+
+  const operatorNames = new Map(operators.map(o => [o.id, o.name]));
+  const stationNames = new Map(stations.map(s => [s.id, s.name]));
+  const activeOperators = operators.filter(o => o.active);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="card">
+        <div className="card-header flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-accent-500/20 flex items-center justify-center">
+              <Users className="w-5 h-5 text-accent-400" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold">Operators</h2>
+              <p className="text-sm text-steel-400">
+                Roster, station assignments and certifications for this line
+              </p>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-steel-400">
+            <input
+              type="checkbox"
+              checked={showInactive}
+              onChange={e => setShowInactive(e.target.checked)}
+            />
+            Show inactive
+          </label>
+        </div>
+
+        {error && (
+          <div className="px-6 py-3 bg-danger-500/10 border-t border-danger-500/30 text-sm text-danger-400">
+            {error}
+          </div>
+        )}
+      </div>
+
+      {/* Roster */}
+      <div className="card">
+        <div className="card-header">
+          <h3 className="text-lg font-semibold">Roster</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-steel-800/50 text-steel-400 text-xs uppercase">
+              <tr>
+                <th className="px-3 py-2 text-left">ID</th>
+                <th className="px-3 py-2 text-left">Name</th>
+                <th className="px-3 py-2 text-left">Shift</th>
+                <th className="px-3 py-2 text-left">Skill</th>
+                <th className="px-3 py-2 text-left">Efficiency (%)</th>
+                <th className="px-3 py-2 text-left">Station</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-steel-800">
+              {operators.map(operator => {
+                const draft = drafts[operator.id];
+                const values = draft ?? operator;
+                return (
+                  <tr key={operator.id} className={cn('text-steel-300', !operator.active && 'opacity-60')}>
+                    <td className="px-3 py-2 font-mono text-steel-400">{operator.id}</td>
+                    <td className="px-3 py-2">
+                      <input
+                        className="input py-1.5"
+                        value={values.name}
+                        onChange={e => updateDraft(operator, { name: e.target.value })}
+                      />
+                    </td>
+                    <td className="px-3 py-2 w-28">
+                      <select
+                        className="input py-1.5"
+                        value={values.shift}
+                        onChange={e => updateDraft(operator, { shift: e.target.value as Operator['shift'] })}
+                      >
+                        {SHIFTS.map(s => (
+                          <option key={s} value={s}>{s}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-3 py-2 w-20">
+                      <input
+                        type="number"
+                        min={1}
+                        max={5}
+                        step={1}
+                        className="input py-1.5"
+                        value={values.skillLevel}
+                        onChange={e => updateDraft(operator, { skillLevel: Number(e.target.value) })}
+                      />
+                    </td>
+                    <td className="px-3 py-2 w-28">
+                      <input
+                        type="number"
+                        min={1}
+                        step={0.1}
+                        className="input py-1.5"
+                        value={Math.round(values.efficiency * 10) / 10}
+                        onChange={e => updateDraft(operator, { efficiency: Number(e.target.value) })}
+                      />
+                    </td>
+                    <td className="px-3 py-2 w-56">
+                      <select
+                        className="input py-1.5"
+                        value={values.stationId ?? ''}
+                        onChange={e => updateDraft(operator, { stationId: e.target.value || null })}
+                      >
+                        <option value="">{operator.active ? 'Unassigned' : 'Choose station…'}</option>
+                        {stations.map(s => (
+                          <option key={s.id} value={s.id}>{stationLabel(operator.id, s)}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="flex items-center gap-1 justify-end">
+                        {operator.active && (
+                          <button
+                            onClick={() => saveOperator(operator)}
+                            disabled={!draft || isWorking}
+                            className={cn('btn-ghost p-2', draft && 'text-accent-400')}
+                            aria-label="Save"
+                          >
+                            <Save className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => toggleActive(operator)}
+                          disabled={isWorking}
+                          className={cn('btn-ghost p-2', operator.active ? 'hover:text-danger-400' : 'hover:text-success-400')}
+                          aria-label={operator.active ? 'Deactivate' : 'Reactivate'}
+                          title={operator.active ? 'Deactivate' : 'Reactivate'}
+                        >
+                          {operator.active ? <UserX className="w-4 h-4" /> : <UserCheck className="w-4 h-4" />}
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+
+              {/* New operator */}
+              <tr className="bg-steel-800/30">
+                <td className="px-3 py-2 w-28">
+                  <input
+                    className="input py-1.5 font-mono"
+                    value={newOperator.id}
+                    onChange={e => setNewOperator({ ...newOperator, id: e.target.value })}
+                    placeholder="OP031"
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    className="input py-1.5"
+                    value={newOperator.name}
+                    onChange={e => setNewOperator({ ...newOperator, name: e.target.value })}
+                    placeholder="Operator name"
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <select
+                    className="input py-1.5"
+                    value={newOperator.shift}
+                    onChange={e => setNewOperator({ ...newOperator, shift: e.target.value as Operator['shift'] })}
+                  >
+                    {SHIFTS.map(s => (
+                      <option key={s} value={s}>{s}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    min={1}
+                    max={5}
+                    step={1}
+                    className="input py-1.5"
+                    value={newOperator.skillLevel}
+                    onChange={e => setNewOperator({ ...newOperator, skillLevel: Number(e.target.value) })}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    min={1}
+                    step={0.1}
+                    className="input py-1.5"
+                    value={newOperator.efficiency}
+                    onChange={e => setNewOperator({ ...newOperator, efficiency: Number(e.target.value) })}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <select
+                    className="input py-1.5"
+                    value={newOperator.stationId}
+                    onChange={e => setNewOperator({ ...newOperator, stationId: e.target.value })}
+                  >
+                    <option value="">Choose station…</option>
+                    {stations.map(s => (
+                      <option key={s.id} value={s.id}>{s.id} {s.name}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-3 py-2 text-right">
+                  <button
+                    onClick={addOperator}
+                    disabled={!newOperator.id.trim() || !newOperator.name.trim() || !newOperator.stationId || isWorking}
+                    className="btn-primary gap-2"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add
+                  </button>
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Skill matrix */}
+      <div className="card">
+        <div className="card-header flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Grid3X3 className="w-4 h-4 text-steel-400" />
+            <h3 className="text-lg font-semibold">Skill Matrix</h3>
+          </div>
+          <div className="flex items-center gap-2 text-xs">
+            {SKILL_STATUSES.map(status => (
+              <span key={status} className={cn('px-2 py-0.5 rounded border capitalize', getCertificationColor(status))}>
+                {status}
+              </span>
+            ))}
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-steel-800/50 text-steel-400 text-xs">
+              <tr>
+                <th className="px-3 py-2 text-left uppercase">Operator</th>
+                {stations.map(s => (
+                  <th key={s.id} className="px-2 py-2 text-center font-mono" title={s.name}>{s.id}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-steel-800">
+              {activeOperators.map(operator => (
+                <tr key={operator.id}>
+                  <td className="px-3 py-1.5 text-steel-300 whitespace-nowrap">
+                    {operator.name}
+                    <span className="ml-2 text-xs text-steel-500">{operator.shift}</span>
+                  </td>
+                  {stations.map(station => {
+                    const skill = getSkill(operator.id, station.id);
+                    const isAssigned = operator.stationId === station.id;
+                    const isEditing = skillDraft?.operatorId === operator.id && skillDraft.stationId === station.id;
+                    return (
+                      <td key={station.id} className="px-2 py-1.5 text-center">
+                        <button
+                          onClick={() => editSkill(operator, station)}
+                          className={cn(
+                            'w-9 h-7 rounded border text-xs font-semibold transition-colors',
+                            skill ? getCertificationColor(skill.status) : 'border-steel-800 text-steel-700 hover:border-steel-600',
+                            isAssigned && 'ring-1 ring-accent-500',
+                            isEditing && 'ring-2 ring-accent-400'
+                          )}
+                          title={
+                            skill
+                              ? `${skill.status}${skill.expiresAt ? `, expires ${new Date(skill.expiresAt).toLocaleDateString()}` : ''}`
+                              : 'No skill recorded'
+                          }
+                        >
+                          {skill ? skill.proficiency : '·'}
+                        </button>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {skillDraft && (
+          <div className="card-body border-t border-steel-800 flex flex-wrap items-end gap-4">
+            <div className="text-sm text-steel-300 w-full">
+              <span className="font-medium text-white">{operatorNames.get(skillDraft.operatorId)}</span>
+              {' at '}
+              <span className="font-medium text-white">{stationNames.get(skillDraft.stationId)}</span>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-steel-300 pb-2">
+              <input
+                type="checkbox"
+                checked={skillDraft.certified}
+                onChange={e => setSkillDraft({ ...skillDraft, certified: e.target.checked })}
+              />
+              Certified
+            </label>
+            <div className="w-28">
+              <label className="block text-xs text-steel-400 uppercase tracking-wider mb-1">Proficiency</label>
+              <select
+                className="input py-2"
+                value={skillDraft.proficiency}
+                onChange={e => setSkillDraft({ ...skillDraft, proficiency: Number(e.target.value) })}
+              >
+                {[1, 2, 3, 4, 5].map(level => (
+                  <option key={level} value={level}>{level}</option>
+                ))}
+              </select>
+            </div>
+            <div className="w-44">
+              <label className="block text-xs text-steel-400 uppercase tracking-wider mb-1">Certified On</label>
+              <input
+                type="date"
+                className="input py-2"
+                value={skillDraft.certifiedAt}
+                disabled={!skillDraft.certified}
+                onChange={e => setSkillDraft({ ...skillDraft, certifiedAt: e.target.value })}
+              />
+            </div>
+            <div className="w-44">
+              <label className="block text-xs text-steel-400 uppercase tracking-wider mb-1">Expires</label>
+              <input
+                type="date"
+                className="input py-2"
+                value={skillDraft.expiresAt}
+                disabled={!skillDraft.certified}
+                onChange={e => setSkillDraft({ ...skillDraft, expiresAt: e.target.value })}
+              />
+            </div>
+            <div className="flex gap-2 ml-auto">
+              {skillDraft.exists && (
+                <button onClick={removeSkill} disabled={isWorking} className="btn-ghost gap-2 hover:text-danger-400">
+                  <Trash2 className="w-4 h-4" />
+                  Remove
+                </button>
+              )}
+              <button onClick={() => setSkillDraft(null)} disabled={isWorking} className="btn-secondary">
+                Cancel
+              </button>
+              <button onClick={saveSkill} disabled={isWorking} className="btn-primary gap-2">
+                <Save className="w-4 h-4" />
+                Save
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
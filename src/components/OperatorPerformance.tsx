@@ -0,0 +1,167 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { UserSearch } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { OperatorMetricComparison, StationOperatorAttribution } from '@/types';
+
+interface OperatorPerformanceProps {
+  lineId: string | null;
+}
+
+const WINDOWS = [
+  { label: '7d', hours: 168 },
+  { label: '14d', hours: 336 },
+  { label: '30d', hours: 720 },
+];
+
+function formatPValue(p: number): string {
+  return p <= 0.0001 ? '<0.0001' : p.toFixed(4);
+}
+
+function ComparisonCell({ comparison, unit }: { comparison: OperatorMetricComparison | null; unit: string }) {
+  if (!comparison) return <td className="px-3 py-2 text-steel-600">No peers</td>;
+  const sign = comparison.difference > 0 ? '+' : '';
+  return (
+    <td className="px-3 py-2">
+      <div className={cn('font-medium', comparison.worse ? 'text-danger-400' : 'text-steel-300')}>
+        {sign}{comparison.difference}{unit}
+      </div>
+      <div className="text-xs text-steel-500">
+        {comparison.operatorMean}{unit} vs {comparison.peerMean}{unit} · d {comparison.effectSize} · p {formatPValue(comparison.pValue)}
+      </div>
+    </td>
+  );
+}
+
+export function OperatorPerformance({ lineId }: OperatorPerformanceProps) {
+  const [attributions, setAttributions] = useState<StationOperatorAttribution[]>([]);
+  const [stationId, setStationId] = useState<string | null>(null);
+  const [windowIndex, setWindowIndex] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchAttribution();
+  }, [lineId, windowIndex]);
+
+  async function fetchAttribution() {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ hours: String(WINDOWS[windowIndex].hours) });
+      if (lineId) params.set('lineId', lineId);
+      const response = await fetch(`/api/operators/attribution?${params}`);
+      if (!response.ok) throw new Error(`Attribution request failed: ${response.status}`);
+      const data: StationOperatorAttribution[] = await response.json();
+      setAttributions(data);
+      setStationId(current => data.some(a => a.stationId === current) ? current : data[0]?.stationId ?? null);
+    } catch (error) {
+      console.error('Failed to fetch operator attribution:', error);
+      setAttributions([]);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const selected = attributions.find(a => a.stationId === stationId);
+  const flagged = (a: StationOperatorAttribution) =>
+    a.operators.filter(o => o.cycleTime?.worse || o.defectRate?.worse).length;
+
+  return (
+    <div className="card">
+      <div className="card-header flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-accent-500/20 flex items-center justify-center">
+            <UserSearch className="w-5 h-5 text-accent-400" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold">Operator Performance</h2>
+            <p className="text-sm text-steel-400">
+              Each operator against peers at the same station, shift and weekday
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={stationId ?? ''}
+            onChange={e => setStationId(e.target.value)}
+            className="input w-56"
+          >
+            {attributions.map(a => (
+              <option key={a.stationId} value={a.stationId}>
+                {a.stationName}{flagged(a) > 0 ? ` (${flagged(a)} flagged)` : ''}
+              </option>
+            ))}
+          </select>
+          <div className="flex gap-2">
+            {WINDOWS.map((w, index) => (
+              <button
+                key={w.label}
+                onClick={() => setWindowIndex(index)}
+                className={cn(
+                  'px-3 py-1.5 rounded-lg text-sm font-medium transition-all',
+                  windowIndex === index
+                    ? 'bg-accent-600 text-white'
+                    : 'bg-steel-800 text-steel-400 hover:text-white hover:bg-steel-700'
+                )}
+              >
+                {w.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="h-32 flex items-center justify-center">
+          <div className="w-8 h-8 border-2 border-accent-500 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : !selected ? (
+        <div className="card-body text-sm text-steel-400">No production records in this window.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-steel-800/50 text-steel-400 text-xs uppercase">
+              <tr>
+                <th className="px-3 py-2 text-left">Operator</th>
+                <th className="px-3 py-2 text-left">Skill</th>
+                <th className="px-3 py-2 text-left">Proficiency</th>
+                <th className="px-3 py-2 text-left">Efficiency</th>
+                <th className="px-3 py-2 text-left">Cycles</th>
+                <th className="px-3 py-2 text-left">Over Target vs Peers</th>
+                <th className="px-3 py-2 text-left">Defects / 100 vs Peers</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-steel-800">
+              {selected.operators.map(operator => {
+                const worse = operator.cycleTime?.worse || operator.defectRate?.worse;
+                return (
+                  <tr key={operator.operatorId} className="text-steel-300">
+                    <td className="px-3 py-2">
+                      {operator.operatorName}
+                      <span className="ml-2 text-xs font-mono text-steel-500">{operator.operatorId}</span>
+                    </td>
+                    <td className="px-3 py-2">{operator.skillLevel ?? '—'}</td>
+                    <td className="px-3 py-2">{operator.proficiency ?? '—'}</td>
+                    <td className="px-3 py-2">{operator.efficiency !== null ? `${operator.efficiency}%` : '—'}</td>
+                    <td className="px-3 py-2">{operator.records}</td>
+                    <ComparisonCell comparison={operator.cycleTime} unit=" pts" />
+                    <ComparisonCell comparison={operator.defectRate} unit="" />
+                    <td className="px-3 py-2 text-right">
+                      {worse && <span className="badge-warning">Training</span>}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="px-6 py-3 text-xs text-steel-500">
+            Differences are weighted across the shift and weekday cells each operator shares with peers. P-values are
+            Holm-adjusted across the station; operators are flagged when significantly worse with an effect size of at
+            least 0.2.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,24 +1,216 @@
 'use client';
 
-import { useState } from 'react';
-import { cn, formatDuration, formatPercent, getStatusColor } from '@/lib/utils';
-import { ChevronRight, Users, Clock, AlertTriangle } from 'lucide-react';
-import type { StationMetrics, BottleneckAnalysis } from '@/types';
+import { useState, useEffect } from 'react';
+import { cn, formatDuration, formatPercent, getCertificationColor, getStatusColor } from '@/lib/utils';
+import { Users, Clock, AlertTriangle, BadgeCheck } from 'lucide-react';
+import type { StationMetrics, BottleneckAnalysis, LineTopology, OperatorSkill, StationRoute, TopologyNode } from '@/types';
+
+// Fixed card geometry so route paths can be drawn between known anchor points
+const CARD_WIDTH = 140;
+const CARD_HEIGHT = 112;
+const COLUMN_GAP = 56;
+const ROW_GAP = 24;
+const BADGE_SPACE = 8;
+const REWORK_SPACE = 40;
 
 interface ProductionLineProps {
   stations: StationMetrics[];
   bottlenecks: BottleneckAnalysis[];
+  lineId?: string | null;
+}
+
+interface PlacedStation {
+  station: StationMetrics;
+  parallelUnits: number;
+  x: number;
+  y: number;
 }
 
-export function ProductionLine({ stations, bottlenecks }: ProductionLineProps) {
+// Columns by depth in the flow graph; stations sharing a depth are stacked and centred
+function layoutStations(stations: StationMetrics[], topology: LineTopology | null): PlacedStation[] {
+  const nodes: Array<Pick<TopologyNode, 'stationId' | 'depth' | 'parallelUnits'>> = topology
+    ? topology.nodes
+    : stations.map((s, index) => ({ stationId: s.stationId, depth: index, parallelUnits: 1 }));
+
+  const columns = new Map<number, typeof nodes>();
+  for (const node of nodes) {
+    columns.set(node.depth, [...(columns.get(node.depth) ?? []), node]);
+  }
+  const maxRows = Math.max(1, ...Array.from(columns.values()).map(c => c.length));
+
+  return nodes.flatMap(node => {
+    const station = stations.find(s => s.stationId === node.stationId);
+    if (!station) return [];
+    const column = columns.get(node.depth)!;
+    const offset = ((maxRows - column.length) / 2) * (CARD_HEIGHT + ROW_GAP);
+    return [{
+      station,
+      parallelUnits: node.parallelUnits,
+      x: BADGE_SPACE + node.depth * (CARD_WIDTH + COLUMN_GAP),
+      y: BADGE_SPACE + offset + column.indexOf(node) * (CARD_HEIGHT + ROW_GAP),
+    }];
+  });
+}
+
+function formatFraction(fraction: number): string {
+  return `${Math.round(fraction * 1000) / 10}%`;
+}
+
+export function ProductionLine({ stations, bottlenecks, lineId }: ProductionLineProps) {
   const [selectedStation, setSelectedStation] = useState<string | null>(null);
+  const [topology, setTopology] = useState<LineTopology | null>(null);
+
+  useEffect(() => {
+    const params = lineId ? `?lineId=${encodeURIComponent(lineId)}` : '';
+    fetch(`/api/lines/topology${params}`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(setTopology)
+      .catch(error => {
+        console.error('Failed to fetch line topology:', error);
+        setTopology(null);
+      });
+  }, [lineId]);
 
   const getBottleneckInfo = (stationId: string) => {
     return bottlenecks.find(b => b.stationId === stationId);
   };
 
-  const getStationColor = (station: StationMetrics) => {
-    const bottleneck = getBottleneckInfo(station.stationId);
+  const placed = layoutStations(stations, topology);
+  const positionOf = new Map(placed.map(p => [p.station.stationId, p]));
+  // Until the topology loads the line is drawn serially in station order
+  const allRoutes: StationRoute[] = topology?.routes ?? stations.slice(1).map((s, index) => ({
+    fromStationId: stations[index].stationId,
+    toStationId: s.stationId,
+    kind: 'flow',
+    fraction: 1,
+  }));
+  const routes = allRoutes.filter(r => positionOf.has(r.fromStationId) && positionOf.has(r.toStationId));
+  const hasRework = routes.some(r => r.kind === 'rework');
+  const width = Math.max(0, ...placed.map(p => p.x + CARD_WIDTH)) + BADGE_SPACE;
+  const height = Math.max(0, ...placed.map(p => p.y + CARD_HEIGHT)) + (hasRework ? REWORK_SPACE : BADGE_SPACE);
+  const unrouted = stations.filter(s => topology?.unroutedStationIds.includes(s.stationId));
+
+  const renderCard = (station: StationMetrics, parallelUnits: number) => (
+    <StationCard
+      station={station}
+      parallelUnits={parallelUnits}
+      bottleneck={getBottleneckInfo(station.stationId)}
+      isSelected={selectedStation === station.stationId}
+      onSelect={() => setSelectedStation(selectedStation === station.stationId ? null : station.stationId)}
+    />
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Production Line Flow */}
+      <div className="overflow-x-auto pb-4">
+        <div className="relative" style={{ width, height }}>
+          <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+            <defs>
+              <marker id="route-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                <path d="M0,0 L10,5 L0,10 z" fill="#475569" />
+              </marker>
+              <marker id="rework-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                <path d="M0,0 L10,5 L0,10 z" fill="#f59e0b" />
+              </marker>
+            </defs>
+            {routes.map(route => {
+              const from = positionOf.get(route.fromStationId)!;
+              const to = positionOf.get(route.toStationId)!;
+
+              if (route.kind === 'rework') {
+                // Rework loops back underneath the cards
+                const x1 = from.x + CARD_WIDTH / 2;
+                const x2 = to.x + CARD_WIDTH / 2;
+                const y1 = from.y + CARD_HEIGHT;
+                const y2 = to.y + CARD_HEIGHT;
+                const dip = Math.max(y1, y2) + REWORK_SPACE - 8;
+                return (
+                  <g key={`${route.fromStationId}-${route.toStationId}`}>
+                    <path
+                      d={`M${x1},${y1} C${x1},${dip} ${x2},${dip} ${x2},${y2 + 2}`}
+                      fill="none"
+                      stroke="#f59e0b"
+                      strokeDasharray="4 3"
+                      strokeWidth={1.5}
+                      markerEnd="url(#rework-arrow)"
+                    />
+                    <text x={(x1 + x2) / 2} y={dip - 4} textAnchor="middle" fontSize={10} fill="#f59e0b">
+                      rework {formatFraction(route.fraction)}
+                    </text>
+                  </g>
+                );
+              }
+
+              const x1 = from.x + CARD_WIDTH;
+              const y1 = from.y + CARD_HEIGHT / 2;
+              const x2 = to.x - 2;
+              const y2 = to.y + CARD_HEIGHT / 2;
+              const bend = Math.max(COLUMN_GAP / 2, (x2 - x1) / 2);
+              return (
+                <g key={`${route.fromStationId}-${route.toStationId}`}>
+                  <path
+                    d={`M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}`}
+                    fill="none"
+                    stroke="#475569"
+                    strokeWidth={2}
+                    markerEnd="url(#route-arrow)"
+                  />
+                  {route.fraction < 1 && (
+                    <text x={(x1 + x2) / 2} y={(y1 + y2) / 2 - 6} textAnchor="middle" fontSize={10} fill="#94a3b8">
+                      {formatFraction(route.fraction)}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </svg>
+
+          {placed.map(({ station, parallelUnits, x, y }) => (
+            <div key={station.stationId} className="absolute" style={{ left: x, top: y }}>
+              {renderCard(station, parallelUnits)}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Stations on a routed line that no route reaches */}
+      {unrouted.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-xs uppercase tracking-wider text-steel-500">Not routed</div>
+          <div className="flex flex-wrap gap-4 pt-2">
+            {unrouted.map(station => (
+              <div key={station.stationId}>{renderCard(station, 1)}</div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Selected Station Details */}
+      {selectedStation && (
+        <StationDetails 
+          station={stations.find(s => s.stationId === selectedStation)!}
+          bottleneck={getBottleneckInfo(selectedStation)}
+        />
+      )}
+    </div>
+  );
+}
+
+function StationCard({
+  station,
+  parallelUnits,
+  bottleneck,
+  isSelected,
+  onSelect,
+}: {
+  station: StationMetrics;
+  parallelUnits: number;
+  bottleneck?: BottleneckAnalysis;
+  isSelected: boolean;
+  onSelect: () => void;
+}) {
+  const getStationColor = () => {
     if (!bottleneck) return 'border-steel-700 bg-steel-800/50';
     
     switch (bottleneck.severity) {
@@ -37,91 +229,67 @@ export function ProductionLine({ stations, bottlenecks }: ProductionLineProps) {
   };
 
   return (
-    <div className="space-y-6">
-      {/* Production Line Flow */}
-      <div className="flex items-center gap-2 overflow-x-auto pb-4">
-        {stations.map((station, index) => {
-          const bottleneck = getBottleneckInfo(station.stationId);
-          const isSelected = selectedStation === station.stationId;
-          
-          return (
-            <div key={station.stationId} className="flex items-center">
-              {/* Station Card */}
-              <button
-                onClick={() => setSelectedStation(isSelected ? null : station.stationId)}
-                className={cn(
-                  'relative min-w-[140px] p-4 rounded-xl border-2 transition-all duration-300',
-                  'hover:scale-105 focus:outline-none focus:ring-2 focus:ring-accent-500',
-                  getStationColor(station),
-                  isSelected && 'ring-2 ring-accent-500'
-                )}
-              >
-                {/* Status indicator */}
-                <div className="absolute -top-1 -right-1">
-                  <span className={cn('status-dot', station.status)} />
-                </div>
-                
-                {/* Bottleneck badge */}
-                {bottleneck && bottleneck.severity !== 'low' && (
-                  <div className="absolute -top-2 -left-2">
-                    <div className={cn(
-                      'w-6 h-6 rounded-full flex items-center justify-center',
-                      bottleneck.severity === 'critical' ? 'bg-danger-500' :
-                      bottleneck.severity === 'high' ? 'bg-warning-500' : 'bg-accent-500'
-                    )}>
-                      <AlertTriangle className="w-3 h-3 text-white" />
-                    </div>
-                  </div>
-                )}
-
-                <div className="text-center">
-                  <div className="text-xs text-steel-400 mb-1">{station.stationId}</div>
-                  <div className="text-sm font-semibold text-white truncate mb-2">
-                    {station.stationName}
-                  </div>
-                  
-                  {/* Utilization bar */}
-                  <div className="h-1.5 bg-steel-700 rounded-full overflow-hidden mb-2">
-                    <div 
-                      className={cn('h-full rounded-full transition-all duration-500', getUtilizationColor(station.utilization))}
-                      style={{ width: `${Math.min(100, station.utilization)}%` }}
-                    />
-                  </div>
-                  
-                  <div className="flex items-center justify-between text-xs">
-                    <span className="text-steel-400">{formatPercent(station.utilization, 0)}</span>
-                    <span className={cn(
-                      station.currentCycleTime > station.targetCycleTime * 1.1 
-                        ? 'text-danger-400' 
-                        : 'text-steel-300'
-                    )}>
-                      {formatDuration(station.currentCycleTime)}
-                    </span>
-                  </div>
-                </div>
-              </button>
-              
-              {/* Connector */}
-              {index < stations.length - 1 && (
-                <div className="flex items-center mx-1">
-                  <div className="w-4 h-0.5 bg-steel-700" />
-                  <ChevronRight className="w-4 h-4 text-steel-600" />
-                  <div className="w-4 h-0.5 bg-steel-700" />
-                </div>
-              )}
-            </div>
-          );
-        })}
+    <button
+      onClick={onSelect}
+      style={{ width: CARD_WIDTH, height: CARD_HEIGHT }}
+      className={cn(
+        'relative p-4 rounded-xl border-2 transition-all duration-300',
+        'hover:scale-105 focus:outline-none focus:ring-2 focus:ring-accent-500',
+        getStationColor(),
+        isSelected && 'ring-2 ring-accent-500'
+      )}
+    >
+      {/* Status indicator */}
+      <div className="absolute -top-1 -right-1">
+        <span className={cn('status-dot', station.status)} />
       </div>
+      
+      {/* Bottleneck badge */}
+      {bottleneck && bottleneck.severity !== 'low' && (
+        <div className="absolute -top-2 -left-2">
+          <div className={cn(
+            'w-6 h-6 rounded-full flex items-center justify-center',
+            bottleneck.severity === 'critical' ? 'bg-danger-500' :
+            bottleneck.severity === 'high' ? 'bg-warning-500' : 'bg-accent-500'
+          )}>
+            <AlertTriangle className="w-3 h-3 text-white" />
+          </div>
+        </div>
+      )}
 
-      {/* Selected Station Details */}
-      {selectedStation && (
-        <StationDetails 
-          station={stations.find(s => s.stationId === selectedStation)!}
-          bottleneck={getBottleneckInfo(selectedStation)}
-        />
+      {/* Parallel capacity */}
+      {parallelUnits > 1 && (
+        <div className="absolute -bottom-2 -right-2 px-1.5 py-0.5 rounded-md bg-accent-600 text-[10px] font-bold text-white">
+          ×{parallelUnits}
+        </div>
       )}
-    </div>
+
+      <div className="text-center">
+        <div className="text-xs text-steel-400 mb-1">{station.stationId}</div>
+        <div className="text-sm font-semibold text-white truncate mb-2">
+          {station.stationName}
+        </div>
+        
+        {/* Utilization bar */}
+        <div className="h-1.5 bg-steel-700 rounded-full overflow-hidden mb-2">
+          <div 
+            className={cn('h-full rounded-full transition-all duration-500', getUtilizationColor(station.utilization))}
+            style={{ width: `${Math.min(100, station.utilization)}%` }}
+          />
+        </div>
+        
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-steel-400">{formatPercent(station.utilization, 0)}</span>
+          <span className={cn(
+            station.currentCycleTime > station.targetCycleTime * 1.1 
+              ? 'text-danger-400' 
+              : 'text-steel-300'
+          )}>
+            {formatDuration(station.currentCycleTime)}
+          </span>
+        </div>
+      </div>
+    </button>
   );
 }
 
@@ -132,6 +300,15 @@ function StationDetails({
   station: StationMetrics; 
   bottleneck?: BottleneckAnalysis;
 }) {
+  const [skills, setSkills] = useState<OperatorSkill[]>([]);
+
+  useEffect(() => {
+    fetch(`/api/operators/skills?stationId=${encodeURIComponent(station.stationId)}`)
+      .then(response => response.json())
+      .then(setSkills)
+      .catch(error => console.error('Failed to fetch station skills:', error));
+  }, [station.stationId]);
+
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 p-4 bg-steel-800/50 rounded-xl border border-steel-700 animate-slide-up">
       {/* Station Info */}
@@ -209,6 +386,36 @@ function StationDetails({
           <span className="badge badge-success">Normal</span>
         )}
       </div>
+
+      {/* Skill Matrix */}
+      <div className="md:col-span-2 lg:col-span-4 space-y-2">
+        <div className="flex items-center gap-2 text-steel-400">
+          <BadgeCheck className="w-4 h-4" />
+          <span className="text-xs uppercase tracking-wider">Qualified Operators</span>
+        </div>
+        {skills.length === 0 ? (
+          <p className="text-sm text-steel-500">No skills recorded for this station.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {skills.map(skill => (
+              <div
+                key={skill.operatorId}
+                className={cn('px-3 py-1.5 rounded-lg border text-xs', getCertificationColor(skill.status))}
+              >
+                <span className="font-medium">{skill.operatorName}</span>
+                <span className="ml-2">L{skill.proficiency}</span>
+                <span className="ml-2 opacity-80">
+                  {skill.status === 'uncertified'
+                    ? 'in training'
+                    : skill.expiresAt
+                      ? `${skill.status === 'expired' ? 'expired' : 'expires'} ${new Date(skill.expiresAt).toLocaleDateString()}`
+                      : 'no expiry'}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,338 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ClipboardCheck, Sparkles } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { RecommendationStatus, RecommendationTrackRecord, TrackedRecommendation } from '@/types';
+
+// Shared with the other editors so audit entries don't need retyping
+const CHANGED_BY_KEY = 'linebalancer.changedBy';
+
+interface RecommendationTrackerProps {
+  lineId?: string | null;
+}
+
+const FILTERS: { label: string; value: RecommendationStatus | null }[] = [
+  { label: 'All', value: null },
+  { label: 'Proposed', value: 'proposed' },
+  { label: 'Accepted', value: 'accepted' },
+  { label: 'Implemented', value: 'implemented' },
+  { label: 'Verified', value: 'verified' },
+  { label: 'Rejected', value: 'rejected' },
+];
+
+// The moves offered from each status; mirrors the transitions the API allows
+const ACTIONS: Record<RecommendationStatus, { label: string; status: RecommendationStatus }[]> = {
+  proposed: [{ label: 'Accept', status: 'accepted' }, { label: 'Reject', status: 'rejected' }],
+  accepted: [{ label: 'Implemented', status: 'implemented' }, { label: 'Reject', status: 'rejected' }],
+  rejected: [{ label: 'Reopen', status: 'proposed' }],
+  implemented: [{ label: 'Verify', status: 'verified' }],
+  verified: [],
+};
+
+const TYPE_LABELS: Record<TrackedRecommendation['type'], string> = {
+  add_operator: 'Add operator',
+  training: 'Training',
+  equipment: 'Equipment',
+  rebalance: 'Rebalance',
+  maintenance: 'Maintenance',
+  material: 'Material',
+  process: 'Process',
+};
+
+export function RecommendationStatusBadge({ status }: { status: RecommendationStatus }) {
+  switch (status) {
+    case 'proposed':
+      return <span className="badge badge-info">PROPOSED</span>;
+    case 'accepted':
+      return <span className="badge badge-warning">ACCEPTED</span>;
+    case 'rejected':
+      return <span className="badge bg-steel-700 text-steel-300">REJECTED</span>;
+    case 'implemented':
+      return <span className="badge badge-warning">IMPLEMENTED</span>;
+    case 'verified':
+      return <span className="badge badge-success">VERIFIED</span>;
+  }
+}
+
+function formatDate(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleDateString([], { month: 'short', day: 'numeric' }) : '—';
+}
+
+// The latest step the recommendation reached, for the Dates column
+function lastStep(rec: TrackedRecommendation): string {
+  switch (rec.status) {
+    case 'verified':
+      return `verified ${formatDate(rec.verifiedAt)}`;
+    case 'implemented':
+      return `implemented ${formatDate(rec.implementedAt)}`;
+    case 'accepted':
+      return `accepted ${formatDate(rec.acceptedAt)}`;
+    case 'rejected':
+      return `rejected ${formatDate(rec.rejectedAt)}`;
+    case 'proposed':
+      return `last proposed ${formatDate(rec.lastProposedAt)}`;
+  }
+}
+
+export function RecommendationTracker({ lineId }: RecommendationTrackerProps) {
+  const [recommendations, setRecommendations] = useState<TrackedRecommendation[]>([]);
+  const [trackRecords, setTrackRecords] = useState<RecommendationTrackRecord[]>([]);
+  const [filter, setFilter] = useState<RecommendationStatus | null>(null);
+  const [changedBy, setChangedBy] = useState('');
+  const [happenedAt, setHappenedAt] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setChangedBy(localStorage.getItem(CHANGED_BY_KEY) || '');
+  }, []);
+
+  useEffect(() => {
+    fetchRecommendations();
+  }, [lineId, filter]);
+
+  async function fetchRecommendations() {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (lineId) params.set('lineId', lineId);
+      if (filter) params.set('status', filter);
+      const response = await fetch(`/api/recommendations?${params}`);
+      if (!response.ok) throw new Error(`Recommendations request failed: ${response.status}`);
+      const data = await response.json();
+      setRecommendations(data.recommendations);
+      setTrackRecords(data.trackRecords);
+    } catch (error) {
+      console.error('Failed to fetch recommendations:', error);
+      setRecommendations([]);
+      setTrackRecords([]);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function updateChangedBy(value: string) {
+    setChangedBy(value);
+    localStorage.setItem(CHANGED_BY_KEY, value);
+  }
+
+  async function update(id: string, body: Record<string, unknown>) {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/recommendations/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...body, updatedBy: changedBy }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Request failed');
+        return;
+      }
+      await fetchRecommendations();
+    } catch (error) {
+      console.error('Recommendation update failed:', error);
+      setError('Request failed');
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  // Stores what the bottleneck analysis of the last 24 hours recommends as proposed
+  async function propose() {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (lineId) params.set('lineId', lineId);
+      const response = await fetch(`/api/bottlenecks?${params}`, { method: 'POST' });
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Request failed');
+        return;
+      }
+      await fetchRecommendations();
+    } catch (error) {
+      console.error('Proposing recommendations failed:', error);
+      setError('Request failed');
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  function move(rec: TrackedRecommendation, status: RecommendationStatus) {
+    const body: Record<string, unknown> = { status };
+    // Whoever accepts an unowned recommendation takes it on
+    if (status === 'accepted' && !rec.owner) body.owner = changedBy;
+    if (happenedAt && status !== 'verified') body.at = new Date(happenedAt).toISOString();
+    update(rec.id, body);
+  }
+
+  return (
+    <div className="card">
+      <div className="card-header flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-accent-500/20 flex items-center justify-center">
+            <ClipboardCheck className="w-5 h-5 text-accent-400" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold">Recommendation Tracker</h2>
+            <p className="text-sm text-steel-400">
+              Recommendations from proposal to verified impact, a week before against a week after
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="w-40">
+            <label className="block text-xs text-steel-400 uppercase tracking-wider mb-1">Changed By</label>
+            <input
+              className="input py-2"
+              value={changedBy}
+              onChange={e => updateChangedBy(e.target.value)}
+              placeholder="Your name"
+            />
+          </div>
+          <div className="w-52">
+            <label className="block text-xs text-steel-400 uppercase tracking-wider mb-1">Happened At</label>
+            <input
+              type="datetime-local"
+              className="input py-2"
+              value={happenedAt}
+              onChange={e => setHappenedAt(e.target.value)}
+            />
+          </div>
+          <button onClick={propose} disabled={isWorking} className="btn-primary flex items-center gap-2">
+            <Sparkles className="w-4 h-4" />
+            Propose from Analysis
+          </button>
+        </div>
+      </div>
+
+      <div className="px-6 py-3 border-b border-steel-800 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex gap-1">
+          {FILTERS.map(f => (
+            <button
+              key={f.label}
+              onClick={() => setFilter(f.value)}
+              className={cn(
+                'px-3 py-1 text-xs rounded-md transition-colors',
+                filter === f.value
+                  ? 'bg-accent-600 text-white'
+                  : 'bg-steel-800 text-steel-400 hover:text-white hover:bg-steel-700'
+              )}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+        {trackRecords.length > 0 && (
+          <div className="flex flex-wrap gap-3 text-xs text-steel-400">
+            {trackRecords.map(r => (
+              <span key={r.type}>
+                {TYPE_LABELS[r.type]}: {r.verified} verified, {Math.round((r.meanRealization ?? 0) * 100)}% delivered
+                <span className="text-steel-500"> · confidence ×{r.confidenceFactor}</span>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="px-6 py-3 bg-danger-500/10 border-b border-danger-500/30 text-sm text-danger-400">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="h-32 flex items-center justify-center">
+          <div className="w-8 h-8 border-2 border-accent-500 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : recommendations.length === 0 ? (
+        <p className="p-6 text-sm text-steel-400">
+          No recommendations yet. Propose from analysis to store what the bottleneck analysis recommends.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-steel-800/50 text-steel-400 text-xs uppercase">
+              <tr>
+                <th className="px-4 py-3 text-left">Recommendation</th>
+                <th className="px-4 py-3 text-left">Status</th>
+                <th className="px-4 py-3 text-left">Owner</th>
+                <th className="px-4 py-3 text-left">Dates</th>
+                <th className="px-4 py-3 text-right">Expected</th>
+                <th className="px-4 py-3 text-right">Actual</th>
+                <th className="px-4 py-3 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-steel-800">
+              {recommendations.map(rec => {
+                const verification = rec.verification;
+                return (
+                  <tr key={rec.id}>
+                    <td className="px-4 py-3 max-w-md">
+                      <p className="text-white">{rec.description}</p>
+                      <p className="text-xs text-steel-500">
+                        {rec.stationName} · {TYPE_LABELS[rec.type]} · {Math.round(rec.confidence * 100)}% confidence
+                      </p>
+                    </td>
+                    <td className="px-4 py-3"><RecommendationStatusBadge status={rec.status} /></td>
+                    <td className="px-4 py-3">
+                      {rec.owner ?? (
+                        <button
+                          onClick={() => update(rec.id, { owner: changedBy })}
+                          disabled={!changedBy.trim() || isWorking}
+                          className="text-xs text-accent-400 hover:text-accent-300 disabled:text-steel-600"
+                        >
+                          Assign to me
+                        </button>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-steel-400">
+                      <p>proposed {formatDate(rec.proposedAt)}</p>
+                      {rec.status !== 'proposed' && <p>{lastStep(rec)}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-right text-success-400">+{rec.expectedImprovement}%</td>
+                    <td className="px-4 py-3 text-right">
+                      {verification ? (
+                        <>
+                          <p className={cn(verification.actualImprovement >= rec.expectedImprovement ? 'text-success-400' : 'text-warning-400')}>
+                            {verification.actualImprovement > 0 ? '+' : ''}{verification.actualImprovement}%
+                          </p>
+                          <p className="text-xs text-steel-500">
+                            {verification.cycleTimeBefore}s → {verification.cycleTimeAfter}s ·{' '}
+                            {verification.throughputChangePercent > 0 ? '+' : ''}{verification.throughputChangePercent}% throughput
+                          </p>
+                        </>
+                      ) : (
+                        <span className="text-steel-500">—</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex justify-end gap-2">
+                        {ACTIONS[rec.status].map(action => (
+                          <button
+                            key={action.status}
+                            onClick={() => move(rec, action.status)}
+                            disabled={!changedBy.trim() || isWorking}
+                            className="btn-secondary px-3 py-1 text-xs"
+                          >
+                            {action.label}
+                          </button>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { 
   FlaskConical, Play, Plus, Minus, RotateCcw, 
   TrendingUp, TrendingDown, ArrowRight, Clock,
@@ -11,9 +11,11 @@ import type { StationMetrics, SimulationResult, SimulationChange } from '@/types
 
 interface SimulationPanelProps {
   stations: StationMetrics[];
+  lineId?: string | null;
+  initialChanges?: SimulationChange[] | null; // e.g. a balance sent from the line balancing tab
 }
 
-export function SimulationPanel({ stations }: SimulationPanelProps) {
+export function SimulationPanel({ stations, lineId, initialChanges }: SimulationPanelProps) {
   const [changes, setChanges] = useState<SimulationChange[]>([]);
   const [results, setResults] = useState<{
     baseline: SimulationResult;
@@ -21,6 +23,12 @@ export function SimulationPanel({ stations }: SimulationPanelProps) {
   } | null>(null);
   const [isRunning, setIsRunning] = useState(false);
 
+  useEffect(() => {
+    if (!initialChanges) return;
+    setChanges(initialChanges);
+    setResults(null);
+  }, [initialChanges]);
+
   const addChange = (stationId: string, type: SimulationChange['type'], value: number) => {
     const existingIndex = changes.findIndex(
       c => c.stationId === stationId && c.type === type
@@ -58,7 +66,7 @@ export function SimulationPanel({ stations }: SimulationPanelProps) {
       const response = await fetch('/api/simulate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ changes }),
+        body: JSON.stringify({ changes, lineId }),
       });
       const data = await response.json();
       setResults(data);
@@ -146,7 +154,7 @@ export function SimulationPanel({ stations }: SimulationPanelProps) {
       <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
         {stations.map(station => {
           const operatorChange = getOperatorChange(station.stationId);
-          const hasChange = operatorChange !== 0;
+          const hasChange = changes.some(c => c.stationId === station.stationId);
           
           return (
             <div
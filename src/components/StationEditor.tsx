@@ -0,0 +1,633 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Wrench, Plus, Save, Trash2, ArrowUp, ArrowDown, History, GitBranch, RotateCcw } from 'lucide-react';
+import { cn, formatDuration } from '@/lib/utils';
+import type { LineTopology, Station, StationRoute, StationTargetChange } from '@/types';
+
+const STATUSES: Station['status'][] = ['running', 'idle', 'maintenance', 'blocked'];
+
+// The last editor name is remembered so audit entries don't need retyping
+const CHANGED_BY_KEY = 'linebalancer.changedBy';
+
+interface StationEditorProps {
+  lineId: string | null;
+  onChange?: () => void;
+}
+
+type Draft = Pick<Station, 'name' | 'description' | 'targetCycleTime' | 'operatorCount' | 'parallelUnits' | 'status'>;
+
+const EMPTY_STATION = {
+  id: '',
+  name: '',
+  description: '',
+  targetCycleTime: 60,
+  operatorCount: 1,
+  parallelUnits: 1,
+  status: 'running' as Station['status'],
+};
+
+export function StationEditor({ lineId, onChange }: StationEditorProps) {
+  const [stations, setStations] = useState<Station[]>([]);
+  const [history, setHistory] = useState<StationTargetChange[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [newStation, setNewStation] = useState(EMPTY_STATION);
+  const [changedBy, setChangedBy] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setChangedBy(localStorage.getItem(CHANGED_BY_KEY) || '');
+  }, []);
+
+  useEffect(() => {
+    fetchStations();
+  }, [lineId]);
+
+  async function fetchStations() {
+    try {
+      const lineParam = lineId ? `?lineId=${encodeURIComponent(lineId)}` : '';
+      const response = await fetch(`/api/stations/config${lineParam}`);
+      const data: { stations: Station[]; history: StationTargetChange[] } = await response.json();
+      setStations(data.stations);
+      setHistory(data.history.sort((a, b) => b.changedAt.localeCompare(a.changedAt)));
+      setDrafts({});
+    } catch (error) {
+      console.error('Failed to fetch station config:', error);
+    }
+  }
+
+  async function send(method: 'POST' | 'PATCH' | 'DELETE', body?: unknown, query = '') {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/stations/config${query}`, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Request failed');
+        return false;
+      }
+      await fetchStations();
+      onChange?.();
+      return true;
+    } catch (error) {
+      console.error('Station config request failed:', error);
+      setError('Request failed');
+      return false;
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  function updateChangedBy(value: string) {
+    setChangedBy(value);
+    localStorage.setItem(CHANGED_BY_KEY, value);
+  }
+
+  function updateDraft(station: Station, changes: Partial<Draft>) {
+    const current = drafts[station.id] ?? {
+      name: station.name,
+      description: station.description,
+      targetCycleTime: station.targetCycleTime,
+      operatorCount: station.operatorCount,
+      parallelUnits: station.parallelUnits,
+      status: station.status,
+    };
+    setDrafts({ ...drafts, [station.id]: { ...current, ...changes } });
+  }
+
+  async function saveStation(station: Station) {
+    const draft = drafts[station.id];
+    if (!draft) return;
+    // Back-dating only applies to target changes; other fields always take effect now
+    const targetChanged = draft.targetCycleTime !== station.targetCycleTime;
+    await send('PATCH', {
+      id: station.id,
+      ...draft,
+      changedBy,
+      effectiveFrom: targetChanged && effectiveFrom ? new Date(effectiveFrom).toISOString() : undefined,
+    });
+  }
+
+  async function moveStation(index: number, direction: -1 | 1) {
+    const order = stations.map(s => s.id);
+    const target = index + direction;
+    if (target < 0 || target >= order.length) return;
+    [order[index], order[target]] = [order[target], order[index]];
+    await send('PATCH', { lineId, order });
+  }
+
+  async function removeStation(station: Station) {
+    if (!confirm(`Delete ${station.name}?`)) return;
+    await send('DELETE', undefined, `?id=${encodeURIComponent(station.id)}`);
+  }
+
+  async function addStation() {
+    const created = await send('POST', { ...newStation, lineId, changedBy });
+    if (created) setNewStation(EMPTY_STATION);
+  }
+
+  const stationNames = new Map(stations.map(s => [s.id, s.name]));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="card">
+        <div className="card-header flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-accent-500/20 flex items-center justify-center">
+              <Wrench className="w-5 h-5 text-accent-400" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold">Line Editor</h2>
+              <p className="text-sm text-steel-400">
+                Configure stations, targets and sequence for this line
+              </p>
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            <div className="w-56">
+              <label className="block text-xs text-steel-400 uppercase tracking-wider mb-1">Target Effective From</label>
+              <input
+                type="datetime-local"
+                className="input py-2"
+                value={effectiveFrom}
+                onChange={e => setEffectiveFrom(e.target.value)}
+                title="Leave empty to apply target changes from now"
+              />
+            </div>
+            <div className="w-56">
+              <label className="block text-xs text-steel-400 uppercase tracking-wider mb-1">Changed By</label>
+              <input
+                className="input py-2"
+                value={changedBy}
+                onChange={e => updateChangedBy(e.target.value)}
+                placeholder="Your name"
+              />
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <div className="px-6 py-3 bg-danger-500/10 border-t border-danger-500/30 text-sm text-danger-400">
+            {error}
+          </div>
+        )}
+      </div>
+
+      {/* Stations */}
+      <div className="card">
+        <div className="card-header">
+          <h3 className="text-lg font-semibold">Stations</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-steel-800/50 text-steel-400 text-xs uppercase">
+              <tr>
+                <th className="px-3 py-2 text-left">#</th>
+                <th className="px-3 py-2 text-left">ID</th>
+                <th className="px-3 py-2 text-left">Name</th>
+                <th className="px-3 py-2 text-left">Description</th>
+                <th className="px-3 py-2 text-left">Target (s)</th>
+                <th className="px-3 py-2 text-left">Operators</th>
+                <th className="px-3 py-2 text-left" title="Identical cells working side by side">Parallel</th>
+                <th className="px-3 py-2 text-left">Status</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-steel-800">
+              {stations.map((station, index) => {
+                const draft = drafts[station.id];
+                const values = draft ?? station;
+                return (
+                  <tr key={station.id} className="text-steel-300">
+                    <td className="px-3 py-2">
+                      <div className="flex items-center gap-1">
+                        <span className="w-5 text-steel-500">{station.position}</span>
+                        <button
+                          onClick={() => moveStation(index, -1)}
+                          disabled={index === 0 || isWorking}
+                          className="btn-ghost p-1"
+                          aria-label="Move up"
+                        >
+                          <ArrowUp className="w-3 h-3" />
+                        </button>
+                        <button
+                          onClick={() => moveStation(index, 1)}
+                          disabled={index === stations.length - 1 || isWorking}
+                          className="btn-ghost p-1"
+                          aria-label="Move down"
+                        >
+                          <ArrowDown className="w-3 h-3" />
+                        </button>
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 font-mono text-steel-400">{station.id}</td>
+                    <td className="px-3 py-2">
+                      <input
+                        className="input py-1.5"
+                        value={values.name}
+                        onChange={e => updateDraft(station, { name: e.target.value })}
+                      />
+                    </td>
+                    <td className="px-3 py-2">
+                      <input
+                        className="input py-1.5"
+                        value={values.description}
+                        onChange={e => updateDraft(station, { description: e.target.value })}
+                      />
+                    </td>
+                    <td className="px-3 py-2 w-28">
+                      <input
+                        type="number"
+                        min={0.1}
+                        step={0.1}
+                        className="input py-1.5"
+                        value={values.targetCycleTime}
+                        onChange={e => updateDraft(station, { targetCycleTime: Number(e.target.value) })}
+                      />
+                    </td>
+                    <td className="px-3 py-2 w-24">
+                      <input
+                        type="number"
+                        min={1}
+                        step={1}
+                        className="input py-1.5"
+                        value={values.operatorCount}
+                        onChange={e => updateDraft(station, { operatorCount: Number(e.target.value) })}
+                      />
+                    </td>
+                    <td className="px-3 py-2 w-24">
+                      <input
+                        type="number"
+                        min={1}
+                        step={1}
+                        className="input py-1.5"
+                        value={values.parallelUnits}
+                        onChange={e => updateDraft(station, { parallelUnits: Number(e.target.value) })}
+                      />
+                    </td>
+                    <td className="px-3 py-2 w-36">
+                      <select
+                        className="input py-1.5"
+                        value={values.status}
+                        onChange={e => updateDraft(station, { status: e.target.value as Station['status'] })}
+                      >
+                        {STATUSES.map(s => (
+                          <option key={s} value={s}>{s}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-3 py-2">
+                      <div className="flex items-center gap-1 justify-end">
+                        <button
+                          onClick={() => saveStation(station)}
+                          disabled={!draft || isWorking}
+                          className={cn('btn-ghost p-2', draft && 'text-accent-400')}
+                          aria-label="Save"
+                        >
+                          <Save className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => removeStation(station)}
+                          disabled={isWorking}
+                          className="btn-ghost p-2 hover:text-danger-400"
+                          aria-label="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+
+              {/* New station */}
+              <tr className="bg-steel-800/30">
+                <td className="px-3 py-2 text-steel-500">
+                  <Plus className="w-4 h-4" />
+                </td>
+                <td className="px-3 py-2 w-28">
+                  <input
+                    className="input py-1.5 font-mono"
+                    value={newStation.id}
+                    onChange={e => setNewStation({ ...newStation, id: e.target.value })}
+                    placeholder="ST011"
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    className="input py-1.5"
+                    value={newStation.name}
+                    onChange={e => setNewStation({ ...newStation, name: e.target.value })}
+                    placeholder="Station name"
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    className="input py-1.5"
+                    value={newStation.description}
+                    onChange={e => setNewStation({ ...newStation, description: e.target.value })}
+                    placeholder="Description"
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    min={0.1}
+                    step={0.1}
+                    className="input py-1.5"
+                    value={newStation.targetCycleTime}
+                    onChange={e => setNewStation({ ...newStation, targetCycleTime: Number(e.target.value) })}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    className="input py-1.5"
+                    value={newStation.operatorCount}
+                    onChange={e => setNewStation({ ...newStation, operatorCount: Number(e.target.value) })}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    className="input py-1.5"
+                    value={newStation.parallelUnits}
+                    onChange={e => setNewStation({ ...newStation, parallelUnits: Number(e.target.value) })}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <select
+                    className="input py-1.5"
+                    value={newStation.status}
+                    onChange={e => setNewStation({ ...newStation, status: e.target.value as Station['status'] })}
+                  >
+                    {STATUSES.map(s => (
+                      <option key={s} value={s}>{s}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-3 py-2 text-right">
+                  <button
+                    onClick={addStation}
+                    disabled={!newStation.id.trim() || !newStation.name.trim() || !changedBy.trim() || isWorking}
+                    className="btn-primary gap-2"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add
+                  </button>
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Routing between stations */}
+      <RouteEditor lineId={lineId} stations={stations} onChange={onChange} />
+
+      {/* Target change history */}
+      <div className="card">
+        <div className="card-header flex items-center gap-2">
+          <History className="w-4 h-4 text-steel-400" />
+          <h3 className="text-lg font-semibold">Target Changes</h3>
+        </div>
+        <div className="card-body">
+          {history.length === 0 ? (
+            <p className="text-sm text-steel-500">No target changes recorded for this line.</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {history.slice(0, 20).map(change => (
+                <li key={change.id} className="flex items-center justify-between p-3 bg-steel-800/50 rounded-lg">
+                  <span className="text-steel-300">
+                    <span className="font-medium text-white">{stationNames.get(change.stationId) || change.stationId}</span>
+                    {': '}
+                    {change.oldTargetCycleTime === null
+                      ? `created at ${formatDuration(change.newTargetCycleTime)}`
+                      : `${formatDuration(change.oldTargetCycleTime)} → ${formatDuration(change.newTargetCycleTime)}`}
+                    {change.effectiveFrom && (
+                      <span className="text-steel-500">
+                        {' '}(effective {new Date(change.effectiveFrom).toLocaleString()})
+                      </span>
+                    )}
+                  </span>
+                  <span className="text-steel-500">
+                    {change.changedBy} · {new Date(`${change.changedAt.replace(' ', 'T')}Z`).toLocaleString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function RouteEditor({
+  lineId,
+  stations,
+  onChange,
+}: {
+  lineId: string | null;
+  stations: Station[];
+  onChange?: () => void;
+}) {
+  const [topology, setTopology] = useState<LineTopology | null>(null);
+  const [routes, setRoutes] = useState<StationRoute[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Station edits can change the derived serial routing, so reload with the station list
+  useEffect(() => {
+    fetchTopology();
+  }, [lineId, stations]);
+
+  async function fetchTopology() {
+    try {
+      const lineParam = lineId ? `?lineId=${encodeURIComponent(lineId)}` : '';
+      const response = await fetch(`/api/lines/topology${lineParam}`);
+      if (!response.ok) return;
+      const data: LineTopology = await response.json();
+      setTopology(data);
+      setRoutes(data.routes);
+      setIsDirty(false);
+    } catch (error) {
+      console.error('Failed to fetch line topology:', error);
+    }
+  }
+
+  async function saveRoutes(next: StationRoute[]) {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/lines/topology', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ lineId, routes: next }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Request failed');
+        return;
+      }
+      setTopology(data);
+      setRoutes(data.routes);
+      setIsDirty(false);
+      onChange?.();
+    } catch (error) {
+      console.error('Topology request failed:', error);
+      setError('Request failed');
+    } finally {
+      setIsWorking(false);
+    }
+  }
+
+  function updateRoute(index: number, changes: Partial<StationRoute>) {
+    setRoutes(routes.map((route, i) => (i === index ? { ...route, ...changes } : route)));
+    setIsDirty(true);
+  }
+
+  function addRoute() {
+    const first = stations[0]?.id ?? '';
+    setRoutes([...routes, { fromStationId: first, toStationId: first, kind: 'flow', fraction: 1 }]);
+    setIsDirty(true);
+  }
+
+  function removeRoute(index: number) {
+    setRoutes(routes.filter((_, i) => i !== index));
+    setIsDirty(true);
+  }
+
+  const visitRatios = new Map(topology?.nodes.map(n => [n.stationId, n.visitRatio]) ?? []);
+
+  return (
+    <div className="card">
+      <div className="card-header flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <GitBranch className="w-4 h-4 text-steel-400" />
+          <h3 className="text-lg font-semibold">Routing</h3>
+          <span className="text-sm text-steel-500">
+            {topology?.explicit ? 'custom routes' : 'serial in station order'}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={addRoute} disabled={isWorking || stations.length < 2} className="btn-secondary gap-2">
+            <Plus className="w-4 h-4" />
+            Route
+          </button>
+          <button
+            onClick={() => saveRoutes([])}
+            disabled={isWorking || !topology?.explicit}
+            className="btn-ghost gap-2"
+            title="Drop custom routes and flow through stations in order"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Serial
+          </button>
+          <button onClick={() => saveRoutes(routes)} disabled={isWorking || !isDirty} className="btn-primary gap-2">
+            <Save className="w-4 h-4" />
+            Save Routing
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="px-6 py-3 bg-danger-500/10 border-b border-danger-500/30 text-sm text-danger-400">
+          {error}
+        </div>
+      )}
+
+      <div className="card-body space-y-4">
+        <table className="w-full text-sm">
+          <thead className="text-steel-400 text-xs uppercase">
+            <tr>
+              <th className="px-3 py-2 text-left">From</th>
+              <th className="px-3 py-2 text-left">To</th>
+              <th className="px-3 py-2 text-left">Kind</th>
+              <th className="px-3 py-2 text-left">Share (%)</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-steel-800">
+            {routes.map((route, index) => (
+              <tr key={index} className="text-steel-300">
+                {(['fromStationId', 'toStationId'] as const).map(field => (
+                  <td key={field} className="px-3 py-2">
+                    <select
+                      className="input py-1.5"
+                      value={route[field]}
+                      onChange={e => updateRoute(index, { [field]: e.target.value })}
+                    >
+                      {stations.map(s => (
+                        <option key={s.id} value={s.id}>{s.id} · {s.name}</option>
+                      ))}
+                    </select>
+                  </td>
+                ))}
+                <td className="px-3 py-2 w-32">
+                  <select
+                    className="input py-1.5"
+                    value={route.kind}
+                    onChange={e => updateRoute(index, { kind: e.target.value as StationRoute['kind'] })}
+                  >
+                    <option value="flow">flow</option>
+                    <option value="rework">rework</option>
+                  </select>
+                </td>
+                <td className="px-3 py-2 w-28">
+                  <input
+                    type="number"
+                    min={0.1}
+                    max={100}
+                    step={0.1}
+                    className="input py-1.5"
+                    value={Math.round(route.fraction * 1000) / 10}
+                    onChange={e => updateRoute(index, { fraction: Number(e.target.value) / 100 })}
+                  />
+                </td>
+                <td className="px-3 py-2 text-right">
+                  <button
+                    onClick={() => removeRoute(index)}
+                    disabled={isWorking}
+                    className="btn-ghost p-2 hover:text-danger-400"
+                    aria-label="Remove route"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {topology && topology.nodes.length > 0 && (
+          <div className="flex flex-wrap gap-2 text-xs">
+            {stations.filter(s => visitRatios.has(s.id)).map(s => (
+              <span key={s.id} className="px-2 py-1 rounded-md bg-steel-800 text-steel-400" title="Visits per finished unit">
+                {s.id} <span className="text-white">×{Math.round(visitRatios.get(s.id)! * 100) / 100}</span>
+              </span>
+            ))}
+            {topology.unroutedStationIds.map(id => (
+              <span key={id} className="px-2 py-1 rounded-md bg-warning-500/10 text-warning-400">
+                {id} not routed
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,11 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
 import { CHART_COLORS } from '@/lib/utils';
+import type { ChangePoint } from '@/types';
 
-type MetricType = 'cycle_time' | 'throughput' | 'defect_rate';
+type MetricType = 'cycle_time' | 'target_variance' | 'throughput' | 'defect_rate';
 
 interface TrendData {
   hour: string;
@@ -12,21 +13,41 @@ interface TrendData {
   value: number;
 }
 
-export function TrendChart() {
+// Change-point detection covers these metrics only
+const CHANGE_POINT_METRICS: MetricType[] = ['cycle_time', 'defect_rate'];
+
+// Change points are ISO times; trend rows use rollup hour keys ('YYYY-MM-DD HH:00:00')
+function toHourKey(iso: string): string {
+  return `${iso.slice(0, 10)} ${iso.slice(11, 13)}:00:00`;
+}
+
+interface TrendChartProps {
+  lineId?: string | null;
+}
+
+export function TrendChart({ lineId }: TrendChartProps) {
   const [metric, setMetric] = useState<MetricType>('cycle_time');
   const [data, setData] = useState<Record<string, number | string>[]>([]);
   const [stations, setStations] = useState<string[]>([]);
+  const [changePoints, setChangePoints] = useState<ChangePoint[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     fetchTrendData();
-  }, [metric]);
+  }, [metric, lineId]);
 
   async function fetchTrendData() {
     setLoading(true);
     try {
-      const response = await fetch(`/api/trends?metric=${metric}&hours=168`);
+      const lineParam = lineId ? `&lineId=${encodeURIComponent(lineId)}` : '';
+      const [response, changePointsResponse] = await Promise.all([
+        fetch(`/api/trends?metric=${metric}&hours=168${lineParam}`),
+        CHANGE_POINT_METRICS.includes(metric)
+          ? fetch(`/api/trends/change-points?metric=${metric}&hours=168${lineParam}`)
+          : null,
+      ]);
       const rawData: TrendData[] = await response.json();
+      setChangePoints(changePointsResponse?.ok ? await changePointsResponse.json() : []);
       
       // Transform data for recharts (pivot by hour)
       const byHour: Record<string, Record<string, number | string>> = {};
@@ -60,10 +81,13 @@ export function TrendChart() {
 
   const metricLabels: Record<MetricType, string> = {
     cycle_time: 'Cycle Time (seconds)',
+    target_variance: 'Above Target (%)',
     throughput: 'Throughput (units)',
     defect_rate: 'Defect Rate (%)',
   };
 
+  const visibleChangePoints = changePoints.filter(cp => stations.includes(cp.stationId));
+
   if (loading) {
     return (
       <div className="h-[300px] flex items-center justify-center">
@@ -76,7 +100,7 @@ export function TrendChart() {
     <div className="space-y-4">
       {/* Metric Selector */}
       <div className="flex gap-2">
-        {(['cycle_time', 'throughput', 'defect_rate'] as MetricType[]).map(m => (
+        {(['cycle_time', 'target_variance', 'throughput', 'defect_rate'] as MetricType[]).map(m => (
           <button
             key={m}
             onClick={() => setMetric(m)}
@@ -126,6 +150,20 @@ export function TrendChart() {
               wrapperStyle={{ paddingTop: '20px' }}
               formatter={(value) => <span style={{ color: '#b0bac9' }}>{value}</span>}
             />
+            {visibleChangePoints.map(cp => (
+              <ReferenceLine
+                key={`${cp.stationId}-${cp.time}`}
+                x={formatHour(toHourKey(cp.time))}
+                stroke={CHART_COLORS[stations.indexOf(cp.stationId)]}
+                strokeDasharray="4 4"
+                label={{
+                  value: cp.magnitude > 0 ? '▲' : '▼',
+                  position: 'top',
+                  fill: CHART_COLORS[stations.indexOf(cp.stationId)],
+                  fontSize: 12,
+                }}
+              />
+            ))}
             {stations.map((stationId, index) => (
               <Line
                 key={stationId}
@@ -141,6 +179,20 @@ export function TrendChart() {
           </LineChart>
         </ResponsiveContainer>
       </div>
+
+      {/* Change Points */}
+      {visibleChangePoints.length > 0 && (
+        <div className="space-y-1">
+          {visibleChangePoints.map(cp => (
+            <p key={`${cp.stationId}-${cp.time}`} className="text-sm text-steel-400">
+              <span style={{ color: CHART_COLORS[stations.indexOf(cp.stationId)] }}>{cp.magnitude > 0 ? '▲' : '▼'}</span>{' '}
+              <span className="text-steel-200">{cp.stationName}</span> stepped {cp.magnitude > 0 ? 'up' : 'down'}{' '}
+              {Math.abs(cp.changePercent)}% at {formatHour(toHourKey(cp.time))}: {cp.before.mean} → {cp.after.mean}
+              {metric === 'defect_rate' ? '%' : 's'}
+            </p>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectChangeIndexes, estimateNoise, pelt, removeDailyProfile } from '@/lib/change-points';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Repeatable hour-to-hour wobble of about half a second
+function wobble(i: number): number {
+  return Math.sin(i * 1.7) * 0.5;
+}
+
+function levels(...segments: Array<[length: number, level: number]>): number[] {
+  const values: number[] = [];
+  for (const [length, level] of segments) {
+    for (let i = 0; i < length; i++) values.push(level + wobble(values.length));
+  }
+  return values;
+}
+
+describe('pelt', () => {
+  it('finds where the mean steps', () => {
+    assert.deepEqual(pelt(levels([20, 10], [20, 20]), 10, 6), [20]);
+    assert.deepEqual(pelt(levels([15, 10], [15, 20], [15, 12]), 10, 6), [15, 30]);
+  });
+
+  it('keeps a flat series whole', () => {
+    assert.deepEqual(pelt(levels([40, 10]), 10, 6), []);
+  });
+
+  it('needs room for two minimum segments', () => {
+    assert.deepEqual(pelt([1, 1, 1, 9, 9], 0.1, 3), []);
+  });
+});
+
+describe('estimateNoise', () => {
+  it('is zero for a constant or too-short series', () => {
+    assert.equal(estimateNoise([5, 5, 5, 5]), 0);
+    assert.equal(estimateNoise([1, 9]), 0);
+  });
+
+  it('is barely moved by a single step over a week of hours', () => {
+    const flat = estimateNoise(levels([168, 10]));
+    const stepped = estimateNoise(levels([84, 10], [84, 20]));
+    assert.ok(flat > 0);
+    assert.ok(stepped < flat * 1.2);
+  });
+});
+
+describe('detectChangeIndexes', () => {
+  it('reports steps well above the noise', () => {
+    const values = levels([24, 10], [24, 20]);
+    assert.deepEqual(detectChangeIndexes(values, estimateNoise(values)), [24]);
+  });
+
+  it('drops steps smaller than three sigma', () => {
+    const values = levels([24, 10], [24, 10.4]);
+    assert.deepEqual(detectChangeIndexes(values, estimateNoise(values)), []);
+  });
+
+  it('reports nothing without noise', () => {
+    assert.deepEqual(detectChangeIndexes(levels([24, 10], [24, 20]), 0), []);
+  });
+});
+
+describe('removeDailyProfile', () => {
+  const start = Date.UTC(2024, 0, 1);
+
+  it('takes out a rhythm that repeats every day', () => {
+    const series = Array.from({ length: 24 * 4 }, (_, i) => ({
+      time: start + i * HOUR_MS,
+      value: 10 + (i % 24 < 8 ? 3 : 0),
+    }));
+    const adjusted = removeDailyProfile(series);
+    assert.ok(adjusted.every(v => v === adjusted[0]));
+  });
+
+  it('leaves series shorter than the profile period alone', () => {
+    const series = Array.from({ length: 24 }, (_, i) => ({ time: start + i * HOUR_MS, value: i }));
+    assert.deepEqual(removeDailyProfile(series), series.map(p => p.value));
+  });
+});
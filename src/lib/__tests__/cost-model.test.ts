@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_COST_MODEL, getRecommendationEconomics, validateCostModel } from '@/lib/cost-model';
+import type { StationOutput } from '@/lib/cost-model';
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+// S1 is the constraint at 60 s per finished unit; S2 runs at 50 s
+const OUTPUTS = new Map<string, StationOutput>([
+  ['S1', { annualUnits: 10000, annualHours: { day: 2000, swing: 2000, night: 0 }, unitTime: 60 }],
+  ['S2', { annualUnits: 10000, annualHours: { day: 2000, swing: 2000, night: 0 }, unitTime: 50 }],
+]);
+
+describe('validateCostModel', () => {
+  it('accepts the built-in model', () => {
+    assert.equal(validateCostModel(DEFAULT_COST_MODEL), null);
+  });
+
+  it('requires an object', () => {
+    assert.equal(validateCostModel(null), 'costModel is required');
+    assert.equal(validateCostModel('model'), 'costModel is required');
+  });
+
+  it('returns the first problem found', () => {
+    const model = clone(DEFAULT_COST_MODEL) as unknown as Record<string, unknown>;
+    model.overtimeMultiplier = 0.5;
+    model.discountRate = 100;
+    assert.equal(validateCostModel(model), 'overtimeMultiplier must be at least 1');
+  });
+
+  it('checks rates, horizon and every type cost', () => {
+    const negativeRate = clone(DEFAULT_COST_MODEL);
+    negativeRate.labourRates.night = -1;
+    assert.equal(validateCostModel(negativeRate), 'labourRates.night must be a number of at least 0');
+
+    const longHorizon = clone(DEFAULT_COST_MODEL);
+    longHorizon.horizonYears = 2.5;
+    assert.equal(validateCostModel(longHorizon), 'horizonYears must be a whole number between 1 and 10');
+
+    const missingType = clone(DEFAULT_COST_MODEL) as unknown as { typeCosts: Record<string, unknown> };
+    delete missingType.typeCosts.material;
+    assert.equal(validateCostModel(missingType), 'typeCosts.material is required');
+  });
+});
+
+describe('getRecommendationEconomics', () => {
+  it('counts extra output until another station becomes the constraint', () => {
+    const economics = getRecommendationEconomics(
+      { type: 'rebalance', expectedImprovement: 20 },
+      'S1',
+      OUTPUTS,
+      DEFAULT_COST_MODEL
+    );
+    // 60 s → 48 s, but S2 holds the line at 50 s
+    assert.equal(economics.annualExtraUnits, 2000);
+    assert.equal(economics.annualBenefit, 90000);
+    // $500 equipment plus 8 overtime hours at 1.5 × $28
+    assert.equal(economics.oneTimeCost, 836);
+    assert.equal(economics.paybackMonths, 0.1);
+    const discounted = [1, 2, 3].reduce((sum, year) => sum + 90000 / 1.08 ** year, 0);
+    assert.equal(economics.npv, Math.round(discounted - 836));
+    assert.equal(economics.roi, Math.round(((discounted - 836) / 836) * 100));
+  });
+
+  it('gives no extra output for a station that is not the constraint', () => {
+    const economics = getRecommendationEconomics(
+      { type: 'training', expectedImprovement: 30 },
+      'S2',
+      OUTPUTS,
+      DEFAULT_COST_MODEL
+    );
+    assert.equal(economics.annualExtraUnits, 0);
+    assert.equal(economics.annualBenefit, 0);
+    assert.equal(economics.paybackMonths, null);
+    assert.ok(economics.npv < 0);
+  });
+
+  it('pays added operators on every shift the station runs', () => {
+    const economics = getRecommendationEconomics(
+      { type: 'add_operator', expectedImprovement: 10 },
+      'S1',
+      OUTPUTS,
+      DEFAULT_COST_MODEL
+    );
+    assert.equal(economics.annualExtraUnits, 1111);
+    // 2000 day hours at $28 and 2000 swing hours at $31
+    assert.equal(economics.annualBenefit, Math.round((10000 * (60 / 54 - 1)) * 45 - 118000));
+    assert.equal(economics.paybackMonths, null);
+  });
+
+  it('costs a recommendation for a station without output', () => {
+    const economics = getRecommendationEconomics(
+      { type: 'equipment', expectedImprovement: 25 },
+      'S9',
+      OUTPUTS,
+      DEFAULT_COST_MODEL
+    );
+    assert.equal(economics.annualExtraUnits, 0);
+    assert.equal(economics.oneTimeCost, 25000 + 16 * 28 * 1.5);
+    assert.equal(economics.roi, -100);
+  });
+});
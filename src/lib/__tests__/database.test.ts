@@ -0,0 +1,104 @@
+import './temp-database';
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  getDatabase,
+  getTargetHistory,
+  insertLine,
+  insertOperator,
+  insertPlant,
+  insertProductionRecords,
+  insertStation,
+  setStationTarget,
+} from '@/lib/database';
+import { archiveProductionRecords } from '@/lib/retention';
+
+// One 48 s cycle in each of three day-shift hours, long enough ago to be archived
+const DAY = '2025-01-06';
+const HOURS = ['08', '10', '13'];
+
+function addStation(id: string, position: number) {
+  insertStation({ id, lineId: 'LN01', name: `Station ${position}`, targetCycleTime: 45, position });
+  insertProductionRecords(HOURS.map(hour => ({
+    id: `${id}-${hour}`,
+    stationId: id,
+    operatorId: 'OP001',
+    timestamp: `${DAY}T${hour}:15:00.000Z`,
+    cycleTime: 48,
+    shift: 'day',
+  })));
+}
+
+function hourlyTargets(stationId: string) {
+  return getDatabase().prepare(`
+    SELECT substr(hour, 12, 2) as hour, target_cycle_time_sum as target FROM station_hourly_rollups
+    WHERE station_id = ? ORDER BY hour
+  `).all(stationId);
+}
+
+function shiftTarget(stationId: string) {
+  return (getDatabase().prepare(`
+    SELECT target_cycle_time_sum as target FROM station_shift_rollups WHERE station_id = ? AND shift_date = ?
+  `).get(stationId, DAY) as { target: number }).target;
+}
+
+function operatorOverTarget(stationId: string) {
+  return (getDatabase().prepare(`
+    SELECT over_target_sum as overTarget FROM operator_hourly_rollups WHERE station_id = ? ORDER BY hour
+  `).all(stationId) as Array<{ overTarget: number }>).map(r => Math.round(r.overTarget * 100) / 100);
+}
+
+before(() => {
+  insertPlant({ id: 'PL01', name: 'Main Plant' });
+  insertLine({ id: 'LN01', plantId: 'PL01', name: 'Line 1' });
+  insertStation({ id: 'ST000', lineId: 'LN01', name: 'Home', targetCycleTime: 45, position: 0 });
+  insertOperator({ id: 'OP001', name: 'Alex Kim', shift: 'day', stationId: 'ST000' });
+});
+
+describe('setStationTarget', () => {
+  it('re-judges rolled-up production from the effective instant on', () => {
+    addStation('ST001', 1);
+    setStationTarget({ stationId: 'ST001', targetCycleTime: 60, effectiveFrom: `${DAY}T09:00:00.000Z` });
+
+    assert.deepEqual(hourlyTargets('ST001'), [
+      { hour: '08', target: 45 },
+      { hour: '10', target: 60 },
+      { hour: '13', target: 60 },
+    ]);
+    assert.equal(shiftTarget('ST001'), 165);
+    assert.deepEqual(operatorOverTarget('ST001'), [6.67, -20, -20]);
+  });
+
+  it('stops at the next recorded change', () => {
+    addStation('ST002', 2);
+    setStationTarget({ stationId: 'ST002', targetCycleTime: 50, effectiveFrom: `${DAY}T12:00:00.000Z` });
+    setStationTarget({ stationId: 'ST002', targetCycleTime: 60, effectiveFrom: `${DAY}T09:00:00.000Z` });
+
+    assert.deepEqual(hourlyTargets('ST002'), [
+      { hour: '08', target: 45 },
+      { hour: '10', target: 60 },
+      { hour: '13', target: 50 },
+    ]);
+    assert.equal(shiftTarget('ST002'), 155);
+    const history = getTargetHistory('ST002') as Array<{ target_cycle_time: number; effective_to: string | null }>;
+    assert.deepEqual(
+      history.map(h => [h.target_cycle_time, h.effective_to]),
+      [[45, `${DAY}T09:00:00.000Z`], [60, `${DAY}T12:00:00.000Z`], [50, null]]
+    );
+    const station = getDatabase().prepare('SELECT target_cycle_time FROM stations WHERE id = ?').get('ST002');
+    assert.deepEqual(station, { target_cycle_time: 50 });
+  });
+
+  it('re-judges archived production from the archive', () => {
+    addStation('ST003', 3);
+    assert.ok(archiveProductionRecords().archivedRecords >= HOURS.length);
+    setStationTarget({ stationId: 'ST003', targetCycleTime: 60, effectiveFrom: `${DAY}T09:00:00.000Z` });
+
+    assert.deepEqual(hourlyTargets('ST003'), [
+      { hour: '08', target: 45 },
+      { hour: '10', target: 60 },
+      { hour: '13', target: 60 },
+    ]);
+    assert.deepEqual(operatorOverTarget('ST003'), [6.67, -20, -20]);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { convertTimestamp, rowToMappedRecord, suggestMapping } from '@/lib/import';
+
+const mapping = {
+  columnMap: { stationId: 'Station', operatorId: 'Operator', timestamp: 'Time', cycleTime: 'CT', quantity: 'Qty' },
+  timestampFormat: 'auto' as const,
+  timezone: 'America/Detroit',
+};
+
+function mapCycleTime(value: unknown) {
+  return rowToMappedRecord({ Station: 'ST001', Operator: 'OP001', Time: '2026-03-02 08:15:00', CT: value }, mapping);
+}
+
+describe('suggestMapping', () => {
+  it('matches common headings regardless of case and separators', () => {
+    assert.deepEqual(suggestMapping(['Work Station', 'Employee ID', 'Date/Time', 'Cycle_Time', 'SKU', 'Notes']), {
+      stationId: 'Work Station',
+      operatorId: 'Employee ID',
+      timestamp: 'Date/Time',
+      cycleTime: 'Cycle_Time',
+      productId: 'SKU',
+    });
+    assert.deepEqual(suggestMapping(['station', 'operator', 'timestamp', 'ct']), {
+      stationId: 'station',
+      operatorId: 'operator',
+      timestamp: 'timestamp',
+      cycleTime: 'ct',
+    });
+  });
+});
+
+describe('convertTimestamp', () => {
+  it('reads wall-clock times in the plant zone', () => {
+    assert.equal(convertTimestamp('2026-03-02 08:15:00', 'auto', 'America/Detroit')?.toISOString(), '2026-03-02T13:15:00.000Z');
+    assert.equal(convertTimestamp('03/02/2026 8:15 PM', 'mdy', 'America/Detroit')?.toISOString(), '2026-03-03T01:15:00.000Z');
+    assert.equal(convertTimestamp('02.03.2026 08:15', 'dmy', 'America/Detroit')?.toISOString(), '2026-03-02T13:15:00.000Z');
+  });
+
+  it('follows daylight saving time and explicit offsets', () => {
+    assert.equal(convertTimestamp('2026-07-02 08:15:00', 'ymd', 'America/Detroit')?.toISOString(), '2026-07-02T12:15:00.000Z');
+    assert.equal(convertTimestamp('2026-07-02T08:15:00Z', 'iso', 'America/Detroit')?.toISOString(), '2026-07-02T08:15:00.000Z');
+  });
+
+  it('reads numeric formats', () => {
+    assert.equal(convertTimestamp(1772439300, 'unix_seconds', 'UTC')?.toISOString(), '2026-03-02T08:15:00.000Z');
+    assert.equal(convertTimestamp(46083.34375, 'excel_serial', 'UTC')?.toISOString(), '2026-03-02T08:15:00.000Z');
+  });
+
+  it('returns null for blanks and impossible dates', () => {
+    assert.equal(convertTimestamp('', 'auto', 'UTC'), null);
+    assert.equal(convertTimestamp('2026-13-02 08:15', 'ymd', 'UTC'), null);
+    assert.equal(convertTimestamp('yesterday', 'auto', 'UTC'), null);
+  });
+});
+
+describe('rowToMappedRecord', () => {
+  it('maps columns, converts the timestamp and derives the shift', () => {
+    const { record, errors } = rowToMappedRecord(
+      { Station: ' ST001 ', Operator: 'OP001', Time: '2026-03-02 15:30:00', CT: '45.5', Qty: 2 },
+      mapping
+    );
+    assert.deepEqual(errors, []);
+    assert.deepEqual(record, {
+      stationId: 'ST001',
+      operatorId: 'OP001',
+      timestamp: '2026-03-02T20:30:00.000Z',
+      cycleTime: 45.5,
+      quantity: 2,
+      shift: 'swing',
+    });
+  });
+
+  it('accepts one decimal point or comma', () => {
+    for (const [value, expected] of [['45.5', 45.5], ['45,5', 45.5], ['0.125', 0.125], ['0,125', 0.125], ['-1.25', -1.25], [45, 45]] as const) {
+      assert.deepEqual(mapCycleTime(value).errors, [], String(value));
+      assert.equal(mapCycleTime(value).record.cycleTime, expected, String(value));
+    }
+  });
+
+  it('rejects values that could be thousands separated', () => {
+    for (const value of ['1,234', '1.234', '12.345', '1,234.5', '1.234,5', 'abc']) {
+      const { record, errors } = mapCycleTime(value);
+      assert.equal(record.cycleTime, undefined, value);
+      assert.deepEqual(errors, [`cycleTime "${value}" is not a number with one decimal separator and no thousands separators`]);
+    }
+  });
+
+  it('reports unparseable timestamps', () => {
+    const { errors } = rowToMappedRecord({ Station: 'ST001', Operator: 'OP001', Time: 'soon', CT: '45' }, mapping);
+    assert.deepEqual(errors, ['Cannot parse timestamp "soon" as auto']);
+  });
+});
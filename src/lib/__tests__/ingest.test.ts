@@ -0,0 +1,95 @@
+import './temp-database';
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { insertLine, insertOperator, insertPlant, insertProductionRecords, insertStation } from '@/lib/database';
+import { validateProductionRecords } from '@/lib/ingest';
+
+const HOUR = 60 * 60 * 1000;
+
+function record(overrides: Record<string, unknown> = {}) {
+  return {
+    stationId: 'ST001',
+    operatorId: 'OP001',
+    timestamp: new Date(Date.now() - HOUR).toISOString(),
+    cycleTime: 48,
+    shift: 'day',
+    ...overrides,
+  };
+}
+
+before(() => {
+  insertPlant({ id: 'PL01', name: 'Main Plant' });
+  insertLine({ id: 'LN01', plantId: 'PL01', name: 'Line 1' });
+  insertStation({ id: 'ST001', lineId: 'LN01', name: 'Loading', targetCycleTime: 45, position: 1 });
+  insertOperator({ id: 'OP001', name: 'Alex Kim', shift: 'day', stationId: 'ST001' });
+});
+
+describe('validateProductionRecords', () => {
+  it('accepts a record and fills in defaults', () => {
+    const { valid, rejected } = validateProductionRecords([record({ id: 'R1' })]);
+    assert.deepEqual(rejected, []);
+    assert.equal(valid.length, 1);
+    assert.equal(valid[0].id, 'R1');
+    assert.equal(valid[0].quantity, 1);
+    assert.equal(valid[0].defects, 0);
+    assert.equal(valid[0].downtimeMinutes, 0);
+  });
+
+  it('generates ids for records without one', () => {
+    const { valid } = validateProductionRecords([record(), record()]);
+    assert.equal(valid.length, 2);
+    assert.notEqual(valid[0].id, valid[1].id);
+  });
+
+  it('rejects records with unknown references', () => {
+    const { rejected } = validateProductionRecords([record({ stationId: 'ST999', operatorId: 'OP999', productId: 'P9' })]);
+    assert.deepEqual(rejected, [{
+      index: 0,
+      id: undefined,
+      errors: ['Unknown product P9', 'Unknown station ST999', 'Unknown operator OP999'],
+    }]);
+  });
+
+  it('rejects implausible values', () => {
+    const { rejected } = validateProductionRecords([
+      'not a record',
+      record({ shift: 'graveyard' }),
+      record({ cycleTime: 2 }),
+      record({ cycleTime: -1 }),
+      record({ quantity: 2, defects: 3 }),
+      record({ timestamp: new Date(Date.now() + HOUR).toISOString() }),
+      record({ timestamp: 'yesterday' }),
+    ]);
+    assert.deepEqual(rejected.map(r => r.errors), [
+      ['Record must be an object'],
+      ['shift must be one of day, night, swing'],
+      ['cycleTime 2s outside plausible range 4.5-450s for ST001'],
+      ['cycleTime must be a positive number of seconds'],
+      ['defects cannot exceed quantity'],
+      ['timestamp is in the future'],
+      ['timestamp must be a valid date'],
+    ]);
+    assert.deepEqual(rejected.map(r => r.index), [0, 1, 2, 3, 4, 5, 6]);
+  });
+
+  it('rejects ids repeated in the batch or already stored', () => {
+    insertProductionRecords([{
+      id: 'STORED',
+      stationId: 'ST001',
+      operatorId: 'OP001',
+      timestamp: new Date(Date.now() - 2 * HOUR).toISOString(),
+      cycleTime: 48,
+      shift: 'day',
+    }]);
+    const { valid, rejected } = validateProductionRecords([
+      record({ id: 'NEW' }),
+      record({ id: 'NEW' }),
+      record({ id: 'STORED' }),
+    ]);
+    assert.deepEqual(valid.map(r => r.id), ['NEW']);
+    assert.deepEqual(rejected, [
+      { index: 1, id: 'NEW', errors: ['Duplicate id NEW in batch'] },
+      { index: 2, id: 'STORED', errors: ['Record STORED already exists'] },
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { balanceElements, validateWorkElements } from '@/lib/line-balancing';
+import type { ElementBalance } from '@/lib/line-balancing';
+import type { WorkElement } from '@/types';
+
+function element(id: string, duration: number, predecessors: string[] = [], stationId: string | null = null): WorkElement {
+  return { id, name: `Element ${id}`, duration, stationId, predecessors };
+}
+
+// A feeds B and C, which both feed D, then E: 20 s of work
+const ELEMENTS = [
+  element('A', 5),
+  element('B', 3, ['A']),
+  element('C', 4, ['A']),
+  element('D', 6, ['B', 'C']),
+  element('E', 2, ['D']),
+];
+
+const STATIONS = [{ id: 'S1', name: 'Station 1', position: 1 }];
+
+function solved(result: ReturnType<typeof balanceElements>): ElementBalance {
+  if ('error' in result) assert.fail(result.error);
+  return result;
+}
+
+function assertPrecedences(balance: ElementBalance) {
+  const stationOf = new Map(balance.stations.flatMap((s, i) => s.elementIds.map(id => [id, i] as const)));
+  for (const e of ELEMENTS) {
+    for (const p of e.predecessors) assert.ok(stationOf.get(p)! <= stationOf.get(e.id)!, `${p} before ${e.id}`);
+  }
+}
+
+describe('validateWorkElements', () => {
+  it('accepts elements whose precedences form a graph', () => {
+    assert.equal(validateWorkElements(STATIONS, ELEMENTS), null);
+  });
+
+  it('returns the first problem found', () => {
+    assert.equal(validateWorkElements(STATIONS, [element('A', 5), element('A', 3)]), 'Work element A is listed twice');
+    assert.equal(validateWorkElements(STATIONS, [element('A', 0)]), 'Work element A needs a duration greater than 0');
+    assert.equal(validateWorkElements(STATIONS, [element('A', 5, [], 'S9')]), 'Unknown station S9 on this line');
+    assert.equal(validateWorkElements(STATIONS, [element('A', 5, ['Z'])]), 'Unknown work element Z before A');
+  });
+
+  it('rejects precedence cycles', () => {
+    assert.equal(
+      validateWorkElements(STATIONS, [element('A', 5, ['B']), element('B', 3, ['A'])]),
+      'The precedences form a cycle'
+    );
+  });
+});
+
+describe('balanceElements', () => {
+  it('finds the fewest stations for a takt', () => {
+    const balance = solved(balanceElements(ELEMENTS, { problem: 'salbp1', cycleTime: 10 }));
+    // Work content alone would allow two, but the precedences leave E needing a third
+    assert.equal(balance.lowerBound, 2);
+    assert.equal(balance.stations.length, 3);
+    assert.equal(balance.optimal, true);
+    assert.equal(balance.totalWorkContent, 20);
+    assert.ok(balance.stations.every(s => s.load <= 10));
+    assertPrecedences(balance);
+  });
+
+  it('refuses a takt shorter than an element', () => {
+    assert.deepEqual(balanceElements(ELEMENTS, { problem: 'salbp1', cycleTime: 5 }), {
+      error: 'Work element D takes 6s, longer than the 5s takt',
+      status: 422,
+    });
+  });
+
+  it('finds the shortest cycle time for a station count', () => {
+    const balance = solved(balanceElements(ELEMENTS, { problem: 'salbp2', stationCount: 2 }));
+    assert.equal(balance.lowerBound, 10);
+    assert.equal(balance.cycleTime, 11);
+    assert.deepEqual(balance.stations.map(s => s.load).sort((a, b) => a - b), [9, 11]);
+    assert.equal(balance.optimal, true);
+    assertPrecedences(balance);
+  });
+
+  it('rounds the cycle time bound up to the step element times use', () => {
+    // 20 s over three stations: no whole-second balance is shorter than 7 s
+    const whole = solved(balanceElements(ELEMENTS, { problem: 'salbp2', stationCount: 3 }));
+    assert.equal(whole.lowerBound, 7);
+    assert.equal(whole.cycleTime, 8);
+    assert.equal(whole.optimal, true);
+
+    const tenths = solved(balanceElements(
+      ELEMENTS.map(e => ({ ...e, duration: e.duration + 0.1 })),
+      { problem: 'salbp2', stationCount: 3 }
+    ));
+    assert.equal(tenths.lowerBound, 6.9);
+    assert.equal(tenths.cycleTime, 8.2);
+    assertPrecedences(tenths);
+  });
+
+  it('stays within its node budget on 200 elements', () => {
+    // Elements of 1-15 s, each after one or two earlier elements, from a fixed generator
+    let seed = 7;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648;
+    const elements = Array.from({ length: 200 }, (_, i) => element(
+      `E${i}`,
+      1 + Math.floor(random() * 15),
+      i === 0 ? [] : Array.from(new Set([Math.floor(random() * i), Math.floor(random() * i)])).map(p => `E${p}`)
+    ));
+
+    // Whole-second times put the bound at 52 s rather than 51.17 s, and a balance meeting it is optimal
+    const atBound = solved(balanceElements(elements, { problem: 'salbp2', stationCount: 30 }));
+    assert.equal(atBound.lowerBound, 52);
+    assert.equal(atBound.cycleTime, 52);
+    assert.equal(atBound.optimal, true);
+
+    // Here the budget runs out before 44 s is ruled out
+    const started = Date.now();
+    const cutShort = solved(balanceElements(elements, { problem: 'salbp2', stationCount: 35 }));
+    assert.equal(cutShort.lowerBound, 44);
+    assert.equal(cutShort.cycleTime, 45);
+    assert.equal(cutShort.optimal, false);
+    assert.ok(Date.now() - started < 2000, `took ${Date.now() - started} ms`);
+  });
+
+  it('keeps empty stations when there are more than elements', () => {
+    const balance = solved(balanceElements(ELEMENTS.slice(0, 2), { problem: 'salbp2', stationCount: 3 }));
+    assert.equal(balance.stations.length, 3);
+    assert.equal(balance.cycleTime, 5);
+    assert.ok(balance.stations.some(s => s.elementIds.length === 0));
+  });
+
+  it('needs work elements', () => {
+    assert.deepEqual(balanceElements([], { problem: 'salbp1', cycleTime: 10 }), {
+      error: 'The line has no work elements to balance',
+      status: 422,
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import './temp-database';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import Database from 'better-sqlite3';
+import { ARCHIVE_DB_PATH, MIGRATIONS, getCurrentVersion, getPendingMigrations, runMigrations } from '@/lib/migrations';
+
+const LATEST = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// A database left at the given version, as an older release would have left it
+function migrateTo(db: Database.Database, version: number) {
+  getCurrentVersion(db);
+  const record = db.prepare('INSERT INTO schema_version (version, name) VALUES (?, ?)');
+  for (const migration of MIGRATIONS.filter(m => m.version <= version)) {
+    migration.up(db);
+    record.run(migration.version, migration.name);
+  }
+}
+
+function count(db: Database.Database, table: string): number {
+  return (db.prepare(`SELECT COUNT(*) as count FROM ${table}`).get() as { count: number }).count;
+}
+
+describe('MIGRATIONS', () => {
+  it('numbers versions consecutively from 1', () => {
+    assert.deepEqual(MIGRATIONS.map(m => m.version), MIGRATIONS.map((_, i) => i + 1));
+    assert.equal(new Set(MIGRATIONS.map(m => m.name)).size, MIGRATIONS.length);
+  });
+});
+
+describe('runMigrations', () => {
+  it('applies every migration to a new database, once', () => {
+    const db = new Database(':memory:');
+    assert.equal(getCurrentVersion(db), 0);
+    assert.equal(getPendingMigrations(db).length, MIGRATIONS.length);
+
+    assert.deepEqual(runMigrations(db).map(m => m.version), MIGRATIONS.map(m => m.version));
+    assert.equal(getCurrentVersion(db), LATEST);
+    assert.deepEqual(getPendingMigrations(db), []);
+    assert.deepEqual(runMigrations(db), []);
+    assert.equal(count(db, 'schema_version'), MIGRATIONS.length);
+    db.close();
+  });
+
+  it('applies only the migrations a database has not run', () => {
+    const db = new Database(':memory:');
+    migrateTo(db, 5);
+
+    assert.deepEqual(runMigrations(db).map(m => m.version), MIGRATIONS.slice(5).map(m => m.version));
+    assert.equal(getCurrentVersion(db), LATEST);
+    db.close();
+  });
+
+  it('upgrades a database created before versioning in place', () => {
+    const db = new Database(':memory:');
+    MIGRATIONS[0].up(db);
+    db.exec(`
+      INSERT INTO stations (id, name, target_cycle_time, position) VALUES ('ST001', 'Loading', 45, 1);
+      INSERT INTO operators (id, name, shift, station_id) VALUES ('OP001', 'Alex Kim', 'day', 'ST001');
+      INSERT INTO production_records (id, station_id, operator_id, timestamp, cycle_time, shift)
+      VALUES ('R1', 'ST001', 'OP001', '2026-03-02T08:15:00.000Z', 48, 'day');
+    `);
+
+    runMigrations(db);
+    assert.equal(getCurrentVersion(db), LATEST);
+    assert.equal(count(db, 'production_records'), 1);
+    // Existing stations join a default line, and history starts from their current values
+    assert.deepEqual(db.prepare('SELECT id, line_id FROM stations').all(), [{ id: 'ST001', line_id: 'LN01' }]);
+    assert.deepEqual(
+      db.prepare('SELECT station_id, target_cycle_time FROM station_target_history').all(),
+      [{ station_id: 'ST001', target_cycle_time: 45 }]
+    );
+    assert.deepEqual(
+      db.prepare('SELECT station_id, hour, record_count, cycle_time_sum FROM station_hourly_rollups').all(),
+      [{ station_id: 'ST001', hour: '2026-03-02 08:00:00', record_count: 1, cycle_time_sum: 48 }]
+    );
+    db.close();
+  });
+
+  it('leaves earlier versions applied when a migration fails', () => {
+    const db = new Database(':memory:');
+    migrateTo(db, 3);
+    // A column the plants_and_lines migration adds already exists, so its ALTER TABLE fails
+    db.exec('ALTER TABLE stations ADD COLUMN line_id TEXT');
+
+    assert.throws(() => runMigrations(db), /duplicate column name: line_id/);
+    assert.equal(getCurrentVersion(db), 3);
+    // The failed migration's tables were rolled back with it
+    assert.equal(db.prepare(`SELECT 1 FROM sqlite_master WHERE name = 'plants'`).get(), undefined);
+    db.close();
+  });
+
+  it('backfills the operator and cycle time rollups from archived records too', () => {
+    const archive = new Database(ARCHIVE_DB_PATH);
+    archive.exec(`
+      CREATE TABLE production_records (
+        id TEXT PRIMARY KEY, station_id TEXT NOT NULL, operator_id TEXT NOT NULL, timestamp DATETIME NOT NULL,
+        cycle_time REAL NOT NULL, quantity INTEGER DEFAULT 1, defects INTEGER DEFAULT 0, shift TEXT NOT NULL,
+        downtime_minutes REAL DEFAULT 0, downtime_reason TEXT, created_at DATETIME, product_id TEXT
+      );
+      INSERT INTO production_records (id, station_id, operator_id, timestamp, cycle_time, shift)
+      VALUES ('OLD', 'ST001', 'OP001', '2025-01-06T08:40:00.000Z', 50, 'day');
+    `);
+    archive.close();
+
+    const db = new Database(':memory:');
+    migrateTo(db, 17);
+    db.exec(`
+      INSERT INTO stations (id, name, target_cycle_time, position) VALUES ('ST001', 'Loading', 40, 1);
+      INSERT INTO operators (id, name, shift, station_id) VALUES ('OP001', 'Alex Kim', 'day', 'ST001');
+      INSERT INTO production_records (id, station_id, operator_id, timestamp, cycle_time, shift)
+      VALUES ('NEW', 'ST001', 'OP001', '2025-01-06T08:10:00.000Z', 44, 'day');
+    `);
+
+    runMigrations(db);
+    assert.deepEqual(
+      db.prepare('SELECT hour, record_count, over_target_sum FROM operator_hourly_rollups').all(),
+      [{ hour: '2025-01-06 08:00:00', record_count: 2, over_target_sum: 35 }]
+    );
+    assert.deepEqual(
+      db.prepare('SELECT bin, record_count FROM station_cycle_time_bins ORDER BY bin').all(),
+      [{ bin: 44, record_count: 1 }, { bin: 50, record_count: 1 }]
+    );
+    // The archive is only attached while the migrations run
+    assert.equal(db.prepare(`SELECT 1 FROM pragma_database_list WHERE name = 'archive'`).get(), undefined);
+    db.close();
+  });
+});
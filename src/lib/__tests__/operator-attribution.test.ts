@@ -0,0 +1,95 @@
+import './temp-database';
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { insertLine, insertOperator, insertPlant, insertProductionRecords, insertStation } from '@/lib/database';
+import { getOperatorAttribution } from '@/lib/operator-attribution';
+import { holmAdjust, normalCdf } from '@/lib/stats';
+
+// Twelve day-shift cycles each on a Monday, alternating between two times. Against a 60 s target
+// OP001 is far slower than the rest, OP002 a little slower and the others around the target.
+const CYCLES: Record<string, [number, number]> = {
+  OP001: [70, 74],
+  OP002: [63, 65],
+  OP003: [57, 63],
+  OP004: [58, 64],
+  OP005: [56, 62],
+  OP006: [57, 63],
+};
+const WINDOW = { from: '2025-01-06T00:00:00.000Z', to: '2025-01-07T00:00:00.000Z' };
+
+// Percent over target, as the rollups keep cycle times
+const overTarget = (cycleTime: number) => (cycleTime / 60) * 100 - 100;
+
+// The unadjusted two-sided p-value of one operator against the others in a single stratum
+function rawPValue(operatorId: string): number {
+  const stats = (values: number[]) => {
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+    return { n: values.length, mean, variance };
+  };
+  const sample = (id: string) => Array.from({ length: 12 }, (_, i) => overTarget(CYCLES[id][i % 2]));
+  const own = stats(sample(operatorId));
+  const peers = stats(Object.keys(CYCLES).filter(id => id !== operatorId).flatMap(sample));
+  const z = (own.mean - peers.mean) / Math.sqrt(own.variance / own.n + peers.variance / peers.n);
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+before(() => {
+  insertPlant({ id: 'PL01', name: 'Main Plant' });
+  insertLine({ id: 'LN01', plantId: 'PL01', name: 'Line 1' });
+  insertStation({ id: 'ST001', lineId: 'LN01', name: 'Loading', targetCycleTime: 60, position: 1 });
+  Object.keys(CYCLES).forEach((id, i) => {
+    insertOperator({ id, name: `Operator ${i + 1}`, shift: 'day', stationId: 'ST001', skillLevel: i + 1 });
+  });
+  insertProductionRecords(Object.entries(CYCLES).flatMap(([operatorId, times], o) =>
+    Array.from({ length: 12 }, (_, i) => ({
+      id: `${operatorId}-${i}`,
+      stationId: 'ST001',
+      operatorId,
+      timestamp: `2025-01-06T${String(6 + (i % 8)).padStart(2, '0')}:${String(o).padStart(2, '0')}:${String(i).padStart(2, '0')}.000Z`,
+      cycleTime: times[i % 2],
+      shift: 'day',
+    }))
+  ));
+});
+
+describe('holmAdjust', () => {
+  it('scales each p-value by its rank and keeps them in order', () => {
+    assert.deepEqual(holmAdjust([0.01, 0.04, 0.03, 0.5]).map(p => Math.round(p * 1000) / 1000), [0.04, 0.09, 0.09, 0.5]);
+    assert.deepEqual(holmAdjust([0.6, 0.9]), [1, 1]);
+    assert.deepEqual(holmAdjust([]), []);
+  });
+});
+
+describe('getOperatorAttribution', () => {
+  it('names the operator who is significantly slower than peers', () => {
+    const [station] = getOperatorAttribution({ stationId: 'ST001', window: WINDOW });
+    assert.equal(station.stationName, 'Loading');
+    assert.deepEqual(station.operators.slice(0, 3).map(o => o.operatorId), ['OP001', 'OP002', 'OP004']);
+
+    const [slowest] = station.operators;
+    assert.equal(slowest.records, 12);
+    assert.equal(slowest.strata, 1);
+    assert.equal(slowest.skillLevel, 1);
+    assert.equal(slowest.cycleTime?.worse, true);
+    assert.ok(slowest.cycleTime!.effectSize > 1);
+    // Without defects there is no spread to test defect rates on
+    assert.equal(slowest.defectRate, null);
+  });
+
+  it('holds the error rate across every operator at the station', () => {
+    const [station] = getOperatorAttribution({ stationId: 'ST001', window: WINDOW });
+    const ids = Object.keys(CYCLES);
+    const raw = ids.map(rawPValue);
+    const adjusted = holmAdjust(raw);
+
+    // OP002 alone would pass as slower, but not once the six tests are accounted for
+    assert.ok(raw[1] < 0.05, `raw p ${raw[1]}`);
+    assert.ok(adjusted[1] >= 0.05, `adjusted p ${adjusted[1]}`);
+    ids.forEach((id, i) => {
+      const comparison = station.operators.find(o => o.operatorId === id)!.cycleTime!;
+      assert.equal(comparison.pValue, Math.max(0.0001, Math.round(adjusted[i] * 10000) / 10000), id);
+    });
+    assert.equal(station.operators.find(o => o.operatorId === 'OP002')!.cycleTime!.worse, false);
+  });
+});
@@ -0,0 +1,147 @@
+import './temp-database';
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { insertLine, insertOperator, insertPlant, insertStation } from '@/lib/database';
+import { listRecommendations, trackRecommendations, updateRecommendation } from '@/lib/recommendations';
+import type { BottleneckAnalysis, Recommendation } from '@/types';
+
+const NOW = new Date('2025-03-10T12:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysAfter = (days: number) => new Date(NOW.getTime() + days * DAY_MS);
+
+// An analysis of ST001 suggesting one action under the agent's key
+function analysis(key: string): BottleneckAnalysis[] {
+  const recommendation: Recommendation = {
+    id: key,
+    type: 'training',
+    description: `Train operators (${key})`,
+    expectedImprovement: 10,
+    implementationCost: 'low',
+    timeToImplement: '1 week',
+    priority: 2,
+    confidence: 0.8,
+  };
+  return [{ stationId: 'ST001', recommendations: [recommendation] } as BottleneckAnalysis];
+}
+
+// Proposes the action and returns its stored id
+function propose(key: string, now = NOW): string {
+  return trackRecommendations('LN01', analysis(key), {}, now)[0].recommendations[0].id;
+}
+
+function proposals(key: string) {
+  return listRecommendations({ lineId: 'LN01' }).filter(r => r.proposalKey === key);
+}
+
+before(() => {
+  insertPlant({ id: 'PL01', name: 'Main Plant' });
+  insertLine({ id: 'LN01', plantId: 'PL01', name: 'Line 1' });
+  insertStation({ id: 'ST001', lineId: 'LN01', name: 'Loading', targetCycleTime: 45, position: 1 });
+  insertOperator({ id: 'OP001', name: 'Alex Kim', shift: 'day', stationId: 'ST001' });
+});
+
+describe('updateRecommendation', () => {
+  it('moves a recommendation through accepted and implemented', () => {
+    const id = propose('ST001:training:a');
+    const accepted = updateRecommendation(id, { status: 'accepted', owner: 'Sam', updatedBy: 'lead' }, daysAfter(1));
+    assert.ok('recommendation' in accepted);
+    assert.equal(accepted.recommendation.status, 'accepted');
+    assert.equal(accepted.recommendation.acceptedAt, daysAfter(1).toISOString());
+    assert.equal(accepted.recommendation.owner, 'Sam');
+
+    const at = daysAfter(1.5).toISOString();
+    const implemented = updateRecommendation(id, { status: 'implemented', at, updatedBy: 'lead' }, daysAfter(2));
+    assert.ok('recommendation' in implemented);
+    assert.equal(implemented.recommendation.implementedAt, at);
+    // The owner is kept when an update doesn't give one
+    assert.equal(implemented.recommendation.owner, 'Sam');
+    assert.equal(implemented.recommendation.updatedBy, 'lead');
+  });
+
+  it('refuses transitions the lifecycle does not allow', () => {
+    const id = propose('ST001:training:b');
+    assert.deepEqual(
+      updateRecommendation(id, { status: 'implemented', updatedBy: 'lead' }, daysAfter(1)),
+      { error: 'A proposed recommendation cannot become implemented', status: 409 }
+    );
+    assert.ok('recommendation' in updateRecommendation(id, { status: 'rejected', updatedBy: 'lead' }, daysAfter(1)));
+    assert.deepEqual(
+      updateRecommendation(id, { status: 'accepted', updatedBy: 'lead' }, daysAfter(2)),
+      { error: 'A rejected recommendation cannot become accepted', status: 409 }
+    );
+    assert.deepEqual(
+      updateRecommendation('missing', { status: 'accepted', updatedBy: 'lead' }),
+      { error: 'Recommendation not found', status: 404 }
+    );
+  });
+
+  it('refuses verification without production either side of implementation', () => {
+    const id = propose('ST001:training:c');
+    updateRecommendation(id, { status: 'accepted', updatedBy: 'lead' }, daysAfter(1));
+    updateRecommendation(id, { status: 'implemented', updatedBy: 'lead' }, daysAfter(2));
+
+    const result = updateRecommendation(id, { status: 'verified', updatedBy: 'lead' }, daysAfter(10));
+    assert.ok('error' in result);
+    assert.equal(result.status, 422);
+    assert.equal(proposals('ST001:training:c')[0].status, 'implemented');
+  });
+
+  it('keeps changes recorded after the fact after the steps already taken', () => {
+    const id = propose('ST001:training:d');
+    assert.deepEqual(
+      updateRecommendation(id, { status: 'accepted', at: daysAfter(-1).toISOString(), updatedBy: 'lead' }, daysAfter(1)),
+      { error: `at cannot be before the recommendation was proposed (${NOW.toISOString()})`, status: 400 }
+    );
+
+    updateRecommendation(id, { status: 'accepted', updatedBy: 'lead' }, daysAfter(2));
+    assert.deepEqual(
+      updateRecommendation(id, { status: 'implemented', at: daysAfter(1).toISOString(), updatedBy: 'lead' }, daysAfter(3)),
+      { error: `at cannot be before its last status change (${daysAfter(2).toISOString()})`, status: 400 }
+    );
+  });
+
+  it('changes only the owner or note when no status is given', () => {
+    const id = propose('ST001:training:e');
+    updateRecommendation(id, { owner: 'Sam', updatedBy: 'lead' });
+    const result = updateRecommendation(id, { note: 'Waiting on the trainer', updatedBy: 'planner' });
+    assert.ok('recommendation' in result);
+    assert.equal(result.recommendation.status, 'proposed');
+    assert.equal(result.recommendation.owner, 'Sam');
+    assert.equal(result.recommendation.note, 'Waiting on the trainer');
+    assert.equal(result.recommendation.updatedBy, 'planner');
+    assert.equal(result.recommendation.acceptedAt, null);
+  });
+});
+
+describe('trackRecommendations', () => {
+  it('keeps one open proposal per action across analyses', () => {
+    const id = propose('ST001:training:f');
+    assert.equal(propose('ST001:training:f', daysAfter(1)), id);
+
+    const [stored] = proposals('ST001:training:f');
+    assert.equal(stored.proposedAt, NOW.toISOString());
+    assert.equal(stored.lastProposedAt, daysAfter(1).toISOString());
+  });
+
+  it('proposes a rejected action again only when asked to', () => {
+    const id = propose('ST001:training:g');
+    updateRecommendation(id, { status: 'rejected', updatedBy: 'lead' }, daysAfter(1));
+
+    const [marked] = trackRecommendations('LN01', analysis('ST001:training:g'), {}, daysAfter(2))[0].recommendations;
+    assert.equal(marked.id, id);
+    assert.equal(marked.status, 'rejected');
+    assert.equal(proposals('ST001:training:g').length, 1);
+
+    const [again] = trackRecommendations('LN01', analysis('ST001:training:g'), { repropose: true }, daysAfter(3))[0].recommendations;
+    assert.notEqual(again.id, id);
+    assert.equal(again.status, 'proposed');
+    assert.equal(proposals('ST001:training:g').length, 2);
+
+    // The old proposal cannot be reopened while the new one is open
+    assert.deepEqual(
+      updateRecommendation(id, { status: 'proposed', updatedBy: 'lead' }, daysAfter(4)),
+      { error: 'A later proposal of this recommendation is already open', status: 409 }
+    );
+  });
+});
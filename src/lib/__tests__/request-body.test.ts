@@ -0,0 +1,25 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readJsonObject } from '@/lib/request-body';
+
+function post(body: string): Request {
+  return new Request('http://localhost/api', { method: 'POST', body });
+}
+
+describe('readJsonObject', () => {
+  it('reads a JSON object', async () => {
+    assert.deepEqual(await readJsonObject(post('{"compact":true}')), { body: { compact: true } });
+  });
+
+  it('refuses bodies that are not JSON objects', async () => {
+    for (const body of ['null', '[]', '"text"', '42', '']) {
+      assert.deepEqual(await readJsonObject(post(body)), { error: 'Request body must be a JSON object' }, body);
+    }
+    assert.deepEqual(await readJsonObject(post('{"compact":')), { error: 'Request body must be valid JSON' });
+  });
+
+  it('reads an empty optional body as an empty object', async () => {
+    assert.deepEqual(await readJsonObject(post(''), { optional: true }), { body: {} });
+    assert.deepEqual(await readJsonObject(post('null'), { optional: true }), { error: 'Request body must be a JSON object' });
+  });
+});
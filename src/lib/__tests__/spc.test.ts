@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateRules } from '@/lib/spc';
+import type { SpcChart, SpcRuleId } from '@/types';
+
+const LIMITS = { center: 10, ucl: 13, lcl: 7, sigma: 1 };
+
+function chartOf(values: number[], limits: SpcChart['limits'] = LIMITS): SpcChart {
+  return {
+    label: 'Individuals',
+    points: values.map((value, i) => ({
+      time: new Date(Date.UTC(2024, 0, 1, i)).toISOString(),
+      value,
+      size: 1,
+    })),
+    limits,
+  };
+}
+
+function rulesFound(values: number[]): SpcRuleId[] {
+  return evaluateRules(chartOf(values), 'location').map(v => v.rule);
+}
+
+// Alternates just either side of the center line, so no rule matches
+const IN_CONTROL = [10.5, 9.5, 10.2, 9.8, 10.6, 9.4, 10.1, 9.9];
+
+describe('evaluateRules', () => {
+  it('finds nothing in a process that stays in control', () => {
+    assert.deepEqual(rulesFound(IN_CONTROL), []);
+  });
+
+  it('finds nothing without limits or with zero sigma', () => {
+    assert.deepEqual(evaluateRules(chartOf([20, 20, 20], null), 'location'), []);
+    assert.deepEqual(evaluateRules(chartOf([20, 20, 20], { ...LIMITS, sigma: 0 }), 'location'), []);
+  });
+
+  it('flags one point beyond 3 sigma', () => {
+    const violations = evaluateRules(chartOf([...IN_CONTROL.slice(0, 4), 13.5, ...IN_CONTROL.slice(4)]), 'location');
+    const we1 = violations.filter(v => v.rule === 'WE1');
+    assert.equal(we1.length, 1);
+    assert.deepEqual(we1[0].pointIndexes, [4]);
+    assert.equal(we1[0].time, chartOf(IN_CONTROL).points[4].time);
+  });
+
+  it('flags two of three points beyond 2 sigma on one side', () => {
+    assert.ok(rulesFound([10, 12.5, 10, 12.5, 10]).includes('WE2'));
+    assert.ok(!rulesFound([10, 12.5, 10, 7.5, 10]).includes('WE2'));
+  });
+
+  it('flags four of five points beyond 1 sigma on one side', () => {
+    assert.ok(rulesFound([11.5, 11.5, 10, 11.5, 11.5]).includes('WE3'));
+  });
+
+  it('flags eight points in a row on one side as a single violation', () => {
+    const violations = evaluateRules(chartOf([10.5, 10.4, 10.6, 10.5, 10.4, 10.6, 10.5, 10.4, 10.6, 10.5]), 'location')
+      .filter(v => v.rule === 'WE4');
+    assert.equal(violations.length, 1);
+    assert.deepEqual(violations[0].pointIndexes, [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it('flags six points steadily increasing', () => {
+    assert.ok(rulesFound([9.5, 9.7, 9.9, 10.1, 10.3, 10.5]).includes('N3'));
+    assert.ok(!rulesFound([9.5, 9.7, 9.9, 9.9, 10.3, 10.5]).includes('N3'));
+  });
+
+  it('flags fourteen points alternating up and down', () => {
+    const alternating = Array.from({ length: 14 }, (_, i) => (i % 2 === 0 ? 9.5 : 10.5));
+    assert.ok(rulesFound(alternating).includes('N4'));
+    assert.ok(!rulesFound(alternating.slice(1)).includes('N4'));
+  });
+
+  it('flags fifteen points hugging the center line', () => {
+    const hugging = Array.from({ length: 15 }, (_, i) => (i % 3 === 0 ? 10.2 : 9.9));
+    assert.ok(rulesFound(hugging).includes('N7'));
+  });
+
+  it('flags eight points beyond 1 sigma on both sides', () => {
+    assert.ok(rulesFound([11.5, 8.5, 11.5, 8.5, 11.5, 8.5, 11.5, 8.5]).includes('N8'));
+  });
+
+  it('checks dispersion charts against their limits only', () => {
+    const ranges = chartOf([2, 2.5, 6.5, 2, 0.1], { center: 2, ucl: 6, lcl: 0, sigma: 1.3 });
+    const violations = evaluateRules(ranges, 'dispersion');
+    assert.equal(violations.length, 1);
+    assert.equal(violations[0].rule, 'WE1');
+    assert.deepEqual(violations[0].pointIndexes, [2]);
+    assert.equal(violations[0].description, 'Individuals outside its control limits');
+  });
+});
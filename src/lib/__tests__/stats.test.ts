@@ -0,0 +1,102 @@
+import { describe as suite, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { describe, describeBins, histogram, quantile, standardDeviation } from '@/lib/stats';
+
+// Repeatable cycle times around 60 s with a long right tail
+function cycleTimes(count: number): number[] {
+  return Array.from({ length: count }, (_, i) => {
+    const wobble = Math.sin(i * 12.9898) * 43758.5453;
+    const u = wobble - Math.floor(wobble);
+    return Math.round((55 + 10 * u + (i % 17 === 0 ? 25 * u : 0)) * 100) / 100;
+  });
+}
+
+// Whole-second bins as the cycle time rollups keep them
+function toBins(values: number[]) {
+  const bins = new Map<number, { count: number; sum: number; sumSq: number; min: number; max: number }>();
+  for (const v of values) {
+    const key = Math.floor(v);
+    const bin = bins.get(key) ?? { count: 0, sum: 0, sumSq: 0, min: v, max: v };
+    bin.count++;
+    bin.sum += v;
+    bin.sumSq += v * v;
+    bin.min = Math.min(bin.min, v);
+    bin.max = Math.max(bin.max, v);
+    bins.set(key, bin);
+  }
+  return Array.from(bins.values());
+}
+
+// The bins' values as describeBins models them: evenly spaced from each bin's min to max
+function expand(bins: ReturnType<typeof toBins>): number[] {
+  return bins.flatMap(b => Array.from({ length: b.count }, (_, k) =>
+    b.count === 1 ? b.min : b.min + ((b.max - b.min) * k) / (b.count - 1)));
+}
+
+function close(actual: number, expected: number, tolerance = 1e-9) {
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} is not within ${tolerance} of ${expected}`);
+}
+
+suite('quantile', () => {
+  it('interpolates between order statistics', () => {
+    assert.equal(quantile([1, 2, 3, 4], 0.5), 2.5);
+    assert.equal(quantile([1, 2, 3, 4], 0), 1);
+    assert.equal(quantile([1, 2, 3, 4], 1), 4);
+    assert.ok(Number.isNaN(quantile([], 0.5)));
+  });
+});
+
+suite('describe', () => {
+  it('summarizes a sample', () => {
+    const stats = describe([4, 1, 3, 2, Infinity])!;
+    assert.equal(stats.count, 4);
+    assert.equal(stats.mean, 2.5);
+    close(stats.stdDev, standardDeviation([1, 2, 3, 4]));
+    assert.equal(stats.p50, 2.5);
+    assert.equal(stats.iqr, 1.5);
+    assert.equal(stats.histogram.reduce((sum, b) => sum + b.count, 0), 4);
+  });
+
+  it('is null without values', () => {
+    assert.equal(describe([]), null);
+  });
+
+  it('puts every value of a constant sample in one bin', () => {
+    assert.deepEqual(histogram([7, 7, 7]), [{ start: 7, end: 7, count: 3 }]);
+  });
+});
+
+suite('describeBins', () => {
+  const values = cycleTimes(5000);
+  const bins = toBins(values);
+  const exact = describe(values)!;
+  const stats = describeBins(bins)!;
+
+  it('keeps count, moments and extremes exact', () => {
+    assert.equal(stats.count, exact.count);
+    close(stats.mean, exact.mean, 1e-9);
+    close(stats.stdDev, exact.stdDev, 1e-6);
+    assert.equal(stats.min, exact.min);
+    assert.equal(stats.max, exact.max);
+  });
+
+  it('places percentiles within the one-second bins', () => {
+    for (const p of ['p25', 'p50', 'p75', 'p90', 'p95', 'p99'] as const) close(stats[p], exact[p], 1);
+  });
+
+  it('matches the summary of the values it models, bar for bar', () => {
+    const modelled = describe(expand(bins))!;
+    for (const p of ['p25', 'p50', 'p75', 'p90', 'p95', 'p99'] as const) close(stats[p], modelled[p]);
+    assert.deepEqual(stats.histogram.map(b => b.count), modelled.histogram.map(b => b.count));
+    assert.equal(stats.histogram.reduce((sum, b) => sum + b.count, 0), values.length);
+  });
+
+  it('handles a single value and empty bins', () => {
+    const single = describeBins([{ count: 3, sum: 180, sumSq: 10800, min: 60, max: 60 }])!;
+    assert.equal(single.stdDev, 0);
+    assert.equal(single.p90, 60);
+    assert.deepEqual(single.histogram, [{ start: 60, end: 60, count: 3 }]);
+    assert.equal(describeBins([]), null);
+    assert.equal(describeBins([{ count: 0, sum: 0, sumSq: 0, min: 0, max: 0 }]), null);
+  });
+});
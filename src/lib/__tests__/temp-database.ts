@@ -0,0 +1,12 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after } from 'node:test';
+
+// The database paths resolve against the working directory when the database layer is first
+// loaded, so test files that reach the database import this module before anything else.
+// Each test file runs in its own process and gets a fresh, empty directory.
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'linebalancer-test-'));
+process.chdir(directory);
+
+after(() => fs.rmSync(directory, { recursive: true, force: true }));
@@ -0,0 +1,108 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildLineTopology, deriveSerialRoutes, validateRoutes } from '@/lib/topology';
+import type { StationRoute } from '@/types';
+
+function station(id: string, position: number, parallelUnits = 1) {
+  return { id, name: `Station ${id}`, position, parallel_units: parallelUnits };
+}
+
+function flow(fromStationId: string, toStationId: string, fraction = 1): StationRoute {
+  return { fromStationId, toStationId, kind: 'flow', fraction };
+}
+
+function rework(fromStationId: string, toStationId: string, fraction: number): StationRoute {
+  return { fromStationId, toStationId, kind: 'rework', fraction };
+}
+
+const STATIONS = [station('A', 1), station('B', 2, 2), station('C', 3), station('D', 4)];
+
+function visitRatios(routes: StationRoute[]): Record<string, number> {
+  const topology = buildLineTopology('L1', STATIONS, routes);
+  return Object.fromEntries(topology.nodes.map(n => [n.stationId, n.visitRatio]));
+}
+
+describe('deriveSerialRoutes', () => {
+  it('chains stations in position order', () => {
+    const routes = deriveSerialRoutes([STATIONS[2], STATIONS[0], STATIONS[1]]);
+    assert.deepEqual(routes, [flow('A', 'B'), flow('B', 'C')]);
+  });
+});
+
+describe('validateRoutes', () => {
+  it('accepts a serial line, a split and a rework loop', () => {
+    assert.equal(validateRoutes(STATIONS, [flow('A', 'B'), flow('B', 'C'), flow('C', 'D')]), null);
+    assert.equal(validateRoutes(STATIONS, [flow('A', 'B', 0.5), flow('A', 'C', 0.5), flow('B', 'D'), flow('C', 'D')]), null);
+    assert.equal(validateRoutes(STATIONS, [flow('A', 'B'), flow('B', 'C'), rework('C', 'B', 0.1), flow('C', 'D', 0.9)]), null);
+  });
+
+  it('rejects unknown stations and self routes', () => {
+    assert.equal(validateRoutes(STATIONS, [flow('A', 'X')]), 'Unknown station X on this line');
+    assert.equal(validateRoutes(STATIONS, [flow('A', 'A')]), 'Route from A to itself');
+  });
+
+  it('rejects fractions that do not add up', () => {
+    assert.equal(
+      validateRoutes(STATIONS, [flow('A', 'B', 0.5), flow('A', 'C', 0.4)]),
+      'Routes leaving A must add up to 1 (got 0.9)'
+    );
+  });
+
+  it('rejects flow cycles and rework that leads downstream', () => {
+    assert.equal(
+      validateRoutes(STATIONS, [flow('A', 'B'), flow('B', 'A')]),
+      'Flow routes form a cycle; use a rework route to send units back'
+    );
+    assert.equal(
+      validateRoutes(STATIONS, [flow('A', 'B', 0.9), rework('A', 'C', 0.1), flow('B', 'C')]),
+      'Rework route A → C must lead back upstream'
+    );
+  });
+
+  it('rejects a line end that reworks all of its output', () => {
+    assert.equal(validateRoutes(STATIONS, [flow('A', 'B'), rework('B', 'A', 1)]), 'Rework leaving B must be less than 1');
+  });
+});
+
+describe('buildLineTopology', () => {
+  it('derives a serial line with one visit per station', () => {
+    const topology = buildLineTopology('L1', STATIONS, []);
+    assert.equal(topology.explicit, false);
+    assert.deepEqual(topology.nodes.map(n => [n.stationId, n.depth, n.visitRatio, n.downstreamCount]), [
+      ['A', 0, 1, 3],
+      ['B', 1, 1, 2],
+      ['C', 2, 1, 1],
+      ['D', 3, 1, 0],
+    ]);
+    assert.equal(topology.nodes[1].parallelUnits, 2);
+  });
+
+  it('splits visits across parallel branches at the same depth', () => {
+    const ratios = visitRatios([flow('A', 'B', 0.25), flow('A', 'C', 0.75), flow('B', 'D'), flow('C', 'D')]);
+    assert.deepEqual(ratios, { A: 1, B: 0.25, C: 0.75, D: 1 });
+    const depths = buildLineTopology('L1', STATIONS, [flow('A', 'B', 0.5), flow('A', 'C', 0.5), flow('B', 'D'), flow('C', 'D')])
+      .nodes.map(n => n.depth);
+    assert.deepEqual(depths, [0, 1, 1, 2]);
+  });
+
+  it('adds the visits a rework loop sends back', () => {
+    const ratios = visitRatios([flow('A', 'B'), flow('B', 'C'), rework('C', 'B', 0.2), flow('C', 'D', 0.8)]);
+    assert.equal(ratios.A, 1);
+    assert.ok(Math.abs(ratios.B - 1.25) < 1e-6);
+    assert.ok(Math.abs(ratios.C - 1.25) < 1e-6);
+    assert.ok(Math.abs(ratios.D - 1) < 1e-6);
+  });
+
+  it('gives every source station one visit', () => {
+    const ratios = visitRatios([flow('A', 'C'), flow('B', 'C')]);
+    assert.equal(ratios.A, 1);
+    assert.equal(ratios.B, 1);
+  });
+
+  it('lists stations no stored route touches', () => {
+    const topology = buildLineTopology('L1', STATIONS, [flow('A', 'B')]);
+    assert.equal(topology.explicit, true);
+    assert.deepEqual(topology.nodes.map(n => n.stationId), ['A', 'B']);
+    assert.deepEqual(topology.unroutedStationIds, ['C', 'D']);
+  });
+});
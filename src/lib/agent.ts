@@ -5,9 +5,20 @@
 // ============================================
 
 import {
+  AnalysisConfig,
+  AnalysisWindow,
   BottleneckAnalysis,
+  CycleTimeStats,
+  DowntimeReasonCategory,
+  EvidenceFilter,
+  OperatorAttribution,
+  StationFlowSignals,
+  StationOperatorAttribution,
+  StationStateSummary,
+  LineTopology,
   RootCause,
   Recommendation,
+  RecommendationTrackRecord,
   Prediction,
   SimulationResult,
   SimulationChange,
@@ -15,6 +26,10 @@ import {
   AgentResponse,
   QueryIntent,
 } from '@/types';
+import { EFFECTIVE_TARGET_CYCLE_TIME, getRecordsSource, resolveWindow } from '@/lib/database';
+import { DEFAULT_ANALYSIS_CONFIG } from '@/lib/analysis-config';
+import { createEvidence } from '@/lib/evidence';
+import type { BottleneckInputs } from '@/lib/bottleneck-inputs';
 
 // ============================================
 // Bottleneck Detection Agent
@@ -35,27 +50,54 @@ interface ShiftData {
   shift: string;
   station_id: string;
   avg_cycle_time: number;
+  avg_target_cycle_time: number;
   sample_count: number;
 }
 
+// Everything past the rollups is optional context; causes that need missing context are skipped
+export type BottleneckAnalysisOptions = Partial<Omit<BottleneckInputs, 'stationData' | 'shiftData'>> & {
+  analysisConfigs?: Record<string, AnalysisConfig>;
+};
+
 export function analyzeBottlenecks(
   stationData: StationData[],
-  shiftData: ShiftData[]
+  shiftData: ShiftData[],
+  options: BottleneckAnalysisOptions = {}
 ): BottleneckAnalysis[] {
+  const {
+    cycleTimeStats = {},
+    bottleneckShares = {},
+    stateSummaries = {},
+    topology,
+    analysisConfigs = {},
+    operatorAttributions = {},
+    flowSignals = {},
+    window = resolveWindow(24), // the window the station data covers
+    trackRecords = {},
+  } = options;
   const analyses: BottleneckAnalysis[] = [];
 
   for (const station of stationData) {
     if (!station.avg_cycle_time) continue;
 
+    const stats = cycleTimeStats[station.station_id] ?? null;
+    const share = bottleneckShares[station.station_id];
+    const states = stateSummaries[station.station_id];
+    const config = analysisConfigs[station.station_id] ?? DEFAULT_ANALYSIS_CONFIG;
+    const attribution = operatorAttributions[station.station_id];
+    const signals = flowSignals[station.station_id];
+    const constraintRole = getConstraintRole(states);
     const variancePercent = station.variance_percent || 0;
-    const severity = getSeverity(variancePercent);
-    const impactScore = calculateImpactScore(station, stationData);
+    const severity = getSeverity(variancePercent, config);
+    const impactScore = calculateImpactScore(station, stationData, stats, config, states, topology);
     
     // Analyze root causes
-    const rootCauses = analyzeRootCauses(station, shiftData);
+    const rootCauses = analyzeRootCauses(station, shiftData, stats, config, window, states, attribution, signals);
     
     // Generate recommendations
-    const recommendations = generateRecommendations(station, rootCauses, impactScore);
+    const recommendations = generateRecommendations(
+      station, rootCauses, impactScore, constraintRole, attribution, signals, trackRecords
+    );
 
     analyses.push({
       stationId: station.station_id,
@@ -64,8 +106,14 @@ export function analyzeBottlenecks(
       avgCycleTime: station.avg_cycle_time,
       targetCycleTime: station.target_cycle_time,
       variancePercent,
-      frequency: Math.floor(impactScore / 10),
+      frequency: share?.frequency ?? 0,
+      soleBottleneckPercent: share?.solePercent ?? 0,
+      shiftingBottleneckPercent: share?.shiftingPercent ?? 0,
+      blockedPercent: states ? states.percentByState.blocked : null,
+      starvedPercent: states ? states.percentByState.starved : null,
+      constraintRole,
       impactScore,
+      cycleTimeStats: stats,
       rootCauses,
       recommendations,
     });
@@ -75,80 +123,277 @@ export function analyzeBottlenecks(
   return analyses.sort((a, b) => b.impactScore - a.impactScore);
 }
 
-function getSeverity(variancePercent: number): BottleneckAnalysis['severity'] {
-  if (variancePercent > 20) return 'critical';
-  if (variancePercent > 10) return 'high';
-  if (variancePercent > 5) return 'medium';
+function getSeverity(variancePercent: number, config: AnalysisConfig): BottleneckAnalysis['severity'] {
+  const { critical, high, medium } = config.severityThresholds;
+  if (variancePercent > critical) return 'critical';
+  if (variancePercent > high) return 'high';
+  if (variancePercent > medium) return 'medium';
   return 'low';
 }
 
-function calculateImpactScore(station: StationData, allStations: StationData[]): number {
-  // Impact based on:
-  // 1. How much over target (40%)
-  // 2. Variability/consistency (20%)
-  // 3. Position in line - earlier = more impact (20%)
-  // 4. Downtime contribution (20%)
+// A station waiting on its neighbours for more than this share of its tracked time is
+// held back by a constraint elsewhere, however slow its own cycles look
+const VICTIM_WAITING_PERCENT = 20;
 
-  const varianceScore = Math.min(40, (station.variance_percent || 0) * 2);
-  
+function getConstraintRole(states: StationStateSummary | undefined): BottleneckAnalysis['constraintRole'] {
+  if (!states || states.trackedSeconds === 0) return 'unknown';
+  const { starved, blocked } = states.percentByState;
+  if (starved + blocked < VICTIM_WAITING_PERCENT) return 'constraint';
+  return starved >= blocked ? 'starved' : 'blocked';
+}
+
+// Spread of cycle times as a percentage of the mean. Raw-record statistics are preferred;
+// the rollup standard deviation covers windows whose raw records are unavailable.
+function getCoefficientOfVariation(station: StationData, stats: CycleTimeStats | null): number {
+  if (stats) return stats.coefficientOfVariation;
   const stddev = station.stddev_cycle_time || 0;
-  const coefficientOfVariation = station.avg_cycle_time ? (stddev / station.avg_cycle_time) * 100 : 0;
-  const consistencyScore = Math.min(20, coefficientOfVariation);
+  return station.avg_cycle_time ? (stddev / station.avg_cycle_time) * 100 : 0;
+}
+
+function calculateImpactScore(
+  station: StationData,
+  allStations: StationData[],
+  stats: CycleTimeStats | null,
+  config: AnalysisConfig,
+  states?: StationStateSummary,
+  topology?: LineTopology
+): number {
+  // Impact based on the configured weights (40/20/20/20 by default) for:
+  // 1. How much over target - full weight at the critical threshold
+  // 2. Variability/consistency - full weight at a 20% coefficient of variation
+  // 3. Position in the line graph - more flow and more stations downstream = more impact
+  // 4. Downtime contribution
+  // discounted by the share of time the station spent starved or blocked
+  const weights = config.impactWeights;
+
+  const varianceScore = weights.variance * Math.min(1, (station.variance_percent || 0) / config.severityThresholds.critical);
   
-  // Position impact (assuming lower station numbers are earlier in line)
-  const stationNumber = parseInt(station.station_id.replace('ST', ''));
-  const positionScore = Math.max(0, 20 - stationNumber * 2);
+  const coefficientOfVariation = getCoefficientOfVariation(station, stats);
+  const consistencyScore = weights.consistency * Math.min(1, coefficientOfVariation / 20);
+  
+  // Position impact: a station holds up the share of line flow that passes through it,
+  // and every station downstream of it waits
+  const node = topology?.nodes.find(n => n.stationId === station.station_id);
+  const positionScore = node && topology && topology.nodes.length > 1
+    ? weights.position * Math.min(1, node.visitRatio) * (node.downstreamCount / (topology.nodes.length - 1))
+    : 0;
   
   // Downtime score
   const totalDowntime = allStations.reduce((sum, s) => sum + (s.total_downtime || 0), 0);
   const downtimeScore = totalDowntime > 0 
-    ? ((station.total_downtime || 0) / totalDowntime) * 20 
+    ? ((station.total_downtime || 0) / totalDowntime) * weights.downtime 
     : 0;
 
-  return Math.round(varianceScore + consistencyScore + positionScore + downtimeScore);
+  const waitingShare = states
+    ? (states.percentByState.starved + states.percentByState.blocked) / 100
+    : 0;
+
+  return Math.round((varianceScore + consistencyScore + positionScore + downtimeScore) * (1 - waitingShare));
+}
+
+function formatPValue(p: number): string {
+  return p <= 0.0001 ? 'p < 0.0001' : `p = ${p}`;
 }
 
-function analyzeRootCauses(station: StationData, shiftData: ShiftData[]): RootCause[] {
+function describeOperatorGap(operator: OperatorAttribution): string {
+  const gaps: string[] = [];
+  if (operator.cycleTime?.worse) {
+    const { difference, effectSize, pValue } = operator.cycleTime;
+    gaps.push(`cycle time +${difference} pts over target vs peers (d = ${effectSize}, ${formatPValue(pValue)})`);
+  }
+  if (operator.defectRate?.worse) {
+    const { difference, effectSize, pValue } = operator.defectRate;
+    gaps.push(`+${difference} defects per 100 units vs peers (d = ${effectSize}, ${formatPValue(pValue)})`);
+  }
+  const profile = [
+    operator.skillLevel !== null ? `skill ${operator.skillLevel}` : null,
+    operator.efficiency !== null ? `efficiency ${operator.efficiency}%` : null,
+  ].filter(Boolean).join(', ');
+  return `${operator.operatorName}: ${gaps.join('; ')}${profile ? ` (${profile})` : ''}`;
+}
+
+// A downtime reason category becomes a cause once it holds this share of the downtime with
+// a recorded reason, and at least this many minutes of it. A handful of reasons spread evenly
+// leaves each well under the share.
+const MIN_REASON_SHARE = 0.3;
+const MIN_REASON_MINUTES = 30;
+
+function summarizeReasons(signals: StationFlowSignals | undefined, category: DowntimeReasonCategory) {
+  const reasons = signals?.downtimeReasons ?? [];
+  const entries = reasons.filter(r => r.category === category);
+  const minutes = entries.reduce((sum, r) => sum + r.minutes, 0);
+  const recordedMinutes = reasons.filter(r => r.reason !== 'Unspecified').reduce((sum, r) => sum + r.minutes, 0);
+  const share = recordedMinutes > 0 ? minutes / recordedMinutes : 0;
+  return {
+    entries,
+    minutes,
+    stoppages: entries.reduce((sum, r) => sum + r.stoppages, 0),
+    share,
+    significant: minutes >= MIN_REASON_MINUTES && share >= MIN_REASON_SHARE,
+    evidence: signals ? [
+      ...entries.map(r => createEvidence(
+        'downtime_reasons',
+        `${r.reason}: ${r.stoppages} stoppages, ${Math.round(r.minutes)} min (${r.percent}% of downtime)`,
+        r.minutes,
+        'min',
+        { stationId: signals.stationId, from: signals.from, to: signals.to, reasons: [r.reason] }
+      )),
+      createEvidence(
+        'downtime_reasons',
+        `${Math.round(share * 100)}% of downtime with a recorded reason`,
+        share * 100,
+        '%',
+        { stationId: signals.stationId, from: signals.from, to: signals.to, reasons: entries.map(r => r.reason) }
+      ),
+    ] : [],
+  };
+}
+
+function analyzeRootCauses(
+  station: StationData,
+  shiftData: ShiftData[],
+  stats: CycleTimeStats | null,
+  config: AnalysisConfig,
+  window: AnalysisWindow,
+  states?: StationStateSummary,
+  attribution?: StationOperatorAttribution,
+  signals?: StationFlowSignals
+): RootCause[] {
   const rootCauses: RootCause[] = [];
+
+  // The records behind each figure: the analysis window, except for state events, which
+  // carry no shift, and for operators and flow signals, which are compared over longer windows
+  const stationId = station.station_id;
+  const inWindow: EvidenceFilter = { stationId, from: window.from, to: window.to, shift: window.shift ?? null };
+  const inStates: EvidenceFilter = { stationId, from: window.from, to: window.to };
+  const inAttribution: EvidenceFilter = attribution ? { stationId, from: attribution.from, to: attribution.to } : inWindow;
+  const inFlowSignals: EvidenceFilter = signals ? { stationId, from: signals.from, to: signals.to } : inWindow;
+
+  // Time spent waiting on neighbours separates the line's constraint from its victims
+  const role = getConstraintRole(states);
+  if (states && (role === 'starved' || role === 'blocked')) {
+    const { starved, blocked, working } = states.percentByState;
+    rootCauses.push({
+      type: 'process',
+      description: role === 'starved'
+        ? `Starved by upstream stations ${Math.round(starved)}% of the time; the constraint is upstream`
+        : `Blocked by downstream stations ${Math.round(blocked)}% of the time; the constraint is downstream`,
+      confidence: Math.min(0.9, (starved + blocked) / 40),
+      evidence: [
+        createEvidence('station_states', `Starved: ${Math.round(starved)}%, blocked: ${Math.round(blocked)}%`, starved + blocked, '%', inStates),
+        createEvidence(
+          'station_states',
+          `Working: ${Math.round(working)}% of ${Math.round(states.trackedSeconds / 3600)}h tracked`,
+          working,
+          '%',
+          inStates
+        ),
+      ],
+    });
+  } else if (states && role === 'constraint' && (station.variance_percent || 0) > config.severityThresholds.medium) {
+    const { starved, blocked, working } = states.percentByState;
+    rootCauses.push({
+      type: 'process',
+      description: 'Rarely starved or blocked while running over target: this station is a true constraint',
+      confidence: Math.min(0.9, 0.5 + working / 200),
+      evidence: [
+        createEvidence('station_states', `Starved: ${Math.round(starved)}%, blocked: ${Math.round(blocked)}%`, starved + blocked, '%', inStates),
+        createEvidence('station_states', `Working: ${Math.round(working)}%`, working, '%', inStates),
+      ],
+    });
+  }
   
-  // Check shift-based patterns
+  // Check shift-based patterns. Each shift is measured against the targets that applied to
+  // its own records, so a shift that built a slower variant isn't blamed for it.
   const stationShifts = shiftData.filter(s => s.station_id === station.station_id);
   if (stationShifts.length > 1) {
-    const avgByShift = stationShifts.reduce((acc, s) => {
-      acc[s.shift] = s.avg_cycle_time;
+    const overTargetByShift = stationShifts.reduce((acc, s) => {
+      const target = s.avg_target_cycle_time || station.target_cycle_time;
+      acc[s.shift] = { avg: s.avg_cycle_time, target, percent: ((s.avg_cycle_time - target) / target) * 100 };
       return acc;
-    }, {} as Record<string, number>);
+    }, {} as Record<string, { avg: number; target: number; percent: number }>);
     
-    const shiftVariance = Math.max(...Object.values(avgByShift)) - Math.min(...Object.values(avgByShift));
-    const shiftVariancePercent = (shiftVariance / station.target_cycle_time) * 100;
+    const percents = Object.values(overTargetByShift).map(s => s.percent);
+    const shiftVariancePercent = Math.max(...percents) - Math.min(...percents);
     
     if (shiftVariancePercent > 10) {
-      const worstShift = Object.entries(avgByShift).sort((a, b) => b[1] - a[1])[0];
+      const [worstShift, worst] = Object.entries(overTargetByShift).sort((a, b) => b[1].percent - a[1].percent)[0];
       rootCauses.push({
         type: 'shift',
-        description: `${worstShift[0]} shift shows ${Math.round(shiftVariancePercent)}% higher cycle times`,
+        description: `${worstShift} shift shows ${Math.round(shiftVariancePercent)}% higher cycle times`,
         confidence: Math.min(0.9, shiftVariancePercent / 20),
         evidence: [
-          `${worstShift[0]} shift average: ${Math.round(worstShift[1])}s`,
-          `Target: ${station.target_cycle_time}s`,
+          createEvidence('shift_cycle_time', `${worstShift} shift average: ${Math.round(worst.avg)}s`, worst.avg, 's', { ...inWindow, shift: worstShift }),
+          createEvidence('shift_cycle_time', `Target: ${Math.round(worst.target)}s`, worst.target, 's', { ...inWindow, shift: worstShift }),
         ],
       });
     }
   }
   
   // High variance suggests operator or process issues
-  const stddev = station.stddev_cycle_time || 0;
-  const cv = station.avg_cycle_time ? (stddev / station.avg_cycle_time) * 100 : 0;
-  
-  if (cv > 15) {
+  const stddev = stats?.stdDev ?? station.stddev_cycle_time ?? 0;
+  const cv = getCoefficientOfVariation(station, stats);
+  const variabilityEvidence = [
+    createEvidence('cycle_time_variability', `Coefficient of variation: ${Math.round(cv)}%`, cv, '%', inWindow),
+    createEvidence('cycle_time_variability', `Standard deviation: ${Math.round(stddev)}s`, stddev, 's', inWindow),
+    ...(stats ? [createEvidence(
+      'cycle_time_variability',
+      `Median ${Math.round(stats.p50)}s, P90 ${Math.round(stats.p90)}s, IQR ${Math.round(stats.iqr)}s`,
+      stats.p90,
+      's',
+      inWindow
+    )] : []),
+  ];
+
+  // Operators compared with peers on the same shift and weekday name who is behind; without
+  // peers to compare against, variability is the only operator signal
+  const compared = attribution?.operators.some(o => o.cycleTime || o.defectRate) ?? false;
+  const behind = attribution?.operators.filter(o => o.cycleTime?.worse || o.defectRate?.worse) ?? [];
+  if (behind.length > 0) {
+    const names = behind.slice(0, 3).map(o => o.operatorName).join(', ') +
+      (behind.length > 3 ? ` and ${behind.length - 3} more` : '');
+    const largestEffect = Math.max(...behind.map(o => Math.max(
+      o.cycleTime?.worse ? o.cycleTime.effectSize : 0,
+      o.defectRate?.worse ? o.defectRate.effectSize : 0
+    )));
     rootCauses.push({
       type: 'operator',
-      description: 'High cycle time variability suggests inconsistent operator performance',
-      confidence: Math.min(0.85, cv / 25),
+      description: `${names} ${behind.length === 1 ? 'performs' : 'perform'} significantly worse than peers on the same shift and weekday`,
+      confidence: Math.min(0.9, 0.5 + largestEffect * 0.3),
       evidence: [
-        `Coefficient of variation: ${Math.round(cv)}%`,
-        `Standard deviation: ${Math.round(stddev)}s`,
+        ...behind.map(o => createEvidence(
+          'operator_performance',
+          describeOperatorGap(o),
+          o.cycleTime?.worse ? o.cycleTime.difference : o.defectRate?.difference ?? null,
+          o.cycleTime?.worse ? 'pts' : 'per 100 units',
+          { ...inAttribution, operatorIds: [o.operatorId] }
+        )),
+        ...(cv > 15 ? variabilityEvidence : []),
       ],
+      operatorIds: behind.map(o => o.operatorId),
+    });
+  } else if (cv > 15 && compared) {
+    rootCauses.push({
+      type: 'process',
+      description: 'High cycle time variability that no operator accounts for suggests an unstable process',
+      confidence: Math.min(0.8, cv / 25),
+      evidence: [
+        ...variabilityEvidence,
+        createEvidence(
+          'operator_performance',
+          'No operator differs significantly from peers on the same shift and weekday',
+          null,
+          null,
+          inAttribution
+        ),
+      ],
+    });
+  } else if (cv > 15) {
+    rootCauses.push({
+      type: 'operator',
+      description: 'High cycle time variability suggests inconsistent operator performance',
+      confidence: Math.min(0.85, cv / 25),
+      evidence: variabilityEvidence,
     });
   }
   
@@ -159,20 +404,103 @@ function analyzeRootCauses(station: StationData, shiftData: ShiftData[]): RootCa
       description: 'Consistently slow performance suggests equipment limitations',
       confidence: 0.75,
       evidence: [
-        `Consistent ${Math.round(station.variance_percent || 0)}% above target`,
-        `Low variability indicates systematic issue`,
+        createEvidence('cycle_time', `Consistent ${Math.round(station.variance_percent || 0)}% above target`, station.variance_percent, '%', inWindow),
+        createEvidence('cycle_time_variability', 'Low variability indicates systematic issue', cv, '%', inWindow),
       ],
     });
   }
   
-  // High downtime
-  if ((station.total_downtime || 0) > 60) {
+  // Stoppages waiting for material point at supply rather than the station
+  const shortage = summarizeReasons(signals, 'material');
+  if (shortage.significant) {
+    const starved = states?.percentByState.starved ?? 0;
+    rootCauses.push({
+      type: 'material',
+      description: `Material shortages stopped the station ${shortage.stoppages} times for ${Math.round(shortage.minutes)} minutes`,
+      confidence: Math.min(0.85, 0.4 + shortage.share),
+      evidence: [
+        ...shortage.evidence,
+        ...(starved > 0 ? [createEvidence('station_states', `Starved ${Math.round(starved)}% of tracked time`, starved, '%', inStates)] : []),
+      ],
+      signal: 'material_shortage',
+    });
+  }
+
+  // Defects that rise and fall with an upstream station's, or stoppages put down to upstream
+  // quality, are passed down the line rather than made here
+  const qualityStops = summarizeReasons(signals, 'upstream_quality');
+  const defectLinks = (signals?.correlations ?? [])
+    .filter(c => c.metric === 'defect_rate' && c.direction === 'upstream' && c.significant)
+    .sort((a, b) => b.correlation - a.correlation);
+  if (qualityStops.significant || defectLinks.length > 0) {
+    const source = defectLinks[0];
+    rootCauses.push({
+      type: 'process',
+      description: source
+        ? `Defects rise and fall with ${source.stationName}'s, so quality problems are passed down from upstream`
+        : `Upstream quality issues stopped the station ${qualityStops.stoppages} times for ${Math.round(qualityStops.minutes)} minutes`,
+      confidence: Math.min(0.9, (source ? 0.3 + source.correlation * 0.5 : 0.3) + (qualityStops.significant ? qualityStops.share : 0)),
+      evidence: [
+        ...defectLinks.map(c => createEvidence(
+          'neighbour_correlation',
+          `Hourly defect rate vs ${c.stationName}: r = ${c.correlation} over ${c.hours}h (${formatPValue(c.pValue)})`,
+          c.correlation,
+          'r',
+          { ...inFlowSignals, relatedStationId: c.stationId, series: 'defect_rate' }
+        )),
+        ...(qualityStops.significant ? qualityStops.evidence : []),
+      ],
+      signal: 'upstream_quality',
+      relatedStationIds: defectLinks.map(c => c.stationId),
+    });
+  }
+
+  // Cycle times that move with a neighbour's once the shift pattern is taken out: the two
+  // share a cause, or slowdowns pass straight through with no buffer between them
+  const timingLinks = (signals?.correlations ?? [])
+    .filter(c => c.metric === 'cycle_time' && c.significant)
+    .sort((a, b) => b.correlation - a.correlation);
+  if (timingLinks.length > 0) {
+    rootCauses.push({
+      type: 'process',
+      description: `Cycle time moves with adjacent ${timingLinks.map(c => c.stationName).join(' and ')}, so slowdowns carry between the stations`,
+      confidence: Math.min(0.85, 0.3 + timingLinks[0].correlation * 0.6),
+      evidence: timingLinks.map(c => createEvidence(
+        'neighbour_correlation',
+        `Hourly cycle time vs ${c.direction} ${c.stationName}: r = ${c.correlation} over ${c.hours}h (${formatPValue(c.pValue)})`,
+        c.correlation,
+        'r',
+        { ...inFlowSignals, relatedStationId: c.stationId, series: 'cycle_time' }
+      )),
+      signal: 'station_coupling',
+      relatedStationIds: timingLinks.map(c => c.stationId),
+    });
+  }
+
+  // High downtime, less what was put down to material or upstream quality
+  const totalReasonMinutes = (signals?.downtimeReasons ?? []).reduce((sum, r) => sum + r.minutes, 0);
+  const elsewhereShare = totalReasonMinutes > 0 ? (shortage.minutes + qualityStops.minutes) / totalReasonMinutes : 0;
+  const equipmentDowntime = (station.total_downtime || 0) * (1 - elsewhereShare);
+  if (equipmentDowntime > 60) {
     rootCauses.push({
       type: 'equipment',
       description: 'Significant downtime indicates equipment reliability issues',
       confidence: 0.8,
       evidence: [
-        `Total downtime: ${Math.round(station.total_downtime || 0)} minutes`,
+        createEvidence(
+          'downtime',
+          `Total downtime: ${Math.round(station.total_downtime || 0)} minutes`,
+          station.total_downtime || 0,
+          'min',
+          { ...inWindow, stoppagesOnly: true }
+        ),
+        ...(elsewhereShare > 0 ? [createEvidence(
+          'downtime_reasons',
+          `${Math.round(elsewhereShare * 100)}% of it put down to material or upstream quality`,
+          elsewhereShare * 100,
+          '%',
+          { ...inFlowSignals, reasons: [...shortage.entries, ...qualityStops.entries].map(r => r.reason) }
+        )] : []),
       ],
     });
   }
@@ -183,10 +511,19 @@ function analyzeRootCauses(station: StationData, shiftData: ShiftData[]): RootCa
 function generateRecommendations(
   station: StationData,
   rootCauses: RootCause[],
-  impactScore: number
+  impactScore: number,
+  constraintRole: BottleneckAnalysis['constraintRole'] = 'unknown',
+  attribution?: StationOperatorAttribution,
+  signals?: StationFlowSignals,
+  trackRecords: Partial<Record<Recommendation['type'], RecommendationTrackRecord>> = {}
 ): Recommendation[] {
   const recommendations: Recommendation[] = [];
   let priority = 1;
+  // The cause's confidence, scaled by how verified recommendations of the same type delivered
+  const confidenceFor = (type: Recommendation['type'], base: number) =>
+    Math.round(Math.min(0.95, base * (trackRecords[type]?.confidenceFactor ?? 1)) * 100) / 100;
+  // Capacity added at a station that is waiting on another doesn't raise line output
+  const isVictim = constraintRole === 'starved' || constraintRole === 'blocked';
 
   for (const cause of rootCauses) {
     switch (cause.type) {
@@ -199,11 +536,36 @@ function generateRecommendations(
           implementationCost: 'low',
           timeToImplement: '1-2 weeks',
           priority: priority++,
+          confidence: confidenceFor('training', cause.confidence),
         });
         break;
         
       case 'operator':
-        recommendations.push({
+        if (cause.operatorIds) {
+          const stationRecords = attribution?.operators.reduce((sum, o) => sum + o.records, 0) ?? 0;
+          for (const operator of attribution?.operators.filter(o => cause.operatorIds!.includes(o.operatorId)) ?? []) {
+            // Station-level gain if this operator matched their peers, by their share of its cycles
+            const share = stationRecords > 0 ? operator.records / stationRecords : 0;
+            const slow = operator.cycleTime?.worse ? operator.cycleTime : null;
+            const defects = operator.defectRate?.worse ? operator.defectRate : null;
+            recommendations.push({
+              id: `rec-${station.station_id}-training-${operator.operatorId}`,
+              type: 'training',
+              description: slow
+                ? `Coach ${operator.operatorName} on standard work at ${station.station_name}: ${slow.difference} pts further over target than peers`
+                : `Retrain ${operator.operatorName} on quality checks at ${station.station_name}: ${defects!.difference} more defects per 100 units than peers`,
+              expectedImprovement: Math.max(1, Math.round(slow
+                ? share * slow.difference
+                : share * (defects!.difference / Math.max(defects!.peerMean, 1)) * 100)),
+              implementationCost: 'low',
+              timeToImplement: '1-2 weeks',
+              priority: priority++,
+              confidence: confidenceFor('training', cause.confidence),
+            });
+          }
+          break;
+        }
+        if (!isVictim) recommendations.push({
           id: `rec-${station.station_id}-operator`,
           type: 'add_operator',
           description: `Add operator to ${station.station_name} to reduce workload and improve consistency`,
@@ -211,6 +573,7 @@ function generateRecommendations(
           implementationCost: 'medium',
           timeToImplement: '2-4 weeks',
           priority: priority++,
+          confidence: confidenceFor('add_operator', cause.confidence),
         });
         recommendations.push({
           id: `rec-${station.station_id}-training`,
@@ -220,6 +583,7 @@ function generateRecommendations(
           implementationCost: 'low',
           timeToImplement: '1 week',
           priority: priority++,
+          confidence: confidenceFor('training', cause.confidence),
         });
         break;
         
@@ -232,6 +596,7 @@ function generateRecommendations(
           implementationCost: 'high',
           timeToImplement: '4-8 weeks',
           priority: priority++,
+          confidence: confidenceFor('equipment', cause.confidence),
         });
         recommendations.push({
           id: `rec-${station.station_id}-maintenance`,
@@ -241,39 +606,100 @@ function generateRecommendations(
           implementationCost: 'medium',
           timeToImplement: '2 weeks',
           priority: priority++,
+          confidence: confidenceFor('maintenance', cause.confidence),
         });
         break;
+
+      case 'material':
+        recommendations.push({
+          id: `rec-${station.station_id}-material`,
+          type: 'material',
+          description: `Size line-side stock or a kanban loop at ${station.station_name} to its consumption so it stops waiting for material`,
+          expectedImprovement: Math.round(cause.confidence * 15),
+          implementationCost: 'low',
+          timeToImplement: '1-2 weeks',
+          priority: priority++,
+          confidence: confidenceFor('material', cause.confidence),
+        });
+        break;
+
+      case 'process': {
+        const related = (cause.relatedStationIds ?? [])
+          .map(id => signals?.correlations.find(c => c.stationId === id)?.stationName ?? id);
+        if (cause.signal === 'upstream_quality') {
+          recommendations.push({
+            id: `rec-${station.station_id}-quality-gate`,
+            type: 'process',
+            description: related.length > 0
+              ? `Add a quality check at the exit of ${related[0]} so defects are caught before they reach ${station.station_name}`
+              : `Trace the upstream quality stoppages at ${station.station_name} to their source and add a check there`,
+            expectedImprovement: Math.round(cause.confidence * 12),
+            implementationCost: 'medium',
+            timeToImplement: '2-3 weeks',
+            priority: priority++,
+            confidence: confidenceFor('process', cause.confidence),
+          });
+        } else if (cause.signal === 'station_coupling') {
+          recommendations.push({
+            id: `rec-${station.station_id}-decouple`,
+            type: 'process',
+            description: `Add a buffer between ${station.station_name} and ${related.join(' and ')}, or look for a cause the stations share`,
+            expectedImprovement: Math.round(cause.confidence * 10),
+            implementationCost: 'medium',
+            timeToImplement: '2-4 weeks',
+            priority: priority++,
+            confidence: confidenceFor('process', cause.confidence),
+          });
+        }
+        break;
+      }
     }
   }
 
   // Line rebalancing for high impact stations
-  if (impactScore > 50) {
+  if (impactScore > 50 && !isVictim) {
     recommendations.push({
       id: `rec-${station.station_id}-rebalance`,
       type: 'rebalance',
-      description: `Consider redistributing work from ${station.station_name} to adjacent stations`,
+      description: `Redistribute work elements from ${station.station_name} to adjacent stations; balance the line to find an assignment`,
       expectedImprovement: 15,
       implementationCost: 'medium',
       timeToImplement: '2-3 weeks',
       priority: priority++,
+      confidence: confidenceFor('rebalance', Math.min(0.9, impactScore / 100)),
     });
   }
 
-  return recommendations;
+  // Two causes can call for the same action (slow cycles and downtime both point at the
+  // equipment); it is proposed once, as strongly as the stronger cause makes it
+  const merged = new Map<string, Recommendation>();
+  for (const recommendation of recommendations) {
+    const earlier = merged.get(recommendation.id);
+    merged.set(recommendation.id, earlier ? {
+      ...earlier,
+      expectedImprovement: Math.max(earlier.expectedImprovement, recommendation.expectedImprovement),
+      confidence: Math.max(earlier.confidence, recommendation.confidence),
+    } : recommendation);
+  }
+  return Array.from(merged.values()).map((recommendation, index) => ({ ...recommendation, priority: index + 1 }));
 }
 
 // ============================================
 // What-If Simulation Engine
 // ============================================
 
+interface SimulationStation {
+  id: string;
+  name: string;
+  targetCycleTime: number;
+  avgCycleTime: number;
+  operatorCount: number;
+  parallelUnits: number;
+}
+
 interface SimulationInput {
-  stations: Array<{
-    id: string;
-    name: string;
-    targetCycleTime: number;
-    avgCycleTime: number;
-    operatorCount: number;
-  }>;
+  stations: SimulationStation[];
+  topology: LineTopology;
   changes: SimulationChange[];
 }
 
@@ -282,10 +708,11 @@ export function runSimulation(input: SimulationInput): {
   projected: SimulationResult;
 } {
   // Calculate baseline
-  const baseline = calculateLineMetrics(input.stations);
+  const baseline = calculateLineMetrics(input.stations, input.topology);
   
-  // Apply changes and calculate projected
-  const modifiedStations = input.stations.map(station => {
+  // Apply changes and calculate projected; removed stations drop out of the line
+  const removed = new Set(input.changes.filter(c => c.type === 'remove_station').map(c => c.stationId));
+  const modifiedStations = input.stations.filter(station => !removed.has(station.id)).map(station => {
     const stationChanges = input.changes.filter(c => c.stationId === station.id);
     let modified = { ...station };
     
@@ -314,33 +741,34 @@ export function runSimulation(input: SimulationInput): {
     return modified;
   });
   
-  const projected = calculateLineMetrics(modifiedStations);
+  const projected = calculateLineMetrics(modifiedStations, input.topology);
   
   return { baseline, projected };
 }
 
-function calculateLineMetrics(
-  stations: Array<{
-    id: string;
-    name: string;
-    targetCycleTime: number;
-    avgCycleTime: number;
-    operatorCount: number;
-  }>
-): SimulationResult {
-  // Find bottleneck (station with highest cycle time)
+function calculateLineMetrics(stations: SimulationStation[], topology: LineTopology): SimulationResult {
+  // Each station can sustain parallel units / cycle time visits per second; dividing by the
+  // visits one finished unit needs gives the line rate it allows. The lowest is the bottleneck.
+  const routed = stations.flatMap(station => {
+    const node = topology.nodes.find(n => n.stationId === station.id);
+    return node && node.visitRatio > 0 ? [{ station, visitRatio: node.visitRatio }] : [];
+  });
+
   let bottleneckStation: string | null = null;
-  let maxCycleTime = 0;
+  let lineRate = Infinity; // finished units per hour
   
-  for (const station of stations) {
-    if (station.avgCycleTime > maxCycleTime) {
-      maxCycleTime = station.avgCycleTime;
+  for (const { station, visitRatio } of routed) {
+    const rate = (station.parallelUnits * 3600) / (station.avgCycleTime * visitRatio);
+    if (rate < lineRate) {
+      lineRate = rate;
       bottleneckStation = station.id;
     }
   }
   
-  // Line throughput is constrained by bottleneck
-  const throughputPerHour = Math.floor(3600 / maxCycleTime);
+  if (!isFinite(lineRate)) lineRate = 0;
+  const throughputPerHour = Math.floor(lineRate);
+  // Time between finished units
+  const taktTime = lineRate > 0 ? 3600 / lineRate : 0;
   
   // Average cycle time across all stations
   const avgCycleTime = stations.reduce((sum, s) => sum + s.avgCycleTime, 0) / stations.length;
@@ -348,18 +776,22 @@ function calculateLineMetrics(
   // Calculate wait times and utilization
   const utilizationByStation: Record<string, number> = {};
   let waitTimeTotal = 0;
+  let capacityTime = 0;
+  let workContent = 0;
   
-  for (const station of stations) {
-    // Utilization = actual time / max time (bottleneck time)
-    utilizationByStation[station.id] = Math.min(1, station.avgCycleTime / maxCycleTime);
+  for (const { station, visitRatio } of routed) {
+    // Busy seconds per unit of capacity for each finished unit
+    const busy = (visitRatio * station.avgCycleTime) / station.parallelUnits;
+    utilizationByStation[station.id] = taktTime > 0 ? Math.min(1, busy / taktTime) : 0;
     
-    // Wait time is the difference from bottleneck
-    waitTimeTotal += maxCycleTime - station.avgCycleTime;
+    // Idle time of every parallel unit while the bottleneck sets the pace
+    waitTimeTotal += Math.max(0, taktTime - busy) * station.parallelUnits;
+    capacityTime += taktTime * station.parallelUnits;
+    workContent += visitRatio * station.targetCycleTime;
   }
   
-  // Line efficiency = sum of target times / (bottleneck * number of stations)
-  const totalTargetTime = stations.reduce((sum, s) => sum + s.targetCycleTime, 0);
-  const lineEfficiency = (totalTargetTime / (maxCycleTime * stations.length)) * 100;
+  // Line efficiency = target work content / capacity time available per finished unit
+  const lineEfficiency = capacityTime > 0 ? (workContent / capacityTime) * 100 : 0;
   
   return {
     throughputPerHour,
@@ -475,14 +907,17 @@ const QUERY_PATTERNS = [
   {
     pattern: /which station (hurt|affected|impacted|caused).*(output|throughput|production)/i,
     intent: { action: 'find' as const, metrics: ['throughput'] },
+    stationColumn: 's.id',
     sqlTemplate: `
       SELECT s.name as station_name, s.id as station_id,
         AVG(pr.cycle_time) as avg_cycle_time,
-        s.target_cycle_time,
-        ((AVG(pr.cycle_time) - s.target_cycle_time) / s.target_cycle_time * 100) as variance_pct
+        AVG(${EFFECTIVE_TARGET_CYCLE_TIME}) as target_cycle_time,
+        ((AVG(pr.cycle_time) - AVG(${EFFECTIVE_TARGET_CYCLE_TIME}))
+          / AVG(${EFFECTIVE_TARGET_CYCLE_TIME}) * 100) as variance_pct
       FROM stations s
-      JOIN production_records pr ON s.id = pr.station_id
+      JOIN {records} pr ON s.id = pr.station_id
       WHERE pr.timestamp >= datetime('now', '-{timeRange}')
+        {lineFilter}
       GROUP BY s.id
       ORDER BY variance_pct DESC
       LIMIT 5
@@ -491,13 +926,15 @@ const QUERY_PATTERNS = [
   {
     pattern: /compare.*(shifts?|day|night|swing)/i,
     intent: { action: 'compare' as const, metrics: ['cycle_time', 'throughput'] },
+    stationColumn: 'station_id',
     sqlTemplate: `
       SELECT shift,
         AVG(cycle_time) as avg_cycle_time,
         SUM(quantity) as total_output,
         AVG(defects * 1.0 / NULLIF(quantity, 0) * 100) as defect_rate
-      FROM production_records
+      FROM {records}
       WHERE timestamp >= datetime('now', '-{timeRange}')
+        {lineFilter}
       GROUP BY shift
       ORDER BY shift
     `,
@@ -505,12 +942,14 @@ const QUERY_PATTERNS = [
   {
     pattern: /trend|trending|over time|history/i,
     intent: { action: 'trend' as const, metrics: ['cycle_time'] },
+    stationColumn: 'station_id',
     sqlTemplate: `
       SELECT strftime('%Y-%m-%d', timestamp) as date,
         AVG(cycle_time) as avg_cycle_time,
         SUM(quantity) as total_output
-      FROM production_records
+      FROM {records}
       WHERE timestamp >= datetime('now', '-{timeRange}')
+        {lineFilter}
       GROUP BY date
       ORDER BY date
     `,
@@ -518,14 +957,16 @@ const QUERY_PATTERNS = [
   {
     pattern: /defect|quality|reject/i,
     intent: { action: 'find' as const, metrics: ['defect_rate'] },
+    stationColumn: 's.id',
     sqlTemplate: `
       SELECT s.name as station_name, s.id as station_id,
         SUM(pr.defects) as total_defects,
         SUM(pr.quantity) as total_quantity,
         (SUM(pr.defects) * 1.0 / NULLIF(SUM(pr.quantity), 0) * 100) as defect_rate
       FROM stations s
-      JOIN production_records pr ON s.id = pr.station_id
+      JOIN {records} pr ON s.id = pr.station_id
       WHERE pr.timestamp >= datetime('now', '-{timeRange}')
+        {lineFilter}
       GROUP BY s.id
       ORDER BY defect_rate DESC
     `,
@@ -533,14 +974,16 @@ const QUERY_PATTERNS = [
   {
     pattern: /downtime|down time|stopped|idle/i,
     intent: { action: 'find' as const, metrics: ['downtime'] },
+    stationColumn: 's.id',
     sqlTemplate: `
       SELECT s.name as station_name, s.id as station_id,
         SUM(pr.downtime_minutes) as total_downtime,
         pr.downtime_reason,
         COUNT(*) as occurrences
       FROM stations s
-      JOIN production_records pr ON s.id = pr.station_id
+      JOIN {records} pr ON s.id = pr.station_id
       WHERE pr.timestamp >= datetime('now', '-{timeRange}')
+        {lineFilter}
         AND pr.downtime_minutes > 0
       GROUP BY s.id, pr.downtime_reason
       ORDER BY total_downtime DESC
@@ -549,25 +992,37 @@ const QUERY_PATTERNS = [
   {
     pattern: /operator|worker|employee/i,
     intent: { action: 'find' as const, metrics: ['operator_performance'] },
+    stationColumn: 'pr.station_id',
     sqlTemplate: `
       SELECT o.name as operator_name, o.shift, s.name as station_name,
         AVG(pr.cycle_time) as avg_cycle_time,
+        AVG(${EFFECTIVE_TARGET_CYCLE_TIME}) as target_cycle_time,
+        ((AVG(pr.cycle_time) - AVG(${EFFECTIVE_TARGET_CYCLE_TIME}))
+          / AVG(${EFFECTIVE_TARGET_CYCLE_TIME}) * 100) as variance_pct,
         SUM(pr.defects) as total_defects,
         COUNT(*) as records
       FROM operators o
-      JOIN production_records pr ON o.id = pr.operator_id
-      JOIN stations s ON o.station_id = s.id
+      JOIN {records} pr ON o.id = pr.operator_id
+      JOIN stations s ON pr.station_id = s.id
       WHERE pr.timestamp >= datetime('now', '-{timeRange}')
-      GROUP BY o.id
-      ORDER BY avg_cycle_time DESC
+        {lineFilter}
+      GROUP BY o.id, pr.station_id
+      ORDER BY variance_pct DESC
       LIMIT 10
     `,
   },
 ];
 
-export function parseNaturalLanguageQuery(query: string): {
+// Restricts a query to the stations of one line; the line id is bound as a
+// parameter rather than interpolated into the generated SQL
+function buildLineFilter(stationColumn: string, lineId?: string | null): string {
+  return lineId ? `AND ${stationColumn} IN (SELECT id FROM stations WHERE line_id = ?)` : '';
+}
+
+export function parseNaturalLanguageQuery(query: string, lineId?: string | null): {
   intent: QueryIntent;
   sql: string;
+  params: unknown[];
   explanation: string;
 } {
   // Extract time range
@@ -586,10 +1041,16 @@ export function parseNaturalLanguageQuery(query: string): {
     timeRange = '30 days';
   }
 
+  // Ranges past the retention window read archived records as well
+  const records = getRecordsSource(new Date(Date.now() - parseDuration(timeRange)).toISOString());
+
   // Find matching pattern
   for (const pattern of QUERY_PATTERNS) {
     if (pattern.pattern.test(query)) {
-      const sql = pattern.sqlTemplate.replace('{timeRange}', timeRange);
+      const sql = pattern.sqlTemplate
+        .replace('{timeRange}', timeRange)
+        .replace('{records}', records)
+        .replace('{lineFilter}', buildLineFilter(pattern.stationColumn, lineId));
       
       return {
         intent: {
@@ -604,6 +1065,7 @@ export function parseNaturalLanguageQuery(query: string): {
           filters: {},
         },
         sql,
+        params: lineId ? [lineId] : [],
         explanation: generateExplanation(pattern.intent.action, pattern.intent.metrics, timeRange),
       };
     }
@@ -625,14 +1087,17 @@ export function parseNaturalLanguageQuery(query: string): {
     sql: `
       SELECT s.name as station_name, s.id as station_id,
         AVG(pr.cycle_time) as avg_cycle_time,
-        s.target_cycle_time,
-        ((AVG(pr.cycle_time) - s.target_cycle_time) / s.target_cycle_time * 100) as variance_pct
+        AVG(${EFFECTIVE_TARGET_CYCLE_TIME}) as target_cycle_time,
+        ((AVG(pr.cycle_time) - AVG(${EFFECTIVE_TARGET_CYCLE_TIME}))
+          / AVG(${EFFECTIVE_TARGET_CYCLE_TIME}) * 100) as variance_pct
       FROM stations s
-      JOIN production_records pr ON s.id = pr.station_id
+      JOIN ${records} pr ON s.id = pr.station_id
       WHERE pr.timestamp >= datetime('now', '-${timeRange}')
+        ${buildLineFilter('s.id', lineId)}
       GROUP BY s.id
       ORDER BY variance_pct DESC
     `,
+    params: lineId ? [lineId] : [],
     explanation: `Analyzing overall station performance for the ${timeRange}`,
   };
 }
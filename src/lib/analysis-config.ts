@@ -0,0 +1,181 @@
+// ============================================
+// LineBalancer AI - Analysis Configuration
+// Severity thresholds and impact weights set at
+// global, line or station scope
+// ============================================
+
+import { getAllStations, getAnalysisConfigs, getLineById, getStationById } from '@/lib/database';
+import type {
+  AnalysisConfig,
+  AnalysisConfigOverride,
+  AnalysisConfigScope,
+  ImpactWeights,
+  SeverityThresholds,
+  StationAnalysisConfig,
+} from '@/types';
+
+export const DEFAULT_ANALYSIS_CONFIG: AnalysisConfig = {
+  severityThresholds: { critical: 20, high: 10, medium: 5 },
+  impactWeights: { variance: 40, consistency: 20, position: 20, downtime: 20 },
+};
+
+export const ANALYSIS_CONFIG_SCOPES: AnalysisConfigScope[] = ['global', 'line', 'station'];
+
+const THRESHOLD_KEYS: Array<keyof SeverityThresholds> = ['critical', 'high', 'medium'];
+const WEIGHT_KEYS: Array<keyof ImpactWeights> = ['variance', 'consistency', 'position', 'downtime'];
+
+// Weights are points out of 100; allow for rounding in decimal inputs
+const WEIGHT_TOTAL = 100;
+const WEIGHT_TOLERANCE = 1e-6;
+
+type AnalysisConfigRow = ReturnType<typeof getAnalysisConfigs>[number];
+
+function toAnalysisConfigOverride(row: AnalysisConfigRow): AnalysisConfigOverride {
+  return {
+    scope: row.scope,
+    scopeId: row.scope === 'global' ? null : row.scope_id,
+    severityThresholds: row.critical_threshold !== null
+      ? { critical: row.critical_threshold, high: row.high_threshold!, medium: row.medium_threshold! }
+      : null,
+    impactWeights: row.variance_weight !== null
+      ? {
+          variance: row.variance_weight,
+          consistency: row.consistency_weight!,
+          position: row.position_weight!,
+          downtime: row.downtime_weight!,
+        }
+      : null,
+    updatedBy: row.updated_by,
+    updatedAt: row.updated_at,
+  };
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value);
+}
+
+// Checks that a scope names a line or station that exists; returns the first problem found
+export function validateAnalysisConfigScope(scope: unknown, scopeId: unknown): string | null {
+  if (!ANALYSIS_CONFIG_SCOPES.includes(scope as AnalysisConfigScope)) {
+    return `scope must be one of ${ANALYSIS_CONFIG_SCOPES.join(', ')}`;
+  }
+  if (scope === 'global') {
+    return scopeId === undefined || scopeId === null ? null : 'scopeId must be omitted at global scope';
+  }
+  if (typeof scopeId !== 'string' || !scopeId) return `scopeId is required at ${scope} scope`;
+  if (scope === 'line' && !getLineById(scopeId)) return `Line ${scopeId} not found`;
+  if (scope === 'station' && !getStationById(scopeId)) return `Station ${scopeId} not found`;
+  return null;
+}
+
+// Checks an override's groups; returns the first problem found
+export function validateAnalysisConfigGroups(body: {
+  severityThresholds?: unknown;
+  impactWeights?: unknown;
+}): string | null {
+  const thresholds = body.severityThresholds;
+  const weights = body.impactWeights;
+
+  if (thresholds === undefined || weights === undefined) {
+    return 'severityThresholds and impactWeights are required; use null to inherit from the wider scope';
+  }
+  if (thresholds === null && weights === null) {
+    return 'Nothing to override; delete the override to inherit both groups';
+  }
+
+  if (thresholds !== null) {
+    if (typeof thresholds !== 'object') return 'severityThresholds must be an object or null';
+    const values = thresholds as Record<string, unknown>;
+    for (const key of THRESHOLD_KEYS) {
+      const value = values[key];
+      if (!isFiniteNumber(value) || value <= 0) return `severityThresholds.${key} must be a positive percentage`;
+    }
+    const { critical, high, medium } = values as unknown as SeverityThresholds;
+    if (!(medium < high && high < critical)) {
+      return 'Severity thresholds must rise from medium to high to critical';
+    }
+  }
+
+  if (weights !== null) {
+    if (typeof weights !== 'object') return 'impactWeights must be an object or null';
+    const values = weights as Record<string, unknown>;
+    for (const key of WEIGHT_KEYS) {
+      const value = values[key];
+      if (!isFiniteNumber(value) || value < 0) return `impactWeights.${key} must be a number of at least 0`;
+    }
+    const total = WEIGHT_KEYS.reduce((sum, key) => sum + (values[key] as number), 0);
+    if (Math.abs(total - WEIGHT_TOTAL) > WEIGHT_TOLERANCE) {
+      return `Impact weights must add up to ${WEIGHT_TOTAL} (got ${Math.round(total * 100) / 100})`;
+    }
+  }
+
+  return null;
+}
+
+// Each group comes from the narrowest scope that sets it: station, then line, then global,
+// then the built-in defaults
+export function resolveStationConfigs(
+  stations: Array<{ id: string; name: string }>,
+  lineId: string | null,
+  overrides: AnalysisConfigOverride[]
+): Record<string, StationAnalysisConfig> {
+  const find = (scope: AnalysisConfigScope, scopeId: string | null) =>
+    overrides.find(o => o.scope === scope && o.scopeId === scopeId);
+  const global = find('global', null);
+  const line = lineId ? find('line', lineId) : undefined;
+
+  const resolved: Record<string, StationAnalysisConfig> = {};
+  for (const station of stations) {
+    const chain = [find('station', station.id), line, global].filter(
+      (o): o is AnalysisConfigOverride => o !== undefined
+    );
+    const thresholds = chain.find(o => o.severityThresholds);
+    const weights = chain.find(o => o.impactWeights);
+
+    resolved[station.id] = {
+      stationId: station.id,
+      stationName: station.name,
+      severityThresholds: thresholds?.severityThresholds ?? DEFAULT_ANALYSIS_CONFIG.severityThresholds,
+      impactWeights: weights?.impactWeights ?? DEFAULT_ANALYSIS_CONFIG.impactWeights,
+      source: {
+        severityThresholds: thresholds?.scope ?? 'default',
+        impactWeights: weights?.scope ?? 'default',
+      },
+    };
+  }
+  return resolved;
+}
+
+// Line whose stations a scope covers; global changes are shown against the fallback line
+export function getScopeLineId(
+  scope: AnalysisConfigScope,
+  scopeId: string | null,
+  fallback: string | null
+): string | null {
+  if (scope === 'line') return scopeId;
+  if (scope === 'station' && scopeId) {
+    return (getStationById(scopeId) as { line_id: string } | undefined)?.line_id ?? fallback;
+  }
+  return fallback;
+}
+
+export function getAnalysisConfigOverrides(lineId?: string | null): AnalysisConfigOverride[] {
+  return getAnalysisConfigs(lineId).map(toAnalysisConfigOverride);
+}
+
+// Configuration per station of a line. A proposed override replaces the stored one for
+// its scope, so a change can be previewed before it is saved.
+export function getStationAnalysisConfigs(
+  lineId: string | null,
+  proposed?: Pick<AnalysisConfigOverride, 'scope' | 'scopeId' | 'severityThresholds' | 'impactWeights'>
+): Record<string, StationAnalysisConfig> {
+  let overrides = getAnalysisConfigOverrides(lineId);
+  if (proposed) {
+    overrides = [
+      ...overrides.filter(o => o.scope !== proposed.scope || o.scopeId !== proposed.scopeId),
+      { ...proposed, updatedBy: '', updatedAt: '' },
+    ];
+  }
+  const stations = getAllStations(lineId) as Array<{ id: string; name: string }>;
+  return resolveStationConfigs(stations, lineId, overrides);
+}
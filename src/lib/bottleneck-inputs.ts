@@ -0,0 +1,149 @@
+// ============================================
+// LineBalancer AI - Bottleneck Analysis Inputs
+// Gathers what the agent needs to rank a
+// line's stations over a window
+// ============================================
+
+import {
+  getBottleneckAnalysis,
+  getShiftStationAverages,
+  getStationCycleTimeBins,
+  getStationStateDurations,
+  resolveWindow,
+} from '@/lib/database';
+import { analyzeBottlenecks } from '@/lib/agent';
+import { getBottleneckTimeline } from '@/lib/bottleneck-timeline';
+import { DEFAULT_FLOW_SIGNAL_HOURS, getStationFlowSignals } from '@/lib/flow-signals';
+import { DEFAULT_ATTRIBUTION_HOURS, getOperatorAttribution } from '@/lib/operator-attribution';
+import { getLineTopology } from '@/lib/topology';
+import { getTrackRecords } from '@/lib/recommendations';
+import { describeBins } from '@/lib/stats';
+import type {
+  AnalysisConfig,
+  AnalysisWindow,
+  BottleneckAnalysis,
+  CycleTimeStats,
+  LineTopology,
+  Recommendation,
+  RecommendationTrackRecord,
+  StationBottleneckShare,
+  StationFlowSignals,
+  StationOperatorAttribution,
+  StationState,
+  StationStateSummary,
+} from '@/types';
+
+export interface BottleneckInputs {
+  window: AnalysisWindow; // what the station data covers, for evidence drill-downs
+  stationData: Parameters<typeof analyzeBottlenecks>[0];
+  shiftData: Parameters<typeof analyzeBottlenecks>[1];
+  cycleTimeStats: Record<string, CycleTimeStats>;
+  bottleneckShares: Record<string, StationBottleneckShare>;
+  stateSummaries: Record<string, StationStateSummary>;
+  topology?: LineTopology;
+  operatorAttributions: Record<string, StationOperatorAttribution>;
+  flowSignals: Record<string, StationFlowSignals>;
+  trackRecords: Partial<Record<Recommendation['type'], RecommendationTrackRecord>>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// At least this many hours ending with the window, across every shift
+function contextWindow(window: number | AnalysisWindow, minHours: number): number | AnalysisWindow {
+  if (typeof window === 'number') return Math.max(window, minHours);
+  const to = new Date(window.to).getTime();
+  const from = Math.min(new Date(window.from).getTime(), to - minHours * HOUR_MS);
+  return { from: new Date(from).toISOString(), to: window.to };
+}
+
+// A number of hours is the window ending now
+export function getBottleneckInputs(lineId: string | null, window: number | AnalysisWindow = 24): BottleneckInputs {
+  // Get station data with production metrics
+  const stationData = getBottleneckAnalysis(window, lineId);
+
+  // Get shift-based data for root cause analysis
+  const shiftData = getShiftStationAverages(window, lineId);
+
+  // Cycle time distribution per station from the binned rollups
+  const cycleTimeBins = new Map<string, Parameters<typeof describeBins>[0]>();
+  for (const row of getStationCycleTimeBins(window, lineId)) {
+    const bins = cycleTimeBins.get(row.station_id) ?? [];
+    bins.push({
+      count: row.record_count,
+      sum: row.cycle_time_sum,
+      sumSq: row.cycle_time_sum_sq,
+      min: row.cycle_time_min,
+      max: row.cycle_time_max,
+    });
+    cycleTimeBins.set(row.station_id, bins);
+  }
+  const cycleTimeStats: Record<string, CycleTimeStats> = {};
+  cycleTimeBins.forEach((bins, stationId) => {
+    const stats = describeBins(bins);
+    if (stats) cycleTimeStats[stationId] = stats;
+  });
+
+  // How often each station held the constraint, hour by hour
+  const bottleneckShares: Record<string, StationBottleneckShare> = {};
+  const timelineOptions = typeof window === 'number' ? { hours: window } : { window };
+  for (const share of getBottleneckTimeline(lineId, timelineOptions).stations) {
+    bottleneckShares[share.stationId] = share;
+  }
+
+  // Share of tracked time each station spent in each state
+  const stateSeconds = new Map<string, Partial<Record<StationState, number>>>();
+  for (const row of getStationStateDurations(window, lineId)) {
+    stateSeconds.set(row.station_id, { ...stateSeconds.get(row.station_id), [row.state]: row.seconds });
+  }
+  const stateSummaries: Record<string, StationStateSummary> = {};
+  stateSeconds.forEach((seconds, stationId) => {
+    const trackedSeconds = Object.values(seconds).reduce((sum, s) => sum + s, 0);
+    const percent = (state: StationState) => trackedSeconds > 0 ? ((seconds[state] || 0) / trackedSeconds) * 100 : 0;
+    stateSummaries[stationId] = {
+      stationId,
+      trackedSeconds,
+      percentByState: {
+        working: percent('working'),
+        starved: percent('starved'),
+        blocked: percent('blocked'),
+        down: percent('down'),
+        changeover: percent('changeover'),
+      },
+    };
+  });
+
+  // Operators are compared over at least a week so every weekday has peers to compare with
+  const operatorAttributions: Record<string, StationOperatorAttribution> = {};
+  const attributionWindow = contextWindow(window, DEFAULT_ATTRIBUTION_HOURS);
+  for (const attribution of getOperatorAttribution(
+    typeof attributionWindow === 'number' ? { lineId, hours: attributionWindow } : { lineId, window: attributionWindow }
+  )) {
+    operatorAttributions[attribution.stationId] = attribution;
+  }
+
+  // Downtime reasons and links to neighbouring stations, over a week so the hour-of-day
+  // profile can be taken out of the hourly series
+  const topology = lineId ? getLineTopology(lineId) : undefined;
+  const flowSignals = getStationFlowSignals(lineId, topology, contextWindow(window, DEFAULT_FLOW_SIGNAL_HOURS));
+
+  return {
+    window: resolveWindow(window),
+    stationData: stationData as BottleneckInputs['stationData'],
+    shiftData: shiftData as BottleneckInputs['shiftData'],
+    cycleTimeStats,
+    bottleneckShares,
+    stateSummaries,
+    topology,
+    operatorAttributions,
+    flowSignals,
+    // How verified recommendations delivered, for the confidence of new ones
+    trackRecords: getTrackRecords(lineId),
+  };
+}
+
+export function analyzeBottleneckInputs(
+  inputs: BottleneckInputs,
+  analysisConfigs: Record<string, AnalysisConfig> = {}
+): BottleneckAnalysis[] {
+  return analyzeBottlenecks(inputs.stationData, inputs.shiftData, { ...inputs, analysisConfigs });
+}
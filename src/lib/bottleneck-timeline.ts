@@ -0,0 +1,133 @@
+// ============================================
+// LineBalancer AI - Shifting Bottleneck Detection
+// Identifies the constraining station in each
+// time slice with the active period method
+// ============================================
+
+import { getAllStations, getStationActivity } from '@/lib/database';
+import type { AnalysisWindow, BottleneckSlice, BottleneckTimeline, StationBottleneckShare } from '@/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Stations whose active ratio is within this fraction of the leader share the constraint
+export const DEFAULT_SHIFTING_TOLERANCE = 0.05;
+
+type ActivityRow = ReturnType<typeof getStationActivity>[number];
+
+interface TimelineOptions {
+  hours?: number;
+  window?: AnalysisWindow; // replaces the hours ending now
+  sliceHours?: number;
+  tolerance?: number;
+  now?: Date;
+}
+
+// Rollup hour keys are UTC 'YYYY-MM-DD HH:00:00'
+function hourKeyToTime(hour: string): number {
+  return new Date(`${hour.replace(' ', 'T')}Z`).getTime();
+}
+
+// A station is active while it works a cycle or is down for repair; time spent starved or
+// blocked is inactive. The station active for the largest share of a slice is the bottleneck
+// there. When others come within the tolerance, no single station holds the constraint and
+// the slice is shifting between them.
+export function classifySlice(
+  activeRatios: Record<string, number>,
+  tolerance = DEFAULT_SHIFTING_TOLERANCE
+): Pick<BottleneckSlice, 'kind' | 'bottleneckStationIds'> {
+  const ranked = Object.entries(activeRatios)
+    .filter(([, ratio]) => ratio > 0)
+    .sort((a, b) => b[1] - a[1]);
+  if (ranked.length === 0) return { kind: 'idle', bottleneckStationIds: [] };
+
+  const leader = ranked[0][1];
+  const sharing = ranked.filter(([, ratio]) => leader - ratio <= leader * tolerance).map(([id]) => id);
+  return sharing.length === 1
+    ? { kind: 'sole', bottleneckStationIds: sharing }
+    : { kind: 'shifting', bottleneckStationIds: sharing };
+}
+
+export function buildBottleneckTimeline(
+  activity: ActivityRow[],
+  stations: Array<{ id: string; name: string }>,
+  options: { from: Date; to: Date; sliceHours: number; tolerance: number }
+): BottleneckTimeline {
+  const sliceMs = options.sliceHours * HOUR_MS;
+  const from = options.from.getTime();
+  const to = options.to.getTime();
+  const sliceCount = Math.max(1, Math.ceil((to - from) / sliceMs));
+
+  // Busy seconds per slice per station, summed over its parallel units
+  const busy: Array<Record<string, number>> = Array.from({ length: sliceCount }, () => ({}));
+  const parallelUnits: Record<string, number> = {};
+  for (const row of activity) {
+    const index = Math.floor((hourKeyToTime(row.hour) - from) / sliceMs);
+    if (index < 0 || index >= sliceCount) continue;
+    busy[index][row.station_id] =
+      (busy[index][row.station_id] || 0) + row.cycle_time_sum + row.downtime_minutes * 60;
+    parallelUnits[row.station_id] = row.parallel_units || 1;
+  }
+
+  const slices: BottleneckSlice[] = busy.map((seconds, index) => {
+    const start = from + index * sliceMs;
+    const end = Math.min(start + sliceMs, to);
+    // The current slice is measured against the time elapsed so far, and a station with
+    // parallel units has that much time on each of them
+    const activeRatios = Object.fromEntries(
+      Object.entries(seconds).map(([stationId, s]) => [
+        stationId,
+        Math.min(1, s / (((end - start) / 1000) * parallelUnits[stationId])),
+      ])
+    );
+    return {
+      start: new Date(start).toISOString(),
+      end: new Date(end).toISOString(),
+      activeRatios,
+      ...classifySlice(activeRatios, options.tolerance),
+    };
+  });
+
+  const producing = slices.filter(s => s.kind !== 'idle').length;
+  const shares: StationBottleneckShare[] = stations.map(station => {
+    const soleSlices = slices.filter(s => s.kind === 'sole' && s.bottleneckStationIds[0] === station.id).length;
+    const shiftingSlices = slices.filter(
+      s => s.kind === 'shifting' && s.bottleneckStationIds.includes(station.id)
+    ).length;
+    return {
+      stationId: station.id,
+      stationName: station.name,
+      soleSlices,
+      shiftingSlices,
+      frequency: soleSlices + shiftingSlices,
+      solePercent: producing > 0 ? (soleSlices / producing) * 100 : 0,
+      shiftingPercent: producing > 0 ? (shiftingSlices / producing) * 100 : 0,
+    };
+  });
+
+  return {
+    from: options.from.toISOString(),
+    to: options.to.toISOString(),
+    sliceMinutes: options.sliceHours * 60,
+    tolerance: options.tolerance,
+    slices,
+    stations: shares,
+  };
+}
+
+export function getBottleneckTimeline(lineId?: string | null, options: TimelineOptions = {}): BottleneckTimeline {
+  const hours = options.hours ?? 24;
+  const sliceHours = options.sliceHours ?? 1;
+  const now = options.now ?? new Date();
+  const start = options.window ? new Date(options.window.from).getTime() : now.getTime() - hours * HOUR_MS;
+
+  // Slices start on the same hour boundary as the rollup window
+  const from = new Date(Math.floor(start / HOUR_MS) * HOUR_MS);
+  const stations = getAllStations(lineId) as Array<{ id: string; name: string }>;
+
+  return buildBottleneckTimeline(getStationActivity(options.window ?? hours, lineId), stations, {
+    from,
+    to: options.window ? new Date(options.window.to) : now,
+    sliceHours,
+    tolerance: options.tolerance ?? DEFAULT_SHIFTING_TOLERANCE,
+  });
+}
@@ -0,0 +1,240 @@
+// ============================================
+// LineBalancer AI - Change-Point Detection
+// Finds step changes in hourly cycle time and
+// defect rate with PELT
+// ============================================
+
+import { getAlertById, getChangePointSeries, getHourCutoff, insertAlert } from '@/lib/database';
+import { mean, standardDeviation } from '@/lib/stats';
+import type { ChangePoint, ChangePointMetric, ChangePointSegment } from '@/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const CHANGE_POINT_METRICS: ChangePointMetric[] = ['cycle_time', 'defect_rate'];
+export const DEFAULT_CHANGE_POINT_HOURS = 168;
+
+// A level has to hold this long to count; shorter excursions are left to the control charts
+const MIN_SEGMENT_HOURS = 6;
+
+// Penalty per change point, in noise variances times log(n). Higher finds fewer changes.
+const PENALTY_FACTOR = 3;
+
+// Steps smaller than this many hour-to-hour noise deviations are not worth reporting
+const MIN_STEP_SIGMAS = 3;
+
+// With fewer days the hour-of-day profile would absorb real changes, so it is kept
+const MIN_PROFILE_DAYS = 3;
+
+// Change points this recent raise alerts; an existing alert this close in time is the
+// same change re-located by the newer data
+const ALERT_LOOKBACK_HOURS = 24;
+const ALERT_MATCH_HOURS = 3;
+
+const METRIC_LABELS: Record<ChangePointMetric, { name: string; unit: string }> = {
+  cycle_time: { name: 'cycle time', unit: 's' },
+  defect_rate: { name: 'defect rate', unit: '%' },
+};
+
+interface HourlyValue {
+  time: number;
+  value: number;
+}
+
+// Rollup hour keys are UTC 'YYYY-MM-DD HH:00:00'
+function hourKeyToTime(hour: string): number {
+  return new Date(`${hour.replace(' ', 'T')}Z`).getTime();
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Shifts repeat every day, so each hour of the day is centered on its own median. What is
+// left is the level the series holds apart from its daily rhythm.
+export function removeDailyProfile(series: HourlyValue[]): number[] {
+  const values = series.map(p => p.value);
+  if (series.length === 0 || series[series.length - 1].time - series[0].time < MIN_PROFILE_DAYS * 24 * HOUR_MS) {
+    return values;
+  }
+
+  const byHourOfDay: number[][] = Array.from({ length: 24 }, () => []);
+  for (const point of series) byHourOfDay[new Date(point.time).getUTCHours()].push(point.value);
+  const overall = median(values);
+  const offsets = byHourOfDay.map(hourValues => (hourValues.length > 0 ? median(hourValues) - overall : 0));
+
+  return series.map(point => point.value - offsets[new Date(point.time).getUTCHours()]);
+}
+
+// Hour-to-hour noise from the mean absolute successive difference, which a few jumps at
+// change points barely move. A median would collapse on sparse counts like defects.
+export function estimateNoise(values: number[]): number {
+  if (values.length < 3) return 0;
+  const differences = values.slice(1).map((v, i) => Math.abs(v - values[i]));
+  return (mean(differences) * Math.sqrt(Math.PI)) / 2;
+}
+
+// Pruned Exact Linear Time segmentation (Killick et al., 2012) for changes in mean with a
+// squared-error cost. Returns the indexes at which new segments start.
+export function pelt(values: number[], penalty: number, minSegment: number): number[] {
+  const n = values.length;
+  if (n < 2 * minSegment) return [];
+
+  const sums = [0];
+  const squares = [0];
+  for (const v of values) {
+    sums.push(sums[sums.length - 1] + v);
+    squares.push(squares[squares.length - 1] + v * v);
+  }
+  const cost = (from: number, to: number) => {
+    const sum = sums[to] - sums[from];
+    return squares[to] - squares[from] - (sum * sum) / (to - from);
+  };
+
+  const best = new Array<number>(n + 1).fill(Infinity);
+  const previous = new Array<number>(n + 1).fill(0);
+  best[0] = -penalty;
+  let candidates = [0];
+
+  for (let end = minSegment; end <= n; end++) {
+    if (end - minSegment >= minSegment) candidates.push(end - minSegment);
+
+    for (const start of candidates) {
+      const total = best[start] + cost(start, end) + penalty;
+      if (total < best[end]) {
+        best[end] = total;
+        previous[end] = start;
+      }
+    }
+    // A start that can't beat the optimum now never will, since the cost only grows
+    candidates = candidates.filter(start => best[start] + cost(start, end) <= best[end]);
+  }
+
+  const changes: number[] = [];
+  for (let index = previous[n]; index > 0; index = previous[index]) changes.unshift(index);
+  return changes;
+}
+
+// Segments the adjusted series, then drops the smallest step below the reporting threshold
+// and re-measures its neighbours until every remaining step clears it
+export function detectChangeIndexes(adjusted: number[], noise: number): number[] {
+  if (noise <= 0) return [];
+  const changes = pelt(adjusted, PENALTY_FACTOR * Math.log(adjusted.length) * noise * noise, MIN_SEGMENT_HOURS);
+
+  for (;;) {
+    const bounds = [0, ...changes, adjusted.length];
+    const steps = changes.map((_, i) => Math.abs(
+      mean(adjusted.slice(bounds[i + 1], bounds[i + 2])) - mean(adjusted.slice(bounds[i], bounds[i + 1]))
+    ));
+    const smallest = steps.reduce((min, step, i) => (step < steps[min] ? i : min), 0);
+    if (changes.length === 0 || steps[smallest] >= MIN_STEP_SIGMAS * noise) return changes;
+    changes.splice(smallest, 1);
+  }
+}
+
+function toSegment(series: HourlyValue[], from: number, to: number): ChangePointSegment {
+  const values = series.slice(from, to).map(p => p.value);
+  return {
+    from: new Date(series[from].time).toISOString(),
+    to: new Date(series[to - 1].time + HOUR_MS).toISOString(),
+    hours: values.length,
+    mean: mean(values),
+    stdDev: standardDeviation(values),
+  };
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// Change points in each station's hourly series over the window, oldest first. Levels are
+// found on the series with its daily rhythm removed; the before and after statistics are of
+// the hourly values as charted.
+export function getChangePoints(options: {
+  metric: ChangePointMetric;
+  lineId?: string | null;
+  stationIds?: string[];
+  hours?: number;
+}): ChangePoint[] {
+  const rows = getChangePointSeries(options.metric, getHourCutoff(options.hours ?? DEFAULT_CHANGE_POINT_HOURS), {
+    lineId: options.lineId,
+    stationIds: options.stationIds,
+  });
+
+  const byStation = new Map<string, { name: string; series: HourlyValue[] }>();
+  for (const row of rows) {
+    if (!byStation.has(row.station_id)) byStation.set(row.station_id, { name: row.station_name, series: [] });
+    byStation.get(row.station_id)!.series.push({ time: hourKeyToTime(row.hour), value: row.value });
+  }
+
+  const changePoints: ChangePoint[] = [];
+  for (const [stationId, { name, series }] of Array.from(byStation)) {
+    const adjusted = removeDailyProfile(series);
+    const changes = detectChangeIndexes(adjusted, estimateNoise(adjusted));
+    const bounds = [0, ...changes, series.length];
+
+    changes.forEach((index, i) => {
+      const before = toSegment(series, bounds[i], index);
+      const after = toSegment(series, index, bounds[i + 2]);
+      changePoints.push({
+        stationId,
+        stationName: name,
+        metric: options.metric,
+        time: new Date(series[index].time).toISOString(),
+        magnitude: round(after.mean - before.mean),
+        changePercent: before.mean !== 0 ? round(((after.mean - before.mean) / before.mean) * 100, 1) : 0,
+        before: { ...before, mean: round(before.mean), stdDev: round(before.stdDev) },
+        after: { ...after, mean: round(after.mean), stdDev: round(after.stdDev) },
+      });
+    });
+  }
+
+  return changePoints.sort((a, b) => a.time.localeCompare(b.time));
+}
+
+function alertId(changePoint: Pick<ChangePoint, 'stationId' | 'metric'>, time: number): string {
+  return `cp-${changePoint.stationId}-${changePoint.metric}-${new Date(time).toISOString()}`;
+}
+
+function describeSegment(segment: ChangePointSegment, unit: string): string {
+  return `${segment.mean}${unit} ± ${segment.stdDev}${unit} over ${segment.hours}h`;
+}
+
+// Re-runs detection for the stations and raises a pattern change alert for each recent
+// change point not already alerted. Rises are warnings; drops are improvements worth
+// knowing about. Returns the number of alerts raised.
+export function raiseChangePointAlerts(stationIds: string[], now = new Date()): number {
+  const ids = Array.from(new Set(stationIds));
+  if (ids.length === 0) return 0;
+  let raised = 0;
+
+  for (const metric of CHANGE_POINT_METRICS) {
+    for (const changePoint of getChangePoints({ metric, stationIds: ids })) {
+      const time = new Date(changePoint.time).getTime();
+      if (time < now.getTime() - ALERT_LOOKBACK_HOURS * HOUR_MS) continue;
+
+      const nearby = Array.from({ length: 2 * ALERT_MATCH_HOURS + 1 }, (_, i) => time + (i - ALERT_MATCH_HOURS) * HOUR_MS);
+      if (nearby.some(t => getAlertById(alertId(changePoint, t)))) continue;
+
+      const { name, unit } = METRIC_LABELS[metric];
+      const rose = changePoint.magnitude > 0;
+      insertAlert({
+        id: alertId(changePoint, time),
+        type: 'pattern_change',
+        severity: rose ? 'warning' : 'info',
+        stationId: changePoint.stationId,
+        message: `${changePoint.stationName} ${name} stepped ${rose ? 'up' : 'down'} ${Math.abs(changePoint.changePercent)}%`,
+        details: [
+          `Step change of ${rose ? '+' : ''}${changePoint.magnitude}${unit}.`,
+          `Before: ${describeSegment(changePoint.before, unit)} from ${changePoint.before.from}.`,
+          `After: ${describeSegment(changePoint.after, unit)} to ${changePoint.after.to}.`,
+        ].join(' '),
+      });
+      raised++;
+    }
+  }
+
+  return raised;
+}
@@ -0,0 +1,225 @@
+// ============================================
+// LineBalancer AI - Cost Model
+// Labour, margin and implementation costs per
+// line, and what each recommendation pays back
+// ============================================
+
+import { getCostModelRow, getStationShiftOutput } from '@/lib/database';
+import { getLineTopology } from '@/lib/topology';
+import type {
+  BottleneckAnalysis,
+  CostModel,
+  LineCostModel,
+  Recommendation,
+  RecommendationEconomics,
+  RecommendationTypeCost,
+} from '@/types';
+
+export const RECOMMENDATION_TYPES: Recommendation['type'][] = [
+  'add_operator', 'training', 'equipment', 'rebalance', 'maintenance', 'material', 'process',
+];
+
+const SHIFTS: Array<keyof CostModel['labourRates']> = ['day', 'swing', 'night'];
+const TYPE_COST_KEYS: Array<keyof RecommendationTypeCost> = ['equipmentCost', 'overtimeHours', 'addedOperators'];
+
+export const DEFAULT_COST_MODEL: CostModel = {
+  labourRates: { day: 28, swing: 31, night: 34 },
+  overtimeMultiplier: 1.5,
+  contributionMargin: 45,
+  discountRate: 8,
+  horizonYears: 3,
+  typeCosts: {
+    add_operator: { equipmentCost: 2000, overtimeHours: 16, addedOperators: 1 },
+    training: { equipmentCost: 1500, overtimeHours: 24, addedOperators: 0 },
+    equipment: { equipmentCost: 25000, overtimeHours: 16, addedOperators: 0 },
+    rebalance: { equipmentCost: 500, overtimeHours: 8, addedOperators: 0 },
+    maintenance: { equipmentCost: 5000, overtimeHours: 16, addedOperators: 0 },
+    material: { equipmentCost: 3000, overtimeHours: 8, addedOperators: 0 },
+    process: { equipmentCost: 4000, overtimeHours: 16, addedOperators: 0 },
+  },
+};
+
+export const MAX_HORIZON_YEARS = 10;
+
+// Output and producing hours are taken from the last four weeks and scaled to a year
+const OUTPUT_HOURS = 28 * 24;
+const HOURS_PER_YEAR = 365 * 24;
+
+function round(value: number, digits = 0): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value);
+}
+
+// Checks a full cost model; returns the first problem found
+export function validateCostModel(value: unknown): string | null {
+  if (!value || typeof value !== 'object') return 'costModel is required';
+  const model = value as Record<string, unknown>;
+
+  const rates = model.labourRates as Record<string, unknown> | undefined;
+  if (!rates || typeof rates !== 'object') return 'labourRates is required';
+  for (const shift of SHIFTS) {
+    if (!isFiniteNumber(rates[shift]) || (rates[shift] as number) < 0) {
+      return `labourRates.${shift} must be a number of at least 0`;
+    }
+  }
+  if (!isFiniteNumber(model.overtimeMultiplier) || model.overtimeMultiplier < 1) {
+    return 'overtimeMultiplier must be at least 1';
+  }
+  if (!isFiniteNumber(model.contributionMargin) || model.contributionMargin < 0) {
+    return 'contributionMargin must be a number of at least 0';
+  }
+  if (!isFiniteNumber(model.discountRate) || model.discountRate < 0 || model.discountRate >= 100) {
+    return 'discountRate must be a percentage from 0 up to 100';
+  }
+  if (
+    !isFiniteNumber(model.horizonYears) || !Number.isInteger(model.horizonYears) ||
+    model.horizonYears < 1 || model.horizonYears > MAX_HORIZON_YEARS
+  ) {
+    return `horizonYears must be a whole number between 1 and ${MAX_HORIZON_YEARS}`;
+  }
+
+  const typeCosts = model.typeCosts as Record<string, Record<string, unknown> | undefined> | undefined;
+  if (!typeCosts || typeof typeCosts !== 'object') return 'typeCosts is required';
+  for (const type of RECOMMENDATION_TYPES) {
+    const cost = typeCosts[type];
+    if (!cost || typeof cost !== 'object') return `typeCosts.${type} is required`;
+    for (const key of TYPE_COST_KEYS) {
+      if (!isFiniteNumber(cost[key]) || (cost[key] as number) < 0) {
+        return `typeCosts.${type}.${key} must be a number of at least 0`;
+      }
+    }
+  }
+  return null;
+}
+
+// The line's saved model, or the built-in one. Types added since a model was saved
+// take the built-in costs.
+export function getLineCostModel(lineId: string | null): LineCostModel {
+  const row = lineId ? getCostModelRow(lineId) : undefined;
+  if (!row) {
+    return { lineId, costModel: DEFAULT_COST_MODEL, source: 'default', updatedBy: null, updatedAt: null };
+  }
+  return {
+    lineId,
+    costModel: {
+      labourRates: { day: row.day_rate, swing: row.swing_rate, night: row.night_rate },
+      overtimeMultiplier: row.overtime_multiplier,
+      contributionMargin: row.contribution_margin,
+      discountRate: row.discount_rate,
+      horizonYears: row.horizon_years,
+      typeCosts: { ...DEFAULT_COST_MODEL.typeCosts, ...JSON.parse(row.type_costs) },
+    },
+    source: 'line',
+    updatedBy: row.updated_by,
+    updatedAt: row.updated_at,
+  };
+}
+
+export type StationOutput = {
+  annualUnits: number; // finished units the station's work went into
+  annualHours: Record<keyof CostModel['labourRates'], number>;
+  unitTime: number; // seconds of the station's time per finished unit
+};
+
+// A station's time per finished unit is its cycle time times the visits a unit makes,
+// shared across its parallel cells, as in the simulator
+function getStationOutputs(lineId: string | null, now: Date): Map<string, StationOutput> {
+  const window = {
+    from: new Date(now.getTime() - OUTPUT_HOURS * 60 * 60 * 1000).toISOString(),
+    to: now.toISOString(),
+  };
+  const scale = HOURS_PER_YEAR / OUTPUT_HOURS;
+  const nodes = new Map((lineId ? getLineTopology(lineId).nodes : []).map(n => [n.stationId, n]));
+
+  const totals = new Map<string, { units: number; hours: StationOutput['annualHours']; records: number; cycleTimeSum: number }>();
+  for (const row of getStationShiftOutput(lineId, window)) {
+    const total = totals.get(row.station_id) ?? { units: 0, hours: { day: 0, swing: 0, night: 0 }, records: 0, cycleTimeSum: 0 };
+    total.units += row.units;
+    total.hours[row.shift] += row.hours;
+    total.records += row.records;
+    total.cycleTimeSum += row.cycle_time_sum;
+    totals.set(row.station_id, total);
+  }
+
+  const outputs = new Map<string, StationOutput>();
+  totals.forEach((total, stationId) => {
+    const node = nodes.get(stationId);
+    const visitRatio = node && node.visitRatio > 0 ? node.visitRatio : 1;
+    outputs.set(stationId, {
+      annualUnits: (total.units / visitRatio) * scale,
+      annualHours: {
+        day: total.hours.day * scale,
+        swing: total.hours.swing * scale,
+        night: total.hours.night * scale,
+      },
+      unitTime: ((total.cycleTimeSum / total.records) * visitRatio) / (node?.parallelUnits ?? 1),
+    });
+  });
+  return outputs;
+}
+
+// Extra output only comes from a faster constraint: the line runs at the pace of the station
+// with the most time per finished unit, so an improvement counts until another station is
+// slower. Added operators are paid on every shift the station runs; implementation labour
+// is overtime on the day rate.
+export function getRecommendationEconomics(
+  recommendation: Pick<Recommendation, 'type' | 'expectedImprovement'>,
+  stationId: string,
+  outputs: Map<string, StationOutput>,
+  costModel: CostModel
+): RecommendationEconomics {
+  const cost = costModel.typeCosts[recommendation.type];
+  const station = outputs.get(stationId);
+  const othersSlowest = Math.max(0, ...Array.from(outputs.entries())
+    .filter(([id]) => id !== stationId)
+    .map(([, output]) => output.unitTime));
+
+  let annualExtraUnits = 0;
+  if (station && station.unitTime > 0) {
+    const lineBefore = Math.max(station.unitTime, othersSlowest);
+    const lineAfter = Math.max(station.unitTime * (1 - recommendation.expectedImprovement / 100), othersSlowest);
+    if (lineAfter > 0) annualExtraUnits = station.annualUnits * (lineBefore / lineAfter - 1);
+  }
+
+  const addedLabour = station
+    ? cost.addedOperators * SHIFTS.reduce((sum, shift) => sum + costModel.labourRates[shift] * station.annualHours[shift], 0)
+    : 0;
+  const annualBenefit = annualExtraUnits * costModel.contributionMargin - addedLabour;
+  const oneTimeCost = cost.equipmentCost +
+    cost.overtimeHours * costModel.labourRates.day * costModel.overtimeMultiplier;
+
+  let npv = -oneTimeCost;
+  for (let year = 1; year <= costModel.horizonYears; year++) {
+    npv += annualBenefit / (1 + costModel.discountRate / 100) ** year;
+  }
+
+  return {
+    annualExtraUnits: round(annualExtraUnits),
+    annualBenefit: round(annualBenefit),
+    oneTimeCost: round(oneTimeCost),
+    paybackMonths: annualBenefit > 0 ? round((oneTimeCost / annualBenefit) * 12, 1) : null,
+    npv: round(npv),
+    roi: oneTimeCost > 0 ? round((npv / oneTimeCost) * 100) : null,
+  };
+}
+
+// Costs each station's recommendations under the line's model
+export function costRecommendations(
+  lineId: string | null,
+  analyses: BottleneckAnalysis[],
+  now = new Date()
+): BottleneckAnalysis[] {
+  const { costModel } = getLineCostModel(lineId);
+  const outputs = getStationOutputs(lineId, now);
+  return analyses.map(a => ({
+    ...a,
+    recommendations: a.recommendations.map(r => ({
+      ...r,
+      economics: getRecommendationEconomics(r, a.stationId, outputs, costModel),
+    })),
+  }));
+}
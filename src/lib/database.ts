@@ -4,54 +4,50 @@
 // ============================================
 
 import Database from 'better-sqlite3';
-import path from 'path';
+import { randomUUID } from 'crypto';
+import { ARCHIVE_DB_PATH, DB_PATH, HISTORY_START, runMigrations, shiftDateSql } from './migrations';
+import type {
+  AnalysisConfigScope,
+  AnalysisWindow,
+  ChangePointMetric,
+  CostModel,
+  EvidenceFilter,
+  ImpactWeights,
+  Recommendation,
+  RecommendationStatus,
+  SeverityThresholds,
+  SpcChartType,
+  SpcMetric,
+  StationRoute,
+  StationState,
+  WorkElement,
+} from '@/types';
 
 // Database singleton
 let db: Database.Database | null = null;
 
 export function getDatabase(): Database.Database {
   if (!db) {
-    const dbPath = path.join(process.cwd(), 'linebalancer.db');
-    db = new Database(dbPath);
+    db = new Database(DB_PATH);
     db.pragma('journal_mode = WAL');
-    initializeSchema(db);
+    runMigrations(db);
+    attachArchive(db);
   }
   return db;
 }
 
-function initializeSchema(db: Database.Database): void {
-  // Stations table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS stations (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      description TEXT,
-      target_cycle_time REAL NOT NULL,
-      position INTEGER NOT NULL,
-      operator_count INTEGER DEFAULT 1,
-      status TEXT DEFAULT 'running',
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    )
-  `);
-
-  // Operators table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS operators (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      shift TEXT NOT NULL,
-      skill_level INTEGER DEFAULT 3,
-      station_id TEXT,
-      efficiency REAL DEFAULT 100,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (station_id) REFERENCES stations(id)
-    )
-  `);
+// Columns copied verbatim between production_records and its archive
+export const PRODUCTION_RECORD_COLUMNS = [
+  'id', 'station_id', 'operator_id', 'timestamp', 'cycle_time', 'quantity', 'defects',
+  'shift', 'downtime_minutes', 'downtime_reason', 'created_at', 'product_id',
+].join(', ');
 
-  // Production records table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS production_records (
+// The archive has no rollup trigger; its rows are already counted in the rollups.
+// all_production_records is a per-connection view over live and archived records.
+function attachArchive(database: Database.Database) {
+  database.prepare('ATTACH DATABASE ? AS archive').run(ARCHIVE_DB_PATH);
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS archive.production_records (
       id TEXT PRIMARY KEY,
       station_id TEXT NOT NULL,
       operator_id TEXT NOT NULL,
@@ -62,61 +58,17 @@ function initializeSchema(db: Database.Database): void {
       shift TEXT NOT NULL,
       downtime_minutes REAL DEFAULT 0,
       downtime_reason TEXT,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (station_id) REFERENCES stations(id),
-      FOREIGN KEY (operator_id) REFERENCES operators(id)
-    )
-  `);
+      created_at DATETIME,
+      product_id TEXT
+    );
 
-  // Alerts table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS alerts (
-      id TEXT PRIMARY KEY,
-      type TEXT NOT NULL,
-      severity TEXT NOT NULL,
-      station_id TEXT,
-      message TEXT NOT NULL,
-      details TEXT,
-      timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
-      acknowledged INTEGER DEFAULT 0,
-      resolved_at DATETIME,
-      FOREIGN KEY (station_id) REFERENCES stations(id)
-    )
-  `);
+    CREATE INDEX IF NOT EXISTS archive.idx_archive_station_timestamp ON production_records(station_id, timestamp);
+    CREATE INDEX IF NOT EXISTS archive.idx_archive_timestamp ON production_records(timestamp);
 
-  // Simulations table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS simulations (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      description TEXT,
-      changes TEXT NOT NULL,
-      baseline TEXT NOT NULL,
-      projected TEXT NOT NULL,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    )
-  `);
-
-  // NLP queries history
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS nlp_queries (
-      id TEXT PRIMARY KEY,
-      query TEXT NOT NULL,
-      parsed_intent TEXT,
-      generated_sql TEXT,
-      result TEXT,
-      explanation TEXT,
-      timestamp DATETIME DEFAULT CURRENT_TIMESTAMP
-    )
-  `);
-
-  // Create indexes for performance
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_production_station ON production_records(station_id);
-    CREATE INDEX IF NOT EXISTS idx_production_timestamp ON production_records(timestamp);
-    CREATE INDEX IF NOT EXISTS idx_production_shift ON production_records(shift);
-    CREATE INDEX IF NOT EXISTS idx_alerts_type ON alerts(type);
-    CREATE INDEX IF NOT EXISTS idx_alerts_severity ON alerts(severity);
+    CREATE TEMP VIEW IF NOT EXISTS all_production_records AS
+    SELECT ${PRODUCTION_RECORD_COLUMNS} FROM main.production_records
+    UNION ALL
+    SELECT ${PRODUCTION_RECORD_COLUMNS} FROM archive.production_records;
   `);
 }
 
@@ -124,9 +76,104 @@ function initializeSchema(db: Database.Database): void {
 // Query Helpers
 // ============================================
 
-export function getAllStations() {
+export function getSetting(key: string): string | null {
+  const db = getDatabase();
+  const row = db.prepare('SELECT value FROM settings WHERE key = ?').get(key) as { value: string } | undefined;
+  return row?.value ?? null;
+}
+
+export function setSetting(key: string, value: string) {
+  const db = getDatabase();
+  return db.prepare(`
+    INSERT INTO settings (key, value) VALUES (?, ?)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = CURRENT_TIMESTAMP
+  `).run(key, value);
+}
+
+// Raw-record queries reaching back before the last archive cutoff read the archive too
+export function getRecordsSource(since?: string | null): 'production_records' | 'all_production_records' {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT MAX(cutoff) as cutoff FROM archive_runs WHERE archived_records > 0
+  `).get() as { cutoff: string | null };
+  return row.cutoff && (!since || since < row.cutoff) ? 'all_production_records' : 'production_records';
+}
+
+export function getPlants() {
   const db = getDatabase();
-  return db.prepare('SELECT * FROM stations ORDER BY position').all();
+  return db.prepare('SELECT * FROM plants ORDER BY name').all();
+}
+
+export function getLines(plantId?: string) {
+  const db = getDatabase();
+  if (plantId) {
+    return db.prepare('SELECT * FROM lines WHERE plant_id = ? ORDER BY name').all(plantId);
+  }
+  return db.prepare('SELECT * FROM lines ORDER BY plant_id, name').all();
+}
+
+export function getLineById(id: string) {
+  const db = getDatabase();
+  return db.prepare('SELECT * FROM lines WHERE id = ?').get(id);
+}
+
+// Line used when a request doesn't name one: first line of the first plant
+export function getDefaultLineId(): string | null {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT l.id FROM lines l
+    JOIN plants p ON p.id = l.plant_id
+    ORDER BY p.name, l.name
+    LIMIT 1
+  `).get() as { id: string } | undefined;
+  return row?.id ?? null;
+}
+
+export function getAllStations(lineId?: string | null) {
+  const db = getDatabase();
+  if (lineId) {
+    return db.prepare('SELECT * FROM stations WHERE line_id = ? ORDER BY position').all(lineId);
+  }
+  return db.prepare('SELECT * FROM stations ORDER BY line_id, position').all();
+}
+
+export function getStationRoutes(lineId: string) {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT from_station_id, to_station_id, kind, fraction
+    FROM station_routes
+    WHERE line_id = ?
+    ORDER BY from_station_id, to_station_id
+  `).all(lineId) as Array<{
+    from_station_id: string;
+    to_station_id: string;
+    kind: StationRoute['kind'];
+    fraction: number;
+  }>;
+}
+
+// Overrides that apply to a line: global, the line's own and its stations'
+export function getAnalysisConfigs(lineId?: string | null) {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT * FROM analysis_configs
+    WHERE scope = 'global'
+      ${lineId ? `OR (scope = 'line' AND scope_id = ?)
+      OR (scope = 'station' AND scope_id IN (SELECT id FROM stations WHERE line_id = ?))` : ''}
+    ORDER BY CASE scope WHEN 'global' THEN 0 WHEN 'line' THEN 1 ELSE 2 END, scope_id
+  `).all(...(lineId ? [lineId, lineId] : [])) as Array<{
+    scope: AnalysisConfigScope;
+    scope_id: string;
+    critical_threshold: number | null;
+    high_threshold: number | null;
+    medium_threshold: number | null;
+    variance_weight: number | null;
+    consistency_weight: number | null;
+    position_weight: number | null;
+    downtime_weight: number | null;
+    updated_by: string;
+    updated_at: string;
+  }>;
 }
 
 export function getStationById(id: string) {
@@ -134,6 +181,111 @@ export function getStationById(id: string) {
   return db.prepare('SELECT * FROM stations WHERE id = ?').get(id);
 }
 
+export function getStationTargetChanges(stationId?: string, limit = 100) {
+  const db = getDatabase();
+  if (stationId) {
+    return db.prepare(`
+      SELECT * FROM station_target_changes WHERE station_id = ?
+      ORDER BY changed_at DESC, id DESC LIMIT ?
+    `).all(stationId, limit);
+  }
+  return db.prepare('SELECT * FROM station_target_changes ORDER BY changed_at DESC, id DESC LIMIT ?').all(limit);
+}
+
+export function getTargetHistory(stationId: string) {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT * FROM station_target_history WHERE station_id = ?
+    ORDER BY product_id, effective_from
+  `).all(stationId);
+}
+
+export function getOperatorAssignments(options: { operatorId?: string; stationId?: string } = {}) {
+  const db = getDatabase();
+  let query = 'SELECT * FROM operator_assignments WHERE 1=1';
+  const params: string[] = [];
+
+  if (options.operatorId) {
+    query += ' AND operator_id = ?';
+    params.push(options.operatorId);
+  }
+  if (options.stationId) {
+    query += ' AND station_id = ?';
+    params.push(options.stationId);
+  }
+
+  query += ' ORDER BY operator_id, effective_from';
+  return db.prepare(query).all(...params);
+}
+
+export function getOperators(lineId?: string | null, includeInactive = false) {
+  const db = getDatabase();
+  const conditions = [
+    ...(lineId ? ['line_id = ?'] : []),
+    ...(includeInactive ? [] : ['active = 1']),
+  ];
+  return db.prepare(`
+    SELECT * FROM operators
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY active DESC, name
+  `).all(...(lineId ? [lineId] : []));
+}
+
+export function getOperatorById(id: string) {
+  const db = getDatabase();
+  return db.prepare('SELECT * FROM operators WHERE id = ?').get(id);
+}
+
+// Skill matrix entries with operator and station names, for a line, operator or station
+export function getOperatorSkills(options: { lineId?: string | null; operatorId?: string; stationId?: string } = {}) {
+  const db = getDatabase();
+  let query = `
+    SELECT sk.*, o.name as operator_name, o.active, s.name as station_name
+    FROM operator_skills sk
+    JOIN operators o ON o.id = sk.operator_id
+    JOIN stations s ON s.id = sk.station_id
+    WHERE 1=1
+  `;
+  const params: string[] = [];
+
+  if (options.lineId) {
+    query += ' AND s.line_id = ?';
+    params.push(options.lineId);
+  }
+  if (options.operatorId) {
+    query += ' AND sk.operator_id = ?';
+    params.push(options.operatorId);
+  }
+  if (options.stationId) {
+    query += ' AND sk.station_id = ?';
+    params.push(options.stationId);
+  }
+
+  query += ' ORDER BY s.position, sk.proficiency DESC, o.name';
+  return db.prepare(query).all(...params);
+}
+
+export function getProducts(lineId?: string | null) {
+  const db = getDatabase();
+  if (lineId) {
+    return db.prepare('SELECT * FROM products WHERE line_id = ? OR line_id IS NULL ORDER BY sku').all(lineId);
+  }
+  return db.prepare('SELECT * FROM products ORDER BY sku').all();
+}
+
+export function getProductById(id: string) {
+  const db = getDatabase();
+  return db.prepare('SELECT * FROM products WHERE id = ?').get(id);
+}
+
+export function getProductTargets(productId?: string) {
+  const db = getDatabase();
+  if (productId) {
+    return db.prepare('SELECT * FROM station_product_targets WHERE product_id = ? ORDER BY station_id').all(productId);
+  }
+  return db.prepare('SELECT * FROM station_product_targets ORDER BY product_id, station_id').all();
+}
+
 export function getProductionRecords(options: {
   stationId?: string;
   startDate?: string;
@@ -142,7 +294,7 @@ export function getProductionRecords(options: {
   limit?: number;
 }) {
   const db = getDatabase();
-  let query = 'SELECT * FROM production_records WHERE 1=1';
+  let query = `SELECT * FROM ${getRecordsSource(options.startDate)} WHERE 1=1`;
   const params: (string | number)[] = [];
 
   if (options.stationId) {
@@ -172,56 +324,697 @@ export function getProductionRecords(options: {
   return db.prepare(query).all(...params);
 }
 
+// Rollup tables bucket by UTC hour in 'YYYY-MM-DD HH:00:00' form
+export function toHourKey(date: Date): string {
+  return date.toISOString().slice(0, 13).replace('T', ' ') + ':00:00';
+}
+
+export function getHourCutoff(hours: number): string {
+  return toHourKey(new Date(Date.now() - hours * 60 * 60 * 1000));
+}
+
+// Whole-hour bounds of an analysis window: a number of hours ending now, or explicit
+// bounds. The rollup hours it covers run from fromHour up to, not including, toHour; raw
+// record timestamps use the same span as since/until.
+export function getWindowBounds(window: number | AnalysisWindow) {
+  const hourMs = 60 * 60 * 1000;
+  const from = typeof window === 'number' ? new Date(Date.now() - window * hourMs) : new Date(window.from);
+  const to = typeof window === 'number' ? new Date() : new Date(window.to);
+  const fromHour = toHourKey(from);
+  const toHour = toHourKey(new Date(Math.ceil(to.getTime() / hourMs) * hourMs));
+  return {
+    fromHour,
+    toHour,
+    since: fromHour.replace(' ', 'T'),
+    until: toHour.replace(' ', 'T'),
+    shift: typeof window === 'number' ? null : window.shift ?? null,
+  };
+}
+
+// A number of hours as the window ending now
+export function resolveWindow(window: number | AnalysisWindow): AnalysisWindow {
+  if (typeof window !== 'number') return window;
+  const to = new Date();
+  return { from: new Date(to.getTime() - window * 60 * 60 * 1000).toISOString(), to: to.toISOString(), shift: null };
+}
+
+// Mean and sample standard deviation recombined from rollup sums
+const ROLLUP_AVG_CYCLE_TIME = 'SUM(r.cycle_time_sum) / NULLIF(SUM(r.record_count), 0)';
+const ROLLUP_STDDEV_CYCLE_TIME = `SQRT(MAX(0,
+  (SUM(r.cycle_time_sum_sq) - SUM(r.cycle_time_sum) * SUM(r.cycle_time_sum) / SUM(r.record_count))
+  / NULLIF(SUM(r.record_count) - 1, 0)))`;
+
+// Target in effect for production record \`pr\` at its timestamp: the product's own target,
+// else the station default, else the current station value for stations with no history
+export const EFFECTIVE_TARGET_CYCLE_TIME = `COALESCE(
+  (SELECT h.target_cycle_time FROM station_target_history h
+    WHERE h.station_id = pr.station_id AND h.product_id = pr.product_id
+      AND h.effective_from <= pr.timestamp AND (h.effective_to IS NULL OR h.effective_to > pr.timestamp)
+    ORDER BY h.effective_from DESC LIMIT 1),
+  (SELECT h.target_cycle_time FROM station_target_history h
+    WHERE h.station_id = pr.station_id AND h.product_id IS NULL
+      AND h.effective_from <= pr.timestamp AND (h.effective_to IS NULL OR h.effective_to > pr.timestamp)
+    ORDER BY h.effective_from DESC LIMIT 1),
+  (SELECT target_cycle_time FROM stations WHERE id = pr.station_id))`;
+
+// Target weighted by the product mix actually built; falls back to the station default
+const ROLLUP_AVG_TARGET_CYCLE_TIME = `COALESCE(
+  SUM(r.target_cycle_time_sum) / NULLIF(SUM(r.record_count), 0), s.target_cycle_time)`;
+
 export function getStationMetrics(stationId: string, hours = 24) {
   const db = getDatabase();
-  const cutoff = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
 
   const metrics = db.prepare(`
     SELECT 
-      station_id,
-      AVG(cycle_time) as avg_cycle_time,
-      MIN(cycle_time) as min_cycle_time,
-      MAX(cycle_time) as max_cycle_time,
-      SUM(quantity) as total_quantity,
-      SUM(defects) as total_defects,
-      SUM(downtime_minutes) as total_downtime,
-      COUNT(*) as record_count
-    FROM production_records
-    WHERE station_id = ? AND timestamp >= ?
-    GROUP BY station_id
-  `).get(stationId, cutoff);
+      r.station_id,
+      ${ROLLUP_AVG_CYCLE_TIME} as avg_cycle_time,
+      MIN(r.cycle_time_min) as min_cycle_time,
+      MAX(r.cycle_time_max) as max_cycle_time,
+      SUM(r.quantity) as total_quantity,
+      SUM(r.defects) as total_defects,
+      SUM(r.downtime_minutes) as total_downtime,
+      SUM(r.record_count) as record_count
+    FROM station_hourly_rollups r
+    WHERE r.station_id = ? AND r.hour >= ?
+    GROUP BY r.station_id
+  `).get(stationId, getHourCutoff(hours));
 
   return metrics;
 }
 
-export function getBottleneckAnalysis(hours = 24) {
+export function getBottleneckAnalysis(window: number | AnalysisWindow = 24, lineId?: string | null) {
   const db = getDatabase();
-  const cutoff = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+  const { fromHour, toHour, shift } = getWindowBounds(window);
+  const params: string[] = [fromHour, toHour];
+  if (shift) params.push(shift);
+  if (lineId) params.push(lineId);
 
   const analysis = db.prepare(`
     SELECT 
       s.id as station_id,
       s.name as station_name,
-      s.target_cycle_time,
-      AVG(pr.cycle_time) as avg_cycle_time,
-      STDDEV(pr.cycle_time) as stddev_cycle_time,
-      COUNT(*) as sample_count,
-      SUM(pr.downtime_minutes) as total_downtime,
-      ((AVG(pr.cycle_time) - s.target_cycle_time) / s.target_cycle_time * 100) as variance_percent
+      ${ROLLUP_AVG_TARGET_CYCLE_TIME} as target_cycle_time,
+      ${ROLLUP_AVG_CYCLE_TIME} as avg_cycle_time,
+      ${ROLLUP_STDDEV_CYCLE_TIME} as stddev_cycle_time,
+      COALESCE(SUM(r.record_count), 0) as sample_count,
+      SUM(r.downtime_minutes) as total_downtime,
+      ((${ROLLUP_AVG_CYCLE_TIME} - ${ROLLUP_AVG_TARGET_CYCLE_TIME}) / ${ROLLUP_AVG_TARGET_CYCLE_TIME} * 100) as variance_percent
     FROM stations s
-    LEFT JOIN production_records pr ON s.id = pr.station_id AND pr.timestamp >= ?
+    LEFT JOIN station_hourly_rollups r ON s.id = r.station_id AND r.hour >= ? AND r.hour < ?
+      ${shift ? 'AND r.shift = ?' : ''}
+    ${lineId ? 'WHERE s.line_id = ?' : ''}
     GROUP BY s.id
     ORDER BY variance_percent DESC
-  `).all(cutoff);
+  `).all(...params);
 
   return analysis;
 }
 
-export function getActiveAlerts() {
+// Hourly busy time per station: cycle time worked plus downtime
+export function getStationActivity(window: number | AnalysisWindow = 24, lineId?: string | null) {
   const db = getDatabase();
+  const { fromHour, toHour, shift } = getWindowBounds(window);
+  const params: string[] = [fromHour, toHour];
+  if (shift) params.push(shift);
+  if (lineId) params.push(lineId);
+
+  return db.prepare(`
+    SELECT r.station_id, r.hour,
+      MAX(s.parallel_units) as parallel_units,
+      SUM(r.cycle_time_sum) as cycle_time_sum,
+      SUM(r.downtime_minutes) as downtime_minutes,
+      SUM(r.record_count) as record_count
+    FROM station_hourly_rollups r
+    JOIN stations s ON s.id = r.station_id
+    WHERE r.hour >= ? AND r.hour < ?
+      ${shift ? 'AND r.shift = ?' : ''}
+      ${lineId ? 'AND s.line_id = ?' : ''}
+    GROUP BY r.station_id, r.hour
+    ORDER BY r.hour
+  `).all(...params) as Array<{
+    station_id: string;
+    hour: string;
+    parallel_units: number;
+    cycle_time_sum: number;
+    downtime_minutes: number;
+    record_count: number;
+  }>;
+}
+
+// Cycle time bins per station for distribution statistics that sums can't give (percentiles,
+// histograms), from the rollups. Each bin covers one whole second and keeps exact sums and
+// extremes, so only positions inside a bin are estimated.
+export function getStationCycleTimeBins(window: number | AnalysisWindow = 24, lineId?: string | null) {
+  const db = getDatabase();
+  const { fromHour, toHour, shift } = getWindowBounds(window);
+  const params: string[] = [fromHour, toHour];
+  if (shift) params.push(shift);
+  if (lineId) params.push(lineId);
+
+  return db.prepare(`
+    SELECT b.station_id, b.bin,
+      SUM(b.record_count) as record_count,
+      SUM(b.cycle_time_sum) as cycle_time_sum,
+      SUM(b.cycle_time_sum_sq) as cycle_time_sum_sq,
+      MIN(b.cycle_time_min) as cycle_time_min,
+      MAX(b.cycle_time_max) as cycle_time_max
+    FROM station_cycle_time_bins b
+    JOIN stations s ON s.id = b.station_id
+    WHERE b.hour >= ? AND b.hour < ?
+      ${shift ? 'AND b.shift = ?' : ''}
+      ${lineId ? 'AND s.line_id = ?' : ''}
+    GROUP BY b.station_id, b.bin
+    ORDER BY b.station_id, b.bin
+  `).all(...params) as Array<{
+    station_id: string;
+    bin: number;
+    record_count: number;
+    cycle_time_sum: number;
+    cycle_time_sum_sq: number;
+    cycle_time_min: number;
+    cycle_time_max: number;
+  }>;
+}
+
+// Per-operator totals for comparing operators within a station, from the rollups: cycle time
+// as percent over the record's own target so product mix cancels out, and defect rate, with
+// the shift and UTC weekday to stratify on
+export function getOperatorTotals(
+  window: number | AnalysisWindow,
+  options: { lineId?: string | null; stationId?: string } = {}
+) {
+  const db = getDatabase();
+  const { fromHour, toHour } = getWindowBounds(window);
+  const params: string[] = [fromHour, toHour];
+  if (options.lineId) params.push(options.lineId);
+  if (options.stationId) params.push(options.stationId);
+
+  return db.prepare(`
+    SELECT r.station_id, s.name as station_name, r.operator_id, r.shift,
+      CAST(strftime('%w', r.hour) AS INTEGER) as weekday,
+      SUM(r.record_count) as record_count,
+      SUM(r.over_target_sum) as over_target_sum,
+      SUM(r.over_target_sum_sq) as over_target_sum_sq,
+      SUM(r.defect_rate_sum) as defect_rate_sum,
+      SUM(r.defect_rate_sum_sq) as defect_rate_sum_sq
+    FROM operator_hourly_rollups r
+    JOIN stations s ON s.id = r.station_id
+    WHERE r.hour >= ? AND r.hour < ?
+      ${options.lineId ? 'AND s.line_id = ?' : ''}
+      ${options.stationId ? 'AND r.station_id = ?' : ''}
+    GROUP BY r.station_id, r.operator_id, r.shift, weekday
+    ORDER BY s.position, r.station_id
+  `).all(...params) as Array<{
+    station_id: string;
+    station_name: string;
+    operator_id: string;
+    shift: string;
+    weekday: number;
+    record_count: number;
+    over_target_sum: number;
+    over_target_sum_sq: number;
+    defect_rate_sum: number;
+    defect_rate_sum_sq: number;
+  }>;
+}
+
+// Records that stopped production, newest first; a blank reason is reported as Unspecified
+const DOWNTIME_REASON = "COALESCE(NULLIF(TRIM(pr.downtime_reason), ''), 'Unspecified')";
+
+export function getStoppages(hours: number, options: {
+  lineId?: string | null;
+  stationId?: string;
+  reason?: string;
+  limit?: number;
+} = {}) {
+  const db = getDatabase();
+  const since = getHourCutoff(hours).replace(' ', 'T');
+  const params: (string | number)[] = [since];
+  if (options.lineId) params.push(options.lineId);
+  if (options.stationId) params.push(options.stationId);
+  if (options.reason) params.push(options.reason);
+  if (options.limit) params.push(options.limit);
+
+  return db.prepare(`
+    SELECT pr.id, pr.station_id, s.name as station_name, pr.operator_id, o.name as operator_name,
+      pr.timestamp, pr.shift, pr.downtime_minutes, ${DOWNTIME_REASON} as reason
+    FROM ${getRecordsSource(since)} pr
+    JOIN stations s ON s.id = pr.station_id
+    LEFT JOIN operators o ON o.id = pr.operator_id
+    WHERE pr.timestamp >= ? AND pr.downtime_minutes > 0
+      ${options.lineId ? 'AND s.line_id = ?' : ''}
+      ${options.stationId ? 'AND pr.station_id = ?' : ''}
+      ${options.reason ? `AND ${DOWNTIME_REASON} = ?` : ''}
+    ORDER BY pr.timestamp DESC
+    ${options.limit ? 'LIMIT ?' : ''}
+  `).all(...params) as Array<{
+    id: string;
+    station_id: string;
+    station_name: string;
+    operator_id: string;
+    operator_name: string | null;
+    timestamp: string;
+    shift: string;
+    downtime_minutes: number;
+    reason: string;
+  }>;
+}
+
+// Raw records behind a piece of root-cause evidence, with the operator's name and the target
+// in effect for each. A related station's records are included alongside the station's.
+function evidenceRecordsQuery(filter: EvidenceFilter): { sql: string; params: string[] } {
+  const { since, until } = getWindowBounds({ from: filter.from, to: filter.to });
+  const stationIds = filter.relatedStationId ? [filter.stationId, filter.relatedStationId] : [filter.stationId];
+  const operatorIds = filter.operatorIds ?? [];
+  const reasons = filter.reasons ?? [];
+  const params: string[] = [since, until, ...stationIds];
+  if (filter.shift) params.push(filter.shift);
+  params.push(...operatorIds, ...reasons);
+  const placeholders = (values: string[]) => values.map(() => '?').join(', ');
+
+  const sql = `
+    SELECT pr.id, pr.station_id, pr.operator_id, o.name as operator_name, pr.timestamp, pr.shift,
+      pr.product_id, pr.cycle_time, ${EFFECTIVE_TARGET_CYCLE_TIME} as target_cycle_time,
+      pr.quantity, pr.defects, pr.downtime_minutes, pr.downtime_reason
+    FROM ${getRecordsSource(since)} pr
+    LEFT JOIN operators o ON o.id = pr.operator_id
+    WHERE pr.timestamp >= ? AND pr.timestamp < ?
+      AND pr.station_id IN (${placeholders(stationIds)})
+      ${filter.shift ? 'AND pr.shift = ?' : ''}
+      ${operatorIds.length ? `AND pr.operator_id IN (${placeholders(operatorIds)})` : ''}
+      ${filter.stoppagesOnly || reasons.length ? 'AND pr.downtime_minutes > 0' : ''}
+      ${reasons.length ? `AND ${DOWNTIME_REASON} IN (${placeholders(reasons)})` : ''}
+  `;
+  return { sql, params };
+}
+
+// One page of the records behind a piece of evidence, newest first
+export function getEvidenceRecords(filter: EvidenceFilter, page: { limit: number; offset: number }) {
+  const db = getDatabase();
+  const { sql, params } = evidenceRecordsQuery(filter);
+
+  return db.prepare(`${sql} ORDER BY pr.timestamp DESC LIMIT ? OFFSET ?`).all(...params, page.limit, page.offset) as Array<{
+    id: string;
+    station_id: string;
+    operator_id: string;
+    operator_name: string | null;
+    timestamp: string;
+    shift: string;
+    product_id: string | null;
+    cycle_time: number;
+    target_cycle_time: number;
+    quantity: number;
+    defects: number;
+    downtime_minutes: number;
+    downtime_reason: string | null;
+  }>;
+}
+
+// Totals per station and operator over every record behind a piece of evidence. Percent of
+// target sums each record against its own target.
+export function getEvidenceOperatorTotals(filter: EvidenceFilter) {
+  const db = getDatabase();
+  const { sql, params } = evidenceRecordsQuery(filter);
+
+  return db.prepare(`
+    SELECT station_id, operator_id, MAX(operator_name) as operator_name, COUNT(*) as records,
+      SUM(quantity) as units, SUM(defects) as defects, SUM(cycle_time) as cycle_time_sum,
+      SUM(target_cycle_time) as target_sum, SUM(cycle_time * 100.0 / target_cycle_time) as percent_of_target_sum,
+      SUM(downtime_minutes) as downtime_minutes, SUM(downtime_minutes > 0) as stoppages
+    FROM (${sql})
+    GROUP BY station_id, operator_id
+  `).all(...params) as Array<{
+    station_id: string;
+    operator_id: string;
+    operator_name: string | null;
+    records: number;
+    units: number;
+    defects: number;
+    cycle_time_sum: number;
+    target_sum: number;
+    percent_of_target_sum: number;
+    downtime_minutes: number;
+    stoppages: number;
+  }>;
+}
+
+// Cycle times behind a piece of evidence in whole-second bins per station, as describeBins reads them
+export function getEvidenceCycleTimeBins(filter: EvidenceFilter) {
+  const db = getDatabase();
+  const { sql, params } = evidenceRecordsQuery(filter);
+
+  return db.prepare(`
+    SELECT station_id, CAST(cycle_time AS INTEGER) as bin,
+      COUNT(*) as record_count,
+      SUM(cycle_time) as cycle_time_sum,
+      SUM(cycle_time * cycle_time) as cycle_time_sum_sq,
+      MIN(cycle_time) as cycle_time_min,
+      MAX(cycle_time) as cycle_time_max
+    FROM (${sql})
+    GROUP BY station_id, bin
+  `).all(...params) as Array<{
+    station_id: string;
+    bin: number;
+    record_count: number;
+    cycle_time_sum: number;
+    cycle_time_sum_sq: number;
+    cycle_time_min: number;
+    cycle_time_max: number;
+  }>;
+}
+
+// Stoppages and downtime per reason behind a piece of evidence
+export function getEvidenceDowntimeReasons(filter: EvidenceFilter) {
+  const db = getDatabase();
+  const { sql, params } = evidenceRecordsQuery(filter);
+
+  return db.prepare(`
+    SELECT COALESCE(NULLIF(TRIM(downtime_reason), ''), 'Unspecified') as reason,
+      COUNT(*) as stoppages, SUM(downtime_minutes) as minutes
+    FROM (${sql})
+    WHERE downtime_minutes > 0
+    GROUP BY reason
+  `).all(...params) as Array<{ reason: string; stoppages: number; minutes: number }>;
+}
+
+// Downtime per station and reason over the window
+export function getDowntimeByReason(window: number | AnalysisWindow, lineId?: string | null) {
+  const db = getDatabase();
+  const { since, until, shift } = getWindowBounds(window);
+  const params: string[] = [since, until];
+  if (shift) params.push(shift);
+  if (lineId) params.push(lineId);
+
+  return db.prepare(`
+    SELECT pr.station_id, ${DOWNTIME_REASON} as reason,
+      COUNT(*) as stoppages, SUM(pr.downtime_minutes) as minutes
+    FROM ${getRecordsSource(since)} pr
+    JOIN stations s ON s.id = pr.station_id
+    WHERE pr.timestamp >= ? AND pr.timestamp < ? AND pr.downtime_minutes > 0
+      ${shift ? 'AND pr.shift = ?' : ''}
+      ${lineId ? 'AND s.line_id = ?' : ''}
+    GROUP BY pr.station_id, reason
+  `).all(...params) as Array<{ station_id: string; reason: string; stoppages: number; minutes: number }>;
+}
+
+// Stoppages and downtime per station for each hour it produced, from the rollups
+export function getStationDowntimeHours(hours: number, lineId?: string | null) {
+  const db = getDatabase();
+  const params: string[] = [getHourCutoff(hours)];
+  if (lineId) params.push(lineId);
+
+  return db.prepare(`
+    SELECT r.station_id, s.name as station_name, r.hour,
+      SUM(r.downtime_events) as stoppages, SUM(r.downtime_minutes) as downtime_minutes
+    FROM station_hourly_rollups r
+    JOIN stations s ON s.id = r.station_id
+    WHERE r.hour >= ? AND r.record_count > 0
+      ${lineId ? 'AND s.line_id = ?' : ''}
+    GROUP BY r.station_id, r.hour
+    ORDER BY s.position, r.station_id, r.hour
+  `).all(...params) as Array<{
+    station_id: string;
+    station_name: string;
+    hour: string;
+    stoppages: number;
+    downtime_minutes: number;
+  }>;
+}
+
+export function getStationStateEvents(options: {
+  stationId?: string;
+  lineId?: string | null;
+  since?: string;
+  limit?: number;
+} = {}) {
+  const db = getDatabase();
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (options.stationId) {
+    conditions.push('e.station_id = ?');
+    params.push(options.stationId);
+  }
+  if (options.lineId) {
+    conditions.push('s.line_id = ?');
+    params.push(options.lineId);
+  }
+  if (options.since) {
+    conditions.push('e.end_time > ?');
+    params.push(options.since);
+  }
+  params.push(options.limit || 1000);
+
+  return db.prepare(`
+    SELECT e.* FROM station_state_events e
+    JOIN stations s ON s.id = e.station_id
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY e.start_time DESC
+    LIMIT ?
+  `).all(...params) as Array<{
+    id: string;
+    station_id: string;
+    state: StationState;
+    start_time: string;
+    end_time: string;
+    duration_seconds: number;
+    reason: string | null;
+  }>;
+}
+
+// Seconds per station and state, with events clipped to the window. The window starts on
+// the same hour boundary as the rollup queries. State events carry no shift, so a window's
+// shift does not narrow them.
+export function getStationStateDurations(window: number | AnalysisWindow = 24, lineId?: string | null) {
+  const db = getDatabase();
+  const { since } = getWindowBounds(window);
+  const until = typeof window === 'number' ? new Date().toISOString() : new Date(window.to).toISOString();
+  const params: string[] = [until, since, since, until];
+  if (lineId) params.push(lineId);
+
+  return db.prepare(`
+    SELECT e.station_id, e.state,
+      SUM((julianday(MIN(e.end_time, ?)) - julianday(MAX(e.start_time, ?))) * 86400) as seconds
+    FROM station_state_events e
+    JOIN stations s ON s.id = e.station_id
+    WHERE e.end_time > ? AND e.start_time < ?
+      ${lineId ? 'AND s.line_id = ?' : ''}
+    GROUP BY e.station_id, e.state
+  `).all(...params) as Array<{ station_id: string; state: StationState; seconds: number }>;
+}
+
+// Observations for a control chart, oldest first: each cycle for cycle time, and the defect
+// rate of each hour with output for defect rate. Raw records so a product can be singled out.
+export function getSpcObservations(options: {
+  stationId: string;
+  metric: SpcMetric;
+  from: string;
+  to: string;
+  productId?: string | null;
+}) {
+  const db = getDatabase();
+  const params: string[] = [options.stationId, options.from, options.to];
+  if (options.productId) params.push(options.productId);
+  const filter = `
+    WHERE pr.station_id = ? AND pr.timestamp >= ? AND pr.timestamp < ?
+      ${options.productId ? 'AND pr.product_id = ?' : ''}
+  `;
+
+  if (options.metric === 'defect_rate') {
+    return db.prepare(`
+      SELECT strftime('%Y-%m-%dT%H:00:00.000Z', pr.timestamp) as time,
+        SUM(pr.defects) * 100.0 / SUM(pr.quantity) as value
+      FROM ${getRecordsSource(options.from)} pr
+      ${filter}
+      GROUP BY time
+      HAVING SUM(pr.quantity) > 0
+      ORDER BY time
+    `).all(...params) as Array<{ time: string; value: number }>;
+  }
+
+  return db.prepare(`
+    SELECT pr.timestamp as time, pr.cycle_time as value
+    FROM ${getRecordsSource(options.from)} pr
+    ${filter}
+    ORDER BY pr.timestamp, pr.id
+  `).all(...params) as Array<{ time: string; value: number }>;
+}
+
+export function getSpcBaseline(stationId: string, metric: SpcMetric) {
+  const db = getDatabase();
+  return db.prepare('SELECT * FROM spc_baselines WHERE station_id = ? AND metric = ?').get(stationId, metric) as
+    | {
+        station_id: string;
+        metric: SpcMetric;
+        chart_type: SpcChartType;
+        subgroup_size: number;
+        baseline_from: string;
+        baseline_to: string;
+        updated_by: string;
+        updated_at: string;
+      }
+    | undefined;
+}
+
+export type RecommendationRow = {
+  id: string;
+  proposal_key: string;
+  station_id: string;
+  station_name: string;
+  line_id: string;
+  type: Recommendation['type'];
+  description: string;
+  expected_improvement: number;
+  confidence: number;
+  implementation_cost: Recommendation['implementationCost'];
+  time_to_implement: string;
+  status: RecommendationStatus;
+  owner: string | null;
+  note: string | null;
+  proposed_at: string;
+  last_proposed_at: string;
+  accepted_at: string | null;
+  rejected_at: string | null;
+  implemented_at: string | null;
+  verified_at: string | null;
+  updated_by: string | null;
+  cycle_time_before: number | null;
+  cycle_time_after: number | null;
+  percent_of_target_before: number | null;
+  percent_of_target_after: number | null;
+  throughput_before: number | null;
+  throughput_after: number | null;
+  actual_improvement: number | null;
+};
+
+export function getRecommendations(options: {
+  lineId?: string | null;
+  stationId?: string;
+  status?: RecommendationStatus;
+  ids?: string[];
+  proposalKeys?: string[];
+} = {}) {
+  const db = getDatabase();
+  const params: string[] = [];
+  let filter = '';
+  if (options.lineId) {
+    filter += ' AND s.line_id = ?';
+    params.push(options.lineId);
+  }
+  if (options.stationId) {
+    filter += ' AND r.station_id = ?';
+    params.push(options.stationId);
+  }
+  if (options.status) {
+    filter += ' AND r.status = ?';
+    params.push(options.status);
+  }
+  if (options.ids) {
+    filter += ` AND r.id IN (${options.ids.map(() => '?').join(', ') || 'NULL'})`;
+    params.push(...options.ids);
+  }
+  if (options.proposalKeys) {
+    filter += ` AND r.proposal_key IN (${options.proposalKeys.map(() => '?').join(', ') || 'NULL'})`;
+    params.push(...options.proposalKeys);
+  }
+
+  return db.prepare(`
+    SELECT r.*, s.name as station_name, s.line_id
+    FROM recommendations r
+    JOIN stations s ON s.id = r.station_id
+    WHERE 1=1${filter}
+    ORDER BY r.last_proposed_at DESC, r.id
+  `).all(...params) as RecommendationRow[];
+}
+
+export function getRecommendationById(id: string) {
+  return getRecommendations({ ids: [id] })[0] as RecommendationRow | undefined;
+}
+
+// Cycle time against target and output per producing hour at one station, from the rollups
+export function getStationPeriodMetrics(stationId: string, window: AnalysisWindow) {
+  const db = getDatabase();
+  const { fromHour, toHour } = getWindowBounds(window);
+  return db.prepare(`
+    SELECT COALESCE(SUM(r.record_count), 0) as records,
+      COALESCE(SUM(r.quantity), 0) as units,
+      COUNT(DISTINCT r.hour) as hours,
+      SUM(r.cycle_time_sum) / NULLIF(SUM(r.record_count), 0) as avg_cycle_time,
+      SUM(r.cycle_time_sum) * 100.0 / NULLIF(SUM(r.target_cycle_time_sum), 0) as percent_of_target
+    FROM station_hourly_rollups r
+    WHERE r.station_id = ? AND r.hour >= ? AND r.hour < ?
+  `).get(stationId, fromHour, toHour) as {
+    records: number;
+    units: number;
+    hours: number;
+    avg_cycle_time: number | null;
+    percent_of_target: number | null;
+  };
+}
+
+// Producing hours, output and cycle time per station and shift, for costing recommendations
+export function getStationShiftOutput(lineId: string | null, window: AnalysisWindow) {
+  const db = getDatabase();
+  const { fromHour, toHour } = getWindowBounds(window);
+  const params: string[] = [fromHour, toHour];
+  if (lineId) params.push(lineId);
+
+  return db.prepare(`
+    SELECT r.station_id, r.shift,
+      COUNT(DISTINCT r.hour) as hours,
+      SUM(r.quantity) as units,
+      SUM(r.record_count) as records,
+      SUM(r.cycle_time_sum) as cycle_time_sum
+    FROM station_hourly_rollups r
+    JOIN stations s ON s.id = r.station_id
+    WHERE r.hour >= ? AND r.hour < ? AND r.record_count > 0
+    ${lineId ? 'AND s.line_id = ?' : ''}
+    GROUP BY r.station_id, r.shift
+  `).all(...params) as Array<{
+    station_id: string;
+    shift: 'day' | 'night' | 'swing';
+    hours: number;
+    units: number;
+    records: number;
+    cycle_time_sum: number;
+  }>;
+}
+
+export function getShiftStationAverages(window: number | AnalysisWindow = 24, lineId?: string | null) {
+  const db = getDatabase();
+  const { fromHour, toHour, shift } = getWindowBounds(window);
+  const params: string[] = [fromHour, toHour];
+  if (shift) params.push(shift);
+  if (lineId) params.push(lineId);
+
+  return db.prepare(`
+    SELECT 
+      r.shift,
+      r.station_id,
+      ${ROLLUP_AVG_CYCLE_TIME} as avg_cycle_time,
+      ${ROLLUP_AVG_TARGET_CYCLE_TIME} as avg_target_cycle_time,
+      SUM(r.record_count) as sample_count
+    FROM station_hourly_rollups r
+    JOIN stations s ON s.id = r.station_id
+    WHERE r.hour >= ? AND r.hour < ?
+    ${shift ? 'AND r.shift = ?' : ''}
+    ${lineId ? 'AND s.line_id = ?' : ''}
+    GROUP BY r.shift, r.station_id
+  `).all(...params);
+}
+
+export function getAlertById(id: string) {
+  const db = getDatabase();
+  return db.prepare('SELECT * FROM alerts WHERE id = ?').get(id);
+}
+
+export function getActiveAlerts(lineId?: string | null) {
+  const db = getDatabase();
+  const params: string[] = lineId ? [lineId] : [];
   return db.prepare(`
     SELECT * FROM alerts 
     WHERE acknowledged = 0 
+    ${lineId ? 'AND line_id = ?' : ''}
     ORDER BY 
       CASE severity 
         WHEN 'critical' THEN 1 
@@ -229,113 +1022,938 @@ export function getActiveAlerts() {
         ELSE 3 
       END,
       timestamp DESC
-  `).all();
+  `).all(...params);
 }
 
-export function getShiftComparison(days = 7) {
+export function getShiftComparison(days = 7, lineId?: string | null) {
   const db = getDatabase();
-  const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const params: string[] = [cutoff];
+  if (lineId) params.push(lineId);
 
   return db.prepare(`
     SELECT 
-      shift,
-      AVG(cycle_time) as avg_cycle_time,
-      SUM(quantity) as total_quantity,
-      AVG(defects * 1.0 / NULLIF(quantity, 0) * 100) as avg_defect_rate,
-      SUM(downtime_minutes) as total_downtime
-    FROM production_records
-    WHERE timestamp >= ?
-    GROUP BY shift
-  `).all(cutoff);
+      r.shift,
+      ${ROLLUP_AVG_CYCLE_TIME} as avg_cycle_time,
+      SUM(r.quantity) as total_quantity,
+      (SUM(r.defects) * 1.0 / NULLIF(SUM(r.quantity), 0) * 100) as avg_defect_rate,
+      SUM(r.downtime_minutes) as total_downtime
+    FROM station_shift_rollups r
+    JOIN stations s ON s.id = r.station_id
+    WHERE r.shift_date >= ?
+    ${lineId ? 'AND s.line_id = ?' : ''}
+    GROUP BY r.shift
+  `).all(...params);
 }
 
-export function getTrendData(metric: string, stationId: string | null, hours = 168) {
+export function getTrendData(metric: string, stationId: string | null, hours = 168, lineId?: string | null) {
   const db = getDatabase();
-  const cutoff = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
 
   let query = `
     SELECT 
-      strftime('%Y-%m-%d %H:00:00', timestamp) as hour,
-      station_id,
+      r.hour,
+      r.station_id,
   `;
 
   switch (metric) {
     case 'cycle_time':
-      query += 'AVG(cycle_time) as value';
+      query += `${ROLLUP_AVG_CYCLE_TIME} as value`;
       break;
     case 'throughput':
-      query += 'SUM(quantity) as value';
+      query += 'SUM(r.quantity) as value';
       break;
     case 'defect_rate':
-      query += 'AVG(defects * 1.0 / NULLIF(quantity, 0) * 100) as value';
+      query += '(SUM(r.defects) * 1.0 / NULLIF(SUM(r.quantity), 0) * 100) as value';
       break;
     case 'downtime':
-      query += 'SUM(downtime_minutes) as value';
+      query += 'SUM(r.downtime_minutes) as value';
+      break;
+    case 'target_variance':
+      // Percent above the targets that applied to the records in each hour
+      query += '((SUM(r.cycle_time_sum) - SUM(r.target_cycle_time_sum)) / NULLIF(SUM(r.target_cycle_time_sum), 0) * 100) as value';
       break;
     default:
-      query += 'AVG(cycle_time) as value';
+      query += `${ROLLUP_AVG_CYCLE_TIME} as value`;
   }
 
-  query += ' FROM production_records WHERE timestamp >= ?';
+  query += ' FROM station_hourly_rollups r JOIN stations s ON s.id = r.station_id WHERE r.hour >= ?';
 
-  const params: string[] = [cutoff];
+  const params: string[] = [getHourCutoff(hours)];
 
   if (stationId) {
-    query += ' AND station_id = ?';
+    query += ' AND r.station_id = ?';
     params.push(stationId);
   }
+  if (lineId) {
+    query += ' AND s.line_id = ?';
+    params.push(lineId);
+  }
 
-  query += ' GROUP BY hour, station_id ORDER BY hour';
+  query += ' GROUP BY r.hour, r.station_id ORDER BY r.hour';
 
   return db.prepare(query).all(...params);
 }
 
+// Hourly series for change-point detection, oldest first per station. Cycle times are scaled
+// to the station's standard target so a product changeover does not read as a step change.
+export function getChangePointSeries(
+  metric: ChangePointMetric,
+  fromHour: string,
+  options: { lineId?: string | null; stationIds?: string[]; toHour?: string } = {}
+) {
+  const db = getDatabase();
+  const value = metric === 'defect_rate'
+    ? 'SUM(r.defects) * 100.0 / NULLIF(SUM(r.quantity), 0)'
+    : 'SUM(r.cycle_time_sum) / NULLIF(SUM(r.target_cycle_time_sum), 0) * s.target_cycle_time';
+
+  const params: string[] = [fromHour];
+  let filter = '';
+  if (options.toHour) {
+    filter += ' AND r.hour < ?';
+    params.push(options.toHour);
+  }
+  if (options.lineId) {
+    filter += ' AND s.line_id = ?';
+    params.push(options.lineId);
+  }
+  if (options.stationIds) {
+    filter += ` AND r.station_id IN (${options.stationIds.map(() => '?').join(', ') || 'NULL'})`;
+    params.push(...options.stationIds);
+  }
+
+  return db.prepare(`
+    SELECT r.station_id, s.name as station_name, r.hour, ${value} as value
+    FROM station_hourly_rollups r
+    JOIN stations s ON s.id = r.station_id
+    WHERE r.hour >= ?${filter}
+    GROUP BY r.station_id, r.hour
+    HAVING value IS NOT NULL
+    ORDER BY r.station_id, r.hour
+  `).all(...params) as Array<{ station_id: string; station_name: string; hour: string; value: number }>;
+}
+
 // ============================================
 // Insert/Update Helpers
 // ============================================
 
+export function insertPlant(plant: {
+  id: string;
+  name: string;
+  location?: string;
+  timezone?: string;
+}) {
+  const db = getDatabase();
+  return db.prepare(`
+    INSERT INTO plants (id, name, location, timezone)
+    VALUES (?, ?, ?, ?)
+  `).run(
+    plant.id,
+    plant.name,
+    plant.location || '',
+    plant.timezone || 'UTC'
+  );
+}
+
+export function insertLine(line: {
+  id: string;
+  plantId: string;
+  name: string;
+  description?: string;
+}) {
+  const db = getDatabase();
+  return db.prepare(`
+    INSERT INTO lines (id, plant_id, name, description)
+    VALUES (?, ?, ?, ?)
+  `).run(
+    line.id,
+    line.plantId,
+    line.name,
+    line.description || ''
+  );
+}
+
 export function insertStation(station: {
   id: string;
+  lineId: string;
   name: string;
   description?: string;
   targetCycleTime: number;
   position: number;
   operatorCount?: number;
+  parallelUnits?: number;
+  status?: string;
 }) {
   const db = getDatabase();
-  return db.prepare(`
-    INSERT INTO stations (id, name, description, target_cycle_time, position, operator_count)
-    VALUES (?, ?, ?, ?, ?, ?)
+  db.prepare(`
+    INSERT INTO stations (id, line_id, name, description, target_cycle_time, position, operator_count, parallel_units, status)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
     station.id,
+    station.lineId,
     station.name,
     station.description || '',
     station.targetCycleTime,
     station.position,
-    station.operatorCount || 1
+    station.operatorCount || 1,
+    station.parallelUnits || 1,
+    station.status || 'running'
+  );
+  // The initial target also covers any history imported for the station later
+  return db.prepare(`
+    INSERT INTO station_target_history (station_id, product_id, target_cycle_time, effective_from)
+    VALUES (?, NULL, ?, ?)
+  `).run(station.id, station.targetCycleTime, HISTORY_START);
+}
+
+export function recordTargetChange(change: {
+  stationId: string;
+  oldTargetCycleTime: number | null;
+  newTargetCycleTime: number;
+  changedBy: string;
+  effectiveFrom?: string;
+}) {
+  const db = getDatabase();
+  return db.prepare(`
+    INSERT INTO station_target_changes
+      (station_id, old_target_cycle_time, new_target_cycle_time, changed_by, effective_from)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(
+    change.stationId,
+    change.oldTargetCycleTime,
+    change.newTargetCycleTime,
+    change.changedBy,
+    change.effectiveFrom || null
   );
 }
 
+// Recomputes rollup target sums and operator percent over target from raw records (archived
+// ones included) after target history changes. Buckets with no raw records left keep their existing sums.
+function rebuildRollupTargets(stationId: string, from: string, to: string | null) {
+  const db = getDatabase();
+  const records = getRecordsSource(from);
+
+  db.prepare(`
+    UPDATE station_hourly_rollups SET target_cycle_time_sum = COALESCE((
+      SELECT SUM(${EFFECTIVE_TARGET_CYCLE_TIME}) FROM ${records} pr
+      WHERE pr.station_id = station_hourly_rollups.station_id
+        AND pr.shift = station_hourly_rollups.shift
+        AND pr.timestamp >= strftime('%Y-%m-%dT%H:00:00', station_hourly_rollups.hour)
+        AND pr.timestamp < strftime('%Y-%m-%dT%H:00:00', station_hourly_rollups.hour, '+1 hour')
+    ), target_cycle_time_sum)
+    WHERE station_id = ? AND hour >= ? AND (? IS NULL OR hour <= ?)
+  `).run(stationId, toHourKey(new Date(from)), to, to ? toHourKey(new Date(to)) : null);
+
+  // Operator comparisons are in percent over target, so they are re-judged the same way
+  const overTarget = `pr.cycle_time * 100.0 / ${EFFECTIVE_TARGET_CYCLE_TIME} - 100`;
+  db.prepare(`
+    UPDATE operator_hourly_rollups SET (over_target_sum, over_target_sum_sq) = (
+      SELECT COALESCE(SUM(over_target), over_target_sum), COALESCE(SUM(over_target * over_target), over_target_sum_sq)
+      FROM (
+        SELECT ${overTarget} as over_target FROM ${records} pr
+        WHERE pr.station_id = operator_hourly_rollups.station_id
+          AND pr.operator_id = operator_hourly_rollups.operator_id
+          AND pr.shift = operator_hourly_rollups.shift
+          AND pr.timestamp >= strftime('%Y-%m-%dT%H:00:00', operator_hourly_rollups.hour)
+          AND pr.timestamp < strftime('%Y-%m-%dT%H:00:00', operator_hourly_rollups.hour, '+1 hour')
+      )
+    )
+    WHERE station_id = ? AND hour >= ? AND (? IS NULL OR hour <= ?)
+  `).run(stationId, toHourKey(new Date(from)), to, to ? toHourKey(new Date(to)) : null);
+
+  // Shift buckets are the sum of their hours. A night shift can start the day before `from`.
+  db.prepare(`
+    UPDATE station_shift_rollups SET target_cycle_time_sum = COALESCE((
+      SELECT SUM(h.target_cycle_time_sum) FROM station_hourly_rollups h
+      WHERE h.station_id = station_shift_rollups.station_id
+        AND h.shift = station_shift_rollups.shift
+        AND ${shiftDateSql('h.hour', 'h.shift')} = station_shift_rollups.shift_date
+    ), target_cycle_time_sum)
+    WHERE station_id = ? AND shift_date >= date(?, '-1 day') AND (? IS NULL OR shift_date <= ?)
+  `).run(stationId, from.slice(0, 10), to, to ? to.slice(0, 10) : null);
+}
+
+// Records a target (station default when productId is null) effective from the given instant
+// until the next recorded change, and re-judges production already rolled up in that range
+export function setStationTarget(target: {
+  stationId: string;
+  productId?: string | null;
+  targetCycleTime: number;
+  effectiveFrom?: string;
+}) {
+  const db = getDatabase();
+  const productId = target.productId ?? null;
+  const effectiveFrom = target.effectiveFrom ?? new Date().toISOString();
+
+  db.transaction(() => {
+    // A second change at the same instant replaces the first
+    db.prepare(`
+      DELETE FROM station_target_history
+      WHERE station_id = ? AND product_id IS ? AND effective_from = ?
+    `).run(target.stationId, productId, effectiveFrom);
+
+    const next = db.prepare(`
+      SELECT MIN(effective_from) as effective_from FROM station_target_history
+      WHERE station_id = ? AND product_id IS ? AND effective_from > ?
+    `).get(target.stationId, productId, effectiveFrom) as { effective_from: string | null };
+
+    db.prepare(`
+      UPDATE station_target_history SET effective_to = ?
+      WHERE station_id = ? AND product_id IS ? AND effective_from < ?
+        AND (effective_to IS NULL OR effective_to > ?)
+    `).run(effectiveFrom, target.stationId, productId, effectiveFrom, effectiveFrom);
+
+    db.prepare(`
+      INSERT INTO station_target_history (station_id, product_id, target_cycle_time, effective_from, effective_to)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(target.stationId, productId, target.targetCycleTime, effectiveFrom, next.effective_from);
+
+    // Only the open-ended range is the current value
+    if (!next.effective_from) {
+      if (productId) {
+        db.prepare(`
+          INSERT INTO station_product_targets (station_id, product_id, target_cycle_time)
+          VALUES (?, ?, ?)
+          ON CONFLICT(station_id, product_id) DO UPDATE SET target_cycle_time = excluded.target_cycle_time
+        `).run(target.stationId, productId, target.targetCycleTime);
+      } else {
+        db.prepare(`
+          UPDATE stations SET target_cycle_time = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+        `).run(target.targetCycleTime, target.stationId);
+      }
+    }
+
+    rebuildRollupTargets(target.stationId, effectiveFrom, next.effective_from);
+  })();
+}
+
+// Moves an operator to a station from the given instant until their next recorded move
+export function assignOperator(assignment: {
+  operatorId: string;
+  stationId: string;
+  effectiveFrom?: string;
+}) {
+  const db = getDatabase();
+  const effectiveFrom = assignment.effectiveFrom ?? new Date().toISOString();
+
+  db.transaction(() => {
+    db.prepare('DELETE FROM operator_assignments WHERE operator_id = ? AND effective_from = ?')
+      .run(assignment.operatorId, effectiveFrom);
+
+    const next = db.prepare(`
+      SELECT MIN(effective_from) as effective_from FROM operator_assignments
+      WHERE operator_id = ? AND effective_from > ?
+    `).get(assignment.operatorId, effectiveFrom) as { effective_from: string | null };
+
+    db.prepare(`
+      UPDATE operator_assignments SET effective_to = ?
+      WHERE operator_id = ? AND effective_from < ? AND (effective_to IS NULL OR effective_to > ?)
+    `).run(effectiveFrom, assignment.operatorId, effectiveFrom, effectiveFrom);
+
+    db.prepare(`
+      INSERT INTO operator_assignments (operator_id, station_id, effective_from, effective_to)
+      VALUES (?, ?, ?, ?)
+    `).run(assignment.operatorId, assignment.stationId, effectiveFrom, next.effective_from);
+
+    if (!next.effective_from) {
+      db.prepare('UPDATE operators SET station_id = ? WHERE id = ?').run(assignment.stationId, assignment.operatorId);
+    }
+  })();
+}
+
+export function updateStation(
+  id: string,
+  changes: {
+    name?: string;
+    description?: string;
+    targetCycleTime?: number;
+    operatorCount?: number;
+    parallelUnits?: number;
+    status?: string;
+  },
+  changedBy: string,
+  effectiveFrom?: string
+) {
+  const db = getDatabase();
+  // Targets are effective-dated, so they go through setStationTarget rather than this update
+  const columns: Record<Exclude<keyof typeof changes, 'targetCycleTime'>, string> = {
+    name: 'name',
+    description: 'description',
+    operatorCount: 'operator_count',
+    parallelUnits: 'parallel_units',
+    status: 'status',
+  };
+
+  const keys = (Object.keys(columns) as Array<keyof typeof columns>).filter(k => changes[k] !== undefined);
+
+  db.transaction(() => {
+    const current = db.prepare('SELECT target_cycle_time FROM stations WHERE id = ?').get(id) as
+      | { target_cycle_time: number }
+      | undefined;
+    if (!current) return;
+
+    // The audit's old value is whatever applied at the effective instant, not necessarily today's
+    const previous = effectiveFrom
+      ? (db.prepare(`
+          SELECT target_cycle_time FROM station_target_history
+          WHERE station_id = ? AND product_id IS NULL
+            AND effective_from <= ? AND (effective_to IS NULL OR effective_to > ?)
+          ORDER BY effective_from DESC LIMIT 1
+        `).get(id, effectiveFrom, effectiveFrom) as { target_cycle_time: number } | undefined)
+      : current;
+
+    if (keys.length > 0) {
+      db.prepare(`
+        UPDATE stations SET ${keys.map(k => `${columns[k]} = ?`).join(', ')}, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(...keys.map(k => changes[k]), id);
+    }
+
+    // A back-dated change is recorded even if it matches the current value
+    if (
+      changes.targetCycleTime !== undefined &&
+      (changes.targetCycleTime !== current.target_cycle_time || effectiveFrom)
+    ) {
+      setStationTarget({ stationId: id, targetCycleTime: changes.targetCycleTime, effectiveFrom });
+      recordTargetChange({
+        stationId: id,
+        oldTargetCycleTime: previous?.target_cycle_time ?? null,
+        newTargetCycleTime: changes.targetCycleTime,
+        changedBy,
+        effectiveFrom,
+      });
+    }
+  })();
+}
+
+// Replaces a line's routing; an empty list returns it to serial flow in position order
+export function replaceStationRoutes(lineId: string, routes: StationRoute[]) {
+  const db = getDatabase();
+  const insert = db.prepare(`
+    INSERT INTO station_routes (line_id, from_station_id, to_station_id, kind, fraction)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  db.transaction(() => {
+    db.prepare('DELETE FROM station_routes WHERE line_id = ?').run(lineId);
+    for (const route of routes) {
+      insert.run(lineId, route.fromStationId, route.toStationId, route.kind, route.fraction);
+    }
+  })();
+}
+
+export function getWorkElements(lineId: string) {
+  const db = getDatabase();
+  const elements = db.prepare(`
+    SELECT id, name, duration, station_id FROM work_elements
+    WHERE line_id = ?
+    ORDER BY position
+  `).all(lineId) as Array<{ id: string; name: string; duration: number; station_id: string | null }>;
+  const precedences = db.prepare(`
+    SELECT predecessor_id, successor_id FROM work_element_precedences
+    WHERE line_id = ?
+    ORDER BY rowid
+  `).all(lineId) as Array<{ predecessor_id: string; successor_id: string }>;
+  return { elements, precedences };
+}
+
+export function replaceWorkElements(lineId: string, elements: WorkElement[]) {
+  const db = getDatabase();
+  const insertElement = db.prepare(`
+    INSERT INTO work_elements (line_id, id, name, duration, station_id, position)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  const insertPrecedence = db.prepare(`
+    INSERT INTO work_element_precedences (line_id, predecessor_id, successor_id)
+    VALUES (?, ?, ?)
+  `);
+
+  db.transaction(() => {
+    db.prepare('DELETE FROM work_element_precedences WHERE line_id = ?').run(lineId);
+    db.prepare('DELETE FROM work_elements WHERE line_id = ?').run(lineId);
+    elements.forEach((element, index) => {
+      insertElement.run(lineId, element.id, element.name, element.duration, element.stationId, index + 1);
+    });
+    for (const element of elements) {
+      for (const predecessor of element.predecessors) insertPrecedence.run(lineId, predecessor, element.id);
+    }
+  })();
+}
+
+// Assigns positions 1..n in the given order
+export function reorderStations(lineId: string, stationIds: string[]) {
+  const db = getDatabase();
+  const setPosition = db.prepare(`
+    UPDATE stations SET position = ?, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ? AND line_id = ?
+  `);
+  db.transaction(() => {
+    stationIds.forEach((id, index) => setPosition.run(index + 1, id, lineId));
+  })();
+}
+
+// Removes a station from its line's routing without disconnecting the line: each
+// predecessor's flow passes straight to the station's successors, and stations that
+// reworked into it spread that share over their remaining routes
+function bridgeStationRoutes(id: string) {
+  const db = getDatabase();
+  const routes = db.prepare(`
+    SELECT * FROM station_routes WHERE from_station_id = ? OR to_station_id = ?
+  `).all(id, id) as Array<{
+    line_id: string;
+    from_station_id: string;
+    to_station_id: string;
+    kind: StationRoute['kind'];
+    fraction: number;
+  }>;
+  if (routes.length === 0) return;
+
+  const incoming = routes.filter(r => r.to_station_id === id && r.from_station_id !== id);
+  const outgoing = routes.filter(r => r.from_station_id === id && r.to_station_id !== id && r.kind === 'flow');
+  const outgoingTotal = outgoing.reduce((sum, r) => sum + r.fraction, 0);
+
+  db.prepare('DELETE FROM station_routes WHERE from_station_id = ? OR to_station_id = ?').run(id, id);
+
+  const upsert = db.prepare(`
+    INSERT INTO station_routes (line_id, from_station_id, to_station_id, kind, fraction)
+    VALUES (?, ?, ?, 'flow', ?)
+    ON CONFLICT (from_station_id, to_station_id) DO UPDATE SET fraction = MIN(1, fraction + excluded.fraction)
+  `);
+  for (const route of incoming) {
+    if (route.kind === 'flow' && outgoingTotal > 0) {
+      for (const next of outgoing) {
+        if (next.to_station_id === route.from_station_id) continue;
+        upsert.run(route.line_id, route.from_station_id, next.to_station_id, route.fraction * next.fraction / outgoingTotal);
+      }
+      continue;
+    }
+    // Rework into the removed station, or flow into a line end: the share stays with the other routes
+    const remaining = db.prepare(`
+      SELECT to_station_id, fraction FROM station_routes WHERE from_station_id = ?
+    `).all(route.from_station_id) as Array<{ to_station_id: string; fraction: number }>;
+    const remainingTotal = remaining.reduce((sum, r) => sum + r.fraction, 0);
+    if (remainingTotal === 0) continue;
+    const scale = (remainingTotal + route.fraction) / remainingTotal;
+    for (const r of remaining) {
+      db.prepare('UPDATE station_routes SET fraction = MIN(1, ?) WHERE from_station_id = ? AND to_station_id = ?')
+        .run(r.fraction * scale, route.from_station_id, r.to_station_id);
+    }
+  }
+}
+
+export function deleteStation(id: string) {
+  const db = getDatabase();
+  const station = db.prepare('SELECT line_id FROM stations WHERE id = ?').get(id) as
+    | { line_id: string }
+    | undefined;
+  if (!station) return false;
+
+  db.transaction(() => {
+    // Configuration that only makes sense while the station exists goes with it
+    db.prepare('UPDATE operators SET station_id = NULL WHERE station_id = ?').run(id);
+    db.prepare('DELETE FROM alerts WHERE station_id = ?').run(id);
+    db.prepare('DELETE FROM station_product_targets WHERE station_id = ?').run(id);
+    db.prepare('DELETE FROM station_target_changes WHERE station_id = ?').run(id);
+    db.prepare('DELETE FROM station_target_history WHERE station_id = ?').run(id);
+    db.prepare('DELETE FROM operator_assignments WHERE station_id = ?').run(id);
+    db.prepare('DELETE FROM operator_skills WHERE station_id = ?').run(id);
+    db.prepare('DELETE FROM station_state_events WHERE station_id = ?').run(id);
+    db.prepare("DELETE FROM analysis_configs WHERE scope = 'station' AND scope_id = ?").run(id);
+    db.prepare('DELETE FROM spc_baselines WHERE station_id = ?').run(id);
+    db.prepare('DELETE FROM recommendations WHERE station_id = ?').run(id);
+    db.prepare('UPDATE work_elements SET station_id = NULL WHERE station_id = ?').run(id);
+    bridgeStationRoutes(id);
+    db.prepare('DELETE FROM stations WHERE id = ?').run(id);
+
+    const remaining = db.prepare('SELECT id FROM stations WHERE line_id = ? ORDER BY position').all(station.line_id) as Array<{ id: string }>;
+    reorderStations(station.line_id, remaining.map(s => s.id));
+  })();
+
+  return true;
+}
+
 export function insertOperator(operator: {
   id: string;
   name: string;
   shift: string;
   skillLevel?: number;
   stationId: string;
+  lineId?: string;
   efficiency?: number;
 }) {
   const db = getDatabase();
-  return db.prepare(`
-    INSERT INTO operators (id, name, shift, skill_level, station_id, efficiency)
-    VALUES (?, ?, ?, ?, ?, ?)
+  // Operators default to the line of the station they're assigned to
+  db.prepare(`
+    INSERT INTO operators (id, name, shift, skill_level, station_id, efficiency, line_id)
+    VALUES (?, ?, ?, ?, ?, ?, COALESCE(?, (SELECT line_id FROM stations WHERE id = ?)))
   `).run(
     operator.id,
     operator.name,
     operator.shift,
     operator.skillLevel || 3,
     operator.stationId,
-    operator.efficiency || 100
+    operator.efficiency || 100,
+    operator.lineId || null,
+    operator.stationId
   );
+  return db.prepare(`
+    INSERT INTO operator_assignments (operator_id, station_id, effective_from)
+    VALUES (?, ?, ?)
+  `).run(operator.id, operator.stationId, HISTORY_START);
+}
+
+export function updateOperator(
+  id: string,
+  changes: {
+    name?: string;
+    shift?: string;
+    skillLevel?: number;
+    efficiency?: number;
+  }
+) {
+  const db = getDatabase();
+  const columns: Record<keyof typeof changes, string> = {
+    name: 'name',
+    shift: 'shift',
+    skillLevel: 'skill_level',
+    efficiency: 'efficiency',
+  };
+
+  const keys = (Object.keys(columns) as Array<keyof typeof columns>).filter(k => changes[k] !== undefined);
+  if (keys.length === 0) return;
+
+  db.prepare(`UPDATE operators SET ${keys.map(k => `${columns[k]} = ?`).join(', ')} WHERE id = ?`)
+    .run(...keys.map(k => changes[k]), id);
+}
+
+// Deactivation ends the current station assignment; history and skills are kept for reporting
+export function deactivateOperator(id: string) {
+  const db = getDatabase();
+  const now = new Date().toISOString();
+
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE operator_assignments SET effective_to = ?
+      WHERE operator_id = ? AND effective_to IS NULL
+    `).run(now, id);
+    db.prepare(`
+      UPDATE operators SET active = 0, deactivated_at = ?, station_id = NULL
+      WHERE id = ?
+    `).run(now, id);
+  })();
+}
+
+// Reactivated operators need a station; the assignment starts now
+export function reactivateOperator(id: string, stationId: string) {
+  const db = getDatabase();
+  db.transaction(() => {
+    db.prepare('UPDATE operators SET active = 1, deactivated_at = NULL WHERE id = ?').run(id);
+    assignOperator({ operatorId: id, stationId });
+  })();
+}
+
+export function saveOperatorSkill(skill: {
+  operatorId: string;
+  stationId: string;
+  certified: boolean;
+  proficiency: number;
+  certifiedAt?: string | null;
+  expiresAt?: string | null;
+}) {
+  const db = getDatabase();
+  return db.prepare(`
+    INSERT INTO operator_skills (operator_id, station_id, certified, proficiency, certified_at, expires_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(operator_id, station_id) DO UPDATE SET
+      certified = excluded.certified,
+      proficiency = excluded.proficiency,
+      certified_at = excluded.certified_at,
+      expires_at = excluded.expires_at,
+      updated_at = CURRENT_TIMESTAMP
+  `).run(
+    skill.operatorId,
+    skill.stationId,
+    skill.certified ? 1 : 0,
+    skill.proficiency,
+    skill.certifiedAt ?? null,
+    skill.expiresAt ?? null
+  );
+}
+
+// Writes both groups of a scope's override; a null group inherits from the wider scope
+export function saveAnalysisConfig(config: {
+  scope: AnalysisConfigScope;
+  scopeId: string | null;
+  severityThresholds: SeverityThresholds | null;
+  impactWeights: ImpactWeights | null;
+  updatedBy: string;
+}) {
+  const db = getDatabase();
+  const thresholds = config.severityThresholds;
+  const weights = config.impactWeights;
+  return db.prepare(`
+    INSERT INTO analysis_configs (
+      scope, scope_id, critical_threshold, high_threshold, medium_threshold,
+      variance_weight, consistency_weight, position_weight, downtime_weight, updated_by
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(scope, scope_id) DO UPDATE SET
+      critical_threshold = excluded.critical_threshold,
+      high_threshold = excluded.high_threshold,
+      medium_threshold = excluded.medium_threshold,
+      variance_weight = excluded.variance_weight,
+      consistency_weight = excluded.consistency_weight,
+      position_weight = excluded.position_weight,
+      downtime_weight = excluded.downtime_weight,
+      updated_by = excluded.updated_by,
+      updated_at = CURRENT_TIMESTAMP
+  `).run(
+    config.scope,
+    config.scopeId ?? '',
+    thresholds?.critical ?? null,
+    thresholds?.high ?? null,
+    thresholds?.medium ?? null,
+    weights?.variance ?? null,
+    weights?.consistency ?? null,
+    weights?.position ?? null,
+    weights?.downtime ?? null,
+    config.updatedBy
+  );
+}
+
+export function saveSpcBaseline(baseline: {
+  stationId: string;
+  metric: SpcMetric;
+  chartType: SpcChartType;
+  subgroupSize: number;
+  from: string;
+  to: string;
+  updatedBy: string;
+}) {
+  const db = getDatabase();
+  return db.prepare(`
+    INSERT INTO spc_baselines (station_id, metric, chart_type, subgroup_size, baseline_from, baseline_to, updated_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(station_id, metric) DO UPDATE SET
+      chart_type = excluded.chart_type,
+      subgroup_size = excluded.subgroup_size,
+      baseline_from = excluded.baseline_from,
+      baseline_to = excluded.baseline_to,
+      updated_by = excluded.updated_by,
+      updated_at = CURRENT_TIMESTAMP
+  `).run(
+    baseline.stationId,
+    baseline.metric,
+    baseline.chartType,
+    baseline.subgroupSize,
+    baseline.from,
+    baseline.to,
+    baseline.updatedBy
+  );
+}
+
+export function deleteSpcBaseline(stationId: string, metric: SpcMetric) {
+  const db = getDatabase();
+  return db.prepare('DELETE FROM spc_baselines WHERE station_id = ? AND metric = ?')
+    .run(stationId, metric).changes > 0;
+}
+
+// Recommendations are stored as proposals keyed by the agent's ID. A key with an open proposal
+// (proposed, accepted or implemented) is marked as proposed again, its wording and figures
+// refreshed only while nobody has acted on it; any other key opens a new proposal.
+export function saveProposedRecommendations(recommendations: Array<{
+  id: string;
+  stationId: string;
+  type: Recommendation['type'];
+  description: string;
+  expectedImprovement: number;
+  confidence: number;
+  implementationCost: Recommendation['implementationCost'];
+  timeToImplement: string;
+}>, proposedAt: string) {
+  const db = getDatabase();
+  const upsert = db.prepare(`
+    INSERT INTO recommendations (
+      id, proposal_key, station_id, type, description, expected_improvement, confidence,
+      implementation_cost, time_to_implement, proposed_at, last_proposed_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(proposal_key) WHERE status IN ('proposed', 'accepted', 'implemented') DO UPDATE SET
+      last_proposed_at = excluded.last_proposed_at,
+      description = CASE WHEN status = 'proposed' THEN excluded.description ELSE description END,
+      expected_improvement = CASE WHEN status = 'proposed' THEN excluded.expected_improvement ELSE expected_improvement END,
+      confidence = CASE WHEN status = 'proposed' THEN excluded.confidence ELSE confidence END,
+      implementation_cost = CASE WHEN status = 'proposed' THEN excluded.implementation_cost ELSE implementation_cost END,
+      time_to_implement = CASE WHEN status = 'proposed' THEN excluded.time_to_implement ELSE time_to_implement END
+  `);
+
+  db.transaction(() => {
+    for (const r of recommendations) {
+      upsert.run(
+        randomUUID(), r.id, r.stationId, r.type, r.description, r.expectedImprovement, r.confidence,
+        r.implementationCost, r.timeToImplement, proposedAt, proposedAt
+      );
+    }
+  })();
+}
+
+const RECOMMENDATION_STATUS_DATES: Record<RecommendationStatus, string> = {
+  proposed: 'last_proposed_at',
+  accepted: 'accepted_at',
+  rejected: 'rejected_at',
+  implemented: 'implemented_at',
+  verified: 'verified_at',
+};
+
+// Moves a recommendation to a status and dates it. The owner and note are kept unless given.
+export function updateRecommendationStatus(id: string, update: {
+  status: RecommendationStatus;
+  at: string;
+  updatedBy: string;
+  owner?: string | null;
+  note?: string | null;
+}) {
+  const db = getDatabase();
+  return db.prepare(`
+    UPDATE recommendations SET
+      status = ?,
+      ${RECOMMENDATION_STATUS_DATES[update.status]} = ?,
+      owner = CASE WHEN ? THEN ? ELSE owner END,
+      note = CASE WHEN ? THEN ? ELSE note END,
+      updated_by = ?
+    WHERE id = ?
+  `).run(
+    update.status,
+    update.at,
+    update.owner !== undefined ? 1 : 0,
+    update.owner ?? null,
+    update.note !== undefined ? 1 : 0,
+    update.note ?? null,
+    update.updatedBy,
+    id
+  ).changes > 0;
+}
+
+// Changes the owner or note without moving the status; either is kept unless given
+export function updateRecommendationDetails(id: string, update: {
+  owner?: string | null;
+  note?: string | null;
+  updatedBy: string;
+}) {
+  const db = getDatabase();
+  return db.prepare(`
+    UPDATE recommendations SET
+      owner = CASE WHEN ? THEN ? ELSE owner END,
+      note = CASE WHEN ? THEN ? ELSE note END,
+      updated_by = ?
+    WHERE id = ?
+  `).run(
+    update.owner !== undefined ? 1 : 0,
+    update.owner ?? null,
+    update.note !== undefined ? 1 : 0,
+    update.note ?? null,
+    update.updatedBy,
+    id
+  ).changes > 0;
+}
+
+export function saveRecommendationVerification(id: string, verification: {
+  verifiedAt: string;
+  updatedBy: string;
+  cycleTimeBefore: number;
+  cycleTimeAfter: number;
+  percentOfTargetBefore: number;
+  percentOfTargetAfter: number;
+  throughputBefore: number;
+  throughputAfter: number;
+  actualImprovement: number;
+}) {
+  const db = getDatabase();
+  return db.prepare(`
+    UPDATE recommendations SET
+      status = 'verified', verified_at = ?, updated_by = ?,
+      cycle_time_before = ?, cycle_time_after = ?,
+      percent_of_target_before = ?, percent_of_target_after = ?,
+      throughput_before = ?, throughput_after = ?,
+      actual_improvement = ?
+    WHERE id = ? AND status = 'implemented'
+  `).run(
+    verification.verifiedAt,
+    verification.updatedBy,
+    verification.cycleTimeBefore,
+    verification.cycleTimeAfter,
+    verification.percentOfTargetBefore,
+    verification.percentOfTargetAfter,
+    verification.throughputBefore,
+    verification.throughputAfter,
+    verification.actualImprovement,
+    id
+  ).changes > 0;
+}
+
+export function getCostModelRow(lineId: string) {
+  const db = getDatabase();
+  return db.prepare('SELECT * FROM cost_models WHERE line_id = ?').get(lineId) as {
+    line_id: string;
+    day_rate: number;
+    swing_rate: number;
+    night_rate: number;
+    overtime_multiplier: number;
+    contribution_margin: number;
+    discount_rate: number;
+    horizon_years: number;
+    type_costs: string;
+    updated_by: string;
+    updated_at: string;
+  } | undefined;
+}
+
+export function saveCostModel(lineId: string, costModel: CostModel, updatedBy: string) {
+  const db = getDatabase();
+  return db.prepare(`
+    INSERT INTO cost_models (
+      line_id, day_rate, swing_rate, night_rate, overtime_multiplier,
+      contribution_margin, discount_rate, horizon_years, type_costs, updated_by
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(line_id) DO UPDATE SET
+      day_rate = excluded.day_rate,
+      swing_rate = excluded.swing_rate,
+      night_rate = excluded.night_rate,
+      overtime_multiplier = excluded.overtime_multiplier,
+      contribution_margin = excluded.contribution_margin,
+      discount_rate = excluded.discount_rate,
+      horizon_years = excluded.horizon_years,
+      type_costs = excluded.type_costs,
+      updated_by = excluded.updated_by,
+      updated_at = CURRENT_TIMESTAMP
+  `).run(
+    lineId,
+    costModel.labourRates.day,
+    costModel.labourRates.swing,
+    costModel.labourRates.night,
+    costModel.overtimeMultiplier,
+    costModel.contributionMargin,
+    costModel.discountRate,
+    costModel.horizonYears,
+    JSON.stringify(costModel.typeCosts),
+    updatedBy
+  );
+}
+
+export function deleteCostModel(lineId: string) {
+  const db = getDatabase();
+  return db.prepare('DELETE FROM cost_models WHERE line_id = ?').run(lineId).changes > 0;
+}
+
+export function deleteAnalysisConfig(scope: AnalysisConfigScope, scopeId: string | null) {
+  const db = getDatabase();
+  return db.prepare('DELETE FROM analysis_configs WHERE scope = ? AND scope_id = ?')
+    .run(scope, scopeId ?? '').changes > 0;
+}
+
+export function deleteOperatorSkill(operatorId: string, stationId: string) {
+  const db = getDatabase();
+  return db.prepare('DELETE FROM operator_skills WHERE operator_id = ? AND station_id = ?')
+    .run(operatorId, stationId).changes > 0;
 }
 
 export function insertProductionRecord(record: {
@@ -349,12 +1967,13 @@ export function insertProductionRecord(record: {
   shift: string;
   downtimeMinutes?: number;
   downtimeReason?: string;
+  productId?: string;
 }) {
   const db = getDatabase();
   return db.prepare(`
     INSERT INTO production_records 
-    (id, station_id, operator_id, timestamp, cycle_time, quantity, defects, shift, downtime_minutes, downtime_reason)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    (id, station_id, operator_id, timestamp, cycle_time, quantity, defects, shift, downtime_minutes, downtime_reason, product_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `).run(
     record.id,
     record.stationId,
@@ -365,29 +1984,97 @@ export function insertProductionRecord(record: {
     record.defects || 0,
     record.shift,
     record.downtimeMinutes || 0,
-    record.downtimeReason || null
+    record.downtimeReason || null,
+    record.productId || null
   );
 }
 
+export function insertProductionRecords(records: Parameters<typeof insertProductionRecord>[0][]) {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO production_records 
+    (id, station_id, operator_id, timestamp, cycle_time, quantity, defects, shift, downtime_minutes, downtime_reason, product_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  // Single transaction so a batch is either fully written or not at all
+  const insertMany = db.transaction((rows: typeof records) => {
+    for (const record of rows) {
+      stmt.run(
+        record.id,
+        record.stationId,
+        record.operatorId,
+        record.timestamp,
+        record.cycleTime,
+        record.quantity ?? 1,
+        record.defects ?? 0,
+        record.shift,
+        record.downtimeMinutes ?? 0,
+        record.downtimeReason || null,
+        record.productId || null
+      );
+    }
+    return rows.length;
+  });
+
+  return insertMany(records);
+}
+
+export function insertStationStateEvents(events: Array<{
+  id: string;
+  stationId: string;
+  state: StationState;
+  startTime: string;
+  endTime: string;
+  reason?: string;
+}>) {
+  const db = getDatabase();
+  const stmt = db.prepare(`
+    INSERT INTO station_state_events (id, station_id, state, start_time, end_time, duration_seconds, reason)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertMany = db.transaction((rows: typeof events) => {
+    for (const event of rows) {
+      stmt.run(
+        event.id,
+        event.stationId,
+        event.state,
+        event.startTime,
+        event.endTime,
+        (new Date(event.endTime).getTime() - new Date(event.startTime).getTime()) / 1000,
+        event.reason || null
+      );
+    }
+    return rows.length;
+  });
+
+  return insertMany(events);
+}
+
 export function insertAlert(alert: {
   id: string;
   type: string;
   severity: string;
   stationId?: string;
+  lineId?: string;
   message: string;
   details?: string;
 }) {
   const db = getDatabase();
+  // Station alerts inherit the station's line; line-wide alerts must name one
   return db.prepare(`
-    INSERT INTO alerts (id, type, severity, station_id, message, details)
-    VALUES (?, ?, ?, ?, ?, ?)
+    INSERT INTO alerts (id, type, severity, station_id, message, details, line_id)
+    VALUES (?, ?, ?, ?, ?, ?, COALESCE(?, (SELECT line_id FROM stations WHERE id = ?)))
   `).run(
     alert.id,
     alert.type,
     alert.severity,
     alert.stationId || null,
     alert.message,
-    alert.details || ''
+    alert.details || '',
+    alert.lineId || null,
+    alert.stationId || null
   );
 }
 
@@ -398,6 +2085,90 @@ export function acknowledgeAlert(alertId: string) {
   `).run(alertId);
 }
 
+export function saveProduct(product: {
+  id: string;
+  lineId?: string | null;
+  sku: string;
+  name: string;
+  description?: string;
+  targets: Array<{ stationId: string; targetCycleTime: number }>;
+}) {
+  const db = getDatabase();
+  const upsertProduct = db.prepare(`
+    INSERT INTO products (id, line_id, sku, name, description)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      line_id = excluded.line_id,
+      sku = excluded.sku,
+      name = excluded.name,
+      description = excluded.description
+  `);
+  const currentTarget = db.prepare(`
+    SELECT target_cycle_time FROM station_product_targets WHERE station_id = ? AND product_id = ?
+  `);
+
+  db.transaction(() => {
+    upsertProduct.run(
+      product.id,
+      product.lineId || null,
+      product.sku,
+      product.name,
+      product.description || ''
+    );
+    for (const target of product.targets) {
+      const current = currentTarget.get(target.stationId, product.id) as { target_cycle_time: number } | undefined;
+      if (current?.target_cycle_time === target.targetCycleTime) continue;
+      // A variant's first target covers its whole history; later edits apply from now on
+      setStationTarget({
+        stationId: target.stationId,
+        productId: product.id,
+        targetCycleTime: target.targetCycleTime,
+        effectiveFrom: current ? undefined : HISTORY_START,
+      });
+    }
+  })();
+}
+
+export function getImportMappings() {
+  const db = getDatabase();
+  return db.prepare('SELECT * FROM import_mappings ORDER BY name').all();
+}
+
+export function getImportMappingById(id: string) {
+  const db = getDatabase();
+  return db.prepare('SELECT * FROM import_mappings WHERE id = ?').get(id);
+}
+
+export function saveImportMapping(mapping: {
+  id: string;
+  name: string;
+  columnMap: Record<string, string>;
+  timestampFormat: string;
+  timezone: string;
+}) {
+  const db = getDatabase();
+  // Saving under an existing name replaces that mapping
+  return db.prepare(`
+    INSERT INTO import_mappings (id, name, column_map, timestamp_format, timezone)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(name) DO UPDATE SET
+      column_map = excluded.column_map,
+      timestamp_format = excluded.timestamp_format,
+      timezone = excluded.timezone
+  `).run(
+    mapping.id,
+    mapping.name,
+    JSON.stringify(mapping.columnMap),
+    mapping.timestampFormat,
+    mapping.timezone
+  );
+}
+
+export function deleteImportMapping(id: string) {
+  const db = getDatabase();
+  return db.prepare('DELETE FROM import_mappings WHERE id = ?').run(id);
+}
+
 // Execute arbitrary SQL (for NLP agent)
 export function executeSQL(sql: string, params: unknown[] = []) {
   const db = getDatabase();
@@ -0,0 +1,162 @@
+// ============================================
+// LineBalancer AI - Downtime Analysis
+// Reason Paretos and MTBF, MTTR and availability
+// per station and for the line
+// ============================================
+
+import { getDowntimeByReason, getHourCutoff, getStationDowntimeHours, getStoppages } from '@/lib/database';
+import type {
+  DowntimeAnalysis,
+  DowntimeMetrics,
+  DowntimeParetoEntry,
+  DowntimeTrendPoint,
+  StationDowntime,
+  Stoppage,
+} from '@/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_DOWNTIME_HOURS = 168;
+export const DEFAULT_BUCKET_HOURS = 24;
+
+interface Totals {
+  stoppages: number;
+  downtimeMinutes: number;
+  productionHours: number;
+}
+
+// Rollup hour keys are UTC 'YYYY-MM-DD HH:00:00'
+function hourKeyToTime(hour: string): number {
+  return new Date(`${hour.replace(' ', 'T')}Z`).getTime();
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// Each hour a station produced counts as 60 scheduled minutes. Time between failures is
+// the scheduled time it was running; time to repair is the time it was stopped.
+export function toDowntimeMetrics(totals: Totals): DowntimeMetrics {
+  const scheduled = totals.productionHours * 60;
+  const operating = Math.max(0, scheduled - totals.downtimeMinutes);
+  return {
+    stoppages: totals.stoppages,
+    downtimeMinutes: round(totals.downtimeMinutes),
+    operatingMinutes: round(operating),
+    mtbfMinutes: totals.stoppages > 0 ? round(operating / totals.stoppages) : null,
+    mttrMinutes: totals.stoppages > 0 ? round(totals.downtimeMinutes / totals.stoppages) : null,
+    availability: scheduled > 0 ? round((operating / scheduled) * 100) : null,
+  };
+}
+
+// Reasons by downtime minutes, largest first, with the running share of the total
+export function buildPareto(reasons: Array<{ reason: string; stoppages: number; minutes: number }>): DowntimeParetoEntry[] {
+  const merged = new Map<string, { stoppages: number; minutes: number }>();
+  for (const r of reasons) {
+    const entry = merged.get(r.reason) ?? { stoppages: 0, minutes: 0 };
+    entry.stoppages += r.stoppages;
+    entry.minutes += r.minutes;
+    merged.set(r.reason, entry);
+  }
+
+  const total = Array.from(merged.values()).reduce((sum, r) => sum + r.minutes, 0);
+  let cumulative = 0;
+  return Array.from(merged.entries())
+    .sort((a, b) => b[1].minutes - a[1].minutes || b[1].stoppages - a[1].stoppages)
+    .map(([reason, { stoppages, minutes }]) => {
+      cumulative += minutes;
+      return {
+        reason,
+        stoppages,
+        minutes: round(minutes),
+        percent: total > 0 ? round((minutes / total) * 100) : 0,
+        cumulativePercent: total > 0 ? round((cumulative / total) * 100) : 0,
+      };
+    });
+}
+
+export function getDowntimeAnalysis(options: {
+  lineId?: string | null;
+  hours?: number;
+  bucketHours?: number;
+  now?: Date;
+} = {}): DowntimeAnalysis {
+  const hours = options.hours ?? DEFAULT_DOWNTIME_HOURS;
+  const bucketHours = options.bucketHours ?? DEFAULT_BUCKET_HOURS;
+  const now = options.now ?? new Date();
+  const from = hourKeyToTime(getHourCutoff(hours));
+  const bucketCount = Math.ceil((now.getTime() - from) / (bucketHours * HOUR_MS));
+  const emptyTotals = (): Totals => ({ stoppages: 0, downtimeMinutes: 0, productionHours: 0 });
+
+  // Totals per station and per trend bucket; the line is the sum over its stations
+  const stations = new Map<string, { name: string; totals: Totals; buckets: Totals[] }>();
+  const lineTotals = emptyTotals();
+  const lineBuckets = Array.from({ length: bucketCount }, emptyTotals);
+
+  for (const row of getStationDowntimeHours(hours, options.lineId)) {
+    if (!stations.has(row.station_id)) {
+      stations.set(row.station_id, {
+        name: row.station_name,
+        totals: emptyTotals(),
+        buckets: Array.from({ length: bucketCount }, emptyTotals),
+      });
+    }
+    const station = stations.get(row.station_id)!;
+    const bucket = Math.min(bucketCount - 1, Math.floor((hourKeyToTime(row.hour) - from) / (bucketHours * HOUR_MS)));
+    for (const totals of [station.totals, station.buckets[bucket], lineTotals, lineBuckets[bucket]]) {
+      totals.stoppages += row.stoppages;
+      totals.downtimeMinutes += row.downtime_minutes;
+      totals.productionHours++;
+    }
+  }
+
+  const toTrend = (buckets: Totals[]): DowntimeTrendPoint[] => buckets.map((totals, i) => ({
+    start: new Date(from + i * bucketHours * HOUR_MS).toISOString(),
+    end: new Date(Math.min(now.getTime(), from + (i + 1) * bucketHours * HOUR_MS)).toISOString(),
+    ...toDowntimeMetrics(totals),
+  }));
+
+  const reasons = getDowntimeByReason(hours, options.lineId);
+
+  const stationDowntime: StationDowntime[] = Array.from(stations.entries()).map(([stationId, station]) => ({
+    stationId,
+    stationName: station.name,
+    ...toDowntimeMetrics(station.totals),
+    pareto: buildPareto(reasons.filter(r => r.station_id === stationId)),
+    trend: toTrend(station.buckets),
+  }));
+
+  return {
+    lineId: options.lineId ?? null,
+    from: new Date(from).toISOString(),
+    to: now.toISOString(),
+    bucketHours,
+    line: {
+      ...toDowntimeMetrics(lineTotals),
+      pareto: buildPareto(reasons),
+      trend: toTrend(lineBuckets),
+    },
+    stations: stationDowntime,
+  };
+}
+
+export function listStoppages(options: {
+  lineId?: string | null;
+  stationId?: string;
+  reason?: string;
+  hours?: number;
+  limit?: number;
+}): Stoppage[] {
+  return getStoppages(options.hours ?? DEFAULT_DOWNTIME_HOURS, options).map(row => ({
+    id: row.id,
+    stationId: row.station_id,
+    stationName: row.station_name,
+    operatorId: row.operator_id,
+    operatorName: row.operator_name,
+    timestamp: row.timestamp,
+    shift: row.shift,
+    minutes: row.downtime_minutes,
+    reason: row.reason,
+  }));
+}
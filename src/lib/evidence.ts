@@ -0,0 +1,259 @@
+// ============================================
+// LineBalancer AI - Root Cause Evidence
+// Structured evidence and the records and
+// statistics behind it
+// ============================================
+
+import {
+  getChangePointSeries,
+  getEvidenceCycleTimeBins,
+  getEvidenceDowntimeReasons,
+  getEvidenceOperatorTotals,
+  getEvidenceRecords,
+  getStationById,
+  getStationStateDurations,
+  getWindowBounds,
+} from '@/lib/database';
+import { buildPareto } from '@/lib/downtime';
+import { describeBins } from '@/lib/stats';
+import type {
+  AnalysisWindow,
+  ChangePointMetric,
+  Evidence,
+  EvidenceDrillDown,
+  EvidenceFilter,
+  EvidenceMetric,
+  EvidenceOperatorSummary,
+  EvidenceRecord,
+  EvidenceStationSummary,
+  StationState,
+  StationStateSummary,
+} from '@/types';
+
+export const EVIDENCE_METRICS: EvidenceMetric[] = [
+  'station_states',
+  'cycle_time',
+  'cycle_time_variability',
+  'shift_cycle_time',
+  'operator_performance',
+  'downtime',
+  'downtime_reasons',
+  'neighbour_correlation',
+];
+
+export const DEFAULT_RECORD_LIMIT = 200;
+export const MAX_RECORD_LIMIT = 1000;
+
+const SERIES: ChangePointMetric[] = ['cycle_time', 'defect_rate'];
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// The drill-down request reproduces the filter exactly, so the figure can be checked
+// against the records it came from
+export function createEvidence(
+  metric: EvidenceMetric,
+  summary: string,
+  value: number | null,
+  unit: string | null,
+  filter: EvidenceFilter
+): Evidence {
+  const params = new URLSearchParams({ metric, stationId: filter.stationId, from: filter.from, to: filter.to });
+  if (filter.shift) params.set('shift', filter.shift);
+  filter.operatorIds?.forEach(id => params.append('operatorId', id));
+  if (filter.stoppagesOnly) params.set('stoppagesOnly', 'true');
+  filter.reasons?.forEach(reason => params.append('reason', reason));
+  if (filter.relatedStationId) params.set('relatedStationId', filter.relatedStationId);
+  if (filter.series) params.set('series', filter.series);
+
+  return {
+    metric,
+    summary,
+    value: value === null ? null : round(value, 2),
+    unit,
+    filter,
+    query: `/api/bottlenecks/evidence?${params}`,
+  };
+}
+
+// Everything but the window, which is parsed like any other analysis window
+export function parseEvidenceRequest(
+  searchParams: URLSearchParams,
+  window: AnalysisWindow
+): { metric: EvidenceMetric; filter: EvidenceFilter } | { error: string } {
+  const metric = searchParams.get('metric') as EvidenceMetric | null;
+  if (!metric || !EVIDENCE_METRICS.includes(metric)) {
+    return { error: `metric must be one of ${EVIDENCE_METRICS.join(', ')}` };
+  }
+  const stationId = searchParams.get('stationId');
+  if (!stationId) {
+    return { error: 'stationId is required' };
+  }
+  const series = searchParams.get('series') as ChangePointMetric | null;
+  if (series && !SERIES.includes(series)) {
+    return { error: `series must be one of ${SERIES.join(', ')}` };
+  }
+  const relatedStationId = searchParams.get('relatedStationId');
+  if (metric === 'neighbour_correlation' && !relatedStationId) {
+    return { error: 'relatedStationId is required for a neighbour correlation' };
+  }
+
+  const filter: EvidenceFilter = { stationId, from: window.from, to: window.to, shift: window.shift ?? null };
+  const operatorIds = searchParams.getAll('operatorId').filter(Boolean);
+  const reasons = searchParams.getAll('reason').filter(Boolean);
+  if (operatorIds.length) filter.operatorIds = operatorIds;
+  if (searchParams.get('stoppagesOnly') === 'true') filter.stoppagesOnly = true;
+  if (reasons.length) filter.reasons = reasons;
+  if (relatedStationId) filter.relatedStationId = relatedStationId;
+  if (series) filter.series = series;
+  return { metric, filter };
+}
+
+function toRecord(row: ReturnType<typeof getEvidenceRecords>[number]): EvidenceRecord {
+  return {
+    id: row.id,
+    stationId: row.station_id,
+    operatorId: row.operator_id,
+    operatorName: row.operator_name,
+    timestamp: row.timestamp,
+    shift: row.shift,
+    productId: row.product_id,
+    cycleTime: row.cycle_time,
+    targetCycleTime: row.target_cycle_time,
+    quantity: row.quantity,
+    defects: row.defects,
+    downtimeMinutes: row.downtime_minutes,
+    downtimeReason: row.downtime_reason,
+  };
+}
+
+type OperatorTotals = ReturnType<typeof getEvidenceOperatorTotals>[number];
+type CycleTimeBin = ReturnType<typeof getEvidenceCycleTimeBins>[number];
+
+function summarizeStation(
+  stationId: string,
+  totals: OperatorTotals[],
+  bins: CycleTimeBin[],
+  states: StationStateSummary | null
+): EvidenceStationSummary {
+  const station = getStationById(stationId) as { name: string } | undefined;
+  const sum = (value: (row: OperatorTotals) => number) => totals.reduce((total, row) => total + value(row), 0);
+  const records = sum(r => r.records);
+  const units = sum(r => r.units);
+  const cycleTimeStats = describeBins(bins.map(b => ({
+    count: b.record_count,
+    sum: b.cycle_time_sum,
+    sumSq: b.cycle_time_sum_sq,
+    min: b.cycle_time_min,
+    max: b.cycle_time_max,
+  })));
+  const avgTarget = records ? sum(r => r.target_sum) / records : null;
+
+  return {
+    stationId,
+    stationName: station?.name ?? stationId,
+    records,
+    units,
+    defectRate: units > 0 ? round((sum(r => r.defects) / units) * 100, 2) : null,
+    cycleTimeStats,
+    avgTargetCycleTime: avgTarget === null ? null : round(avgTarget),
+    variancePercent: cycleTimeStats && avgTarget ? round(((cycleTimeStats.mean - avgTarget) / avgTarget) * 100) : null,
+    downtimeMinutes: round(sum(r => r.downtime_minutes)),
+    stoppages: sum(r => r.stoppages),
+    states,
+  };
+}
+
+// Each record is measured against its own target, so operators building slower products
+// aren't shown as slower
+function summarizeOperators(totals: OperatorTotals[]): EvidenceOperatorSummary[] {
+  return totals
+    .map(row => ({
+      operatorId: row.operator_id,
+      operatorName: row.operator_name,
+      records: row.records,
+      avgCycleTime: round(row.cycle_time_sum / row.records),
+      variancePercent: round(row.percent_of_target_sum / row.records - 100),
+      defectRate: row.units > 0 ? round((row.defects / row.units) * 100, 2) : null,
+      downtimeMinutes: round(row.downtime_minutes),
+    }))
+    .sort((a, b) => b.variancePercent - a.variancePercent);
+}
+
+function getStateSummaries(filter: EvidenceFilter): Map<string, StationStateSummary> {
+  const seconds = new Map<string, Partial<Record<StationState, number>>>();
+  for (const row of getStationStateDurations({ from: filter.from, to: filter.to })) {
+    seconds.set(row.station_id, { ...seconds.get(row.station_id), [row.state]: row.seconds });
+  }
+
+  const summaries = new Map<string, StationStateSummary>();
+  seconds.forEach((byState, stationId) => {
+    const trackedSeconds = Object.values(byState).reduce((sum, s) => sum + s, 0);
+    const percent = (state: StationState) => trackedSeconds > 0 ? round(((byState[state] || 0) / trackedSeconds) * 100) : 0;
+    summaries.set(stationId, {
+      stationId,
+      trackedSeconds: Math.round(trackedSeconds),
+      percentByState: {
+        working: percent('working'),
+        starved: percent('starved'),
+        blocked: percent('blocked'),
+        down: percent('down'),
+        changeover: percent('changeover'),
+      },
+    });
+  });
+  return summaries;
+}
+
+// The station's and its neighbour's hourly series side by side, before the daily profile
+// and the line's common movement are taken out
+function getHourlyPairs(filter: EvidenceFilter) {
+  if (!filter.relatedStationId) return null;
+  const { fromHour, toHour } = getWindowBounds({ from: filter.from, to: filter.to });
+  const byHour = new Map<string, { value: number | null; relatedValue: number | null }>();
+  const rows = getChangePointSeries(filter.series ?? 'cycle_time', fromHour, {
+    stationIds: [filter.stationId, filter.relatedStationId],
+    toHour,
+  });
+  for (const row of rows) {
+    const point = byHour.get(row.hour) ?? { value: null, relatedValue: null };
+    if (row.station_id === filter.stationId) point.value = round(row.value, 2);
+    else point.relatedValue = round(row.value, 2);
+    byHour.set(row.hour, point);
+  }
+  return Array.from(byHour.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([hour, point]) => ({ hour, ...point }));
+}
+
+// Summaries cover every matching record and come from grouped queries; only one page of the
+// records themselves is loaded
+export function getEvidenceDrillDown(
+  metric: EvidenceMetric,
+  filter: EvidenceFilter,
+  page: { limit: number; offset: number } = { limit: DEFAULT_RECORD_LIMIT, offset: 0 }
+): EvidenceDrillDown {
+  const stationIds = filter.relatedStationId ? [filter.stationId, filter.relatedStationId] : [filter.stationId];
+  const totals = getEvidenceOperatorTotals(filter);
+  const bins = getEvidenceCycleTimeBins(filter);
+  const states = getStateSummaries(filter);
+
+  return {
+    metric,
+    filter,
+    stations: stationIds.map(id => summarizeStation(
+      id,
+      totals.filter(r => r.station_id === id),
+      bins.filter(b => b.station_id === id),
+      states.get(id) ?? null
+    )),
+    operators: summarizeOperators(totals.filter(r => r.station_id === filter.stationId)),
+    downtime: buildPareto(getEvidenceDowntimeReasons(filter)),
+    hourly: metric === 'neighbour_correlation' ? getHourlyPairs(filter) : null,
+    records: getEvidenceRecords(filter, page).map(toRecord),
+    totalRecords: totals.reduce((sum, r) => sum + r.records, 0),
+    offset: page.offset,
+  };
+}
@@ -0,0 +1,172 @@
+// ============================================
+// LineBalancer AI - Flow Signals
+// Material and process evidence from downtime
+// reasons and neighbouring stations
+// ============================================
+
+import { getChangePointSeries, getDowntimeByReason, getWindowBounds, resolveWindow } from '@/lib/database';
+import { buildPareto } from '@/lib/downtime';
+import { removeDailyProfile } from '@/lib/change-points';
+import { correlationPValue, rankCorrelation, holmAdjust, mean, standardDeviation } from '@/lib/stats';
+import type {
+  AnalysisWindow,
+  ChangePointMetric,
+  DowntimeReasonCategory,
+  LineTopology,
+  NeighbourCorrelation,
+  StationFlowSignals,
+} from '@/types';
+
+// A week, so each hour of the day has enough days for its profile to be removed
+export const DEFAULT_FLOW_SIGNAL_HOURS = 168;
+
+// First match wins; reasons are free text from the floor, so the patterns are loose
+const REASON_CATEGORIES: Array<{ category: DowntimeReasonCategory; pattern: RegExp }> = [
+  { category: 'material', pattern: /material|shortage|parts|supply|starv/i },
+  { category: 'upstream_quality', pattern: /upstream|incoming|quality/i },
+];
+
+// Hours both stations must have produced before their series are compared
+const MIN_SHARED_HOURS = 24;
+
+// Family-wise error rate across every neighbour pair and metric on the line
+const SIGNIFICANCE_LEVEL = 0.05;
+
+// Weaker links can be significant over a week of hours but explain little
+const MIN_CORRELATION = 0.3;
+
+// Stations that must report an hour before the line's common movement is taken out of it
+const MIN_STATIONS_FOR_COMMON_MODE = 3;
+
+// Rollup hour keys are UTC 'YYYY-MM-DD HH:00:00'
+function hourKeyToTime(hour: string): number {
+  return new Date(`${hour.replace(' ', 'T')}Z`).getTime();
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export function categorizeDowntimeReason(reason: string): DowntimeReasonCategory {
+  return REASON_CATEGORIES.find(c => c.pattern.test(reason))?.category ?? 'other';
+}
+
+// Each station's hourly series less its daily rhythm and less the whole line's movement
+// that hour, by hour key. Without this every pair of stations would correlate through the
+// shift pattern and the good and bad days they share.
+function getResiduals(
+  metric: ChangePointMetric,
+  window: number | AnalysisWindow,
+  lineId?: string | null
+): Map<string, Map<string, number>> {
+  const { fromHour, toHour } = getWindowBounds(window);
+  const byStation = new Map<string, Array<{ hour: string; time: number; value: number }>>();
+  for (const row of getChangePointSeries(metric, fromHour, { lineId, toHour })) {
+    const series = byStation.get(row.station_id) ?? [];
+    series.push({ hour: row.hour, time: hourKeyToTime(row.hour), value: row.value });
+    byStation.set(row.station_id, series);
+  }
+
+  // Standardized so stations with long and short cycles weigh the same in the line's median
+  const residuals = new Map<string, Map<string, number>>();
+  const byHour = new Map<string, number[]>();
+  byStation.forEach((series, stationId) => {
+    const values = removeDailyProfile(series);
+    const m = mean(values);
+    const sd = standardDeviation(values);
+    if (sd === 0) return;
+    const standardized = new Map<string, number>();
+    series.forEach((point, i) => {
+      const z = (values[i] - m) / sd;
+      standardized.set(point.hour, z);
+      byHour.set(point.hour, [...(byHour.get(point.hour) ?? []), z]);
+    });
+    residuals.set(stationId, standardized);
+  });
+
+  const common = new Map<string, number>();
+  byHour.forEach((values, hour) => {
+    if (values.length >= MIN_STATIONS_FOR_COMMON_MODE) common.set(hour, median(values));
+  });
+  residuals.forEach(series => {
+    series.forEach((value, hour) => series.set(hour, value - (common.get(hour) ?? 0)));
+  });
+  return residuals;
+}
+
+export function getStationFlowSignals(
+  lineId: string | null,
+  topology?: LineTopology,
+  window: number | AnalysisWindow = DEFAULT_FLOW_SIGNAL_HOURS
+): Record<string, StationFlowSignals> {
+  const signals: Record<string, StationFlowSignals> = {};
+  const { from, to } = resolveWindow(window);
+  const signalsFor = (stationId: string) => {
+    if (!signals[stationId]) signals[stationId] = { stationId, from, to, downtimeReasons: [], correlations: [] };
+    return signals[stationId];
+  };
+
+  const reasons = getDowntimeByReason(window, lineId);
+  for (const stationId of Array.from(new Set(reasons.map(r => r.station_id)))) {
+    signalsFor(stationId).downtimeReasons = buildPareto(reasons.filter(r => r.station_id === stationId))
+      .map(entry => ({ ...entry, category: categorizeDowntimeReason(entry.reason) }));
+  }
+
+  if (!topology) return signals;
+
+  // Each flow route is compared once per metric and the result is reported at both ends
+  const names = new Map(topology.nodes.map(n => [n.stationId, n.stationName]));
+  const routes = topology.routes.filter(r => r.kind === 'flow' && r.fromStationId !== r.toStationId);
+  const tests: Array<{ from: string; to: string; metric: ChangePointMetric; r: number; n: number; pValue: number }> = [];
+
+  for (const metric of ['cycle_time', 'defect_rate'] as ChangePointMetric[]) {
+    const residuals = getResiduals(metric, window, lineId);
+    for (const route of routes) {
+      const upstream = residuals.get(route.fromStationId);
+      const downstream = residuals.get(route.toStationId);
+      if (!upstream || !downstream) continue;
+
+      const xs: number[] = [];
+      const ys: number[] = [];
+      upstream.forEach((value, hour) => {
+        const other = downstream.get(hour);
+        if (other === undefined) return;
+        xs.push(value);
+        ys.push(other);
+      });
+      if (xs.length < MIN_SHARED_HOURS) continue;
+
+      const r = rankCorrelation(xs, ys);
+      if (Number.isNaN(r)) continue;
+      tests.push({ from: route.fromStationId, to: route.toStationId, metric, r, n: xs.length, pValue: correlationPValue(r, xs.length) });
+    }
+  }
+
+  const adjusted = holmAdjust(tests.map(t => t.pValue));
+  tests.forEach((test, i) => {
+    const shared = {
+      metric: test.metric,
+      correlation: round(test.r),
+      pValue: adjusted[i] < 0.0001 ? 0.0001 : round(adjusted[i], 4),
+      hours: test.n,
+      significant: adjusted[i] < SIGNIFICANCE_LEVEL && test.r >= MIN_CORRELATION,
+    };
+    const atDownstream: NeighbourCorrelation = {
+      stationId: test.from, stationName: names.get(test.from) ?? test.from, direction: 'upstream', ...shared,
+    };
+    const atUpstream: NeighbourCorrelation = {
+      stationId: test.to, stationName: names.get(test.to) ?? test.to, direction: 'downstream', ...shared,
+    };
+    signalsFor(test.to).correlations.push(atDownstream);
+    signalsFor(test.from).correlations.push(atUpstream);
+  });
+
+  return signals;
+}
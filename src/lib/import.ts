@@ -0,0 +1,375 @@
+// ============================================
+// LineBalancer AI - Spreadsheet Import
+// Maps CSV/XLSX history onto production_records
+// ============================================
+
+import * as XLSX from 'xlsx';
+import { getDatabase, insertProductionRecords } from '@/lib/database';
+import { checkNewRecords, validateProductionRecords } from '@/lib/ingest';
+import type {
+  ImportField,
+  ImportMapping,
+  ImportResult,
+  TimestampFormat,
+} from '@/types';
+
+export const IMPORT_FIELDS: ImportField[] = [
+  'id',
+  'stationId',
+  'operatorId',
+  'timestamp',
+  'cycleTime',
+  'quantity',
+  'defects',
+  'shift',
+  'downtimeMinutes',
+  'downtimeReason',
+  'productId',
+];
+
+export const TIMESTAMP_FORMATS: TimestampFormat[] = [
+  'auto', 'iso', 'ymd', 'mdy', 'dmy', 'excel_serial', 'unix_seconds', 'unix_ms',
+];
+
+const NUMERIC_FIELDS: ImportField[] = ['cycleTime', 'quantity', 'defects', 'downtimeMinutes'];
+const PREVIEW_ROWS = 20;
+// Rejection lists can be huge for a bad mapping; keep the response to what a reviewer can act on
+const MAX_REJECTED_ROWS = 500;
+
+// Common spreadsheet headings for each target field (compared lowercased, without separators)
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  id: ['id', 'recordid'],
+  stationId: ['stationid', 'station', 'workstation', 'stationcode'],
+  operatorId: ['operatorid', 'operator', 'employeeid', 'employee', 'worker'],
+  timestamp: ['timestamp', 'datetime', 'time', 'date', 'recordedat'],
+  cycleTime: ['cycletime', 'cycletimes', 'cycle', 'ct', 'duration'],
+  quantity: ['quantity', 'qty', 'units', 'count'],
+  defects: ['defects', 'defectcount', 'rejects', 'scrap'],
+  shift: ['shift', 'shiftname'],
+  downtimeMinutes: ['downtimeminutes', 'downtime', 'downtimemin'],
+  downtimeReason: ['downtimereason', 'reason', 'stopreason'],
+  productId: ['productid', 'product', 'sku', 'variant', 'partnumber', 'model'],
+};
+
+// ============================================
+// Parsing
+// ============================================
+
+export function parseSpreadsheet(buffer: Buffer): {
+  columns: string[];
+  rows: Record<string, unknown>[];
+} {
+  // raw keeps CSV cells as text so we control date and number conversion
+  const workbook = XLSX.read(buffer, { type: 'buffer', raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return { columns: [], rows: [] };
+
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: null, raw: true });
+  const header = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, range: 0 })[0] || [];
+  const columns = header.map(c => String(c ?? '').trim()).filter(Boolean);
+
+  return { columns, rows };
+}
+
+export function suggestMapping(columns: string[]): Partial<Record<ImportField, string>> {
+  const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const mapping: Partial<Record<ImportField, string>> = {};
+
+  for (const field of IMPORT_FIELDS) {
+    const match = columns.find(c => FIELD_ALIASES[field].includes(normalize(c)));
+    if (match) mapping[field] = match;
+  }
+
+  return mapping;
+}
+
+// ============================================
+// Timestamp Conversion
+// ============================================
+
+// Offset of the zone from UTC at the given instant, in ms
+function getTimezoneOffset(timezone: string, utcMs: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(utcMs));
+
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(utcMs / 1000) * 1000;
+}
+
+// Interpret a wall-clock time in the given zone and return the UTC instant
+function zonedTimeToUtc(
+  year: number, month: number, day: number,
+  hour: number, minute: number, second: number,
+  timezone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  const offset = getTimezoneOffset(timezone, wallClock);
+  let utc = wallClock - offset;
+  // Re-check in case the guess landed on the other side of a DST transition
+  const corrected = getTimezoneOffset(timezone, utc);
+  if (corrected !== offset) utc = wallClock - corrected;
+  return new Date(utc);
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const DATE_PATTERN =
+  /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*([AaPp][Mm])?)?$/;
+
+function parseWallClock(value: string, order: 'ymd' | 'mdy' | 'dmy', timezone: string): Date | null {
+  const match = value.trim().match(DATE_PATTERN);
+  if (!match) return null;
+
+  const [, a, b, c, h = '0', mi = '0', sec = '0', meridiem] = match;
+  let year: number, month: number, day: number;
+  if (order === 'ymd') [year, month, day] = [Number(a), Number(b), Number(c)];
+  else if (order === 'mdy') [month, day, year] = [Number(a), Number(b), Number(c)];
+  else [day, month, year] = [Number(a), Number(b), Number(c)];
+
+  if (year < 100) year += 2000;
+  let hour = Number(h);
+  if (meridiem) {
+    const pm = meridiem.toLowerCase() === 'pm';
+    if (hour === 12) hour = pm ? 12 : 0;
+    else if (pm) hour += 12;
+  }
+
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23) return null;
+  return zonedTimeToUtc(year, month, day, hour, Number(mi), Number(sec), timezone);
+}
+
+function excelSerialToDate(serial: number, timezone: string): Date {
+  // Excel day 0 is 1899-12-30; the fraction is the local time of day
+  const wallClock = new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 86400) * 1000);
+  return zonedTimeToUtc(
+    wallClock.getUTCFullYear(), wallClock.getUTCMonth() + 1, wallClock.getUTCDate(),
+    wallClock.getUTCHours(), wallClock.getUTCMinutes(), wallClock.getUTCSeconds(),
+    timezone
+  );
+}
+
+export function convertTimestamp(value: unknown, format: TimestampFormat, timezone: string): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+  const text = String(value).trim();
+  const numeric = Number(text);
+
+  switch (format) {
+    case 'unix_seconds':
+      return isFinite(numeric) ? new Date(numeric * 1000) : null;
+    case 'unix_ms':
+      return isFinite(numeric) ? new Date(numeric) : null;
+    case 'excel_serial':
+      return isFinite(numeric) ? excelSerialToDate(numeric, timezone) : null;
+    case 'ymd':
+    case 'mdy':
+    case 'dmy':
+      return parseWallClock(text, format, timezone);
+    case 'iso':
+    case 'auto': {
+      if (format === 'auto' && typeof value === 'number') return excelSerialToDate(value, timezone);
+      // An explicit offset wins over the configured zone
+      if (/(Z|[+-]\d{2}:?\d{2})$/i.test(text)) {
+        const date = new Date(text);
+        return isNaN(date.getTime()) ? null : date;
+      }
+      return parseWallClock(text, 'ymd', timezone);
+    }
+  }
+}
+
+// Same shift boundaries the seeder uses, evaluated in plant local time
+function shiftForLocalHour(date: Date, timezone: string): 'day' | 'night' | 'swing' {
+  const hour = Number(new Intl.DateTimeFormat('en-US', { timeZone: timezone, hour: 'numeric', hourCycle: 'h23' }).format(date));
+  if (hour >= 6 && hour < 14) return 'day';
+  if (hour >= 14 && hour < 22) return 'swing';
+  return 'night';
+}
+
+// ============================================
+// Import
+// ============================================
+
+// Numbers take one decimal separator, a point or a comma, and no grouping. Either separator
+// followed by exactly three digits ("1,234" or "1.234") could be grouping, so it is rejected
+// rather than guessed; a zero whole part ("0.125") cannot be grouping.
+const DECIMAL_PATTERN = /^[+-]?(\d*)([.,])?(\d+)$/;
+
+function parseDecimal(value: unknown): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  const match = DECIMAL_PATTERN.exec(String(value).trim());
+  if (!match) return null;
+  const [text, whole, separator, digits] = match;
+  if (separator && digits.length === 3 && /[1-9]/.test(whole)) return null;
+  return Number(separator === ',' ? text.replace(',', '.') : text);
+}
+
+export function rowToMappedRecord(
+  raw: Record<string, unknown>,
+  mapping: Pick<ImportMapping, 'columnMap' | 'timestampFormat' | 'timezone'>
+): { record: Record<string, unknown>; errors: string[] } {
+  const record: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const field of IMPORT_FIELDS) {
+    const column = mapping.columnMap[field];
+    if (!column) continue;
+
+    let value = raw[column];
+    if (value === null || value === undefined || value === '') continue;
+
+    if (field === 'timestamp') {
+      const date = convertTimestamp(value, mapping.timestampFormat, mapping.timezone);
+      if (!date || isNaN(date.getTime())) {
+        errors.push(`Cannot parse timestamp "${value}" as ${mapping.timestampFormat}`);
+        continue;
+      }
+      value = date.toISOString();
+    } else if (NUMERIC_FIELDS.includes(field)) {
+      const num = parseDecimal(value);
+      if (num === null) {
+        errors.push(`${field} "${value}" is not a number with one decimal separator and no thousands separators`);
+        continue;
+      }
+      value = num;
+    } else if (field === 'shift') {
+      value = String(value).trim().toLowerCase();
+    } else {
+      value = String(value).trim();
+    }
+
+    record[field] = value;
+  }
+
+  // Histories often lack a shift column; derive it from the local hour
+  if (!record.shift && typeof record.timestamp === 'string') {
+    record.shift = shiftForLocalHour(new Date(record.timestamp), mapping.timezone);
+  }
+
+  return { record, errors };
+}
+
+export function importProductionData(
+  buffer: Buffer,
+  mapping: Pick<ImportMapping, 'columnMap' | 'timestampFormat' | 'timezone'>,
+  dryRun: boolean
+): ImportResult {
+  const { columns, rows } = parseSpreadsheet(buffer);
+  const db = getDatabase();
+
+  const result: ImportResult = {
+    dryRun,
+    columns,
+    suggestedMapping: suggestMapping(columns),
+    totalRows: rows.length,
+    validRows: 0,
+    duplicateRows: 0,
+    rejectedRows: 0,
+    inserted: 0,
+    rejected: [],
+    preview: [],
+  };
+
+  const missing = (['stationId', 'operatorId', 'timestamp', 'cycleTime'] as ImportField[])
+    .filter(f => !mapping.columnMap[f]);
+  if (missing.length > 0) {
+    // Nothing can be validated yet; return columns so the caller can build a mapping
+    result.rejected = rows.length > 0
+      ? [{ row: 0, errors: [`Mapping is missing required fields: ${missing.join(', ')}`], raw: {} }]
+      : [];
+    return result;
+  }
+
+  // Re-importing an old export must not duplicate rows that have since been archived
+  const existingById = db.prepare('SELECT 1 FROM all_production_records WHERE id = ?');
+  const existingByKey = db.prepare(
+    'SELECT 1 FROM all_production_records WHERE station_id = ? AND timestamp = ? AND operator_id = ?'
+  );
+  const seenKeys = new Set<string>();
+  // Exports usually carry the SKU rather than our product id
+  const productIdBySku = new Map(
+    (db.prepare('SELECT id, sku FROM products').all() as Array<{ id: string; sku: string }>)
+      .map(p => [p.sku, p.id])
+  );
+
+  const candidates: Record<string, unknown>[] = [];
+  const candidateRows: number[] = [];
+
+  rows.forEach((raw, i) => {
+    const rowNumber = i + 2; // header occupies row 1
+    const { record, errors } = rowToMappedRecord(raw, mapping);
+    if (errors.length > 0) {
+      result.rejected.push({ row: rowNumber, errors, raw });
+      return;
+    }
+    if (typeof record.productId === 'string' && productIdBySku.has(record.productId)) {
+      record.productId = productIdBySku.get(record.productId);
+    }
+
+    // Re-imports of overlapping exports are expected, so duplicates are skipped, not rejected
+    const key = `${record.stationId}|${record.timestamp}|${record.operatorId}`;
+    const isDuplicate =
+      seenKeys.has(key) ||
+      (typeof record.id === 'string' && !!existingById.get(record.id)) ||
+      !!existingByKey.get(record.stationId, record.timestamp, record.operatorId);
+    if (isDuplicate) {
+      result.duplicateRows++;
+      return;
+    }
+    seenKeys.add(key);
+
+    candidates.push(record);
+    candidateRows.push(rowNumber);
+  });
+
+  const { valid, rejected } = validateProductionRecords(candidates);
+  for (const r of rejected) {
+    result.rejected.push({ row: candidateRows[r.index], errors: r.errors, raw: rows[candidateRows[r.index] - 2] });
+  }
+  result.rejected.sort((a, b) => a.row - b.row);
+  result.rejectedRows = result.rejected.length;
+  result.rejected = result.rejected.slice(0, MAX_REJECTED_ROWS);
+
+  result.validRows = valid.length;
+  result.preview = valid.slice(0, PREVIEW_ROWS);
+
+  if (!dryRun && valid.length > 0) {
+    result.inserted = insertProductionRecords(valid);
+    checkNewRecords(valid.map(r => r.stationId));
+  }
+
+  return result;
+}
+
+export function rowToImportMapping(row: {
+  id: string;
+  name: string;
+  column_map: string;
+  timestamp_format: TimestampFormat;
+  timezone: string;
+  created_at: string;
+}): ImportMapping {
+  return {
+    id: row.id,
+    name: row.name,
+    columnMap: JSON.parse(row.column_map),
+    timestampFormat: row.timestamp_format,
+    timezone: row.timezone,
+    createdAt: row.created_at,
+  };
+}
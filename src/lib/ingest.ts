@@ -0,0 +1,395 @@
+// ============================================
+// LineBalancer AI - Production Data Ingestion
+// Validation and batch loading of records
+// pushed in from MES exports
+// ============================================
+
+import { randomUUID } from 'crypto';
+import {
+  getDatabase,
+  insertProductionRecords,
+  insertProductionRecord,
+  insertStationStateEvents,
+} from '@/lib/database';
+import { raiseChangePointAlerts } from '@/lib/change-points';
+import { raiseSpcAlerts } from '@/lib/spc';
+import type { ProductionRecord, StationState } from '@/types';
+
+type NewProductionRecord = Parameters<typeof insertProductionRecord>[0];
+type NewStationStateEvent = Parameters<typeof insertStationStateEvents>[0][number];
+
+export const VALID_SHIFTS: ProductionRecord['shift'][] = ['day', 'night', 'swing'];
+export const VALID_STATION_STATES: StationState[] = ['working', 'starved', 'blocked', 'down', 'changeover'];
+export const MAX_BATCH_SIZE = 10000;
+
+// Cycle times outside this band (relative to the station target) are
+// treated as sensor or data entry errors rather than real slowdowns
+const MIN_CYCLE_TIME_RATIO = 0.1;
+const MAX_CYCLE_TIME_RATIO = 10;
+
+// Allow for clock drift between the MES host and this server
+const MAX_FUTURE_SKEW_MS = 5 * 60 * 1000;
+
+// Longer intervals are almost always a missed state change rather than a real event
+const MAX_STATE_EVENT_MS = 7 * 24 * 60 * 60 * 1000;
+
+// How long new records wait before their stations' control charts and change points are re-checked
+const RECORD_CHECK_DELAY_MS = 2000;
+
+export interface RejectedRecord {
+  index: number;
+  id?: string;
+  errors: string[];
+}
+
+export interface IngestResult {
+  received: number;
+  inserted: number;
+  rejected: RejectedRecord[];
+}
+
+export function validateProductionRecords(rows: unknown[]): {
+  valid: NewProductionRecord[];
+  rejected: RejectedRecord[];
+} {
+  const db = getDatabase();
+
+  // Load reference data once so large batches don't hit the DB per row
+  const stations = db.prepare('SELECT id, target_cycle_time FROM stations').all() as Array<{
+    id: string;
+    target_cycle_time: number;
+  }>;
+  const targetByStation = new Map(stations.map(s => [s.id, s.target_cycle_time]));
+  const operatorIds = new Set(
+    (db.prepare('SELECT id FROM operators').all() as Array<{ id: string }>).map(o => o.id)
+  );
+  // Archived ids count as existing so re-sent history isn't ingested twice
+  const existingRecord = db.prepare('SELECT 1 FROM all_production_records WHERE id = ?');
+  const productIds = new Set(
+    (db.prepare('SELECT id FROM products').all() as Array<{ id: string }>).map(p => p.id)
+  );
+  const targetHistory = db.prepare('SELECT * FROM station_target_history ORDER BY effective_from').all() as Array<{
+    station_id: string;
+    product_id: string | null;
+    target_cycle_time: number;
+    effective_from: string;
+    effective_to: string | null;
+  }>;
+  // Target that applied to a station (and product, when given) at an ISO timestamp
+  const targetAt = (stationId: string, productId: string | null, timestamp: string) =>
+    targetHistory.find(h =>
+      h.station_id === stationId &&
+      h.product_id === productId &&
+      h.effective_from <= timestamp &&
+      (h.effective_to === null || h.effective_to > timestamp)
+    )?.target_cycle_time;
+
+  const valid: NewProductionRecord[] = [];
+  const rejected: RejectedRecord[] = [];
+  const seenIds = new Set<string>();
+  const now = Date.now();
+
+  rows.forEach((row, index) => {
+    const errors: string[] = [];
+
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+      rejected.push({ index, errors: ['Record must be an object'] });
+      return;
+    }
+
+    const r = row as Record<string, unknown>;
+    const id = typeof r.id === 'string' && r.id.trim() ? r.id.trim() : randomUUID();
+
+    if (r.id !== undefined && typeof r.id !== 'string') {
+      errors.push('id must be a string');
+    } else if (seenIds.has(id)) {
+      errors.push(`Duplicate id ${id} in batch`);
+    } else if (r.id && existingRecord.get(id)) {
+      errors.push(`Record ${id} already exists`);
+    }
+
+    const productId = typeof r.productId === 'string' && r.productId ? r.productId : undefined;
+    if (r.productId !== undefined && r.productId !== null && typeof r.productId !== 'string') {
+      errors.push('productId must be a string');
+    } else if (productId && !productIds.has(productId)) {
+      errors.push(`Unknown product ${productId}`);
+    }
+
+    const stationId = typeof r.stationId === 'string' ? r.stationId : '';
+    const stationTarget = targetByStation.get(stationId);
+    if (!stationId) {
+      errors.push('stationId is required');
+    } else if (stationTarget === undefined) {
+      errors.push(`Unknown station ${stationId}`);
+    }
+
+    const operatorId = typeof r.operatorId === 'string' ? r.operatorId : '';
+    if (!operatorId) {
+      errors.push('operatorId is required');
+    } else if (!operatorIds.has(operatorId)) {
+      errors.push(`Unknown operator ${operatorId}`);
+    }
+
+    const shift = r.shift as ProductionRecord['shift'];
+    if (!VALID_SHIFTS.includes(shift)) {
+      errors.push(`shift must be one of ${VALID_SHIFTS.join(', ')}`);
+    }
+
+    let timestamp = '';
+    const parsedTime = typeof r.timestamp === 'string' || typeof r.timestamp === 'number'
+      ? new Date(r.timestamp)
+      : null;
+    if (!parsedTime || isNaN(parsedTime.getTime())) {
+      errors.push('timestamp must be a valid date');
+    } else if (parsedTime.getTime() > now + MAX_FUTURE_SKEW_MS) {
+      errors.push('timestamp is in the future');
+    } else {
+      timestamp = parsedTime.toISOString();
+    }
+
+    // Plausibility is judged against the target in effect when the record was made,
+    // using the variant's own target where one is defined
+    const effectiveAt = timestamp || new Date(now).toISOString();
+    const targetCycleTime = stationTarget === undefined
+      ? undefined
+      : (productId && targetAt(stationId, productId, effectiveAt)) ||
+        targetAt(stationId, null, effectiveAt) ||
+        stationTarget;
+
+    const cycleTime = r.cycleTime;
+    if (typeof cycleTime !== 'number' || !isFinite(cycleTime) || cycleTime <= 0) {
+      errors.push('cycleTime must be a positive number of seconds');
+    } else if (targetCycleTime !== undefined) {
+      const min = targetCycleTime * MIN_CYCLE_TIME_RATIO;
+      const max = targetCycleTime * MAX_CYCLE_TIME_RATIO;
+      if (cycleTime < min || cycleTime > max) {
+        errors.push(`cycleTime ${cycleTime}s outside plausible range ${min}-${max}s for ${stationId}`);
+      }
+    }
+
+    const quantity = r.quantity ?? 1;
+    if (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity < 0) {
+      errors.push('quantity must be a non-negative integer');
+    }
+
+    const defects = r.defects ?? 0;
+    if (typeof defects !== 'number' || !Number.isInteger(defects) || defects < 0) {
+      errors.push('defects must be a non-negative integer');
+    } else if (typeof quantity === 'number' && defects > quantity) {
+      errors.push('defects cannot exceed quantity');
+    }
+
+    const downtimeMinutes = r.downtimeMinutes ?? 0;
+    if (typeof downtimeMinutes !== 'number' || !isFinite(downtimeMinutes) || downtimeMinutes < 0) {
+      errors.push('downtimeMinutes must be a non-negative number');
+    }
+
+    if (r.downtimeReason !== undefined && r.downtimeReason !== null && typeof r.downtimeReason !== 'string') {
+      errors.push('downtimeReason must be a string');
+    }
+
+    if (errors.length > 0) {
+      rejected.push({ index, id: typeof r.id === 'string' ? r.id : undefined, errors });
+      return;
+    }
+
+    seenIds.add(id);
+    valid.push({
+      id,
+      stationId,
+      operatorId,
+      timestamp,
+      cycleTime: cycleTime as number,
+      quantity: quantity as number,
+      defects: defects as number,
+      shift,
+      downtimeMinutes: downtimeMinutes as number,
+      downtimeReason: (r.downtimeReason as string | null | undefined) || undefined,
+      productId,
+    });
+  });
+
+  return { valid, rejected };
+}
+
+// Stations waiting for their control charts and change points to be re-checked
+const pendingChecks = new Set<string>();
+let checkTimer: ReturnType<typeof setTimeout> | null = null;
+
+function runPendingChecks() {
+  const stationIds = Array.from(pendingChecks);
+  pendingChecks.clear();
+  checkTimer = null;
+
+  const checks: Array<[string, (ids: string[]) => number]> = [
+    ['Control chart', raiseSpcAlerts],
+    ['Change-point', raiseChangePointAlerts],
+  ];
+  for (const [name, check] of checks) {
+    try {
+      check(stationIds);
+    } catch (error) {
+      console.error(`${name} check failed:`, error);
+    }
+  }
+}
+
+// Queues a re-check of the control charts and change points of stations that received records.
+// The checks read the stations' history, so they run after the response rather than inside it,
+// and batches arriving within the delay are checked once. The records are already committed,
+// so a failed check is logged rather than surfaced.
+export function checkNewRecords(stationIds: string[]) {
+  stationIds.forEach(id => pendingChecks.add(id));
+  if (!checkTimer) checkTimer = setTimeout(runPendingChecks, RECORD_CHECK_DELAY_MS);
+}
+
+export function ingestProductionRecords(rows: unknown[]): IngestResult {
+  const { valid, rejected } = validateProductionRecords(rows);
+  const inserted = valid.length > 0 ? insertProductionRecords(valid) : 0;
+  if (inserted > 0) checkNewRecords(valid.map(r => r.stationId));
+
+  return {
+    received: rows.length,
+    inserted,
+    rejected,
+  };
+}
+
+function parseTimestamp(value: unknown): Date | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function validateStationStateEvents(rows: unknown[]): {
+  valid: NewStationStateEvent[];
+  rejected: RejectedRecord[];
+} {
+  const db = getDatabase();
+
+  const stationIds = new Set(
+    (db.prepare('SELECT id FROM stations').all() as Array<{ id: string }>).map(s => s.id)
+  );
+  const existingEvent = db.prepare('SELECT 1 FROM station_state_events WHERE id = ?');
+  // A station is in exactly one state at a time, so intervals may touch but not overlap
+  const overlappingEvent = db.prepare(`
+    SELECT id FROM station_state_events
+    WHERE station_id = ? AND start_time < ? AND end_time > ?
+    LIMIT 1
+  `);
+
+  const valid: NewStationStateEvent[] = [];
+  const rejected: RejectedRecord[] = [];
+  const seenIds = new Set<string>();
+  const acceptedByStation = new Map<string, NewStationStateEvent[]>();
+  const now = Date.now();
+
+  rows.forEach((row, index) => {
+    const errors: string[] = [];
+
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+      rejected.push({ index, errors: ['Event must be an object'] });
+      return;
+    }
+
+    const r = row as Record<string, unknown>;
+    const id = typeof r.id === 'string' && r.id.trim() ? r.id.trim() : randomUUID();
+
+    if (r.id !== undefined && typeof r.id !== 'string') {
+      errors.push('id must be a string');
+    } else if (seenIds.has(id)) {
+      errors.push(`Duplicate id ${id} in batch`);
+    } else if (r.id && existingEvent.get(id)) {
+      errors.push(`Event ${id} already exists`);
+    }
+
+    const stationId = typeof r.stationId === 'string' ? r.stationId : '';
+    if (!stationId) {
+      errors.push('stationId is required');
+    } else if (!stationIds.has(stationId)) {
+      errors.push(`Unknown station ${stationId}`);
+    }
+
+    const state = r.state as StationState;
+    if (!VALID_STATION_STATES.includes(state)) {
+      errors.push(`state must be one of ${VALID_STATION_STATES.join(', ')}`);
+    }
+
+    // The end may be given directly or as a duration from the start
+    const start = parseTimestamp(r.startTime);
+    let end = parseTimestamp(r.endTime);
+    if (r.endTime === undefined && r.durationSeconds !== undefined) {
+      const duration = r.durationSeconds;
+      if (typeof duration !== 'number' || !isFinite(duration) || duration <= 0) {
+        errors.push('durationSeconds must be a positive number');
+      } else if (start) {
+        end = new Date(start.getTime() + duration * 1000);
+      }
+    }
+
+    let startTime = '';
+    let endTime = '';
+    if (!start) {
+      errors.push('startTime must be a valid date');
+    } else if (!end) {
+      if (r.endTime !== undefined || r.durationSeconds === undefined) {
+        errors.push('endTime must be a valid date, or give durationSeconds');
+      }
+    } else if (end.getTime() <= start.getTime()) {
+      errors.push('endTime must be after startTime');
+    } else if (end.getTime() > now + MAX_FUTURE_SKEW_MS) {
+      errors.push('endTime is in the future');
+    } else if (end.getTime() - start.getTime() > MAX_STATE_EVENT_MS) {
+      errors.push('event cannot be longer than 7 days');
+    } else {
+      startTime = start.toISOString();
+      endTime = end.toISOString();
+    }
+
+    if (r.reason !== undefined && r.reason !== null && typeof r.reason !== 'string') {
+      errors.push('reason must be a string');
+    }
+
+    if (startTime && stationId && errors.length === 0) {
+      const clash = acceptedByStation.get(stationId)?.find(e => e.startTime < endTime && e.endTime > startTime);
+      if (clash) {
+        errors.push(`Overlaps event ${clash.id} in batch`);
+      } else {
+        const existing = overlappingEvent.get(stationId, endTime, startTime) as { id: string } | undefined;
+        if (existing) errors.push(`Overlaps existing event ${existing.id}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      rejected.push({ index, id: typeof r.id === 'string' ? r.id : undefined, errors });
+      return;
+    }
+
+    const event = {
+      id,
+      stationId,
+      state,
+      startTime,
+      endTime,
+      reason: (r.reason as string | null | undefined) || undefined,
+    };
+    seenIds.add(id);
+    valid.push(event);
+    const accepted = acceptedByStation.get(stationId) ?? [];
+    accepted.push(event);
+    acceptedByStation.set(stationId, accepted);
+  });
+
+  return { valid, rejected };
+}
+
+export function ingestStationStateEvents(rows: unknown[]): IngestResult {
+  const { valid, rejected } = validateStationStateEvents(rows);
+  const inserted = valid.length > 0 ? insertStationStateEvents(valid) : 0;
+
+  return {
+    received: rows.length,
+    inserted,
+    rejected,
+  };
+}
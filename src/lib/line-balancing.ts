@@ -0,0 +1,528 @@
+// ============================================
+// LineBalancer AI - Line Balancing
+// Assigns work elements to stations under their
+// precedences: fewest stations for a takt
+// (SALBP-1) or shortest cycle for a station
+// count (SALBP-2)
+// ============================================
+
+import { getAllStations, getStationPeriodMetrics, getWorkElements } from '@/lib/database';
+import type {
+  BalanceMetrics,
+  BalancedStation,
+  BalancingProblem,
+  LineBalance,
+  SimulationChange,
+  WorkElement,
+} from '@/types';
+
+export const BALANCING_PROBLEMS: BalancingProblem[] = ['salbp1', 'salbp2'];
+
+export const MAX_WORK_ELEMENTS = 200;
+
+// The exact search gives up after this many station loads over one solve, SALBP-2's bisection
+// included, and keeps the best balance found
+const MAX_SEARCH_NODES = 20000;
+
+// SALBP-2 narrows the cycle time down to this many seconds
+const CYCLE_TIME_TOLERANCE = 0.01;
+
+// Element times on one of these steps give loads on the same step
+const TIME_STEPS = [1, 0.1, 0.01];
+
+// Loads are sums of decimal seconds
+const EPSILON = 1e-9;
+
+// Observed cycle times come from the same window the simulator uses
+const OBSERVED_HOURS = 24;
+
+interface BalancingStation {
+  id: string;
+  name: string;
+  position: number;
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// Kahn's algorithm over the precedences, keeping the given order among free elements;
+// returns null when the precedences have a cycle
+function topologicalOrder(elements: WorkElement[]): WorkElement[] | null {
+  const byId = new Map(elements.map(e => [e.id, e]));
+  const indegree = new Map(elements.map(e => [e.id, e.predecessors.length]));
+  const successors = new Map<string, string[]>(elements.map(e => [e.id, []]));
+  for (const element of elements) {
+    for (const predecessor of element.predecessors) successors.get(predecessor)?.push(element.id);
+  }
+
+  const order: WorkElement[] = [];
+  const ready = elements.filter(e => e.predecessors.length === 0).map(e => e.id);
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    order.push(byId.get(id)!);
+    for (const successor of successors.get(id)!) {
+      const remaining = indegree.get(successor)! - 1;
+      indegree.set(successor, remaining);
+      if (remaining === 0) ready.push(successor);
+    }
+  }
+  return order.length === elements.length ? order : null;
+}
+
+// Checks a line's work elements; returns the first problem found
+export function validateWorkElements(stations: BalancingStation[], elements: WorkElement[]): string | null {
+  if (elements.length > MAX_WORK_ELEMENTS) return `A line can have at most ${MAX_WORK_ELEMENTS} work elements`;
+
+  const stationIds = new Set(stations.map(s => s.id));
+  const ids = new Set<string>();
+  for (const element of elements) {
+    if (typeof element.id !== 'string' || !element.id.trim()) return 'Every work element needs an id';
+    if (ids.has(element.id)) return `Work element ${element.id} is listed twice`;
+    ids.add(element.id);
+    if (typeof element.name !== 'string' || !element.name.trim()) return `Work element ${element.id} needs a name`;
+    if (typeof element.duration !== 'number' || !isFinite(element.duration) || element.duration <= 0) {
+      return `Work element ${element.id} needs a duration greater than 0`;
+    }
+    if (element.stationId !== null && !stationIds.has(element.stationId)) {
+      return `Unknown station ${element.stationId} on this line`;
+    }
+    if (!Array.isArray(element.predecessors) || element.predecessors.some(p => typeof p !== 'string')) {
+      return `predecessors of ${element.id} must be a list of element ids`;
+    }
+    if (new Set(element.predecessors).size !== element.predecessors.length) {
+      return `Work element ${element.id} lists a predecessor twice`;
+    }
+  }
+
+  for (const element of elements) {
+    for (const predecessor of element.predecessors) {
+      if (predecessor === element.id) return `Work element ${element.id} cannot precede itself`;
+      if (!ids.has(predecessor)) return `Unknown work element ${predecessor} before ${element.id}`;
+    }
+  }
+
+  if (!topologicalOrder(elements)) return 'The precedences form a cycle';
+  return null;
+}
+
+export function getLineWorkElements(lineId: string): WorkElement[] {
+  const { elements, precedences } = getWorkElements(lineId);
+  return elements.map(e => ({
+    id: e.id,
+    name: e.name,
+    duration: e.duration,
+    stationId: e.station_id,
+    predecessors: precedences.filter(p => p.successor_id === e.id).map(p => p.predecessor_id),
+  }));
+}
+
+// ============================================
+// Solvers
+// ============================================
+
+// Elements in precedence order, with each element's predecessors and positional weight as indexes
+interface Task {
+  element: WorkElement;
+  duration: number;
+  predecessors: number[];
+  positionalWeight: number; // its own time plus that of everything after it
+}
+
+function buildTasks(elements: WorkElement[]): Task[] {
+  const order = topologicalOrder(elements)!;
+  const index = new Map(order.map((e, i) => [e.id, i]));
+  const tasks: Task[] = order.map(element => ({
+    element,
+    duration: element.duration,
+    predecessors: element.predecessors.map(p => index.get(p)!),
+    positionalWeight: 0,
+  }));
+
+  // Followers of each task, built back to front so each set is complete when read
+  const followers: Set<number>[] = tasks.map(() => new Set<number>());
+  for (let i = tasks.length - 1; i >= 0; i--) {
+    for (const p of tasks[i].predecessors) {
+      followers[p].add(i);
+      followers[i].forEach(f => followers[p].add(f));
+    }
+  }
+  tasks.forEach((task, i) => {
+    task.positionalWeight = task.duration + Array.from(followers[i]).reduce((sum, f) => sum + tasks[f].duration, 0);
+  });
+  return tasks;
+}
+
+function isAvailable(task: Task, assigned: boolean[]): boolean {
+  return task.predecessors.every(p => assigned[p]);
+}
+
+// Ranked positional weight heuristic: fill each station with the heaviest-weighted element that
+// is free and fits, then open the next
+function rankedPositionalWeight(tasks: Task[], cycleTime: number): number[][] {
+  const assigned = tasks.map(() => false);
+  const ranked = tasks.map((_, i) => i).sort((a, b) => tasks[b].positionalWeight - tasks[a].positionalWeight || a - b);
+  const stations: number[][] = [];
+  let current: number[] = [];
+  let load = 0;
+  let left = tasks.length;
+
+  while (left > 0) {
+    const next = ranked.find(i => !assigned[i] && isAvailable(tasks[i], assigned) && load + tasks[i].duration <= cycleTime + EPSILON);
+    if (next === undefined) {
+      stations.push(current);
+      current = [];
+      load = 0;
+      continue;
+    }
+    assigned[next] = true;
+    current.push(next);
+    load += tasks[next].duration;
+    left--;
+  }
+  stations.push(current);
+  return stations;
+}
+
+function stationLowerBound(tasks: Task[], cycleTime: number): number {
+  const total = tasks.reduce((sum, t) => sum + t.duration, 0);
+  // No two elements longer than half the cycle time fit in one station
+  const long = tasks.filter(t => t.duration > cycleTime / 2 + EPSILON).length;
+  return Math.max(Math.ceil(total / cycleTime - EPSILON), long);
+}
+
+// Every load for the next station that no further free element fits into, up to `limit` of
+// them. Elements are added in precedence order, so each load is generated once.
+function maximalLoads(tasks: Task[], assigned: boolean[], cycleTime: number, limit: number): number[][] {
+  const loads: number[][] = [];
+  const chosen: number[] = [];
+
+  function extend(from: number, load: number) {
+    let extended = false;
+    for (let i = from; i < tasks.length && loads.length < limit; i++) {
+      if (assigned[i] || !isAvailable(tasks[i], assigned) || load + tasks[i].duration > cycleTime + EPSILON) continue;
+      extended = true;
+      assigned[i] = true;
+      chosen.push(i);
+      extend(i + 1, load + tasks[i].duration);
+      chosen.pop();
+      assigned[i] = false;
+    }
+    if (extended) return;
+    // Skipped earlier elements that still fit would make this load a subset of another
+    const fits = tasks.some((task, i) => !assigned[i] && isAvailable(task, assigned) && load + task.duration <= cycleTime + EPSILON);
+    if (!fits && chosen.length > 0) loads.push([...chosen]);
+  }
+
+  extend(0, 0);
+  return loads;
+}
+
+interface StationSearch {
+  stations: number[][] | null; // the best assignment found, if any beats the limit
+  exhausted: boolean; // the node budget stopped the search
+}
+
+// Station loads a solve may still generate, shared by every search it runs
+interface SearchBudget {
+  nodes: number;
+}
+
+// Station-oriented branch and bound for the fewest stations at a cycle time, looking for fewer
+// than `limit` and stopping once it reaches `enough`. Assigned sets already reached with as
+// few stations are not searched again.
+function searchStations(
+  tasks: Task[],
+  cycleTime: number,
+  limit: number,
+  enough: number,
+  budget: SearchBudget
+): StationSearch {
+  const total = tasks.reduce((sum, t) => sum + t.duration, 0);
+  const assigned = tasks.map(() => false);
+  const seen = new Map<string, number>();
+  const path: number[][] = [];
+  let best: number[][] | null = null;
+  let bestCount = limit;
+  let exhausted = false;
+
+  function search(remaining: number) {
+    if (exhausted) return;
+    if (remaining <= EPSILON) {
+      best = path.map(station => [...station]);
+      bestCount = path.length;
+      return;
+    }
+    if (path.length + Math.ceil(remaining / cycleTime - EPSILON) >= bestCount) return;
+
+    const key = assigned.map(a => (a ? '1' : '0')).join('');
+    const reached = seen.get(key);
+    if (reached !== undefined && reached <= path.length) return;
+    seen.set(key, path.length);
+
+    const generated = maximalLoads(tasks, assigned, cycleTime, budget.nodes);
+    budget.nodes -= generated.length;
+    if (budget.nodes <= 0) {
+      exhausted = true;
+      return;
+    }
+    const loads = generated
+      .map(load => ({ load, time: load.reduce((sum, i) => sum + tasks[i].duration, 0) }))
+      .sort((a, b) => b.time - a.time);
+    for (const { load, time } of loads) {
+      load.forEach(i => { assigned[i] = true; });
+      path.push(load);
+      search(remaining - time);
+      path.pop();
+      load.forEach(i => { assigned[i] = false; });
+      if (exhausted || bestCount <= enough) return;
+    }
+  }
+
+  search(total);
+  return { stations: best, exhausted };
+}
+
+interface Solution {
+  stations: number[][];
+  optimal: boolean;
+}
+
+// SALBP-1: the heuristic gives a first balance, which the search then tries to beat
+function solveForCycleTime(tasks: Task[], cycleTime: number): Solution {
+  const heuristic = rankedPositionalWeight(tasks, cycleTime);
+  if (heuristic.length <= stationLowerBound(tasks, cycleTime)) return { stations: heuristic, optimal: true };
+
+  const budget = { nodes: MAX_SEARCH_NODES };
+  const search = searchStations(tasks, cycleTime, heuristic.length, stationLowerBound(tasks, cycleTime), budget);
+  return { stations: search.stations ?? heuristic, optimal: !search.exhausted };
+}
+
+// SALBP-2: bisects the cycle time between its lower bound and the whole work content,
+// keeping the shortest at which the stations are enough. Once the budget is spent, only the
+// heuristic is tried at the remaining cycle times.
+function solveForStationCount(tasks: Task[], stationCount: number): Solution & { lowerBound: number } {
+  const total = tasks.reduce((sum, t) => sum + t.duration, 0);
+  const lowerBound = Math.max(total / stationCount, ...tasks.map(t => t.duration));
+  // Loads are sums of element times, so with times in whole seconds (or tenths, or hundredths)
+  // nothing shorter than the bound rounded up to that step is possible, and the bisection
+  // can stop a step apart
+  const step = TIME_STEPS.find(size => tasks.every(t => Math.abs(t.duration / size - Math.round(t.duration / size)) < 1e-6));
+  const shortest = step ? Math.ceil(lowerBound / step - EPSILON) * step : lowerBound;
+  const budget = { nodes: MAX_SEARCH_NODES };
+  let optimal = true;
+
+  const tryCycleTime = (cycleTime: number): number[][] | null => {
+    const heuristic = rankedPositionalWeight(tasks, cycleTime);
+    if (heuristic.length <= stationCount) return heuristic;
+    if (stationLowerBound(tasks, cycleTime) > stationCount) return null;
+    if (budget.nodes <= 0) {
+      optimal = false;
+      return null;
+    }
+    const search = searchStations(tasks, cycleTime, stationCount + 1, stationCount, budget);
+    if (search.exhausted && !search.stations) optimal = false;
+    return search.stations;
+  };
+
+  const maxLoad = (stations: number[][]) =>
+    Math.max(...stations.map(s => s.reduce((sum, i) => sum + tasks[i].duration, 0)));
+
+  let best = tryCycleTime(shortest);
+  if (best) return { stations: best, optimal: true, lowerBound: shortest };
+
+  best = rankedPositionalWeight(tasks, total);
+  let low = shortest;
+  let high = total;
+  while (high - low > (step ?? CYCLE_TIME_TOLERANCE) + EPSILON) {
+    const middle = step ? Math.floor((low + high) / 2 / step + EPSILON) * step : (low + high) / 2;
+    const stations = tryCycleTime(middle);
+    if (stations) {
+      best = stations;
+      high = maxLoad(stations);
+    } else {
+      low = middle;
+    }
+  }
+  // A balance at the bound is optimal however the searches on the way ended
+  return { stations: best, optimal: optimal || maxLoad(best) <= shortest + EPSILON, lowerBound: shortest };
+}
+
+// ============================================
+// Metrics
+// ============================================
+
+// Efficiency is work content over the station time paid for at the cycle time; the
+// smoothness index is 0 when every station is as loaded as the longest
+function getBalanceMetrics(loads: number[], cycleTime: number): BalanceMetrics {
+  const total = loads.reduce((sum, l) => sum + l, 0);
+  const maxStationTime = Math.max(0, ...loads);
+  const balanceEfficiency = round(loads.length > 0 && cycleTime > 0 ? (total / (loads.length * cycleTime)) * 100 : 0);
+  return {
+    stationCount: loads.length,
+    cycleTime: round(cycleTime, 2),
+    maxStationTime: round(maxStationTime, 2),
+    balanceEfficiency,
+    balanceDelay: round(100 - balanceEfficiency),
+    smoothnessIndex: round(Math.sqrt(loads.reduce((sum, l) => sum + (maxStationTime - l) ** 2, 0)), 2),
+  };
+}
+
+// Today's balance, at the pace of its longest station; null while any element is unassigned
+function getCurrentMetrics(stations: BalancingStation[], elements: WorkElement[]): BalanceMetrics | null {
+  if (elements.some(e => e.stationId === null)) return null;
+  const loads = stations
+    .map(s => elements.filter(e => e.stationId === s.id).reduce((sum, e) => sum + e.duration, 0))
+    .filter(load => load > 0);
+  return getBalanceMetrics(loads, Math.max(0, ...loads));
+}
+
+// Proposed station i takes the place of the line's i-th station. Standard times are scaled by how
+// far each station's observed cycle time runs from its elements today, so the simulator compares
+// like with like; stations left over are removed.
+function getSimulationChanges(
+  stations: BalancingStation[],
+  elements: WorkElement[],
+  balanced: BalancedStation[],
+  now: Date
+): { changes: SimulationChange[] | null; note: string | null } {
+  if (balanced.length > stations.length) {
+    return {
+      changes: null,
+      note: `The balance needs ${balanced.length} stations and the line has ${stations.length}; add stations to simulate it`,
+    };
+  }
+
+  const window = {
+    from: new Date(now.getTime() - OBSERVED_HOURS * 60 * 60 * 1000).toISOString(),
+    to: now.toISOString(),
+  };
+  const ratios = new Map<string, { observed: number; standard: number }>();
+  for (const station of stations) {
+    const standard = elements.filter(e => e.stationId === station.id).reduce((sum, e) => sum + e.duration, 0);
+    const observed = getStationPeriodMetrics(station.id, window).avg_cycle_time;
+    if (standard > 0 && observed) ratios.set(station.id, { observed, standard });
+  }
+  const totals = Array.from(ratios.values()).reduce(
+    (sum, r) => ({ observed: sum.observed + r.observed, standard: sum.standard + r.standard }),
+    { observed: 0, standard: 0 }
+  );
+  const lineRatio = totals.standard > 0 ? totals.observed / totals.standard : 1;
+
+  const changes = stations.map((station, i): SimulationChange => {
+    const proposed = balanced[i];
+    if (!proposed || proposed.load === 0) {
+      return { type: 'remove_station', stationId: station.id, value: 0, description: `Remove ${station.name}` };
+    }
+    const ratio = ratios.get(station.id);
+    const scale = ratio ? ratio.observed / ratio.standard : lineRatio;
+    return {
+      type: 'change_cycle_time',
+      stationId: station.id,
+      value: round(proposed.load * scale),
+      description: `${station.name} takes ${proposed.elementIds.join(', ')}`,
+    };
+  });
+  return { changes, note: null };
+}
+
+// ============================================
+// Balancing
+// ============================================
+
+export interface BalanceRequest {
+  problem: BalancingProblem;
+  cycleTime?: number; // SALBP-1 takt, seconds
+  stationCount?: number; // SALBP-2
+}
+
+// Stations in flow order with the elements each takes and its load in seconds
+export interface ElementBalance {
+  stations: Array<{ elementIds: string[]; load: number }>;
+  cycleTime: number;
+  totalWorkContent: number;
+  lowerBound: number; // stations for SALBP-1, seconds of cycle time for SALBP-2
+  optimal: boolean;
+}
+
+// Solves the balance from the elements' standard times and precedences alone
+export function balanceElements(
+  elements: WorkElement[],
+  request: BalanceRequest
+): ElementBalance | { error: string; status: number } {
+  if (elements.length === 0) return { error: 'The line has no work elements to balance', status: 422 };
+
+  const tasks = buildTasks(elements);
+  const totalWorkContent = tasks.reduce((sum, t) => sum + t.duration, 0);
+  let solution: Solution;
+  let cycleTime: number;
+  let lowerBound: number;
+
+  if (request.problem === 'salbp1') {
+    cycleTime = request.cycleTime!;
+    const longest = tasks.reduce((a, b) => (b.duration > a.duration ? b : a));
+    if (longest.duration > cycleTime + EPSILON) {
+      return {
+        error: `Work element ${longest.element.id} takes ${longest.duration}s, longer than the ${cycleTime}s takt`,
+        status: 422,
+      };
+    }
+    solution = solveForCycleTime(tasks, cycleTime);
+    lowerBound = stationLowerBound(tasks, cycleTime);
+  } else {
+    const result = solveForStationCount(tasks, request.stationCount!);
+    // Stations the balance leaves empty still count against a fixed station count
+    while (result.stations.length < request.stationCount!) result.stations.push([]);
+    solution = result;
+    lowerBound = round(result.lowerBound, 2);
+    cycleTime = Math.max(...result.stations.map(s => s.reduce((sum, i) => sum + tasks[i].duration, 0)));
+  }
+
+  return {
+    stations: solution.stations.map(station => ({
+      elementIds: [...station].sort((a, b) => a - b).map(t => tasks[t].element.id),
+      load: station.reduce((sum, t) => sum + tasks[t].duration, 0),
+    })),
+    cycleTime,
+    totalWorkContent,
+    lowerBound,
+    optimal: solution.optimal,
+  };
+}
+
+export function balanceLine(
+  lineId: string,
+  request: BalanceRequest,
+  now = new Date()
+): { balance: LineBalance } | { error: string; status: number } {
+  const stations = getAllStations(lineId) as BalancingStation[];
+  const elements = getLineWorkElements(lineId);
+  const result = balanceElements(elements, request);
+  if ('error' in result) return result;
+
+  const balanced: BalancedStation[] = result.stations.map((station, i) => ({
+    index: i + 1,
+    elementIds: station.elementIds,
+    load: round(station.load, 2),
+    idle: round(result.cycleTime - station.load, 2),
+    stationId: stations[i]?.id ?? null,
+    stationName: stations[i]?.name ?? null,
+  }));
+
+  const { changes, note } = getSimulationChanges(stations, elements, balanced, now);
+  return {
+    balance: {
+      lineId,
+      problem: request.problem,
+      ...getBalanceMetrics(result.stations.map(s => s.load), result.cycleTime),
+      totalWorkContent: round(result.totalWorkContent, 2),
+      lowerBound: result.lowerBound,
+      optimal: result.optimal,
+      stations: balanced,
+      current: getCurrentMetrics(stations, elements),
+      simulationChanges: changes,
+      simulationNote: note,
+    },
+  };
+}
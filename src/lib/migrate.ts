@@ -0,0 +1,44 @@
+// ============================================
+// LineBalancer AI - Migration CLI
+// npm run db:migrate   apply pending migrations
+// npm run db:status    list applied and pending
+// ============================================
+
+import Database from 'better-sqlite3';
+import { DB_PATH, getCurrentVersion, getPendingMigrations, runMigrations } from './migrations';
+
+const db = new Database(DB_PATH);
+const command = process.argv[2] || 'up';
+
+if (command === 'status') {
+  const current = getCurrentVersion(db);
+  const pending = getPendingMigrations(db);
+
+  console.log(`Database: ${DB_PATH}`);
+  console.log(`Current schema version: ${current}`);
+
+  if (pending.length === 0) {
+    console.log('No pending migrations');
+  } else {
+    console.log(`${pending.length} pending migration${pending.length !== 1 ? 's' : ''}:`);
+    for (const migration of pending) {
+      console.log(`  ${migration.version}: ${migration.name}`);
+    }
+  }
+} else if (command === 'up') {
+  const applied = runMigrations(db);
+
+  if (applied.length === 0) {
+    console.log('Schema is up to date');
+  } else {
+    for (const migration of applied) {
+      console.log(`Applied migration ${migration.version}: ${migration.name}`);
+    }
+    console.log(`\n✅ Schema now at version ${getCurrentVersion(db)}`);
+  }
+} else {
+  console.error(`Unknown command "${command}". Use "up" or "status".`);
+  process.exitCode = 1;
+}
+
+db.close();
@@ -0,0 +1,1086 @@
+// ============================================
+// LineBalancer AI - Schema Migrations
+// Ordered, versioned up-migrations shared by
+// the runtime, the seeder and the CLI
+// ============================================
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+export const DB_PATH = path.join(process.cwd(), 'linebalancer.db');
+
+// Raw production records past the retention window move here; attached as schema "archive"
+export const ARCHIVE_DB_PATH = path.join(process.cwd(), 'linebalancer-archive.db');
+
+// Start of the first range in effective-dated history tables
+export const HISTORY_START = '1970-01-01T00:00:00.000Z';
+
+// The day a record's shift started, as SQL. Night shifts run 22:00-06:00, so their early-morning
+// records belong to the shift that started the day before.
+export function shiftDateSql(timestamp: string, shift: string): string {
+  return `CASE WHEN ${shift} = 'night' AND time(${timestamp}) < '12:00:00' THEN date(${timestamp}, '-1 day') ELSE date(${timestamp}) END`;
+}
+
+// Raw record columns that backfills read from both the live table and the archive
+const BACKFILL_COLUMNS = 'station_id, operator_id, timestamp, cycle_time, quantity, defects, shift, product_id';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+// Append new migrations to the end with the next version number.
+// Never edit a migration once it has shipped; plant databases have already run it.
+// Statements use IF NOT EXISTS so databases created before versioning upgrade in place.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS stations (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          description TEXT,
+          target_cycle_time REAL NOT NULL,
+          position INTEGER NOT NULL,
+          operator_count INTEGER DEFAULT 1,
+          status TEXT DEFAULT 'running',
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS operators (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          shift TEXT NOT NULL,
+          skill_level INTEGER DEFAULT 3,
+          station_id TEXT,
+          efficiency REAL DEFAULT 100,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (station_id) REFERENCES stations(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS production_records (
+          id TEXT PRIMARY KEY,
+          station_id TEXT NOT NULL,
+          operator_id TEXT NOT NULL,
+          timestamp DATETIME NOT NULL,
+          cycle_time REAL NOT NULL,
+          quantity INTEGER DEFAULT 1,
+          defects INTEGER DEFAULT 0,
+          shift TEXT NOT NULL,
+          downtime_minutes REAL DEFAULT 0,
+          downtime_reason TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (station_id) REFERENCES stations(id),
+          FOREIGN KEY (operator_id) REFERENCES operators(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS alerts (
+          id TEXT PRIMARY KEY,
+          type TEXT NOT NULL,
+          severity TEXT NOT NULL,
+          station_id TEXT,
+          message TEXT NOT NULL,
+          details TEXT,
+          timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+          acknowledged INTEGER DEFAULT 0,
+          resolved_at DATETIME,
+          FOREIGN KEY (station_id) REFERENCES stations(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS simulations (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          description TEXT,
+          changes TEXT NOT NULL,
+          baseline TEXT NOT NULL,
+          projected TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS nlp_queries (
+          id TEXT PRIMARY KEY,
+          query TEXT NOT NULL,
+          parsed_intent TEXT,
+          generated_sql TEXT,
+          result TEXT,
+          explanation TEXT,
+          timestamp DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_production_station ON production_records(station_id);
+        CREATE INDEX IF NOT EXISTS idx_production_timestamp ON production_records(timestamp);
+        CREATE INDEX IF NOT EXISTS idx_production_shift ON production_records(shift);
+        CREATE INDEX IF NOT EXISTS idx_alerts_type ON alerts(type);
+        CREATE INDEX IF NOT EXISTS idx_alerts_severity ON alerts(severity);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'import_mappings',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS import_mappings (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL UNIQUE,
+          column_map TEXT NOT NULL,
+          timestamp_format TEXT DEFAULT 'auto',
+          timezone TEXT DEFAULT 'UTC',
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_production_station_timestamp ON production_records(station_id, timestamp);
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: 'production_rollups',
+    up: (db) => {
+      // Per-station aggregates maintained on insert so analytics never scan raw records.
+      // Sums and sums of squares let mean and standard deviation be recombined over any range.
+      // There is deliberately no delete trigger: rollups outlive archived raw records.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS station_hourly_rollups (
+          station_id TEXT NOT NULL,
+          hour TEXT NOT NULL,
+          shift TEXT NOT NULL,
+          record_count INTEGER NOT NULL DEFAULT 0,
+          quantity INTEGER NOT NULL DEFAULT 0,
+          cycle_time_sum REAL NOT NULL DEFAULT 0,
+          cycle_time_sum_sq REAL NOT NULL DEFAULT 0,
+          cycle_time_min REAL,
+          cycle_time_max REAL,
+          defects INTEGER NOT NULL DEFAULT 0,
+          downtime_minutes REAL NOT NULL DEFAULT 0,
+          downtime_events INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (station_id, hour, shift),
+          FOREIGN KEY (station_id) REFERENCES stations(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS station_shift_rollups (
+          station_id TEXT NOT NULL,
+          shift_date TEXT NOT NULL,
+          shift TEXT NOT NULL,
+          record_count INTEGER NOT NULL DEFAULT 0,
+          quantity INTEGER NOT NULL DEFAULT 0,
+          cycle_time_sum REAL NOT NULL DEFAULT 0,
+          cycle_time_sum_sq REAL NOT NULL DEFAULT 0,
+          cycle_time_min REAL,
+          cycle_time_max REAL,
+          defects INTEGER NOT NULL DEFAULT 0,
+          downtime_minutes REAL NOT NULL DEFAULT 0,
+          downtime_events INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (station_id, shift_date, shift),
+          FOREIGN KEY (station_id) REFERENCES stations(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_hourly_rollups_hour ON station_hourly_rollups(hour);
+        CREATE INDEX IF NOT EXISTS idx_shift_rollups_date ON station_shift_rollups(shift_date);
+
+        INSERT INTO station_hourly_rollups
+        SELECT station_id, strftime('%Y-%m-%d %H:00:00', timestamp), shift,
+          COUNT(*), SUM(quantity), SUM(cycle_time), SUM(cycle_time * cycle_time),
+          MIN(cycle_time), MAX(cycle_time), SUM(defects), SUM(downtime_minutes),
+          SUM(CASE WHEN downtime_minutes > 0 THEN 1 ELSE 0 END)
+        FROM production_records
+        GROUP BY station_id, strftime('%Y-%m-%d %H:00:00', timestamp), shift;
+
+        INSERT INTO station_shift_rollups
+        SELECT station_id, date(timestamp), shift,
+          COUNT(*), SUM(quantity), SUM(cycle_time), SUM(cycle_time * cycle_time),
+          MIN(cycle_time), MAX(cycle_time), SUM(defects), SUM(downtime_minutes),
+          SUM(CASE WHEN downtime_minutes > 0 THEN 1 ELSE 0 END)
+        FROM production_records
+        GROUP BY station_id, date(timestamp), shift;
+
+        CREATE TRIGGER IF NOT EXISTS trg_production_rollups
+        AFTER INSERT ON production_records
+        BEGIN
+          INSERT INTO station_hourly_rollups (
+            station_id, hour, shift, record_count, quantity, cycle_time_sum, cycle_time_sum_sq,
+            cycle_time_min, cycle_time_max, defects, downtime_minutes, downtime_events
+          ) VALUES (
+            NEW.station_id, strftime('%Y-%m-%d %H:00:00', NEW.timestamp), NEW.shift, 1, NEW.quantity,
+            NEW.cycle_time, NEW.cycle_time * NEW.cycle_time, NEW.cycle_time, NEW.cycle_time,
+            NEW.defects, NEW.downtime_minutes, NEW.downtime_minutes > 0
+          )
+          ON CONFLICT (station_id, hour, shift) DO UPDATE SET
+            record_count = record_count + 1,
+            quantity = quantity + excluded.quantity,
+            cycle_time_sum = cycle_time_sum + excluded.cycle_time_sum,
+            cycle_time_sum_sq = cycle_time_sum_sq + excluded.cycle_time_sum_sq,
+            cycle_time_min = MIN(cycle_time_min, excluded.cycle_time_min),
+            cycle_time_max = MAX(cycle_time_max, excluded.cycle_time_max),
+            defects = defects + excluded.defects,
+            downtime_minutes = downtime_minutes + excluded.downtime_minutes,
+            downtime_events = downtime_events + excluded.downtime_events;
+
+          INSERT INTO station_shift_rollups (
+            station_id, shift_date, shift, record_count, quantity, cycle_time_sum, cycle_time_sum_sq,
+            cycle_time_min, cycle_time_max, defects, downtime_minutes, downtime_events
+          ) VALUES (
+            NEW.station_id, date(NEW.timestamp), NEW.shift, 1, NEW.quantity,
+            NEW.cycle_time, NEW.cycle_time * NEW.cycle_time, NEW.cycle_time, NEW.cycle_time,
+            NEW.defects, NEW.downtime_minutes, NEW.downtime_minutes > 0
+          )
+          ON CONFLICT (station_id, shift_date, shift) DO UPDATE SET
+            record_count = record_count + 1,
+            quantity = quantity + excluded.quantity,
+            cycle_time_sum = cycle_time_sum + excluded.cycle_time_sum,
+            cycle_time_sum_sq = cycle_time_sum_sq + excluded.cycle_time_sum_sq,
+            cycle_time_min = MIN(cycle_time_min, excluded.cycle_time_min),
+            cycle_time_max = MAX(cycle_time_max, excluded.cycle_time_max),
+            defects = defects + excluded.defects,
+            downtime_minutes = downtime_minutes + excluded.downtime_minutes,
+            downtime_events = downtime_events + excluded.downtime_events;
+        END;
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'plants_and_lines',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS plants (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          location TEXT,
+          timezone TEXT DEFAULT 'UTC',
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS lines (
+          id TEXT PRIMARY KEY,
+          plant_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          description TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (plant_id) REFERENCES plants(id)
+        );
+
+        ALTER TABLE stations ADD COLUMN line_id TEXT REFERENCES lines(id);
+        ALTER TABLE operators ADD COLUMN line_id TEXT REFERENCES lines(id);
+        ALTER TABLE alerts ADD COLUMN line_id TEXT REFERENCES lines(id);
+        ALTER TABLE simulations ADD COLUMN line_id TEXT REFERENCES lines(id);
+        ALTER TABLE nlp_queries ADD COLUMN line_id TEXT REFERENCES lines(id);
+
+        CREATE INDEX IF NOT EXISTS idx_lines_plant ON lines(plant_id);
+        CREATE INDEX IF NOT EXISTS idx_stations_line ON stations(line_id);
+        CREATE INDEX IF NOT EXISTS idx_operators_line ON operators(line_id);
+        CREATE INDEX IF NOT EXISTS idx_alerts_line ON alerts(line_id);
+      `);
+
+      // Single-line installations get a default plant and line holding everything they already have
+      const hasStations = (db.prepare('SELECT COUNT(*) as count FROM stations').get() as { count: number }).count > 0;
+      if (hasStations) {
+        db.exec(`
+          INSERT OR IGNORE INTO plants (id, name) VALUES ('PL01', 'Main Plant');
+          INSERT OR IGNORE INTO lines (id, plant_id, name) VALUES ('LN01', 'PL01', 'Line 1');
+          UPDATE stations SET line_id = 'LN01' WHERE line_id IS NULL;
+          UPDATE operators SET line_id = COALESCE(
+            (SELECT line_id FROM stations WHERE stations.id = operators.station_id), 'LN01'
+          ) WHERE line_id IS NULL;
+          UPDATE alerts SET line_id = COALESCE(
+            (SELECT line_id FROM stations WHERE stations.id = alerts.station_id), 'LN01'
+          ) WHERE line_id IS NULL;
+          UPDATE simulations SET line_id = 'LN01' WHERE line_id IS NULL;
+          UPDATE nlp_queries SET line_id = 'LN01' WHERE line_id IS NULL;
+        `);
+      }
+    },
+  },
+  {
+    version: 5,
+    name: 'product_variants',
+    up: (db) => {
+      // Targets differ per product variant. Rollups carry the sum of the target that applied
+      // to each record so variance can be computed against the mix actually built.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS products (
+          id TEXT PRIMARY KEY,
+          line_id TEXT,
+          sku TEXT NOT NULL UNIQUE,
+          name TEXT NOT NULL,
+          description TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (line_id) REFERENCES lines(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS station_product_targets (
+          station_id TEXT NOT NULL,
+          product_id TEXT NOT NULL,
+          target_cycle_time REAL NOT NULL,
+          PRIMARY KEY (station_id, product_id),
+          FOREIGN KEY (station_id) REFERENCES stations(id),
+          FOREIGN KEY (product_id) REFERENCES products(id)
+        );
+
+        ALTER TABLE production_records ADD COLUMN product_id TEXT REFERENCES products(id);
+        CREATE INDEX IF NOT EXISTS idx_production_product ON production_records(product_id);
+        CREATE INDEX IF NOT EXISTS idx_products_line ON products(line_id);
+
+        ALTER TABLE station_hourly_rollups ADD COLUMN target_cycle_time_sum REAL NOT NULL DEFAULT 0;
+        ALTER TABLE station_shift_rollups ADD COLUMN target_cycle_time_sum REAL NOT NULL DEFAULT 0;
+
+        -- Existing records have no product, so their target is the station default
+        UPDATE station_hourly_rollups SET target_cycle_time_sum = record_count *
+          (SELECT target_cycle_time FROM stations WHERE stations.id = station_hourly_rollups.station_id);
+        UPDATE station_shift_rollups SET target_cycle_time_sum = record_count *
+          (SELECT target_cycle_time FROM stations WHERE stations.id = station_shift_rollups.station_id);
+
+        DROP TRIGGER IF EXISTS trg_production_rollups;
+
+        CREATE TRIGGER trg_production_rollups
+        AFTER INSERT ON production_records
+        BEGIN
+          INSERT INTO station_hourly_rollups (
+            station_id, hour, shift, record_count, quantity, cycle_time_sum, cycle_time_sum_sq,
+            cycle_time_min, cycle_time_max, defects, downtime_minutes, downtime_events, target_cycle_time_sum
+          ) VALUES (
+            NEW.station_id, strftime('%Y-%m-%d %H:00:00', NEW.timestamp), NEW.shift, 1, NEW.quantity,
+            NEW.cycle_time, NEW.cycle_time * NEW.cycle_time, NEW.cycle_time, NEW.cycle_time,
+            NEW.defects, NEW.downtime_minutes, NEW.downtime_minutes > 0,
+            COALESCE(
+              (SELECT target_cycle_time FROM station_product_targets
+                WHERE station_id = NEW.station_id AND product_id = NEW.product_id),
+              (SELECT target_cycle_time FROM stations WHERE id = NEW.station_id)
+            )
+          )
+          ON CONFLICT (station_id, hour, shift) DO UPDATE SET
+            record_count = record_count + 1,
+            quantity = quantity + excluded.quantity,
+            cycle_time_sum = cycle_time_sum + excluded.cycle_time_sum,
+            cycle_time_sum_sq = cycle_time_sum_sq + excluded.cycle_time_sum_sq,
+            cycle_time_min = MIN(cycle_time_min, excluded.cycle_time_min),
+            cycle_time_max = MAX(cycle_time_max, excluded.cycle_time_max),
+            defects = defects + excluded.defects,
+            downtime_minutes = downtime_minutes + excluded.downtime_minutes,
+            downtime_events = downtime_events + excluded.downtime_events,
+            target_cycle_time_sum = target_cycle_time_sum + excluded.target_cycle_time_sum;
+
+          INSERT INTO station_shift_rollups (
+            station_id, shift_date, shift, record_count, quantity, cycle_time_sum, cycle_time_sum_sq,
+            cycle_time_min, cycle_time_max, defects, downtime_minutes, downtime_events, target_cycle_time_sum
+          ) VALUES (
+            NEW.station_id, date(NEW.timestamp), NEW.shift, 1, NEW.quantity,
+            NEW.cycle_time, NEW.cycle_time * NEW.cycle_time, NEW.cycle_time, NEW.cycle_time,
+            NEW.defects, NEW.downtime_minutes, NEW.downtime_minutes > 0,
+            COALESCE(
+              (SELECT target_cycle_time FROM station_product_targets
+                WHERE station_id = NEW.station_id AND product_id = NEW.product_id),
+              (SELECT target_cycle_time FROM stations WHERE id = NEW.station_id)
+            )
+          )
+          ON CONFLICT (station_id, shift_date, shift) DO UPDATE SET
+            record_count = record_count + 1,
+            quantity = quantity + excluded.quantity,
+            cycle_time_sum = cycle_time_sum + excluded.cycle_time_sum,
+            cycle_time_sum_sq = cycle_time_sum_sq + excluded.cycle_time_sum_sq,
+            cycle_time_min = MIN(cycle_time_min, excluded.cycle_time_min),
+            cycle_time_max = MAX(cycle_time_max, excluded.cycle_time_max),
+            defects = defects + excluded.defects,
+            downtime_minutes = downtime_minutes + excluded.downtime_minutes,
+            downtime_events = downtime_events + excluded.downtime_events,
+            target_cycle_time_sum = target_cycle_time_sum + excluded.target_cycle_time_sum;
+        END;
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'station_target_changes',
+    up: (db) => {
+      // Audit trail for edits to a station's default target cycle time
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS station_target_changes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          station_id TEXT NOT NULL,
+          old_target_cycle_time REAL,
+          new_target_cycle_time REAL NOT NULL,
+          changed_by TEXT NOT NULL,
+          changed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (station_id) REFERENCES stations(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_target_changes_station ON station_target_changes(station_id, changed_at);
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'effective_dated_history',
+    up: (db) => {
+      // Targets and operator assignments as [effective_from, effective_to) ranges so each record
+      // is judged against what applied at its timestamp. A NULL product_id is the station default.
+      // Timestamps use the same ISO form as production_records so they compare as strings.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS station_target_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          station_id TEXT NOT NULL,
+          product_id TEXT,
+          target_cycle_time REAL NOT NULL,
+          effective_from TEXT NOT NULL,
+          effective_to TEXT,
+          FOREIGN KEY (station_id) REFERENCES stations(id),
+          FOREIGN KEY (product_id) REFERENCES products(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS operator_assignments (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          operator_id TEXT NOT NULL,
+          station_id TEXT NOT NULL,
+          effective_from TEXT NOT NULL,
+          effective_to TEXT,
+          FOREIGN KEY (operator_id) REFERENCES operators(id),
+          FOREIGN KEY (station_id) REFERENCES stations(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_target_history_lookup
+          ON station_target_history(station_id, product_id, effective_from);
+        CREATE INDEX IF NOT EXISTS idx_assignments_operator ON operator_assignments(operator_id, effective_from);
+        CREATE INDEX IF NOT EXISTS idx_assignments_station ON operator_assignments(station_id, effective_from);
+
+        ALTER TABLE station_target_changes ADD COLUMN effective_from TEXT;
+
+        -- Current values become open-ended ranges covering all existing history
+        INSERT INTO station_target_history (station_id, product_id, target_cycle_time, effective_from)
+        SELECT id, NULL, target_cycle_time, '1970-01-01T00:00:00.000Z' FROM stations;
+
+        INSERT INTO station_target_history (station_id, product_id, target_cycle_time, effective_from)
+        SELECT station_id, product_id, target_cycle_time, '1970-01-01T00:00:00.000Z' FROM station_product_targets;
+
+        INSERT INTO operator_assignments (operator_id, station_id, effective_from)
+        SELECT id, station_id, '1970-01-01T00:00:00.000Z' FROM operators WHERE station_id IS NOT NULL;
+
+        DROP TRIGGER IF EXISTS trg_production_rollups;
+
+        CREATE TRIGGER trg_production_rollups
+        AFTER INSERT ON production_records
+        BEGIN
+          INSERT INTO station_hourly_rollups (
+            station_id, hour, shift, record_count, quantity, cycle_time_sum, cycle_time_sum_sq,
+            cycle_time_min, cycle_time_max, defects, downtime_minutes, downtime_events, target_cycle_time_sum
+          ) VALUES (
+            NEW.station_id, strftime('%Y-%m-%d %H:00:00', NEW.timestamp), NEW.shift, 1, NEW.quantity,
+            NEW.cycle_time, NEW.cycle_time * NEW.cycle_time, NEW.cycle_time, NEW.cycle_time,
+            NEW.defects, NEW.downtime_minutes, NEW.downtime_minutes > 0,
+            COALESCE(
+              (SELECT target_cycle_time FROM station_target_history
+                WHERE station_id = NEW.station_id AND product_id = NEW.product_id
+                  AND effective_from <= NEW.timestamp AND (effective_to IS NULL OR effective_to > NEW.timestamp)
+                ORDER BY effective_from DESC LIMIT 1),
+              (SELECT target_cycle_time FROM station_target_history
+                WHERE station_id = NEW.station_id AND product_id IS NULL
+                  AND effective_from <= NEW.timestamp AND (effective_to IS NULL OR effective_to > NEW.timestamp)
+                ORDER BY effective_from DESC LIMIT 1),
+              (SELECT target_cycle_time FROM stations WHERE id = NEW.station_id)
+            )
+          )
+          ON CONFLICT (station_id, hour, shift) DO UPDATE SET
+            record_count = record_count + 1,
+            quantity = quantity + excluded.quantity,
+            cycle_time_sum = cycle_time_sum + excluded.cycle_time_sum,
+            cycle_time_sum_sq = cycle_time_sum_sq + excluded.cycle_time_sum_sq,
+            cycle_time_min = MIN(cycle_time_min, excluded.cycle_time_min),
+            cycle_time_max = MAX(cycle_time_max, excluded.cycle_time_max),
+            defects = defects + excluded.defects,
+            downtime_minutes = downtime_minutes + excluded.downtime_minutes,
+            downtime_events = downtime_events + excluded.downtime_events,
+            target_cycle_time_sum = target_cycle_time_sum + excluded.target_cycle_time_sum;
+
+          INSERT INTO station_shift_rollups (
+            station_id, shift_date, shift, record_count, quantity, cycle_time_sum, cycle_time_sum_sq,
+            cycle_time_min, cycle_time_max, defects, downtime_minutes, downtime_events, target_cycle_time_sum
+          ) VALUES (
+            NEW.station_id, date(NEW.timestamp), NEW.shift, 1, NEW.quantity,
+            NEW.cycle_time, NEW.cycle_time * NEW.cycle_time, NEW.cycle_time, NEW.cycle_time,
+            NEW.defects, NEW.downtime_minutes, NEW.downtime_minutes > 0,
+            COALESCE(
+              (SELECT target_cycle_time FROM station_target_history
+                WHERE station_id = NEW.station_id AND product_id = NEW.product_id
+                  AND effective_from <= NEW.timestamp AND (effective_to IS NULL OR effective_to > NEW.timestamp)
+                ORDER BY effective_from DESC LIMIT 1),
+              (SELECT target_cycle_time FROM station_target_history
+                WHERE station_id = NEW.station_id AND product_id IS NULL
+                  AND effective_from <= NEW.timestamp AND (effective_to IS NULL OR effective_to > NEW.timestamp)
+                ORDER BY effective_from DESC LIMIT 1),
+              (SELECT target_cycle_time FROM stations WHERE id = NEW.station_id)
+            )
+          )
+          ON CONFLICT (station_id, shift_date, shift) DO UPDATE SET
+            record_count = record_count + 1,
+            quantity = quantity + excluded.quantity,
+            cycle_time_sum = cycle_time_sum + excluded.cycle_time_sum,
+            cycle_time_sum_sq = cycle_time_sum_sq + excluded.cycle_time_sum_sq,
+            cycle_time_min = MIN(cycle_time_min, excluded.cycle_time_min),
+            cycle_time_max = MAX(cycle_time_max, excluded.cycle_time_max),
+            defects = defects + excluded.defects,
+            downtime_minutes = downtime_minutes + excluded.downtime_minutes,
+            downtime_events = downtime_events + excluded.downtime_events,
+            target_cycle_time_sum = target_cycle_time_sum + excluded.target_cycle_time_sum;
+        END;
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'operator_skills',
+    up: (db) => {
+      // Deactivated operators keep their production history but drop off rosters
+      db.exec(`
+        ALTER TABLE operators ADD COLUMN active INTEGER NOT NULL DEFAULT 1;
+        ALTER TABLE operators ADD COLUMN deactivated_at TEXT;
+
+        CREATE TABLE IF NOT EXISTS operator_skills (
+          operator_id TEXT NOT NULL,
+          station_id TEXT NOT NULL,
+          certified INTEGER NOT NULL DEFAULT 0,
+          proficiency INTEGER NOT NULL DEFAULT 1 CHECK (proficiency BETWEEN 1 AND 5),
+          certified_at TEXT,
+          expires_at TEXT,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (operator_id, station_id),
+          FOREIGN KEY (operator_id) REFERENCES operators(id),
+          FOREIGN KEY (station_id) REFERENCES stations(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_operator_skills_station ON operator_skills(station_id);
+      `);
+
+      // Operators are assumed qualified at the station they already work
+      db.exec(`
+        INSERT OR IGNORE INTO operator_skills (operator_id, station_id, certified, proficiency, certified_at)
+        SELECT id, station_id, 1, MIN(MAX(COALESCE(skill_level, 3), 1), 5), strftime('%Y-%m-%dT%H:%M:%fZ', created_at)
+        FROM operators
+        WHERE station_id IS NOT NULL;
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'retention_policy',
+    up: (db) => {
+      // Key/value settings editable at runtime; archive_runs doubles as the archive watermark
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        INSERT OR IGNORE INTO settings (key, value) VALUES ('retention.raw_days', '90');
+
+        CREATE TABLE IF NOT EXISTS archive_runs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          cutoff TEXT NOT NULL,
+          archived_records INTEGER NOT NULL,
+          compacted INTEGER NOT NULL DEFAULT 0,
+          duration_ms INTEGER NOT NULL,
+          ran_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: 'station_state_events',
+    up: (db) => {
+      // Closed intervals of what a station was doing; starved and blocked time separate a
+      // constraint from stations that are merely waiting on it
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS station_state_events (
+          id TEXT PRIMARY KEY,
+          station_id TEXT NOT NULL,
+          state TEXT NOT NULL CHECK (state IN ('working', 'starved', 'blocked', 'down', 'changeover')),
+          start_time TEXT NOT NULL,
+          end_time TEXT NOT NULL,
+          duration_seconds REAL NOT NULL,
+          reason TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (station_id) REFERENCES stations(id),
+          CHECK (end_time > start_time)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_state_events_station_time ON station_state_events(station_id, start_time);
+        CREATE INDEX IF NOT EXISTS idx_state_events_end_time ON station_state_events(end_time);
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: 'line_topology',
+    up: (db) => {
+      // Lines without routes stay serial in position order, so nothing is backfilled
+      db.exec(`
+        ALTER TABLE stations ADD COLUMN parallel_units INTEGER NOT NULL DEFAULT 1;
+
+        CREATE TABLE IF NOT EXISTS station_routes (
+          line_id TEXT NOT NULL,
+          from_station_id TEXT NOT NULL,
+          to_station_id TEXT NOT NULL,
+          kind TEXT NOT NULL DEFAULT 'flow' CHECK (kind IN ('flow', 'rework')),
+          fraction REAL NOT NULL DEFAULT 1 CHECK (fraction > 0 AND fraction <= 1),
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (from_station_id, to_station_id),
+          FOREIGN KEY (line_id) REFERENCES lines(id),
+          FOREIGN KEY (from_station_id) REFERENCES stations(id),
+          FOREIGN KEY (to_station_id) REFERENCES stations(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_station_routes_line ON station_routes(line_id);
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: 'analysis_configs',
+    up: (db) => {
+      // Severity thresholds and impact weights at global, line or station scope. Each group is
+      // either set in full or left NULL to inherit from the wider scope.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS analysis_configs (
+          scope TEXT NOT NULL CHECK (scope IN ('global', 'line', 'station')),
+          scope_id TEXT NOT NULL DEFAULT '',
+          critical_threshold REAL,
+          high_threshold REAL,
+          medium_threshold REAL,
+          variance_weight REAL,
+          consistency_weight REAL,
+          position_weight REAL,
+          downtime_weight REAL,
+          updated_by TEXT NOT NULL,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (scope, scope_id),
+          CHECK ((scope = 'global') = (scope_id = '')),
+          CHECK ((critical_threshold IS NULL) = (high_threshold IS NULL)
+            AND (high_threshold IS NULL) = (medium_threshold IS NULL)),
+          CHECK ((variance_weight IS NULL) = (consistency_weight IS NULL)
+            AND (consistency_weight IS NULL) = (position_weight IS NULL)
+            AND (position_weight IS NULL) = (downtime_weight IS NULL))
+        );
+
+        INSERT OR IGNORE INTO analysis_configs (
+          scope, scope_id, critical_threshold, high_threshold, medium_threshold,
+          variance_weight, consistency_weight, position_weight, downtime_weight, updated_by
+        ) VALUES ('global', '', 20, 10, 5, 40, 20, 20, 20, 'system');
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'spc_baselines',
+    up: (db) => {
+      // Period control limits are computed from, per station and metric. Stations without one
+      // use the week before the charted window.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS spc_baselines (
+          station_id TEXT NOT NULL,
+          metric TEXT NOT NULL CHECK (metric IN ('cycle_time', 'defect_rate')),
+          chart_type TEXT NOT NULL CHECK (chart_type IN ('xbar_r', 'i_mr')),
+          subgroup_size INTEGER NOT NULL DEFAULT 1 CHECK (subgroup_size BETWEEN 1 AND 10),
+          baseline_from TEXT NOT NULL,
+          baseline_to TEXT NOT NULL,
+          updated_by TEXT NOT NULL,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (station_id, metric),
+          FOREIGN KEY (station_id) REFERENCES stations(id),
+          CHECK ((chart_type = 'i_mr') = (subgroup_size = 1)),
+          CHECK (baseline_to > baseline_from)
+        );
+      `);
+    },
+  },
+  {
+    version: 14,
+    name: 'recommendations',
+    up: (db) => {
+      // Recommendations keyed by the agent's ID for them, so one proposed again is the same
+      // row. Expected improvement is fixed once accepted; the verification columns hold the
+      // cycle time and throughput measured before and after implementation.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS recommendations (
+          id TEXT PRIMARY KEY,
+          station_id TEXT NOT NULL,
+          type TEXT NOT NULL,
+          description TEXT NOT NULL,
+          expected_improvement REAL NOT NULL,
+          confidence REAL NOT NULL,
+          implementation_cost TEXT NOT NULL CHECK (implementation_cost IN ('low', 'medium', 'high')),
+          time_to_implement TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'proposed'
+            CHECK (status IN ('proposed', 'accepted', 'rejected', 'implemented', 'verified')),
+          owner TEXT,
+          note TEXT,
+          proposed_at DATETIME NOT NULL,
+          last_proposed_at DATETIME NOT NULL,
+          accepted_at DATETIME,
+          rejected_at DATETIME,
+          implemented_at DATETIME,
+          verified_at DATETIME,
+          updated_by TEXT,
+          cycle_time_before REAL,
+          cycle_time_after REAL,
+          percent_of_target_before REAL,
+          percent_of_target_after REAL,
+          throughput_before REAL,
+          throughput_after REAL,
+          actual_improvement REAL,
+          FOREIGN KEY (station_id) REFERENCES stations(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_recommendations_station ON recommendations(station_id);
+        CREATE INDEX IF NOT EXISTS idx_recommendations_status ON recommendations(status);
+      `);
+    },
+  },
+  {
+    version: 15,
+    name: 'cost_models',
+    up: (db) => {
+      // The figures recommendations are costed with, per line. Costs for each recommendation
+      // type are kept as JSON keyed by type; lines without a row use the built-in model.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS cost_models (
+          line_id TEXT PRIMARY KEY,
+          day_rate REAL NOT NULL,
+          swing_rate REAL NOT NULL,
+          night_rate REAL NOT NULL,
+          overtime_multiplier REAL NOT NULL,
+          contribution_margin REAL NOT NULL,
+          discount_rate REAL NOT NULL,
+          horizon_years INTEGER NOT NULL,
+          type_costs TEXT NOT NULL,
+          updated_by TEXT NOT NULL,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (line_id) REFERENCES lines(id)
+        );
+      `);
+    },
+  },
+  {
+    version: 16,
+    name: 'work_elements',
+    up: (db) => {
+      // Tasks a line's work is made of, with their standard times and the station each is
+      // done at today, and the order they must be done in. Both are replaced as a set.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS work_elements (
+          line_id TEXT NOT NULL,
+          id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          duration REAL NOT NULL CHECK (duration > 0),
+          station_id TEXT,
+          position INTEGER NOT NULL,
+          PRIMARY KEY (line_id, id),
+          FOREIGN KEY (line_id) REFERENCES lines(id),
+          FOREIGN KEY (station_id) REFERENCES stations(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS work_element_precedences (
+          line_id TEXT NOT NULL,
+          predecessor_id TEXT NOT NULL,
+          successor_id TEXT NOT NULL,
+          PRIMARY KEY (line_id, predecessor_id, successor_id),
+          FOREIGN KEY (line_id, predecessor_id) REFERENCES work_elements(line_id, id),
+          FOREIGN KEY (line_id, successor_id) REFERENCES work_elements(line_id, id)
+        );
+      `);
+    },
+  },
+  {
+    version: 17,
+    name: 'shift_dates_from_shift_start',
+    up: (db) => {
+      // Shift rollups were keyed by the record's calendar day, splitting night shifts at midnight.
+      // They are keyed by the day the shift started instead, rebuilt from the hourly rollups
+      // (which retention keeps) so archived history is regrouped too.
+      db.exec(`
+        DROP TRIGGER IF EXISTS trg_production_rollups;
+
+        CREATE TRIGGER trg_production_rollups
+        AFTER INSERT ON production_records
+        BEGIN
+          INSERT INTO station_hourly_rollups (
+            station_id, hour, shift, record_count, quantity, cycle_time_sum, cycle_time_sum_sq,
+            cycle_time_min, cycle_time_max, defects, downtime_minutes, downtime_events, target_cycle_time_sum
+          ) VALUES (
+            NEW.station_id, strftime('%Y-%m-%d %H:00:00', NEW.timestamp), NEW.shift, 1, NEW.quantity,
+            NEW.cycle_time, NEW.cycle_time * NEW.cycle_time, NEW.cycle_time, NEW.cycle_time,
+            NEW.defects, NEW.downtime_minutes, NEW.downtime_minutes > 0,
+            COALESCE(
+              (SELECT target_cycle_time FROM station_target_history
+                WHERE station_id = NEW.station_id AND product_id = NEW.product_id
+                  AND effective_from <= NEW.timestamp AND (effective_to IS NULL OR effective_to > NEW.timestamp)
+                ORDER BY effective_from DESC LIMIT 1),
+              (SELECT target_cycle_time FROM station_target_history
+                WHERE station_id = NEW.station_id AND product_id IS NULL
+                  AND effective_from <= NEW.timestamp AND (effective_to IS NULL OR effective_to > NEW.timestamp)
+                ORDER BY effective_from DESC LIMIT 1),
+              (SELECT target_cycle_time FROM stations WHERE id = NEW.station_id)
+            )
+          )
+          ON CONFLICT (station_id, hour, shift) DO UPDATE SET
+            record_count = record_count + 1,
+            quantity = quantity + excluded.quantity,
+            cycle_time_sum = cycle_time_sum + excluded.cycle_time_sum,
+            cycle_time_sum_sq = cycle_time_sum_sq + excluded.cycle_time_sum_sq,
+            cycle_time_min = MIN(cycle_time_min, excluded.cycle_time_min),
+            cycle_time_max = MAX(cycle_time_max, excluded.cycle_time_max),
+            defects = defects + excluded.defects,
+            downtime_minutes = downtime_minutes + excluded.downtime_minutes,
+            downtime_events = downtime_events + excluded.downtime_events,
+            target_cycle_time_sum = target_cycle_time_sum + excluded.target_cycle_time_sum;
+
+          INSERT INTO station_shift_rollups (
+            station_id, shift_date, shift, record_count, quantity, cycle_time_sum, cycle_time_sum_sq,
+            cycle_time_min, cycle_time_max, defects, downtime_minutes, downtime_events, target_cycle_time_sum
+          ) VALUES (
+            NEW.station_id, ${shiftDateSql('NEW.timestamp', 'NEW.shift')}, NEW.shift, 1, NEW.quantity,
+            NEW.cycle_time, NEW.cycle_time * NEW.cycle_time, NEW.cycle_time, NEW.cycle_time,
+            NEW.defects, NEW.downtime_minutes, NEW.downtime_minutes > 0,
+            COALESCE(
+              (SELECT target_cycle_time FROM station_target_history
+                WHERE station_id = NEW.station_id AND product_id = NEW.product_id
+                  AND effective_from <= NEW.timestamp AND (effective_to IS NULL OR effective_to > NEW.timestamp)
+                ORDER BY effective_from DESC LIMIT 1),
+              (SELECT target_cycle_time FROM station_target_history
+                WHERE station_id = NEW.station_id AND product_id IS NULL
+                  AND effective_from <= NEW.timestamp AND (effective_to IS NULL OR effective_to > NEW.timestamp)
+                ORDER BY effective_from DESC LIMIT 1),
+              (SELECT target_cycle_time FROM stations WHERE id = NEW.station_id)
+            )
+          )
+          ON CONFLICT (station_id, shift_date, shift) DO UPDATE SET
+            record_count = record_count + 1,
+            quantity = quantity + excluded.quantity,
+            cycle_time_sum = cycle_time_sum + excluded.cycle_time_sum,
+            cycle_time_sum_sq = cycle_time_sum_sq + excluded.cycle_time_sum_sq,
+            cycle_time_min = MIN(cycle_time_min, excluded.cycle_time_min),
+            cycle_time_max = MAX(cycle_time_max, excluded.cycle_time_max),
+            defects = defects + excluded.defects,
+            downtime_minutes = downtime_minutes + excluded.downtime_minutes,
+            downtime_events = downtime_events + excluded.downtime_events,
+            target_cycle_time_sum = target_cycle_time_sum + excluded.target_cycle_time_sum;
+        END;
+
+        DELETE FROM station_shift_rollups;
+
+        INSERT INTO station_shift_rollups (
+          station_id, shift_date, shift, record_count, quantity, cycle_time_sum, cycle_time_sum_sq,
+          cycle_time_min, cycle_time_max, defects, downtime_minutes, downtime_events, target_cycle_time_sum
+        )
+        SELECT station_id, ${shiftDateSql('hour', 'shift')}, shift,
+          SUM(record_count), SUM(quantity), SUM(cycle_time_sum), SUM(cycle_time_sum_sq),
+          MIN(cycle_time_min), MAX(cycle_time_max), SUM(defects), SUM(downtime_minutes),
+          SUM(downtime_events), SUM(target_cycle_time_sum)
+        FROM station_hourly_rollups
+        GROUP BY station_id, ${shiftDateSql('hour', 'shift')}, shift;
+      `);
+    },
+  },
+  {
+    version: 18,
+    name: 'operator_and_cycle_time_rollups',
+    up: (db) => {
+      // Operator comparisons and cycle time distributions read raw records over a week or more
+      // on every analysis. Both get their own rollups: per operator, percent over target and
+      // defect rate sums for stratified comparisons, and per station, cycle times in whole
+      // second bins with exact sums and extremes. Both are backfilled from live and archived
+      // records alike, since the rollups outlive archival.
+      const records = hasArchivedRecords(db)
+        ? `(SELECT ${BACKFILL_COLUMNS} FROM main.production_records
+            UNION ALL SELECT ${BACKFILL_COLUMNS} FROM archive.production_records)`
+        : 'production_records';
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS operator_hourly_rollups (
+          station_id TEXT NOT NULL,
+          operator_id TEXT NOT NULL,
+          hour TEXT NOT NULL,
+          shift TEXT NOT NULL,
+          record_count INTEGER NOT NULL DEFAULT 0,
+          over_target_sum REAL NOT NULL DEFAULT 0,
+          over_target_sum_sq REAL NOT NULL DEFAULT 0,
+          defect_rate_sum REAL NOT NULL DEFAULT 0,
+          defect_rate_sum_sq REAL NOT NULL DEFAULT 0,
+          PRIMARY KEY (station_id, operator_id, hour, shift),
+          FOREIGN KEY (station_id) REFERENCES stations(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS station_cycle_time_bins (
+          station_id TEXT NOT NULL,
+          hour TEXT NOT NULL,
+          shift TEXT NOT NULL,
+          bin INTEGER NOT NULL,
+          record_count INTEGER NOT NULL DEFAULT 0,
+          cycle_time_sum REAL NOT NULL DEFAULT 0,
+          cycle_time_sum_sq REAL NOT NULL DEFAULT 0,
+          cycle_time_min REAL,
+          cycle_time_max REAL,
+          PRIMARY KEY (station_id, hour, shift, bin),
+          FOREIGN KEY (station_id) REFERENCES stations(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_operator_rollups_hour ON operator_hourly_rollups(hour);
+        CREATE INDEX IF NOT EXISTS idx_cycle_time_bins_hour ON station_cycle_time_bins(hour);
+
+        INSERT INTO operator_hourly_rollups
+        SELECT station_id, operator_id, hour, shift, COUNT(*),
+          SUM(over_target), SUM(over_target * over_target), SUM(defect_rate), SUM(defect_rate * defect_rate)
+        FROM (
+          SELECT pr.station_id, pr.operator_id, strftime('%Y-%m-%d %H:00:00', pr.timestamp) as hour, pr.shift,
+            pr.cycle_time * 100.0 / COALESCE(
+              (SELECT h.target_cycle_time FROM station_target_history h
+                WHERE h.station_id = pr.station_id AND h.product_id = pr.product_id
+                  AND h.effective_from <= pr.timestamp AND (h.effective_to IS NULL OR h.effective_to > pr.timestamp)
+                ORDER BY h.effective_from DESC LIMIT 1),
+              (SELECT h.target_cycle_time FROM station_target_history h
+                WHERE h.station_id = pr.station_id AND h.product_id IS NULL
+                  AND h.effective_from <= pr.timestamp AND (h.effective_to IS NULL OR h.effective_to > pr.timestamp)
+                ORDER BY h.effective_from DESC LIMIT 1),
+              (SELECT target_cycle_time FROM stations WHERE id = pr.station_id)
+            ) - 100 as over_target,
+            pr.defects * 100.0 / MAX(pr.quantity, 1) as defect_rate
+          FROM ${records} pr
+        )
+        GROUP BY station_id, operator_id, hour, shift;
+
+        INSERT INTO station_cycle_time_bins
+        SELECT station_id, strftime('%Y-%m-%d %H:00:00', timestamp), shift, CAST(cycle_time AS INTEGER),
+          COUNT(*), SUM(cycle_time), SUM(cycle_time * cycle_time), MIN(cycle_time), MAX(cycle_time)
+        FROM ${records}
+        GROUP BY station_id, strftime('%Y-%m-%d %H:00:00', timestamp), shift, CAST(cycle_time AS INTEGER);
+
+        CREATE TRIGGER IF NOT EXISTS trg_operator_cycle_time_rollups
+        AFTER INSERT ON production_records
+        BEGIN
+          INSERT INTO operator_hourly_rollups (
+            station_id, operator_id, hour, shift, record_count,
+            over_target_sum, over_target_sum_sq, defect_rate_sum, defect_rate_sum_sq
+          )
+          SELECT NEW.station_id, NEW.operator_id, strftime('%Y-%m-%d %H:00:00', NEW.timestamp), NEW.shift, 1,
+            over_target, over_target * over_target, defect_rate, defect_rate * defect_rate
+          FROM (SELECT
+            NEW.cycle_time * 100.0 / COALESCE(
+              (SELECT target_cycle_time FROM station_target_history
+                WHERE station_id = NEW.station_id AND product_id = NEW.product_id
+                  AND effective_from <= NEW.timestamp AND (effective_to IS NULL OR effective_to > NEW.timestamp)
+                ORDER BY effective_from DESC LIMIT 1),
+              (SELECT target_cycle_time FROM station_target_history
+                WHERE station_id = NEW.station_id AND product_id IS NULL
+                  AND effective_from <= NEW.timestamp AND (effective_to IS NULL OR effective_to > NEW.timestamp)
+                ORDER BY effective_from DESC LIMIT 1),
+              (SELECT target_cycle_time FROM stations WHERE id = NEW.station_id)
+            ) - 100 as over_target,
+            NEW.defects * 100.0 / MAX(NEW.quantity, 1) as defect_rate
+          )
+          -- Without a WHERE, SQLite would read ON CONFLICT as part of the SELECT
+          WHERE true
+          ON CONFLICT (station_id, operator_id, hour, shift) DO UPDATE SET
+            record_count = record_count + 1,
+            over_target_sum = over_target_sum + excluded.over_target_sum,
+            over_target_sum_sq = over_target_sum_sq + excluded.over_target_sum_sq,
+            defect_rate_sum = defect_rate_sum + excluded.defect_rate_sum,
+            defect_rate_sum_sq = defect_rate_sum_sq + excluded.defect_rate_sum_sq;
+
+          INSERT INTO station_cycle_time_bins (
+            station_id, hour, shift, bin, record_count, cycle_time_sum, cycle_time_sum_sq,
+            cycle_time_min, cycle_time_max
+          ) VALUES (
+            NEW.station_id, strftime('%Y-%m-%d %H:00:00', NEW.timestamp), NEW.shift, CAST(NEW.cycle_time AS INTEGER), 1,
+            NEW.cycle_time, NEW.cycle_time * NEW.cycle_time, NEW.cycle_time, NEW.cycle_time
+          )
+          ON CONFLICT (station_id, hour, shift, bin) DO UPDATE SET
+            record_count = record_count + 1,
+            cycle_time_sum = cycle_time_sum + excluded.cycle_time_sum,
+            cycle_time_sum_sq = cycle_time_sum_sq + excluded.cycle_time_sum_sq,
+            cycle_time_min = MIN(cycle_time_min, excluded.cycle_time_min),
+            cycle_time_max = MAX(cycle_time_max, excluded.cycle_time_max);
+        END;
+      `);
+    },
+  },
+  {
+    version: 19,
+    name: 'recommendation_proposals',
+    up: (db) => {
+      // Each proposal is its own row. The agent's ID for a recommendation becomes the proposal
+      // key, and only one proposal per key can be open at a time, so an analysis refreshes the
+      // open one; once it is rejected or verified, proposing it again opens a new row.
+      db.exec(`
+        ALTER TABLE recommendations ADD COLUMN proposal_key TEXT NOT NULL DEFAULT '';
+        UPDATE recommendations SET proposal_key = id;
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_recommendations_open_key ON recommendations(proposal_key)
+          WHERE status IN ('proposed', 'accepted', 'implemented');
+      `);
+    },
+  },
+];
+
+function ensureVersionTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+export function getCurrentVersion(db: Database.Database): number {
+  ensureVersionTable(db);
+  const row = db.prepare('SELECT MAX(version) as version FROM schema_version').get() as { version: number | null };
+  return row.version || 0;
+}
+
+export function getPendingMigrations(db: Database.Database): Migration[] {
+  const current = getCurrentVersion(db);
+  return MIGRATIONS.filter(m => m.version > current);
+}
+
+function isArchiveAttached(db: Database.Database): boolean {
+  return !!db.prepare(`SELECT 1 FROM pragma_database_list WHERE name = 'archive'`).get();
+}
+
+// True when the archive is attached and has records for a backfill to read
+function hasArchivedRecords(db: Database.Database): boolean {
+  if (!isArchiveAttached(db)) return false;
+  return !!db.prepare(`
+    SELECT 1 FROM archive.sqlite_master WHERE type = 'table' AND name = 'production_records'
+  `).get();
+}
+
+export function runMigrations(db: Database.Database): Migration[] {
+  const pending = getPendingMigrations(db);
+  const record = db.prepare('INSERT INTO schema_version (version, name) VALUES (?, ?)');
+
+  // Backfills read archived records too. SQLite cannot attach inside a transaction, so the
+  // archive is attached around the whole run when it exists and is not attached already.
+  const attachArchive = pending.length > 0 && fs.existsSync(ARCHIVE_DB_PATH) && !isArchiveAttached(db);
+  if (attachArchive) {
+    db.prepare('ATTACH DATABASE ? AS archive').run(ARCHIVE_DB_PATH);
+  }
+
+  try {
+    for (const migration of pending) {
+      // Each migration commits on its own so a failure leaves earlier versions applied
+      db.transaction(() => {
+        migration.up(db);
+        record.run(migration.version, migration.name);
+      })();
+    }
+  } finally {
+    if (attachArchive) {
+      db.exec('DETACH DATABASE archive');
+    }
+  }
+
+  return pending;
+}
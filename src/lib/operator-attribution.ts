@@ -0,0 +1,205 @@
+// ============================================
+// LineBalancer AI - Operator Attribution
+// Compares each operator with peers at the same
+// station on the same shift and weekday
+// ============================================
+
+import { getOperatorSkills, getOperatorTotals, getOperators, getWindowBounds } from '@/lib/database';
+import { holmAdjust, normalCdf } from '@/lib/stats';
+import type { AnalysisWindow, OperatorAttribution, OperatorMetricComparison, StationOperatorAttribution } from '@/types';
+
+// A week, so each operator is compared on every weekday they worked
+export const DEFAULT_ATTRIBUTION_HOURS = 168;
+
+// Each side of a stratum needs this many records for a variance
+const MIN_STRATUM_RECORDS = 2;
+
+// Family-wise error rate across the tests at one station
+const SIGNIFICANCE_LEVEL = 0.05;
+
+// Cohen's "small" effect; a significant gap below it is not worth coaching for
+const MIN_EFFECT_SIZE = 0.2;
+
+interface Totals {
+  n: number;
+  sum: number;
+  sumSq: number;
+}
+
+type Metric = 'cycleTime' | 'defectRate';
+
+// Per station: stratum (shift|weekday) -> operator -> running totals per metric
+type StationStrata = Map<string, Map<string, Record<Metric, Totals>>>;
+
+function emptyTotals(): Record<Metric, Totals> {
+  return { cycleTime: { n: 0, sum: 0, sumSq: 0 }, defectRate: { n: 0, sum: 0, sumSq: 0 } };
+}
+
+function add(totals: Totals, more: Totals) {
+  totals.n += more.n;
+  totals.sum += more.sum;
+  totals.sumSq += more.sumSq;
+}
+
+function variance(totals: Totals): number {
+  return Math.max(0, (totals.sumSq - (totals.sum * totals.sum) / totals.n) / (totals.n - 1));
+}
+
+// Stratified mean difference: each shift/weekday cell gives a Welch difference between the
+// operator and everyone else, and cells are pooled by inverse variance. Comparing within cells
+// keeps a night-shift operator from being blamed for the night shift.
+function compareWithPeers(
+  strata: Array<{ own: Totals; all: Totals }>
+): (Omit<OperatorMetricComparison, 'worse'> & { strata: number }) | null {
+  let weightSum = 0;
+  let weightedDifference = 0;
+  let weightedPeerMean = 0;
+  let pooledSquares = 0;
+  let pooledDf = 0;
+  let used = 0;
+
+  for (const { own, all } of strata) {
+    const peers = { n: all.n - own.n, sum: all.sum - own.sum, sumSq: all.sumSq - own.sumSq };
+    if (own.n < MIN_STRATUM_RECORDS || peers.n < MIN_STRATUM_RECORDS) continue;
+
+    const ownVariance = variance(own);
+    const peerVariance = variance(peers);
+    const standardError2 = ownVariance / own.n + peerVariance / peers.n;
+    if (standardError2 <= 0) continue;
+
+    const weight = 1 / standardError2;
+    weightSum += weight;
+    weightedDifference += weight * (own.sum / own.n - peers.sum / peers.n);
+    weightedPeerMean += weight * (peers.sum / peers.n);
+    pooledSquares += (own.n - 1) * ownVariance + (peers.n - 1) * peerVariance;
+    pooledDf += own.n + peers.n - 2;
+    used++;
+  }
+  if (weightSum === 0) return null;
+
+  const difference = weightedDifference / weightSum;
+  const peerMean = weightedPeerMean / weightSum;
+  const z = difference * Math.sqrt(weightSum);
+  const spread = Math.sqrt(pooledSquares / pooledDf);
+
+  return {
+    operatorMean: peerMean + difference,
+    peerMean,
+    difference,
+    effectSize: spread > 0 ? difference / spread : 0,
+    pValue: 2 * (1 - normalCdf(Math.abs(z))),
+    strata: used,
+  };
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export function getOperatorAttribution(options: {
+  lineId?: string | null;
+  stationId?: string;
+  hours?: number;
+  window?: AnalysisWindow; // replaces the hours ending now
+} = {}): StationOperatorAttribution[] {
+  const window = options.window ?? options.hours ?? DEFAULT_ATTRIBUTION_HOURS;
+  const rows = getOperatorTotals(window, { lineId: options.lineId, stationId: options.stationId });
+
+  const stationNames = new Map<string, string>();
+  const byStation = new Map<string, StationStrata>();
+  const recordCounts = new Map<string, number>();
+  for (const row of rows) {
+    stationNames.set(row.station_id, row.station_name);
+    const strata = byStation.get(row.station_id) ?? new Map();
+    byStation.set(row.station_id, strata);
+    const key = `${row.shift}|${row.weekday}`;
+    const operators = strata.get(key) ?? new Map();
+    strata.set(key, operators);
+    const totals = operators.get(row.operator_id) ?? emptyTotals();
+    operators.set(row.operator_id, totals);
+
+    // Cycle time is compared as percent over target
+    add(totals.cycleTime, { n: row.record_count, sum: row.over_target_sum, sumSq: row.over_target_sum_sq });
+    add(totals.defectRate, { n: row.record_count, sum: row.defect_rate_sum, sumSq: row.defect_rate_sum_sq });
+    const countKey = `${row.station_id}|${row.operator_id}`;
+    recordCounts.set(countKey, (recordCounts.get(countKey) ?? 0) + row.record_count);
+  }
+
+  const roster = new Map(
+    (getOperators(null, true) as Array<{ id: string; name: string; skill_level: number; efficiency: number }>)
+      .map(o => [o.id, o])
+  );
+  const proficiency = new Map(
+    (getOperatorSkills({ lineId: options.lineId, stationId: options.stationId }) as Array<{
+      operator_id: string;
+      station_id: string;
+      proficiency: number;
+    }>).map(sk => [`${sk.operator_id}|${sk.station_id}`, sk.proficiency])
+  );
+
+  const bounds = getWindowBounds(window);
+  const from = new Date(`${bounds.since}Z`).toISOString();
+  const to = options.window ? new Date(options.window.to).toISOString() : new Date().toISOString();
+  const result: StationOperatorAttribution[] = [];
+
+  byStation.forEach((strata, stationId) => {
+    const stratumTotals = new Map<string, Record<Metric, Totals>>();
+    const operatorIds = new Set<string>();
+    strata.forEach((operators, key) => {
+      const all = emptyTotals();
+      operators.forEach((totals, operatorId) => {
+        operatorIds.add(operatorId);
+        for (const metric of ['cycleTime', 'defectRate'] as Metric[]) add(all[metric], totals[metric]);
+      });
+      stratumTotals.set(key, all);
+    });
+
+    const compared = Array.from(operatorIds).map(operatorId => {
+      const cells = (metric: Metric) => Array.from(strata.entries())
+        .filter(([, operators]) => operators.has(operatorId))
+        .map(([key, operators]) => ({ own: operators.get(operatorId)![metric], all: stratumTotals.get(key)![metric] }));
+      return { operatorId, cycleTime: compareWithPeers(cells('cycleTime')), defectRate: compareWithPeers(cells('defectRate')) };
+    });
+
+    // Every operator at the station is a test on each metric, so the error rate is held
+    // across all of them
+    const tests = compared.flatMap(c => [c.cycleTime, c.defectRate]).filter(t => t !== null);
+    const adjusted = holmAdjust(tests.map(t => t!.pValue));
+    tests.forEach((t, i) => { t!.pValue = adjusted[i]; });
+
+    const finish = (c: ReturnType<typeof compareWithPeers>): OperatorMetricComparison | null => c && {
+      operatorMean: round(c.operatorMean),
+      peerMean: round(c.peerMean),
+      difference: round(c.difference),
+      effectSize: round(c.effectSize),
+      pValue: c.pValue < 0.0001 ? 0.0001 : round(c.pValue, 4),
+      worse: c.pValue < SIGNIFICANCE_LEVEL && c.difference > 0 && c.effectSize >= MIN_EFFECT_SIZE,
+    };
+
+    const operators: OperatorAttribution[] = compared.map(c => {
+      const person = roster.get(c.operatorId);
+      return {
+        operatorId: c.operatorId,
+        operatorName: person?.name ?? c.operatorId,
+        skillLevel: person?.skill_level ?? null,
+        efficiency: person ? round(person.efficiency, 1) : null,
+        proficiency: proficiency.get(`${c.operatorId}|${stationId}`) ?? null,
+        records: recordCounts.get(`${stationId}|${c.operatorId}`) ?? 0,
+        strata: Math.max(c.cycleTime?.strata ?? 0, c.defectRate?.strata ?? 0),
+        cycleTime: finish(c.cycleTime),
+        defectRate: finish(c.defectRate),
+      };
+    });
+
+    // Operators worse than peers first, then by how far over their peers they run
+    operators.sort((a, b) =>
+      Number(b.cycleTime?.worse || b.defectRate?.worse) - Number(a.cycleTime?.worse || a.defectRate?.worse) ||
+      (b.cycleTime?.difference ?? -Infinity) - (a.cycleTime?.difference ?? -Infinity)
+    );
+
+    result.push({ stationId, stationName: stationNames.get(stationId)!, from, to, operators });
+  });
+
+  return result;
+}
@@ -0,0 +1,331 @@
+// ============================================
+// LineBalancer AI - Recommendation Lifecycle
+// Stored recommendations, their status, and the
+// measured impact of those implemented
+// ============================================
+
+import {
+  getRecommendationById,
+  getRecommendations,
+  getStationPeriodMetrics,
+  saveProposedRecommendations,
+  saveRecommendationVerification,
+  updateRecommendationDetails,
+  updateRecommendationStatus,
+} from '@/lib/database';
+import type { RecommendationRow } from '@/lib/database';
+import type {
+  BottleneckAnalysis,
+  Recommendation,
+  RecommendationStatus,
+  RecommendationTrackRecord,
+  RecommendationVerification,
+  TrackedRecommendation,
+} from '@/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const RECOMMENDATION_STATUSES: RecommendationStatus[] = ['proposed', 'accepted', 'rejected', 'implemented', 'verified'];
+
+// Statuses of a proposal still in play; a key has at most one proposal in them
+const OPEN_STATUSES: RecommendationStatus[] = ['proposed', 'accepted', 'implemented'];
+
+// A rejected recommendation can be reopened; a verified one is final
+export const STATUS_TRANSITIONS: Record<RecommendationStatus, RecommendationStatus[]> = {
+  proposed: ['accepted', 'rejected'],
+  accepted: ['implemented', 'rejected'],
+  rejected: ['proposed'],
+  implemented: ['verified'],
+  verified: [],
+};
+
+// The week before implementation is compared with the week after. Implemented recommendations
+// are verified automatically once the week after has passed.
+export const VERIFICATION_HOURS = 168;
+
+// Hours with production each side needs before the comparison means anything
+const MIN_VERIFICATION_HOURS = 24;
+
+// A recommendation that did better than promised counts for at most this much
+const MAX_REALIZATION = 1.5;
+
+// Verified outcomes a type needs before its track record outweighs the assumption that
+// recommendations deliver what they promise
+const PRIOR_WEIGHT = 3;
+
+const MIN_CONFIDENCE_FACTOR = 0.25;
+const MAX_CONFIDENCE_FACTOR = 1.2;
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// The hour of implementation belongs to neither side
+export function getVerificationWindows(implementedAt: string, now = new Date()) {
+  const hour = Math.floor(new Date(implementedAt).getTime() / HOUR_MS) * HOUR_MS;
+  const afterFrom = hour + HOUR_MS;
+  const afterTo = Math.min(afterFrom + VERIFICATION_HOURS * HOUR_MS, now.getTime());
+  return {
+    before: { from: new Date(hour - VERIFICATION_HOURS * HOUR_MS).toISOString(), to: new Date(hour).toISOString() },
+    after: { from: new Date(afterFrom).toISOString(), to: new Date(Math.max(afterFrom, afterTo)).toISOString() },
+  };
+}
+
+function toVerification(row: RecommendationRow): RecommendationVerification | null {
+  if (
+    row.status !== 'verified' || !row.implemented_at || !row.verified_at ||
+    row.cycle_time_before === null || row.cycle_time_after === null ||
+    row.percent_of_target_before === null || row.percent_of_target_after === null ||
+    row.throughput_before === null || row.throughput_after === null || row.actual_improvement === null
+  ) {
+    return null;
+  }
+  return {
+    ...getVerificationWindows(row.implemented_at, new Date(row.verified_at)),
+    cycleTimeBefore: row.cycle_time_before,
+    cycleTimeAfter: row.cycle_time_after,
+    percentOfTargetBefore: row.percent_of_target_before,
+    percentOfTargetAfter: row.percent_of_target_after,
+    throughputBefore: row.throughput_before,
+    throughputAfter: row.throughput_after,
+    throughputChangePercent: row.throughput_before > 0
+      ? round(((row.throughput_after - row.throughput_before) / row.throughput_before) * 100)
+      : 0,
+    actualImprovement: row.actual_improvement,
+    realization: row.expected_improvement > 0 ? round(row.actual_improvement / row.expected_improvement, 2) : null,
+  };
+}
+
+function toTracked(row: RecommendationRow): TrackedRecommendation {
+  return {
+    id: row.id,
+    proposalKey: row.proposal_key,
+    type: row.type,
+    description: row.description,
+    expectedImprovement: row.expected_improvement,
+    implementationCost: row.implementation_cost,
+    timeToImplement: row.time_to_implement,
+    confidence: row.confidence,
+    stationId: row.station_id,
+    stationName: row.station_name,
+    lineId: row.line_id,
+    status: row.status,
+    owner: row.owner,
+    note: row.note,
+    proposedAt: row.proposed_at,
+    lastProposedAt: row.last_proposed_at,
+    acceptedAt: row.accepted_at,
+    rejectedAt: row.rejected_at,
+    implementedAt: row.implemented_at,
+    verifiedAt: row.verified_at,
+    updatedBy: row.updated_by,
+    verification: toVerification(row),
+  };
+}
+
+type Impact = Omit<Parameters<typeof saveRecommendationVerification>[1], 'verifiedAt' | 'updatedBy'>;
+
+// Cycle time is compared as a percentage of target so a change in product mix isn't read
+// as an improvement; throughput is output per hour the station produced
+function measureImpact(row: RecommendationRow, now: Date): Impact | { error: string } {
+  if (!row.implemented_at) return { error: 'The recommendation has not been implemented' };
+  const windows = getVerificationWindows(row.implemented_at, now);
+  const before = getStationPeriodMetrics(row.station_id, windows.before);
+  const after = getStationPeriodMetrics(row.station_id, windows.after);
+
+  if (before.hours < MIN_VERIFICATION_HOURS || after.hours < MIN_VERIFICATION_HOURS) {
+    return {
+      error: `The station produced for ${before.hours}h before and ${after.hours}h after implementation; ` +
+        `${MIN_VERIFICATION_HOURS}h on each side are needed`,
+    };
+  }
+  if (!before.percent_of_target || !after.percent_of_target || !before.avg_cycle_time || !after.avg_cycle_time) {
+    return { error: 'The station has no cycle times against target on one side of implementation' };
+  }
+
+  return {
+    cycleTimeBefore: round(before.avg_cycle_time),
+    cycleTimeAfter: round(after.avg_cycle_time),
+    percentOfTargetBefore: round(before.percent_of_target),
+    percentOfTargetAfter: round(after.percent_of_target),
+    throughputBefore: round(before.units / before.hours, 2),
+    throughputAfter: round(after.units / after.hours, 2),
+    actualImprovement: round(((before.percent_of_target - after.percent_of_target) / before.percent_of_target) * 100),
+  };
+}
+
+export function verifyRecommendation(
+  id: string,
+  updatedBy: string,
+  now = new Date()
+): { recommendation: TrackedRecommendation } | { error: string } {
+  const row = getRecommendationById(id);
+  if (!row || row.status !== 'implemented') return { error: 'Only implemented recommendations can be verified' };
+
+  const impact = measureImpact(row, now);
+  if ('error' in impact) return { error: impact.error };
+
+  saveRecommendationVerification(id, { ...impact, verifiedAt: now.toISOString(), updatedBy });
+  return { recommendation: toTracked(getRecommendationById(id)!) };
+}
+
+// Implemented recommendations whose week after has passed; those still short of production
+// stay implemented until it is there
+export function verifyDueRecommendations(lineId: string | null, now = new Date()): number {
+  const due = now.getTime() - (VERIFICATION_HOURS + 1) * HOUR_MS;
+  let verified = 0;
+  for (const row of getRecommendations({ lineId, status: 'implemented' })) {
+    if (row.implemented_at && new Date(row.implemented_at).getTime() <= due) {
+      if ('recommendation' in verifyRecommendation(row.id, 'system', now)) verified++;
+    }
+  }
+  return verified;
+}
+
+export function listRecommendations(options: {
+  lineId?: string | null;
+  stationId?: string;
+  status?: RecommendationStatus;
+} = {}): TrackedRecommendation[] {
+  return getRecommendations(options).map(toTracked);
+}
+
+// How far verified recommendations of each type delivered what they promised. The factor
+// starts at 1 and moves toward the mean realization as verified outcomes accumulate.
+export function getTrackRecords(lineId: string | null): Partial<Record<Recommendation['type'], RecommendationTrackRecord>> {
+  const byType = new Map<Recommendation['type'], number[]>();
+  for (const row of getRecommendations({ lineId, status: 'verified' })) {
+    if (row.actual_improvement === null || row.expected_improvement <= 0) continue;
+    const realization = Math.max(0, Math.min(MAX_REALIZATION, row.actual_improvement / row.expected_improvement));
+    byType.set(row.type, [...(byType.get(row.type) ?? []), realization]);
+  }
+
+  const records: Partial<Record<Recommendation['type'], RecommendationTrackRecord>> = {};
+  byType.forEach((realizations, type) => {
+    const sum = realizations.reduce((total, r) => total + r, 0);
+    const factor = (PRIOR_WEIGHT + sum) / (PRIOR_WEIGHT + realizations.length);
+    records[type] = {
+      type,
+      verified: realizations.length,
+      meanRealization: round(sum / realizations.length, 2),
+      confidenceFactor: round(Math.max(MIN_CONFIDENCE_FACTOR, Math.min(MAX_CONFIDENCE_FACTOR, factor)), 2),
+    };
+  });
+  return records;
+}
+
+// Marks each of the analysis' recommendations with its stored proposal, the open one for its
+// key or else the latest, without storing anything
+export function markStoredRecommendations(analyses: BottleneckAnalysis[]): BottleneckAnalysis[] {
+  const keys = analyses.flatMap(a => a.recommendations.map(r => r.id));
+  const stored = new Map<string, RecommendationRow>();
+  for (const row of getRecommendations({ proposalKeys: keys })) {
+    const current = stored.get(row.proposal_key);
+    if (!current || (!OPEN_STATUSES.includes(current.status) && OPEN_STATUSES.includes(row.status))) {
+      stored.set(row.proposal_key, row);
+    }
+  }
+  return analyses.map(a => ({
+    ...a,
+    recommendations: a.recommendations.map(r => {
+      const row = stored.get(r.id);
+      return row ? { ...r, id: row.id, status: row.status } : r;
+    }),
+  }));
+}
+
+// Keys with no open proposal whose latest was rejected, or verified within the last
+// verification window, so the analysis suggesting them again is not news
+function getSettledKeys(keys: string[], now: Date): Set<string> {
+  const verifiedSince = new Date(now.getTime() - VERIFICATION_HOURS * HOUR_MS).toISOString();
+  const latest = new Map<string, RecommendationRow>();
+  const open = new Set<string>();
+  // Most recently proposed first
+  for (const row of getRecommendations({ proposalKeys: keys })) {
+    if (OPEN_STATUSES.includes(row.status)) open.add(row.proposal_key);
+    if (!latest.has(row.proposal_key)) latest.set(row.proposal_key, row);
+  }
+
+  const settled = new Set<string>();
+  latest.forEach((row, key) => {
+    if (open.has(key)) return;
+    if (row.status === 'rejected' || (row.status === 'verified' && row.verified_at && row.verified_at >= verifiedSince)) {
+      settled.add(key);
+    }
+  });
+  return settled;
+}
+
+// Stores the analysis' recommendations as proposed and marks each with its stored proposal.
+// Rejected and recently verified actions are only proposed again when `repropose` asks for it.
+export function trackRecommendations(
+  lineId: string | null,
+  analyses: BottleneckAnalysis[],
+  options: { repropose?: boolean } = {},
+  now = new Date()
+): BottleneckAnalysis[] {
+  verifyDueRecommendations(lineId, now);
+  const recommendations = analyses.flatMap(a => a.recommendations.map(r => ({ ...r, stationId: a.stationId })));
+  const settled = options.repropose ? new Set<string>() : getSettledKeys(recommendations.map(r => r.id), now);
+  saveProposedRecommendations(recommendations.filter(r => !settled.has(r.id)), now.toISOString());
+  return markStoredRecommendations(analyses);
+}
+
+// Moves a recommendation along its lifecycle, or only changes its owner or note when no
+// status is given
+export function updateRecommendation(id: string, update: {
+  status?: RecommendationStatus;
+  owner?: string | null;
+  note?: string | null;
+  at?: string; // when the change happened, for changes recorded after the fact
+  updatedBy: string;
+}, now = new Date()): { recommendation: TrackedRecommendation } | { error: string; status: number } {
+  const row = getRecommendationById(id);
+  if (!row) return { error: 'Recommendation not found', status: 404 };
+
+  if (!update.status) {
+    updateRecommendationDetails(id, update);
+    return { recommendation: toTracked(getRecommendationById(id)!) };
+  }
+  if (!STATUS_TRANSITIONS[row.status].includes(update.status)) {
+    return { error: `A ${row.status} recommendation cannot become ${update.status}`, status: 409 };
+  }
+  // A change recorded after the fact still comes after the steps already taken, or
+  // verification would measure windows from before the recommendation existed.
+  // last_proposed_at moves with every analysis, so it doesn't count as a step.
+  if (update.at) {
+    const at = new Date(update.at).getTime();
+    const lastStep = [row.accepted_at, row.rejected_at, row.implemented_at]
+      .reduce<string>((latest, date) => (date && date > latest ? date : latest), row.proposed_at);
+    if (at < new Date(row.proposed_at).getTime()) {
+      return { error: `at cannot be before the recommendation was proposed (${row.proposed_at})`, status: 400 };
+    }
+    if (at < new Date(lastStep).getTime()) {
+      return { error: `at cannot be before its last status change (${lastStep})`, status: 400 };
+    }
+  }
+  // Reopening is refused while a later proposal of the same action is open
+  if (
+    OPEN_STATUSES.includes(update.status) && !OPEN_STATUSES.includes(row.status) &&
+    getRecommendations({ proposalKeys: [row.proposal_key] }).some(r => OPEN_STATUSES.includes(r.status))
+  ) {
+    return { error: 'A later proposal of this recommendation is already open', status: 409 };
+  }
+
+  if (update.status === 'verified') {
+    const result = verifyRecommendation(id, update.updatedBy, now);
+    if ('error' in result) return { error: result.error, status: 422 };
+    updateRecommendationDetails(id, update);
+    return { recommendation: toTracked(getRecommendationById(id)!) };
+  }
+
+  updateRecommendationStatus(id, {
+    status: update.status,
+    at: update.at ?? now.toISOString(),
+    updatedBy: update.updatedBy,
+    owner: update.owner,
+    note: update.note,
+  });
+  return { recommendation: toTracked(getRecommendationById(id)!) };
+}
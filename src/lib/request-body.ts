@@ -0,0 +1,28 @@
+// ============================================
+// LineBalancer AI - Request Bodies
+// JSON object bodies for API routes
+// ============================================
+
+// Reads a request body that must be a JSON object. Returns the problem to answer with
+// 400 when it is not valid JSON, or is null, an array or a scalar. An optional body may
+// be left empty and reads as {}.
+export async function readJsonObject<T extends object>(
+  request: Request,
+  options: { optional?: boolean } = {}
+): Promise<{ body: T } | { error: string }> {
+  const text = await request.text();
+  if (!text.trim()) {
+    return options.optional ? { body: {} as T } : { error: 'Request body must be a JSON object' };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { error: 'Request body must be valid JSON' };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { error: 'Request body must be a JSON object' };
+  }
+  return { body: parsed as T };
+}
@@ -0,0 +1,159 @@
+// ============================================
+// LineBalancer AI - Data Retention
+// Moves raw production records past the
+// retention window into the archive database
+// ============================================
+
+import fs from 'fs';
+import { getDatabase, getSetting, PRODUCTION_RECORD_COLUMNS, setSetting } from '@/lib/database';
+import { ARCHIVE_DB_PATH, DB_PATH } from '@/lib/migrations';
+import type { ArchiveResult, ArchiveRun, StorageReport } from '@/types';
+
+const RETENTION_DAYS_KEY = 'retention.raw_days';
+export const DEFAULT_RETENTION_DAYS = 90;
+
+// The query assistant defaults to a week of raw records; keep at least that online
+export const MIN_RETENTION_DAYS = 7;
+
+type ArchiveRunRow = {
+  id: number;
+  cutoff: string;
+  archived_records: number;
+  compacted: number;
+  duration_ms: number;
+  ran_at: string;
+};
+
+function toArchiveRun(row: ArchiveRunRow): ArchiveRun {
+  return {
+    id: row.id,
+    cutoff: row.cutoff,
+    archivedRecords: row.archived_records,
+    compacted: row.compacted === 1,
+    durationMs: row.duration_ms,
+    ranAt: row.ran_at,
+  };
+}
+
+export function getRetentionDays(): number {
+  const days = Number(getSetting(RETENTION_DAYS_KEY));
+  return Number.isInteger(days) && days >= MIN_RETENTION_DAYS ? days : DEFAULT_RETENTION_DAYS;
+}
+
+export function setRetentionDays(days: number) {
+  setSetting(RETENTION_DAYS_KEY, String(days));
+}
+
+export function getRetentionCutoff(now = new Date()): string {
+  return new Date(now.getTime() - getRetentionDays() * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function fileSize(filePath: string): number {
+  try {
+    return fs.statSync(filePath).size;
+  } catch {
+    return 0;
+  }
+}
+
+// Row counts and on-disk bytes (indexes included) for every table in both databases
+function getTableSizes(): StorageReport['tables'] {
+  const db = getDatabase();
+  const tables: StorageReport['tables'] = [];
+
+  for (const database of ['main', 'archive'] as const) {
+    const bytes = new Map(
+      (db.prepare(`
+        SELECT m.tbl_name as name, SUM(d.pgsize) as bytes
+        FROM dbstat('${database}') d
+        JOIN ${database}.sqlite_master m ON m.name = d.name
+        GROUP BY m.tbl_name
+      `).all() as Array<{ name: string; bytes: number }>).map(row => [row.name, row.bytes])
+    );
+    const names = db.prepare(`
+      SELECT name FROM ${database}.sqlite_master
+      WHERE type = 'table' AND name NOT LIKE 'sqlite_%'
+      ORDER BY name
+    `).all() as Array<{ name: string }>;
+
+    for (const { name } of names) {
+      const { rows } = db.prepare(`SELECT COUNT(*) as rows FROM ${database}."${name}"`).get() as { rows: number };
+      tables.push({ database, name, rows, bytes: bytes.get(name) ?? 0 });
+    }
+  }
+
+  return tables.sort((a, b) => b.bytes - a.bytes);
+}
+
+export function getStorageReport(): StorageReport {
+  const db = getDatabase();
+  const archivedThrough = db.prepare(`
+    SELECT MAX(cutoff) as cutoff FROM archive_runs WHERE archived_records > 0
+  `).get() as { cutoff: string | null };
+  const runs = db.prepare('SELECT * FROM archive_runs ORDER BY id DESC LIMIT 10').all() as ArchiveRunRow[];
+
+  return {
+    retentionDays: getRetentionDays(),
+    cutoff: getRetentionCutoff(),
+    archivedThrough: archivedThrough.cutoff,
+    files: {
+      main: fileSize(DB_PATH),
+      wal: fileSize(`${DB_PATH}-wal`),
+      archive: fileSize(ARCHIVE_DB_PATH),
+    },
+    tables: getTableSizes(),
+    recentRuns: runs.map(toArchiveRun),
+  };
+}
+
+// Moves raw records older than the retention window to the archive a month at a time.
+// Rollups are untouched: they already include these records and stay online.
+export function archiveProductionRecords(options: { compact?: boolean } = {}): ArchiveResult {
+  const db = getDatabase();
+  const started = Date.now();
+  const cutoff = getRetentionCutoff();
+
+  const months = db.prepare(`
+    SELECT substr(timestamp, 1, 7) as month, COUNT(*) as records
+    FROM production_records
+    WHERE timestamp < ?
+    GROUP BY month
+    ORDER BY month
+  `).all(cutoff) as Array<{ month: string; records: number }>;
+
+  const copy = db.prepare(`
+    INSERT OR IGNORE INTO archive.production_records (${PRODUCTION_RECORD_COLUMNS})
+    SELECT ${PRODUCTION_RECORD_COLUMNS} FROM main.production_records
+    WHERE timestamp < ? AND substr(timestamp, 1, 7) = ?
+  `);
+  const remove = db.prepare(`
+    DELETE FROM main.production_records
+    WHERE timestamp < ? AND substr(timestamp, 1, 7) = ?
+  `);
+
+  // In WAL mode a transaction spanning attached databases is atomic per file only.
+  // Copying with INSERT OR IGNORE makes a re-run after a failed delete safe.
+  let archivedRecords = 0;
+  for (const { month } of months) {
+    db.transaction(() => {
+      copy.run(cutoff, month);
+      archivedRecords += remove.run(cutoff, month).changes;
+    })();
+  }
+
+  let compacted = false;
+  if (options.compact) {
+    // VACUUM rewrites the file through the WAL, so checkpoint afterwards to hand the space back
+    db.exec('VACUUM main');
+    db.pragma('wal_checkpoint(TRUNCATE)');
+    compacted = true;
+  }
+
+  const durationMs = Date.now() - started;
+  db.prepare(`
+    INSERT INTO archive_runs (cutoff, archived_records, compacted, duration_ms)
+    VALUES (?, ?, ?, ?)
+  `).run(cutoff, archivedRecords, compacted ? 1 : 0, durationMs);
+
+  return { cutoff, archivedRecords, months, compacted, durationMs };
+}
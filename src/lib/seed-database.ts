@@ -4,106 +4,57 @@
 // ============================================
 
 import Database from 'better-sqlite3';
-import path from 'path';
+import fs from 'fs';
 import { randomUUID } from 'crypto';
+import { ARCHIVE_DB_PATH, DB_PATH, HISTORY_START, runMigrations } from './migrations';
 
-const dbPath = path.join(process.cwd(), 'linebalancer.db');
-const db = new Database(dbPath);
-
-// Initialize schema
-db.exec(`
-  DROP TABLE IF EXISTS nlp_queries;
-  DROP TABLE IF EXISTS simulations;
-  DROP TABLE IF EXISTS alerts;
-  DROP TABLE IF EXISTS production_records;
-  DROP TABLE IF EXISTS operators;
-  DROP TABLE IF EXISTS stations;
-`);
-
-db.exec(`
-  CREATE TABLE stations (
-    id TEXT PRIMARY KEY,
-    name TEXT NOT NULL,
-    description TEXT,
-    target_cycle_time REAL NOT NULL,
-    position INTEGER NOT NULL,
-    operator_count INTEGER DEFAULT 1,
-    status TEXT DEFAULT 'running',
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
-
-  CREATE TABLE operators (
-    id TEXT PRIMARY KEY,
-    name TEXT NOT NULL,
-    shift TEXT NOT NULL,
-    skill_level INTEGER DEFAULT 3,
-    station_id TEXT,
-    efficiency REAL DEFAULT 100,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY (station_id) REFERENCES stations(id)
-  );
+const db = new Database(DB_PATH);
 
-  CREATE TABLE production_records (
-    id TEXT PRIMARY KEY,
-    station_id TEXT NOT NULL,
-    operator_id TEXT NOT NULL,
-    timestamp DATETIME NOT NULL,
-    cycle_time REAL NOT NULL,
-    quantity INTEGER DEFAULT 1,
-    defects INTEGER DEFAULT 0,
-    shift TEXT NOT NULL,
-    downtime_minutes REAL DEFAULT 0,
-    downtime_reason TEXT,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY (station_id) REFERENCES stations(id),
-    FOREIGN KEY (operator_id) REFERENCES operators(id)
-  );
-
-  CREATE TABLE alerts (
-    id TEXT PRIMARY KEY,
-    type TEXT NOT NULL,
-    severity TEXT NOT NULL,
-    station_id TEXT,
-    message TEXT NOT NULL,
-    details TEXT,
-    timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
-    acknowledged INTEGER DEFAULT 0,
-    resolved_at DATETIME,
-    FOREIGN KEY (station_id) REFERENCES stations(id)
-  );
+// Bring the schema up to date instead of recreating it
+const applied = runMigrations(db);
+for (const migration of applied) {
+  console.log(`Applied migration ${migration.version}: ${migration.name}`);
+}
 
-  CREATE TABLE simulations (
-    id TEXT PRIMARY KEY,
-    name TEXT NOT NULL,
-    description TEXT,
-    changes TEXT NOT NULL,
-    baseline TEXT NOT NULL,
-    projected TEXT NOT NULL,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
+// Seeding uses fixed station and operator IDs, so existing data must be cleared first.
+// --reset deletes rows (and the archive) but keeps the schema and its version history.
+const hasData = (db.prepare('SELECT COUNT(*) as count FROM stations').get() as { count: number }).count > 0;
+if (hasData) {
+  if (!process.argv.includes('--reset')) {
+    console.error('Database already contains data. Run `npm run seed -- --reset` to clear it and reseed.');
+    db.close();
+    process.exit(1);
+  }
 
-  CREATE TABLE nlp_queries (
-    id TEXT PRIMARY KEY,
-    query TEXT NOT NULL,
-    parsed_intent TEXT,
-    generated_sql TEXT,
-    result TEXT,
-    explanation TEXT,
-    timestamp DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
+  const tables = db.prepare(`
+    SELECT name FROM sqlite_master
+    WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name != 'schema_version'
+  `).all() as Array<{ name: string }>;
 
-  CREATE INDEX idx_production_station ON production_records(station_id);
-  CREATE INDEX idx_production_timestamp ON production_records(timestamp);
-  CREATE INDEX idx_production_shift ON production_records(shift);
-  CREATE INDEX idx_alerts_type ON alerts(type);
-  CREATE INDEX idx_alerts_severity ON alerts(severity);
-`);
+  db.pragma('foreign_keys = OFF');
+  db.transaction(() => {
+    for (const table of tables) {
+      db.exec(`DELETE FROM "${table.name}"`);
+    }
+  })();
+  db.pragma('foreign_keys = ON');
+  console.log(`Cleared ${tables.length} tables`);
+
+  // Archived records belong to the data being cleared
+  if (fs.existsSync(ARCHIVE_DB_PATH)) {
+    fs.rmSync(ARCHIVE_DB_PATH);
+    console.log('Removed archive database');
+  }
+}
 
 // ============================================
 // Seed Data
 // ============================================
 
+// Plant and line the sample stations belong to
+const plant = { id: 'PL01', name: 'Main Plant', location: 'Detroit, MI', timezone: 'America/Detroit' };
+const line = { id: 'LN01', plantId: 'PL01', name: 'Line 1', description: 'Automotive assembly line' };
+
 // Manufacturing line stations (automotive assembly example)
 const stations = [
   { id: 'ST001', name: 'Material Loading', description: 'Raw material input and verification', targetCycleTime: 45, position: 1, operatorCount: 2 },
@@ -118,6 +69,17 @@ const stations = [
   { id: 'ST010', name: 'Shipping Prep', description: 'Palletizing and shipping preparation', targetCycleTime: 35, position: 10, operatorCount: 2 },
 ];
 
+// Product variants; each scales the station default targets where its build content differs
+const products = [
+  { id: 'PR001', sku: 'SDN-STD', name: 'Sedan Standard', description: 'Base sedan trim', mix: 0.5, targetFactors: {} as Record<string, number> },
+  { id: 'PR002', sku: 'SDN-PRM', name: 'Sedan Premium', description: 'Sedan with premium interior package', mix: 0.3, targetFactors: { ST005: 1.2, ST007: 1.25, ST008: 1.1 } as Record<string, number> },
+  { id: 'PR003', sku: 'SUV-STD', name: 'SUV Standard', description: 'Base SUV trim', mix: 0.2, targetFactors: { ST002: 1.15, ST003: 1.3, ST004: 1.2, ST007: 1.15 } as Record<string, number> },
+];
+
+function productTarget(product: typeof products[number], station: typeof stations[number]): number {
+  return Math.round(station.targetCycleTime * (product.targetFactors[station.id] ?? 1));
+}
+
 // Operators with varied skill levels
 const operatorNames = [
   'Marcus Chen', 'Sarah Williams', 'James Rodriguez', 'Emily Thompson', 'Michael Kim',
@@ -130,20 +92,112 @@ const operatorNames = [
 
 const shifts = ['day', 'night', 'swing'] as const;
 
+// Insert plant and line
+db.prepare('INSERT INTO plants (id, name, location, timezone) VALUES (?, ?, ?, ?)')
+  .run(plant.id, plant.name, plant.location, plant.timezone);
+db.prepare('INSERT INTO lines (id, plant_id, name, description) VALUES (?, ?, ?, ?)')
+  .run(line.id, line.plantId, line.name, line.description);
+
 // Insert stations
 const insertStation = db.prepare(`
-  INSERT INTO stations (id, name, description, target_cycle_time, position, operator_count)
+  INSERT INTO stations (id, line_id, name, description, target_cycle_time, position, operator_count)
+  VALUES (?, ?, ?, ?, ?, ?, ?)
+`);
+
+// Targets and operator assignments are effective-dated; seeded values apply to all history
+const insertTargetHistory = db.prepare(`
+  INSERT INTO station_target_history (station_id, product_id, target_cycle_time, effective_from)
+  VALUES (?, ?, ?, ?)
+`);
+
+for (const station of stations) {
+  insertStation.run(station.id, line.id, station.name, station.description, station.targetCycleTime, station.position, station.operatorCount);
+  insertTargetHistory.run(station.id, null, station.targetCycleTime, HISTORY_START);
+}
+
+// Serial flow, except that inspection sends a share of units back to final assembly for rework
+const insertRoute = db.prepare(`
+  INSERT INTO station_routes (line_id, from_station_id, to_station_id, kind, fraction)
+  VALUES (?, ?, ?, ?, ?)
+`);
+const REWORK_FRACTION = 0.05;
+stations.slice(1).forEach((station, index) => {
+  const from = stations[index];
+  insertRoute.run(line.id, from.id, station.id, 'flow', from.id === 'ST008' ? 1 - REWORK_FRACTION : 1);
+});
+insertRoute.run(line.id, 'ST008', 'ST007', 'rework', REWORK_FRACTION);
+
+// Work elements behind each station's target, in seconds. A station's first element follows
+// everything at the station before it; the two sub-assemblies can be built in either order.
+const workElements: Record<string, Array<[string, number]>> = {
+  ST001: [['Pick and verify blanks', 25], ['Load fixture', 20]],
+  ST002: [['Rough mill', 55], ['Drill and tap', 40], ['Finish pass', 25]],
+  ST003: [['Tack weld frame', 30], ['Seam weld', 45], ['Weld inspection', 15]],
+  ST004: [['Wash and dry', 30], ['Prime coat', 45]],
+  ST005: [['Fit brackets', 35], ['Install harness', 25]],
+  ST006: [['Mount module', 30], ['Torque fasteners', 25]],
+  ST007: [['Marry body and frame', 45], ['Install trim', 35], ['Connect systems', 20]],
+  ST008: [['Functional test', 30], ['Visual check', 20]],
+  ST009: [['Wrap and box', 25], ['Label', 15]],
+  ST010: [['Palletize', 20], ['Stage for shipping', 15]],
+};
+
+const insertWorkElement = db.prepare(`
+  INSERT INTO work_elements (line_id, id, name, duration, station_id, position)
   VALUES (?, ?, ?, ?, ?, ?)
 `);
+const insertPrecedence = db.prepare(`
+  INSERT INTO work_element_precedences (line_id, predecessor_id, successor_id)
+  VALUES (?, ?, ?)
+`);
 
+let elementPosition = 0;
+let previousElements: string[] = [];
 for (const station of stations) {
-  insertStation.run(station.id, station.name, station.description, station.targetCycleTime, station.position, station.operatorCount);
+  const ids = workElements[station.id].map((_, index) => `${station.id}-E${index + 1}`);
+  workElements[station.id].forEach(([name, duration], index) => {
+    insertWorkElement.run(line.id, ids[index], name, duration, station.id, ++elementPosition);
+    if (index > 0) insertPrecedence.run(line.id, ids[0], ids[index]);
+  });
+  for (const predecessor of previousElements) insertPrecedence.run(line.id, predecessor, ids[0]);
+  // Sub-Assembly B waits on surface treatment, not on Sub-Assembly A; final assembly waits on both
+  if (station.id === 'ST005') continue;
+  previousElements = station.id === 'ST006'
+    ? [...workElements.ST005.map((_, index) => `ST005-E${index + 1}`), ...ids]
+    : ids;
 }
 
+console.log(`Inserted ${elementPosition} work elements`);
+
+// Insert products and their per-station targets
+const insertProduct = db.prepare(`
+  INSERT INTO products (id, line_id, sku, name, description)
+  VALUES (?, ?, ?, ?, ?)
+`);
+const insertProductTarget = db.prepare(`
+  INSERT INTO station_product_targets (station_id, product_id, target_cycle_time)
+  VALUES (?, ?, ?)
+`);
+
+for (const product of products) {
+  insertProduct.run(product.id, line.id, product.sku, product.name, product.description);
+  for (const station of stations) {
+    insertProductTarget.run(station.id, product.id, productTarget(product, station));
+    insertTargetHistory.run(station.id, product.id, productTarget(product, station), HISTORY_START);
+  }
+}
+
+console.log(`Inserted ${products.length} products`);
+
 // Insert operators
 const insertOperator = db.prepare(`
-  INSERT INTO operators (id, name, shift, skill_level, station_id, efficiency)
-  VALUES (?, ?, ?, ?, ?, ?)
+  INSERT INTO operators (id, line_id, name, shift, skill_level, station_id, efficiency)
+  VALUES (?, ?, ?, ?, ?, ?, ?)
+`);
+
+const insertAssignment = db.prepare(`
+  INSERT INTO operator_assignments (operator_id, station_id, effective_from)
+  VALUES (?, ?, ?)
 `);
 
 const operators: { id: string; name: string; shift: string; skillLevel: number; stationId: string; efficiency: number }[] = [];
@@ -165,20 +219,63 @@ for (const station of stations) {
       efficiency,
     });
     
-    insertOperator.run(opId, operatorNames[operatorIdx % operatorNames.length], shift, skillLevel, station.id, efficiency);
+    insertOperator.run(opId, line.id, operatorNames[operatorIdx % operatorNames.length], shift, skillLevel, station.id, efficiency);
+    insertAssignment.run(opId, station.id, HISTORY_START);
     operatorIdx++;
   }
 }
 
 console.log(`Inserted ${stations.length} stations and ${operators.length} operators`);
 
+// Skill matrix: certified at the home station, some operators cross-trained one station downstream
+const insertSkill = db.prepare(`
+  INSERT INTO operator_skills (operator_id, station_id, certified, proficiency, certified_at, expires_at)
+  VALUES (?, ?, ?, ?, ?, ?)
+`);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+let skillCount = 0;
+for (const op of operators) {
+  // Certifications last a year; a spread of ages leaves some expiring or lapsed
+  const certifiedAt = Date.now() - Math.floor(Math.random() * 400) * DAY_MS;
+  insertSkill.run(
+    op.id, op.stationId, 1, op.skillLevel,
+    new Date(certifiedAt).toISOString(), new Date(certifiedAt + 365 * DAY_MS).toISOString()
+  );
+  skillCount++;
+
+  const next = stations[stations.findIndex(s => s.id === op.stationId) + 1];
+  if (next && Math.random() < 0.4) {
+    const certified = Math.random() < 0.5;
+    insertSkill.run(
+      op.id, next.id, certified ? 1 : 0, Math.max(1, op.skillLevel - 2),
+      certified ? new Date(certifiedAt).toISOString() : null,
+      certified ? new Date(certifiedAt + 365 * DAY_MS).toISOString() : null
+    );
+    skillCount++;
+  }
+}
+
+console.log(`Inserted ${skillCount} operator skills`);
+
 // Generate production records for the last 30 days
 const insertRecord = db.prepare(`
   INSERT INTO production_records 
-  (id, station_id, operator_id, timestamp, cycle_time, quantity, defects, shift, downtime_minutes, downtime_reason)
-  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  (id, station_id, operator_id, timestamp, cycle_time, quantity, defects, shift, downtime_minutes, downtime_reason, product_id)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
 `);
 
+// The line builds one product at a time in two-hour runs
+const RUN_LENGTH_MS = 2 * 60 * 60 * 1000;
+function pickProduct(): typeof products[number] {
+  let roll = Math.random();
+  for (const product of products) {
+    roll -= product.mix;
+    if (roll < 0) return product;
+  }
+  return products[0];
+}
+
 const downtimeReasons = [
   'Equipment maintenance', 'Material shortage', 'Quality issue upstream',
   'Operator break', 'Tool change', 'System calibration', 'Power fluctuation',
@@ -195,8 +292,10 @@ const thirtyDaysAgo = now - 30 * 24 * 60 * 60 * 1000;
 
 // Generate ~50k records
 const transaction = db.transaction(() => {
+  let product = pickProduct();
   for (let timestamp = thirtyDaysAgo; timestamp < now; timestamp += 5 * 60 * 1000) { // Every 5 minutes
     const date = new Date(timestamp);
+    if ((timestamp - thirtyDaysAgo) % RUN_LENGTH_MS === 0) product = pickProduct();
     const hour = date.getHours();
     
     // Determine shift
@@ -240,10 +339,11 @@ const transaction = db.transaction(() => {
       if (dayOfWeek === 5) cycleTimeMultiplier += 0.03; // Friday fatigue
       
       // Calculate final cycle time
-      const baseCycleTime = station.targetCycleTime * cycleTimeMultiplier;
+      const targetCycleTime = productTarget(product, station);
+      const baseCycleTime = targetCycleTime * cycleTimeMultiplier;
       const variance = baseCycleTime * 0.15; // 15% variance
       const cycleTime = Math.max(
-        station.targetCycleTime * 0.8,
+        targetCycleTime * 0.8,
         baseCycleTime + (Math.random() - 0.5) * 2 * variance
       );
       
@@ -270,7 +370,8 @@ const transaction = db.transaction(() => {
         defects,
         shift,
         downtimeMinutes,
-        downtimeReason
+        downtimeReason,
+        product.id
       );
       
       recordCount++;
@@ -281,10 +382,71 @@ const transaction = db.transaction(() => {
 transaction();
 console.log(`Inserted ${recordCount} production records`);
 
+// Station state events for the last 7 days. Stations upstream of a problem station are
+// blocked by it, stations downstream are starved; the problem stations rarely wait.
+const insertStateEvent = db.prepare(`
+  INSERT INTO station_state_events (id, station_id, state, start_time, end_time, duration_seconds, reason)
+  VALUES (?, ?, ?, ?, ?, ?, ?)
+`);
+
+const HOUR_MS = 60 * 60 * 1000;
+const stateStart = Math.floor((now - 7 * 24 * HOUR_MS) / HOUR_MS) * HOUR_MS;
+const stateEnd = Math.floor(now / HOUR_MS) * HOUR_MS;
+const problemPositions = problematicStations.map(id => stations.findIndex(s => s.id === id));
+let stateEventCount = 0;
+
+db.transaction(() => {
+  for (let hourStart = stateStart; hourStart < stateEnd; hourStart += HOUR_MS) {
+    stations.forEach((station, index) => {
+      const isProblem = problemPositions.includes(index);
+      const upstreamProblem = problemPositions.some(p => p < index);
+      const downstreamProblem = problemPositions.some(p => p > index);
+
+      const segments: Array<{ state: string; minutes: number; reason: string | null }> = [];
+      if ((hourStart - stateStart) % RUN_LENGTH_MS === 0) {
+        segments.push({ state: 'changeover', minutes: 3 + Math.floor(Math.random() * 4), reason: 'Product changeover' });
+      }
+      if (Math.random() < (isProblem ? 0.15 : 0.05)) {
+        segments.push({ state: 'down', minutes: 2 + Math.floor(Math.random() * 12), reason: 'Equipment fault' });
+      }
+      const waitScale = isProblem ? 0.05 : 0.3;
+      if (upstreamProblem) segments.push({ state: 'starved', minutes: Math.round(60 * waitScale * (0.5 + Math.random())), reason: null });
+      if (downstreamProblem) segments.push({ state: 'blocked', minutes: Math.round(60 * waitScale * (0.5 + Math.random())), reason: null });
+
+      // Whatever the hour doesn't spend elsewhere is spent working, split around the waits
+      const busyMinutes = segments.reduce((sum, seg) => sum + seg.minutes, 0);
+      const workingMinutes = Math.max(0, 60 - busyMinutes);
+      const timeline = [
+        { state: 'working', minutes: workingMinutes / 2, reason: null },
+        ...segments,
+        { state: 'working', minutes: workingMinutes / 2, reason: null },
+      ].filter(seg => seg.minutes > 0);
+
+      let cursor = hourStart;
+      for (const seg of timeline) {
+        const end = Math.min(hourStart + HOUR_MS, cursor + seg.minutes * 60 * 1000);
+        if (end <= cursor) break;
+        insertStateEvent.run(
+          randomUUID(),
+          station.id,
+          seg.state,
+          new Date(cursor).toISOString(),
+          new Date(end).toISOString(),
+          (end - cursor) / 1000,
+          seg.reason
+        );
+        cursor = end;
+        stateEventCount++;
+      }
+    });
+  }
+})();
+console.log(`Inserted ${stateEventCount} station state events`);
+
 // Generate alerts
 const insertAlert = db.prepare(`
-  INSERT INTO alerts (id, type, severity, station_id, message, details, timestamp, acknowledged)
-  VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  INSERT INTO alerts (id, type, severity, station_id, line_id, message, details, timestamp, acknowledged)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
 `);
 
 const alerts = [
@@ -356,6 +518,7 @@ for (const alert of alerts) {
     alert.type,
     alert.severity,
     alert.stationId,
+    line.id,
     alert.message,
     alert.details,
     alert.timestamp,
@@ -367,8 +530,8 @@ console.log(`Inserted ${alerts.length} alerts`);
 
 // Insert sample simulation
 const insertSimulation = db.prepare(`
-  INSERT INTO simulations (id, name, description, changes, baseline, projected, created_at)
-  VALUES (?, ?, ?, ?, ?, ?, ?)
+  INSERT INTO simulations (id, line_id, name, description, changes, baseline, projected, created_at)
+  VALUES (?, ?, ?, ?, ?, ?, ?, ?)
 `);
 
 const simulation = {
@@ -407,6 +570,7 @@ const simulation = {
 
 insertSimulation.run(
   simulation.id,
+  line.id,
   simulation.name,
   simulation.description,
   simulation.changes,
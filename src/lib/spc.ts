@@ -0,0 +1,419 @@
+// ============================================
+// LineBalancer AI - Statistical Process Control
+// X-bar/R and individuals/moving range charts
+// with Western Electric and Nelson rules
+// ============================================
+
+import {
+  getAlertById,
+  getSpcBaseline,
+  getSpcObservations,
+  getStationById,
+  insertAlert,
+} from '@/lib/database';
+import { mean } from '@/lib/stats';
+import type {
+  SpcBaseline,
+  SpcChart,
+  SpcChartSet,
+  SpcChartType,
+  SpcLimits,
+  SpcMetric,
+  SpcPoint,
+  SpcRuleId,
+  SpcViolation,
+} from '@/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const SPC_METRICS: SpcMetric[] = ['cycle_time', 'defect_rate'];
+export const SPC_CHART_TYPES: SpcChartType[] = ['xbar_r', 'i_mr'];
+
+export const DEFAULT_CHART_HOURS = 72;
+export const DEFAULT_BASELINE_HOURS = 168;
+export const DEFAULT_SUBGROUP_SIZE = 5;
+export const MIN_SUBGROUP_SIZE = 2;
+export const MAX_SUBGROUP_SIZE = 10;
+
+// Fewer baseline points than this give limits too loose to act on
+export const MIN_BASELINE_POINTS = 20;
+
+// Only signals completed this recently raise alerts, so the first check after a baseline
+// change does not replay the whole charted window
+const ALERT_LOOKBACK_HOURS = 6;
+
+// Cycles are plentiful and subgroup naturally; hourly defect rates are sparse, so they are
+// charted one at a time
+const DEFAULT_CHART_TYPE: Record<SpcMetric, SpcChartType> = {
+  cycle_time: 'xbar_r',
+  defect_rate: 'i_mr',
+};
+
+// Control chart constants by subgroup size (ASTM STP 15D)
+const XBAR_R_CONSTANTS: Record<number, { a2: number; d3: number; d4: number }> = {
+  2: { a2: 1.880, d3: 0, d4: 3.267 },
+  3: { a2: 1.023, d3: 0, d4: 2.574 },
+  4: { a2: 0.729, d3: 0, d4: 2.282 },
+  5: { a2: 0.577, d3: 0, d4: 2.114 },
+  6: { a2: 0.483, d3: 0, d4: 2.004 },
+  7: { a2: 0.419, d3: 0.076, d4: 1.924 },
+  8: { a2: 0.373, d3: 0.136, d4: 1.864 },
+  9: { a2: 0.337, d3: 0.184, d4: 1.816 },
+  10: { a2: 0.308, d3: 0.223, d4: 1.777 },
+};
+
+// Moving ranges of two consecutive individuals
+const MR_D2 = 1.128;
+const MR_D4 = 3.267;
+
+export const SPC_RULES: Record<SpcRuleId, { name: string; description: string }> = {
+  WE1: { name: 'Western Electric 1', description: 'One point beyond 3 sigma' },
+  WE2: { name: 'Western Electric 2', description: 'Two of three points beyond 2 sigma on one side' },
+  WE3: { name: 'Western Electric 3', description: 'Four of five points beyond 1 sigma on one side' },
+  WE4: { name: 'Western Electric 4', description: 'Eight points in a row on one side of the center line' },
+  N3: { name: 'Nelson 3', description: 'Six points in a row steadily increasing or decreasing' },
+  N4: { name: 'Nelson 4', description: 'Fourteen points in a row alternating up and down' },
+  N7: { name: 'Nelson 7', description: 'Fifteen points in a row within 1 sigma' },
+  N8: { name: 'Nelson 8', description: 'Eight points in a row beyond 1 sigma on both sides' },
+};
+
+const METRIC_LABELS: Record<SpcMetric, { name: string; unit: string }> = {
+  cycle_time: { name: 'cycle time', unit: 's' },
+  defect_rate: { name: 'defect rate', unit: '%' },
+};
+
+type Observation = ReturnType<typeof getSpcObservations>[number];
+
+// Rational subgroups with boundaries that don't move as the window slides: cycles are grouped
+// within their clock hour, hourly defect rates within fixed blocks of hours. Incomplete
+// subgroups are left out.
+function toSubgroups(observations: Observation[], metric: SpcMetric, size: number): Observation[][] {
+  const blockOf = (time: string) => {
+    const hour = Math.floor(new Date(time).getTime() / HOUR_MS);
+    return metric === 'defect_rate' ? Math.floor(hour / size) : hour;
+  };
+
+  const subgroups: Observation[][] = [];
+  let current: Observation[] = [];
+  let currentBlock: number | null = null;
+  for (const observation of observations) {
+    const block = blockOf(observation.time);
+    if (block !== currentBlock) {
+      current = [];
+      currentBlock = block;
+    }
+    current.push(observation);
+    if (current.length === size) {
+      subgroups.push(current);
+      current = [];
+    }
+  }
+  return subgroups;
+}
+
+function toPoints(observations: Observation[], metric: SpcMetric, chartType: SpcChartType, size: number) {
+  if (chartType === 'i_mr') {
+    const location: SpcPoint[] = observations.map(o => ({ time: o.time, value: o.value, size: 1 }));
+    const dispersion: SpcPoint[] = observations.slice(1).map((o, i) => ({
+      time: o.time,
+      value: Math.abs(o.value - observations[i].value),
+      size: 2,
+    }));
+    return { location, dispersion };
+  }
+
+  const subgroups = toSubgroups(observations, metric, size);
+  const last = (group: Observation[]) => group[group.length - 1].time;
+  return {
+    location: subgroups.map(g => ({ time: last(g), value: mean(g.map(o => o.value)), size: g.length })),
+    dispersion: subgroups.map(g => {
+      const values = g.map(o => o.value);
+      return { time: last(g), value: Math.max(...values) - Math.min(...values), size: g.length };
+    }),
+  };
+}
+
+// Limits from the baseline's points. Neither metric can go negative, so lower limits stop at 0.
+function computeLimits(
+  baseline: { location: SpcPoint[]; dispersion: SpcPoint[] },
+  chartType: SpcChartType,
+  size: number
+): { location: SpcLimits; dispersion: SpcLimits } | null {
+  if (baseline.location.length < MIN_BASELINE_POINTS || baseline.dispersion.length === 0) return null;
+
+  const center = mean(baseline.location.map(p => p.value));
+  const averageRange = mean(baseline.dispersion.map(p => p.value));
+
+  const { a2, d3, d4 } = chartType === 'i_mr'
+    ? { a2: 3 / MR_D2, d3: 0, d4: MR_D4 }
+    : XBAR_R_CONSTANTS[size];
+  const sigma = (a2 * averageRange) / 3;
+  const rangeUcl = d4 * averageRange;
+
+  return {
+    location: {
+      center,
+      ucl: center + 3 * sigma,
+      lcl: Math.max(0, center - 3 * sigma),
+      sigma,
+    },
+    dispersion: {
+      center: averageRange,
+      ucl: rangeUcl,
+      lcl: d3 * averageRange,
+      sigma: (rangeUcl - averageRange) / 3,
+    },
+  };
+}
+
+// Indexes of the pattern a rule finds ending at point i, or null
+function matchRule(rule: SpcRuleId, z: number[], values: number[], i: number): number[] | null {
+  const range = (length: number) =>
+    i + 1 >= length ? Array.from({ length }, (_, k) => i - length + 1 + k) : null;
+  const sameSide = (indexes: number[], beyond: number) => {
+    for (const sign of [1, -1]) {
+      const hits = indexes.filter(k => z[k] * sign > beyond);
+      if (z[i] * sign > beyond) return hits;
+    }
+    return [];
+  };
+
+  switch (rule) {
+    case 'WE1':
+      return Math.abs(z[i]) > 3 ? [i] : null;
+    case 'WE2': {
+      const window = range(3);
+      const hits = window ? sameSide(window, 2) : [];
+      return hits.length >= 2 ? hits : null;
+    }
+    case 'WE3': {
+      const window = range(5);
+      const hits = window ? sameSide(window, 1) : [];
+      return hits.length >= 4 ? hits : null;
+    }
+    case 'WE4': {
+      const window = range(8);
+      return window && sameSide(window, 0).length === 8 ? window : null;
+    }
+    case 'N3': {
+      const window = range(6);
+      if (!window) return null;
+      const steps = window.slice(1).map(k => Math.sign(values[k] - values[k - 1]));
+      return steps[0] !== 0 && steps.every(s => s === steps[0]) ? window : null;
+    }
+    case 'N4': {
+      const window = range(14);
+      if (!window) return null;
+      const steps = window.slice(1).map(k => Math.sign(values[k] - values[k - 1]));
+      return steps.every((s, k) => s !== 0 && (k === 0 || s === -steps[k - 1])) ? window : null;
+    }
+    case 'N7': {
+      const window = range(15);
+      return window && window.every(k => Math.abs(z[k]) < 1) ? window : null;
+    }
+    case 'N8': {
+      const window = range(8);
+      return window && window.every(k => Math.abs(z[k]) > 1) && window.some(k => z[k] > 0) && window.some(k => z[k] < 0)
+        ? window
+        : null;
+    }
+  }
+}
+
+// A pattern that keeps matching on consecutive points is one violation, dated by the point
+// that first completed it so re-evaluating the same data finds the same violation.
+// Dispersion charts are only checked against their limits.
+export function evaluateRules(chart: SpcChart, which: SpcViolation['chart']): SpcViolation[] {
+  const limits = chart.limits;
+  if (!limits || limits.sigma <= 0) return [];
+
+  const values = chart.points.map(p => p.value);
+  const z = values.map(v => (v - limits.center) / limits.sigma);
+  const rules: SpcRuleId[] = which === 'location' ? (Object.keys(SPC_RULES) as SpcRuleId[]) : ['WE1'];
+
+  const violations: SpcViolation[] = [];
+  for (const rule of rules) {
+    let open: SpcViolation | null = null;
+    for (let i = 0; i < values.length; i++) {
+      const outside = which === 'dispersion' && (values[i] > limits.ucl || (limits.lcl > 0 && values[i] < limits.lcl));
+      const pattern = which === 'dispersion' ? (outside ? [i] : null) : matchRule(rule, z, values, i);
+      if (!pattern) {
+        open = null;
+        continue;
+      }
+      if (open) {
+        open.pointIndexes = Array.from(new Set([...open.pointIndexes, ...pattern])).sort((a, b) => a - b);
+        continue;
+      }
+      open = {
+        rule,
+        chart: which,
+        pointIndexes: pattern,
+        time: chart.points[i].time,
+        description: which === 'dispersion'
+          ? `${chart.label} outside its control limits`
+          : SPC_RULES[rule].description,
+      };
+      violations.push(open);
+    }
+  }
+  return violations.sort((a, b) => a.time.localeCompare(b.time));
+}
+
+// Points a candidate baseline period would give, to check it before it is stored
+export function countBaselinePoints(baseline: {
+  stationId: string;
+  metric: SpcMetric;
+  chartType: SpcChartType;
+  subgroupSize: number;
+  from: string;
+  to: string;
+}): number {
+  const observations = getSpcObservations({
+    stationId: baseline.stationId,
+    metric: baseline.metric,
+    from: baseline.from,
+    to: baseline.to,
+  });
+  return toPoints(observations, baseline.metric, baseline.chartType, baseline.subgroupSize).location.length;
+}
+
+function resolveBaseline(
+  stationId: string,
+  metric: SpcMetric,
+  windowFrom: Date,
+  chartType?: SpcChartType,
+  subgroupSize?: number
+): Omit<SpcBaseline, 'observations'> {
+  const stored = getSpcBaseline(stationId, metric);
+  const type = chartType ?? stored?.chart_type ?? DEFAULT_CHART_TYPE[metric];
+  const size = type === 'i_mr'
+    ? 1
+    : subgroupSize ?? (stored?.chart_type === 'xbar_r' ? stored.subgroup_size : DEFAULT_SUBGROUP_SIZE);
+
+  return {
+    stationId,
+    metric,
+    chartType: type,
+    subgroupSize: size,
+    from: stored?.baseline_from ?? new Date(windowFrom.getTime() - DEFAULT_BASELINE_HOURS * HOUR_MS).toISOString(),
+    to: stored?.baseline_to ?? windowFrom.toISOString(),
+    stored: !!stored,
+    updatedBy: stored?.updated_by ?? null,
+  };
+}
+
+export function getSpcChartSet(options: {
+  stationId: string;
+  metric: SpcMetric;
+  chartType?: SpcChartType;
+  subgroupSize?: number;
+  hours?: number;
+  productId?: string | null;
+  now?: Date;
+}): SpcChartSet | null {
+  const station = getStationById(options.stationId) as { id: string; name: string } | undefined;
+  if (!station) return null;
+
+  // The window starts on an hour boundary so its first subgroups are complete
+  const now = options.now ?? new Date();
+  const hours = options.hours ?? DEFAULT_CHART_HOURS;
+  const from = new Date(Math.floor((now.getTime() - hours * HOUR_MS) / HOUR_MS) * HOUR_MS);
+
+  const baseline = resolveBaseline(station.id, options.metric, from, options.chartType, options.subgroupSize);
+  const { chartType, subgroupSize } = baseline;
+
+  const baselineObservations = getSpcObservations({
+    stationId: station.id,
+    metric: options.metric,
+    from: baseline.from,
+    to: baseline.to,
+    productId: options.productId,
+  });
+  const limits = computeLimits(
+    toPoints(baselineObservations, options.metric, chartType, subgroupSize),
+    chartType,
+    subgroupSize
+  );
+
+  const points = toPoints(
+    getSpcObservations({
+      stationId: station.id,
+      metric: options.metric,
+      from: from.toISOString(),
+      to: now.toISOString(),
+      productId: options.productId,
+    }),
+    options.metric,
+    chartType,
+    subgroupSize
+  );
+  const location: SpcChart = {
+    label: chartType === 'i_mr' ? 'Individuals' : 'X-bar',
+    points: points.location,
+    limits: limits?.location ?? null,
+  };
+  const dispersion: SpcChart = {
+    label: chartType === 'i_mr' ? 'Moving Range' : 'R',
+    points: points.dispersion,
+    limits: limits?.dispersion ?? null,
+  };
+
+  return {
+    stationId: station.id,
+    stationName: station.name,
+    metric: options.metric,
+    chartType,
+    from: from.toISOString(),
+    to: now.toISOString(),
+    baseline: { ...baseline, observations: baselineObservations.length },
+    location,
+    dispersion,
+    violations: [...evaluateRules(location, 'location'), ...evaluateRules(dispersion, 'dispersion')],
+  };
+}
+
+function formatValue(value: number, metric: SpcMetric): string {
+  return `${Math.round(value * 10) / 10}${METRIC_LABELS[metric].unit}`;
+}
+
+// Charts each station's metrics as configured by its baseline and raises an alert for every
+// recent violation not already alerted. Cycle time signals are pattern changes; defect rate
+// signals are quality alerts. Returns the number of alerts raised.
+export function raiseSpcAlerts(stationIds: string[], now = new Date()): number {
+  let raised = 0;
+
+  for (const stationId of Array.from(new Set(stationIds))) {
+    for (const metric of SPC_METRICS) {
+      const chartSet = getSpcChartSet({ stationId, metric, now });
+      if (!chartSet) continue;
+
+      const alertFrom = now.getTime() - ALERT_LOOKBACK_HOURS * HOUR_MS;
+      for (const violation of chartSet.violations) {
+        if (new Date(violation.time).getTime() < alertFrom) continue;
+        const chart = violation.chart === 'location' ? chartSet.location : chartSet.dispersion;
+        const id = `spc-${stationId}-${metric}-${chart.label.toLowerCase().replace(/[^a-z]+/g, '-')}-${violation.rule}-${violation.time}`;
+        if (getAlertById(id)) continue;
+
+        const limits = chart.limits!;
+        const point = chart.points[violation.pointIndexes[violation.pointIndexes.length - 1]];
+        insertAlert({
+          id,
+          type: metric === 'defect_rate' ? 'quality' : 'pattern_change',
+          severity: violation.rule === 'WE1' ? 'critical' : violation.rule === 'N7' ? 'info' : 'warning',
+          stationId,
+          message: `${chartSet.stationName} ${METRIC_LABELS[metric].name} out of control: ${violation.description}`,
+          details: [
+            `${SPC_RULES[violation.rule].name} on the ${chart.label} chart at ${violation.time}.`,
+            `Latest point ${formatValue(point.value, metric)}; center ${formatValue(limits.center, metric)},`,
+            `limits ${formatValue(limits.lcl, metric)}–${formatValue(limits.ucl, metric)}`,
+            `from the baseline ${chartSet.baseline.from} to ${chartSet.baseline.to}.`,
+          ].join(' '),
+        });
+        raised++;
+      }
+    }
+  }
+
+  return raised;
+}
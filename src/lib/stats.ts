@@ -0,0 +1,241 @@
+// ============================================
+// LineBalancer AI - Descriptive Statistics
+// Distribution summaries for cycle times and
+// other per-station measurements
+// ============================================
+
+import type { CycleTimeStats, HistogramBin } from '@/types';
+
+const MIN_HISTOGRAM_BINS = 5;
+const MAX_HISTOGRAM_BINS = 30;
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return NaN;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+// Sample standard deviation (n - 1), two-pass to avoid cancellation on large values
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  const squares = values.reduce((sum, v) => sum + (v - m) * (v - m), 0);
+  return Math.sqrt(squares / (values.length - 1));
+}
+
+// Quantile of already-sorted values with linear interpolation between order statistics
+// (the R-7 / Excel PERCENTILE.INC definition)
+export function quantile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return NaN;
+  const position = (sorted.length - 1) * Math.min(1, Math.max(0, p));
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+// Empty equal-width bins sized by the Freedman-Diaconis rule, which tolerates the long right
+// tail cycle times usually have better than a fixed bin count
+function emptyHistogram(min: number, max: number, iqr: number, count: number, binCount?: number): HistogramBin[] {
+  let requested = binCount;
+  if (!requested) {
+    const fdWidth = 2 * iqr / Math.cbrt(count);
+    requested = fdWidth > 0 ? Math.ceil((max - min) / fdWidth) : MIN_HISTOGRAM_BINS;
+  }
+  const bins = Math.min(MAX_HISTOGRAM_BINS, Math.max(MIN_HISTOGRAM_BINS, requested));
+
+  const width = (max - min) / bins;
+  return Array.from({ length: bins }, (_, i) => ({
+    start: min + i * width,
+    end: i === bins - 1 ? max : min + (i + 1) * width,
+    count: 0,
+  }));
+}
+
+export function histogram(sorted: number[], binCount?: number): HistogramBin[] {
+  if (sorted.length === 0) return [];
+
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (max === min) return [{ start: min, end: max, count: sorted.length }];
+
+  const iqr = quantile(sorted, 0.75) - quantile(sorted, 0.25);
+  const result = emptyHistogram(min, max, iqr, sorted.length, binCount);
+  const width = (max - min) / result.length;
+  for (const value of sorted) {
+    // The maximum belongs to the last bin rather than one past it
+    result[Math.min(result.length - 1, Math.floor((value - min) / width))].count++;
+  }
+  return result;
+}
+
+export function describe(values: number[]): CycleTimeStats | null {
+  const sorted = values.filter(v => Number.isFinite(v)).sort((a, b) => a - b);
+  if (sorted.length === 0) return null;
+
+  const m = mean(sorted);
+  const stdDev = standardDeviation(sorted);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+
+  return {
+    count: sorted.length,
+    mean: m,
+    stdDev,
+    coefficientOfVariation: m > 0 ? (stdDev / m) * 100 : 0,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    p25: q1,
+    p50: quantile(sorted, 0.5),
+    p75: q3,
+    p90: quantile(sorted, 0.9),
+    p95: quantile(sorted, 0.95),
+    p99: quantile(sorted, 0.99),
+    iqr: q3 - q1,
+    histogram: histogram(sorted),
+  };
+}
+
+// Distribution summary from value bins that keep exact counts, sums and extremes, read from
+// cumulative counts without expanding the bins into values. Mean, spread and extremes are
+// exact; for percentiles and the histogram the values in a bin are taken as evenly spaced
+// from its minimum to its maximum, which is exact for one or two values.
+export function describeBins(
+  bins: Array<{ count: number; sum: number; sumSq: number; min: number; max: number }>
+): CycleTimeStats | null {
+  const sorted = bins.filter(b => b.count > 0).sort((a, b) => a.min - b.min);
+  const ends: number[] = [];
+  let count = 0;
+  let sum = 0;
+  let sumSq = 0;
+  for (const bin of sorted) {
+    count += bin.count;
+    ends.push(count);
+    sum += bin.sum;
+    sumSq += bin.sumSq;
+  }
+  if (count === 0) return null;
+
+  // The k-th smallest value, counting from 0
+  const valueAt = (k: number) => {
+    let low = 0;
+    let high = ends.length - 1;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      if (ends[middle] > k) high = middle;
+      else low = middle + 1;
+    }
+    const bin = sorted[low];
+    const j = k - (ends[low] - bin.count);
+    return bin.count === 1 ? bin.min : bin.min + ((bin.max - bin.min) * j) / (bin.count - 1);
+  };
+  // As quantile() over the values
+  const binQuantile = (p: number) => {
+    const position = (count - 1) * p;
+    const lower = valueAt(Math.floor(position));
+    return lower + (valueAt(Math.ceil(position)) - lower) * (position - Math.floor(position));
+  };
+
+  const min = sorted[0].min;
+  const max = sorted.reduce((highest, b) => Math.max(highest, b.max), min);
+  const q1 = binQuantile(0.25);
+  const q3 = binQuantile(0.75);
+
+  let bars: HistogramBin[] = [{ start: min, end: max, count }];
+  if (max > min) {
+    bars = emptyHistogram(min, max, q3 - q1, count);
+    const width = (max - min) / bars.length;
+    const barOf = (value: number) => Math.min(bars.length - 1, Math.floor((value - min) / width));
+    for (const bin of sorted) {
+      const first = barOf(bin.min);
+      const last = barOf(bin.max);
+      // The values bin.min + j × step below each bar's end belong to it or an earlier one
+      const step = bin.count > 1 ? (bin.max - bin.min) / (bin.count - 1) : 0;
+      let counted = 0;
+      for (let b = first; b < last; b++) {
+        const below = Math.min(bin.count, Math.max(counted, Math.ceil((min + (b + 1) * width - bin.min) / step)));
+        bars[b].count += below - counted;
+        counted = below;
+      }
+      bars[last].count += bin.count - counted;
+    }
+  }
+
+  const m = sum / count;
+  const stdDev = count > 1 ? Math.sqrt(Math.max(0, (sumSq - sum * m) / (count - 1))) : 0;
+  return {
+    count,
+    mean: m,
+    stdDev,
+    coefficientOfVariation: m > 0 ? (stdDev / m) * 100 : 0,
+    min,
+    max,
+    p25: q1,
+    p50: binQuantile(0.5),
+    p75: q3,
+    p90: binQuantile(0.9),
+    p95: binQuantile(0.95),
+    p99: binQuantile(0.99),
+    iqr: q3 - q1,
+    histogram: bars,
+  };
+}
+
+// Standard normal CDF via the Abramowitz & Stegun 7.1.26 error function (error < 1.5e-7)
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+    * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Holm-Bonferroni step-down adjustment; adjusted p-values keep the input order
+export function holmAdjust(pValues: number[]): number[] {
+  const order = pValues.map((p, i) => ({ p, i })).sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(pValues.length);
+  let running = 0;
+  order.forEach(({ p, i }, rank) => {
+    running = Math.max(running, Math.min(1, p * (pValues.length - rank)));
+    adjusted[i] = running;
+  });
+  return adjusted;
+}
+
+// Pearson correlation of paired values; NaN when either side has no spread
+export function correlation(xs: number[], ys: number[]): number {
+  const mx = mean(xs);
+  const my = mean(ys);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) * (xs[i] - mx);
+    syy += (ys[i] - my) * (ys[i] - my);
+  }
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : NaN;
+}
+
+// Ranks from 1, ties sharing the average of the ranks they span
+function ranks(values: number[]): number[] {
+  const order = values.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v);
+  const result = new Array<number>(values.length);
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].v === order[start].v) end++;
+    for (let k = start; k <= end; k++) result[order[k].i] = (start + end) / 2 + 1;
+    start = end + 1;
+  }
+  return result;
+}
+
+// Spearman rank correlation: Pearson on ranks, so a single extreme pair cannot carry it
+export function rankCorrelation(xs: number[], ys: number[]): number {
+  return correlation(ranks(xs), ranks(ys));
+}
+
+// Two-sided p-value for a correlation of n pairs by the Fisher transformation
+export function correlationPValue(r: number, n: number): number {
+  if (n <= 3) return 1;
+  const z = Math.atanh(Math.min(0.999999, Math.abs(r))) * Math.sqrt(n - 3);
+  return 2 * (1 - normalCdf(z));
+}
@@ -0,0 +1,196 @@
+// ============================================
+// LineBalancer AI - Line Topology
+// Stations as a directed graph of flow and
+// rework routes with parallel capacity
+// ============================================
+
+import { getAllStations, getStationRoutes } from '@/lib/database';
+import type { LineTopology, StationRoute, TopologyNode } from '@/types';
+
+// Route fractions leaving a station must add up to 1 within this tolerance
+const FRACTION_TOLERANCE = 1e-6;
+
+// Rework loops are solved iteratively; they converge because each loop returns less than all of its flow
+const MAX_VISIT_ITERATIONS = 1000;
+const VISIT_TOLERANCE = 1e-9;
+
+interface TopologyStation {
+  id: string;
+  name: string;
+  position: number;
+  parallel_units: number;
+}
+
+// A line without stored routes flows through its stations in position order
+export function deriveSerialRoutes(stations: TopologyStation[]): StationRoute[] {
+  const ordered = [...stations].sort((a, b) => a.position - b.position);
+  return ordered.slice(1).map((station, index) => ({
+    fromStationId: ordered[index].id,
+    toStationId: station.id,
+    kind: 'flow',
+    fraction: 1,
+  }));
+}
+
+// Kahn's algorithm over flow routes; returns null when the flow graph has a cycle
+function topologicalOrder(stationIds: string[], flow: StationRoute[]): string[] | null {
+  const indegree = new Map(stationIds.map(id => [id, 0]));
+  for (const route of flow) indegree.set(route.toStationId, (indegree.get(route.toStationId) ?? 0) + 1);
+
+  const queue = stationIds.filter(id => indegree.get(id) === 0);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const route of flow.filter(r => r.fromStationId === id)) {
+      const remaining = indegree.get(route.toStationId)! - 1;
+      indegree.set(route.toStationId, remaining);
+      if (remaining === 0) queue.push(route.toStationId);
+    }
+  }
+  return order.length === stationIds.length ? order : null;
+}
+
+function reachableFrom(start: string, flow: StationRoute[]): Set<string> {
+  const seen = new Set<string>();
+  const stack = [start];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    for (const route of flow) {
+      if (route.fromStationId === id && !seen.has(route.toStationId)) {
+        seen.add(route.toStationId);
+        stack.push(route.toStationId);
+      }
+    }
+  }
+  return seen;
+}
+
+// Checks a proposed routing for a line; returns the first problem found
+export function validateRoutes(stations: TopologyStation[], routes: StationRoute[]): string | null {
+  const stationIds = new Set(stations.map(s => s.id));
+  const pairs = new Set<string>();
+
+  for (const route of routes) {
+    if (!stationIds.has(route.fromStationId)) return `Unknown station ${route.fromStationId} on this line`;
+    if (!stationIds.has(route.toStationId)) return `Unknown station ${route.toStationId} on this line`;
+    if (route.fromStationId === route.toStationId) return `Route from ${route.fromStationId} to itself`;
+    if (route.kind !== 'flow' && route.kind !== 'rework') return 'kind must be flow or rework';
+    if (typeof route.fraction !== 'number' || !isFinite(route.fraction) || route.fraction <= 0 || route.fraction > 1) {
+      return 'fraction must be greater than 0 and at most 1';
+    }
+    const pair = `${route.fromStationId}>${route.toStationId}`;
+    if (pairs.has(pair)) return `Duplicate route ${route.fromStationId} → ${route.toStationId}`;
+    pairs.add(pair);
+  }
+  if (routes.length === 0) return null;
+
+  const flow = routes.filter(r => r.kind === 'flow');
+  if (flow.length === 0) return 'At least one flow route is required';
+
+  const routed = Array.from(new Set(routes.flatMap(r => [r.fromStationId, r.toStationId])));
+  if (!topologicalOrder(routed, flow)) return 'Flow routes form a cycle; use a rework route to send units back';
+
+  for (const route of routes.filter(r => r.kind === 'rework')) {
+    if (!reachableFrom(route.toStationId, flow).has(route.fromStationId)) {
+      return `Rework route ${route.fromStationId} → ${route.toStationId} must lead back upstream`;
+    }
+  }
+
+  for (const id of routed) {
+    const outgoing = routes.filter(r => r.fromStationId === id);
+    const total = outgoing.reduce((sum, r) => sum + r.fraction, 0);
+    if (outgoing.some(r => r.kind === 'flow')) {
+      if (Math.abs(total - 1) > FRACTION_TOLERANCE) {
+        return `Routes leaving ${id} must add up to 1 (got ${Math.round(total * 1000) / 1000})`;
+      }
+    } else if (total >= 1) {
+      // A line end may rework part of its output, but the rest has to leave the line
+      return `Rework leaving ${id} must be less than 1`;
+    }
+  }
+
+  return null;
+}
+
+// Visits per unit of line output. Every station with no upstream flow feeds one visit per
+// unit (e.g. parallel feeder cells that are assembled downstream); each station passes its
+// visits on in proportion to its route fractions.
+function computeVisitRatios(stationIds: string[], order: string[], routes: StationRoute[]): Map<string, number> {
+  const sources = stationIds.filter(id => !routes.some(r => r.kind === 'flow' && r.toStationId === id));
+  const visits = new Map(stationIds.map(id => [id, 0]));
+
+  for (let iteration = 0; iteration < MAX_VISIT_ITERATIONS; iteration++) {
+    let change = 0;
+    for (const id of order) {
+      const inflow = routes
+        .filter(r => r.toStationId === id)
+        .reduce((sum, r) => sum + r.fraction * visits.get(r.fromStationId)!, 0);
+      const next = (sources.includes(id) ? 1 : 0) + inflow;
+      change = Math.max(change, Math.abs(next - visits.get(id)!));
+      visits.set(id, next);
+    }
+    // Without rework one pass in topological order is exact
+    if (change < VISIT_TOLERANCE) break;
+  }
+  return visits;
+}
+
+export function buildLineTopology(
+  lineId: string,
+  stations: TopologyStation[],
+  storedRoutes: StationRoute[]
+): LineTopology {
+  const explicit = storedRoutes.length > 0;
+  const routes = explicit ? storedRoutes : deriveSerialRoutes(stations);
+
+  const touched = new Set(routes.flatMap(r => [r.fromStationId, r.toStationId]));
+  const routedStations = explicit ? stations.filter(s => touched.has(s.id)) : stations;
+  const routedIds = routedStations.map(s => s.id);
+  const flow = routes.filter(r => r.kind === 'flow');
+
+  // Stored routes were validated on save; fall back to position order if they no longer fit
+  const order = topologicalOrder(routedIds, flow)
+    ?? [...routedStations].sort((a, b) => a.position - b.position).map(s => s.id);
+
+  // Longest flow path from an entry station, so parallel branches line up by stage
+  const depth = new Map(routedIds.map(id => [id, 0]));
+  for (const id of order) {
+    for (const route of flow.filter(r => r.fromStationId === id)) {
+      depth.set(route.toStationId, Math.max(depth.get(route.toStationId)!, depth.get(id)! + 1));
+    }
+  }
+
+  const visits = computeVisitRatios(routedIds, order, routes);
+
+  const nodes: TopologyNode[] = order.map(id => {
+    const station = routedStations.find(s => s.id === id)!;
+    return {
+      stationId: id,
+      stationName: station.name,
+      parallelUnits: station.parallel_units || 1,
+      depth: depth.get(id)!,
+      visitRatio: visits.get(id)!,
+      downstreamCount: reachableFrom(id, flow).size,
+    };
+  });
+
+  return {
+    lineId,
+    explicit,
+    nodes,
+    routes,
+    unroutedStationIds: stations.filter(s => !routedIds.includes(s.id)).map(s => s.id),
+  };
+}
+
+export function getLineTopology(lineId: string): LineTopology {
+  const stations = getAllStations(lineId) as TopologyStation[];
+  const routes: StationRoute[] = getStationRoutes(lineId).map(row => ({
+    fromStationId: row.from_station_id,
+    toStationId: row.to_station_id,
+    kind: row.kind,
+    fraction: row.fraction,
+  }));
+  return buildLineTopology(lineId, stations, routes);
+}
@@ -16,6 +16,14 @@ export function formatPercent(num: number, decimals = 1): string {
   return `${num.toFixed(decimals)}%`;
 }
 
+export function formatCurrency(amount: number): string {
+  const sign = amount < 0 ? '-' : '';
+  const abs = Math.abs(amount);
+  if (abs >= 1e6) return `${sign}$${(abs / 1e6).toFixed(1)}M`;
+  if (abs >= 1e3) return `${sign}$${(abs / 1e3).toFixed(1)}k`;
+  return `${sign}$${Math.round(abs)}`;
+}
+
 export function formatDuration(seconds: number): string {
   if (seconds < 60) return `${Math.round(seconds)}s`;
   if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
@@ -71,6 +79,19 @@ export function getStatusColor(status: string): string {
   }
 }
 
+export function getCertificationColor(status: 'certified' | 'expiring' | 'expired' | 'uncertified'): string {
+  switch (status) {
+    case 'certified':
+      return 'text-success-400 bg-success-500/20 border-success-500/40';
+    case 'expiring':
+      return 'text-warning-400 bg-warning-500/20 border-warning-500/40';
+    case 'expired':
+      return 'text-danger-400 bg-danger-500/20 border-danger-500/40';
+    default:
+      return 'text-steel-400 bg-steel-700/50 border-steel-600';
+  }
+}
+
 export function getTrendIcon(trend: 'improving' | 'stable' | 'declining'): string {
   switch (trend) {
     case 'improving':
@@ -2,24 +2,122 @@
 // LineBalancer AI - Core Type Definitions
 // ============================================
 
+// Plant & Line Types
+export interface Plant {
+  id: string;
+  name: string;
+  location: string;
+  timezone: string;
+  lines: Line[];
+}
+
+export interface Line {
+  id: string;
+  plantId: string;
+  name: string;
+  description: string;
+}
+
 // Production Line Types
 export interface Station {
   id: string;
+  lineId: string;
   name: string;
   description: string;
   targetCycleTime: number; // seconds
   position: number; // order in line
   operatorCount: number;
+  parallelUnits: number; // identical cells working side by side at this node
   status: 'running' | 'idle' | 'maintenance' | 'blocked';
 }
 
+export interface StationRoute {
+  fromStationId: string;
+  toStationId: string;
+  kind: 'flow' | 'rework'; // rework sends units back upstream
+  fraction: number; // share of the from-station's output taking this route
+}
+
+export interface TopologyNode {
+  stationId: string;
+  stationName: string;
+  parallelUnits: number;
+  depth: number; // longest flow path from a line entry; stations sharing a depth run in parallel
+  visitRatio: number; // visits per unit of line output (rework can push this above 1)
+  downstreamCount: number; // stations reachable along flow routes
+}
+
+export interface LineTopology {
+  lineId: string;
+  explicit: boolean; // false when derived serially from station order
+  nodes: TopologyNode[];
+  routes: StationRoute[];
+  unroutedStationIds: string[]; // stations on a routed line that no route touches
+}
+
+export interface StationTargetChange {
+  id: number;
+  stationId: string;
+  oldTargetCycleTime: number | null;
+  newTargetCycleTime: number;
+  changedBy: string;
+  changedAt: string;
+  effectiveFrom: string | null; // set when the change was back-dated
+}
+
 export interface Operator {
   id: string;
+  lineId: string;
   name: string;
   shift: 'day' | 'night' | 'swing';
   skillLevel: number; // 1-5
-  stationId: string;
+  stationId: string | null; // null once deactivated
   efficiency: number; // percentage
+  active: boolean;
+  deactivatedAt: string | null;
+}
+
+// One operator against the other operators at the same station, on the same shift and day
+// of the week. Cycle time is percent over target; defect rate is defects per 100 units.
+export interface OperatorMetricComparison {
+  operatorMean: number;
+  peerMean: number;
+  difference: number; // operator minus peers, weighted across shift/weekday strata
+  effectSize: number; // Cohen's d against the within-stratum spread
+  pValue: number; // two-sided, Holm-adjusted across the station's tests
+  worse: boolean; // significantly and materially worse than peers
+}
+
+export interface OperatorAttribution {
+  operatorId: string;
+  operatorName: string;
+  skillLevel: number | null; // null for operators no longer on the roster
+  efficiency: number | null;
+  proficiency: number | null; // skill matrix rating at this station
+  records: number;
+  strata: number; // shift/weekday cells shared with peers
+  cycleTime: OperatorMetricComparison | null; // null without peers to compare against
+  defectRate: OperatorMetricComparison | null;
+}
+
+export interface StationOperatorAttribution {
+  stationId: string;
+  stationName: string;
+  from: string;
+  to: string;
+  operators: OperatorAttribution[];
+}
+
+export interface OperatorSkill {
+  operatorId: string;
+  operatorName: string;
+  stationId: string;
+  stationName: string;
+  certified: boolean;
+  proficiency: number; // 1-5
+  certifiedAt: string | null;
+  expiresAt: string | null;
+  status: 'certified' | 'expiring' | 'expired' | 'uncertified';
 }
 
 export interface ProductionRecord {
@@ -33,6 +131,39 @@ export interface ProductionRecord {
   shift: 'day' | 'night' | 'swing';
   downtimeMinutes: number;
   downtimeReason?: string;
+  productId?: string;
+}
+
+export type StationState = 'working' | 'starved' | 'blocked' | 'down' | 'changeover';
+
+export interface StationStateEvent {
+  id: string;
+  stationId: string;
+  state: StationState;
+  startTime: string;
+  endTime: string;
+  durationSeconds: number;
+  reason?: string;
+}
+
+export interface StationStateSummary {
+  stationId: string;
+  trackedSeconds: number; // covered by state events within the window
+  percentByState: Record<StationState, number>; // of tracked time
+}
+
+export interface Product {
+  id: string;
+  lineId: string | null;
+  sku: string;
+  name: string;
+  description: string;
+  targets: ProductTarget[];
+}
+
+export interface ProductTarget {
+  stationId: string;
+  targetCycleTime: number; // seconds, overrides the station default for this product
 }
 
 // Analytics Types
@@ -43,27 +174,500 @@ export interface BottleneckAnalysis {
   avgCycleTime: number;
   targetCycleTime: number;
   variancePercent: number;
-  frequency: number; // times identified as bottleneck
+  frequency: number; // time slices in which the station constrained the line
+  soleBottleneckPercent: number; // of slices with production
+  shiftingBottleneckPercent: number;
+  blockedPercent: number | null; // null when the station reported no state events
+  starvedPercent: number | null;
+  constraintRole: 'constraint' | 'starved' | 'blocked' | 'unknown'; // starved/blocked: waiting on a constraint elsewhere
   impactScore: number; // 0-100
+  cycleTimeStats: CycleTimeStats | null; // null when no raw records fall in the window
   rootCauses: RootCause[];
   recommendations: Recommendation[];
 }
 
+export interface CycleTimeStats {
+  count: number;
+  mean: number;
+  stdDev: number; // sample standard deviation
+  coefficientOfVariation: number; // percentage
+  min: number;
+  max: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  iqr: number;
+  histogram: HistogramBin[];
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface BottleneckSlice {
+  start: string;
+  end: string;
+  kind: 'sole' | 'shifting' | 'idle'; // idle: no production recorded in the slice
+  bottleneckStationIds: string[]; // one when sole, several while the constraint shifts
+  activeRatios: Record<string, number>; // 0-1 share of the slice each station was working or down
+}
+
+export interface StationBottleneckShare {
+  stationId: string;
+  stationName: string;
+  soleSlices: number;
+  shiftingSlices: number;
+  frequency: number; // sole + shifting
+  solePercent: number; // of slices with production
+  shiftingPercent: number;
+}
+
+export interface BottleneckTimeline {
+  from: string;
+  to: string;
+  sliceMinutes: number;
+  tolerance: number; // relative gap to the leader within which stations share the constraint
+  slices: BottleneckSlice[];
+  stations: StationBottleneckShare[];
+}
+
+// Analysis window: [from, to) on whole hours, optionally narrowed to one shift
+export interface AnalysisWindow {
+  from: string;
+  to: string;
+  shift?: string | null;
+}
+
+export type BaselineKind = 'previous_period' | 'previous_week' | 'custom';
+
+// new: bottlenecked now but not in the baseline; recovered: the reverse
+export type BottleneckChange = 'new' | 'recovered' | 'worse' | 'better' | 'unchanged';
+
+export interface RootCauseChange {
+  type: RootCause['type'];
+  description: string; // the current description, else the baseline's
+  status: 'new' | 'resolved' | 'persisting';
+  confidence: number | null; // null when absent from the window
+  baselineConfidence: number | null;
+}
+
+export interface BottleneckComparison {
+  stationId: string;
+  stationName: string;
+  change: BottleneckChange;
+  bottleneck: boolean; // high or critical severity in the window
+  baselineBottleneck: boolean;
+  severity: BottleneckAnalysis['severity'] | null; // null without production in the window
+  baselineSeverity: BottleneckAnalysis['severity'] | null;
+  variancePercent: number | null;
+  varianceDelta: number | null; // percentage points, window less baseline
+  impactScore: number | null;
+  impactDelta: number | null;
+  rootCauses: RootCauseChange[];
+}
+
+export interface BottleneckPeriodComparison {
+  lineId: string | null;
+  window: AnalysisWindow;
+  baseline: AnalysisWindow;
+  baselineKind: BaselineKind;
+  stations: BottleneckComparison[];
+}
+
+// Statistical Process Control Types
+export type SpcMetric = 'cycle_time' | 'defect_rate';
+export type SpcChartType = 'xbar_r' | 'i_mr';
+export type SpcRuleId = 'WE1' | 'WE2' | 'WE3' | 'WE4' | 'N3' | 'N4' | 'N7' | 'N8';
+
+export interface SpcPoint {
+  time: string; // last observation in the subgroup
+  value: number;
+  size: number; // observations behind the point
+}
+
+export interface SpcLimits {
+  center: number;
+  ucl: number;
+  lcl: number;
+  sigma: number; // of the plotted statistic; zones are multiples of it
+}
+
+export interface SpcViolation {
+  rule: SpcRuleId;
+  chart: 'location' | 'dispersion';
+  pointIndexes: number[]; // points forming the pattern
+  time: string; // point that completed the pattern
+  description: string;
+}
+
+export interface SpcChart {
+  label: string; // X-bar, R, Individuals, Moving Range
+  points: SpcPoint[];
+  limits: SpcLimits | null; // null until the baseline has enough data
+}
+
+export interface SpcBaseline {
+  stationId: string;
+  metric: SpcMetric;
+  chartType: SpcChartType;
+  subgroupSize: number; // 1 for individuals charts
+  from: string;
+  to: string;
+  stored: boolean; // false when defaulted to the period before the chart window
+  updatedBy: string | null;
+  observations: number;
+}
+
+export interface SpcChartSet {
+  stationId: string;
+  stationName: string;
+  metric: SpcMetric;
+  chartType: SpcChartType;
+  from: string;
+  to: string;
+  baseline: SpcBaseline;
+  location: SpcChart;
+  dispersion: SpcChart;
+  violations: SpcViolation[];
+}
+
+// Change-Point Detection Types
+export type ChangePointMetric = 'cycle_time' | 'defect_rate';
+
+export interface ChangePointSegment {
+  from: string;
+  to: string;
+  hours: number; // hours with production
+  mean: number;
+  stdDev: number;
+}
+
+export interface ChangePoint {
+  stationId: string;
+  stationName: string;
+  metric: ChangePointMetric;
+  time: string; // first hour at the new level
+  magnitude: number; // after minus before, in the metric's unit
+  changePercent: number; // relative to the level before
+  before: ChangePointSegment;
+  after: ChangePointSegment;
+}
+
+// Downtime Analysis Types
+export interface DowntimeMetrics {
+  stoppages: number;
+  downtimeMinutes: number;
+  operatingMinutes: number; // hours with production, less downtime
+  mtbfMinutes: number | null; // null without stoppages
+  mttrMinutes: number | null;
+  availability: number | null; // percentage; null without production
+}
+
+export interface DowntimeParetoEntry {
+  reason: string; // 'Unspecified' when none was recorded
+  stoppages: number;
+  minutes: number;
+  percent: number; // of downtime minutes
+  cumulativePercent: number;
+}
+
+export interface DowntimeTrendPoint extends DowntimeMetrics {
+  start: string;
+  end: string;
+}
+
+export interface StationDowntime extends DowntimeMetrics {
+  stationId: string;
+  stationName: string;
+  pareto: DowntimeParetoEntry[];
+  trend: DowntimeTrendPoint[];
+}
+
+export interface DowntimeAnalysis {
+  lineId: string | null;
+  from: string;
+  to: string;
+  bucketHours: number;
+  line: DowntimeMetrics & { pareto: DowntimeParetoEntry[]; trend: DowntimeTrendPoint[] };
+  stations: StationDowntime[];
+}
+
+export interface Stoppage {
+  id: string;
+  stationId: string;
+  stationName: string;
+  operatorId: string;
+  operatorName: string | null;
+  timestamp: string;
+  shift: string;
+  minutes: number;
+  reason: string;
+}
+
+// Flow Signal Types
+export type FlowSignalKind = 'material_shortage' | 'upstream_quality' | 'station_coupling';
+
+export type DowntimeReasonCategory = 'material' | 'upstream_quality' | 'other';
+
+export interface NeighbourCorrelation {
+  stationId: string; // the adjacent station
+  stationName: string;
+  direction: 'upstream' | 'downstream';
+  metric: ChangePointMetric;
+  correlation: number; // Spearman r of the hourly series after removing the daily profile
+  pValue: number; // Holm-adjusted across the line
+  hours: number; // hours both stations produced
+  significant: boolean;
+}
+
+export interface StationFlowSignals {
+  stationId: string;
+  from: string;
+  to: string;
+  downtimeReasons: Array<DowntimeParetoEntry & { category: DowntimeReasonCategory }>;
+  correlations: NeighbourCorrelation[];
+}
+
+// Analysis Configuration Types
+export type AnalysisConfigScope = 'global' | 'line' | 'station';
+
+export interface SeverityThresholds {
+  critical: number; // percent over target
+  high: number;
+  medium: number;
+}
+
+export interface ImpactWeights {
+  variance: number; // points out of 100
+  consistency: number;
+  position: number;
+  downtime: number;
+}
+
+export interface AnalysisConfig {
+  severityThresholds: SeverityThresholds;
+  impactWeights: ImpactWeights;
+}
+
+export interface AnalysisConfigOverride {
+  scope: AnalysisConfigScope;
+  scopeId: string | null; // line or station ID; null at global scope
+  severityThresholds: SeverityThresholds | null; // null inherits from the wider scope
+  impactWeights: ImpactWeights | null;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+export interface StationAnalysisConfig extends AnalysisConfig {
+  stationId: string;
+  stationName: string;
+  source: Record<keyof AnalysisConfig, AnalysisConfigScope | 'default'>; // scope each group came from
+}
+
+export interface RankingPreviewEntry {
+  stationId: string;
+  stationName: string;
+  currentRank: number;
+  proposedRank: number;
+  currentImpactScore: number;
+  proposedImpactScore: number;
+  currentSeverity: BottleneckAnalysis['severity'];
+  proposedSeverity: BottleneckAnalysis['severity'];
+}
+
+// Root Cause Evidence Types
+export type EvidenceMetric =
+  | 'station_states'
+  | 'cycle_time'
+  | 'cycle_time_variability'
+  | 'shift_cycle_time'
+  | 'operator_performance'
+  | 'downtime'
+  | 'downtime_reasons'
+  | 'neighbour_correlation';
+
+// The records a piece of evidence was computed from
+export interface EvidenceFilter {
+  stationId: string;
+  from: string; // ISO time
+  to: string;
+  shift?: string | null;
+  operatorIds?: string[];
+  stoppagesOnly?: boolean; // only records with downtime
+  reasons?: string[]; // only stoppages put down to these reasons
+  relatedStationId?: string; // the neighbour a correlation is with
+  series?: ChangePointMetric; // the hourly series a correlation compares
+}
+
+export interface Evidence {
+  metric: EvidenceMetric;
+  summary: string;
+  value: number | null; // the figure the summary states, in `unit`
+  unit: string | null;
+  filter: EvidenceFilter;
+  query: string; // drill-down request for the records behind the figure
+}
+
+export interface EvidenceRecord {
+  id: string;
+  stationId: string;
+  operatorId: string;
+  operatorName: string | null;
+  timestamp: string;
+  shift: string;
+  productId: string | null;
+  cycleTime: number;
+  targetCycleTime: number; // in effect for the record's product at the time
+  quantity: number;
+  defects: number;
+  downtimeMinutes: number;
+  downtimeReason: string | null;
+}
+
+export interface EvidenceStationSummary {
+  stationId: string;
+  stationName: string;
+  records: number;
+  units: number;
+  defectRate: number | null; // defects per 100 units
+  cycleTimeStats: CycleTimeStats | null;
+  avgTargetCycleTime: number | null;
+  variancePercent: number | null; // mean cycle time over the mean target
+  downtimeMinutes: number;
+  stoppages: number;
+  states: StationStateSummary | null; // null without state events in the window
+}
+
+export interface EvidenceOperatorSummary {
+  operatorId: string;
+  operatorName: string | null;
+  records: number;
+  avgCycleTime: number;
+  variancePercent: number; // over each record's own target
+  defectRate: number | null;
+  downtimeMinutes: number;
+}
+
+export interface EvidenceHourlyPoint {
+  hour: string; // rollup hour key
+  value: number | null; // at the station
+  relatedValue: number | null; // at the related station
+}
+
+export interface EvidenceDrillDown {
+  metric: EvidenceMetric;
+  filter: EvidenceFilter;
+  stations: EvidenceStationSummary[]; // the station, then any related station
+  operators: EvidenceOperatorSummary[];
+  downtime: DowntimeParetoEntry[];
+  hourly: EvidenceHourlyPoint[] | null; // for neighbour correlations
+  records: EvidenceRecord[]; // newest first, one page
+  totalRecords: number;
+  offset: number; // records skipped before this page
+}
+
 export interface RootCause {
   type: 'operator' | 'equipment' | 'material' | 'process' | 'shift';
   description: string;
   confidence: number; // 0-1
-  evidence: string[];
+  evidence: Evidence[];
+  operatorIds?: string[]; // operators the cause is attributed to
+  signal?: FlowSignalKind; // for material and process causes traced along the line
+  relatedStationIds?: string[]; // neighbouring stations the cause traces to
 }
 
 export interface Recommendation {
-  id: string;
-  type: 'add_operator' | 'training' | 'equipment' | 'rebalance' | 'maintenance';
+  id: string; // the agent's key for the action until stored, then the stored proposal's
+  type: 'add_operator' | 'training' | 'equipment' | 'rebalance' | 'maintenance' | 'material' | 'process';
   description: string;
   expectedImprovement: number; // percentage
   implementationCost: 'low' | 'medium' | 'high';
   timeToImplement: string;
   priority: number; // 1-5
+  confidence: number; // 0-1, the root cause's, scaled by how past ones of this type delivered
+  status?: RecommendationStatus; // once stored
+  economics?: RecommendationEconomics; // under the line's cost model
+}
+
+// Cost Model Types
+export interface RecommendationTypeCost {
+  equipmentCost: number; // one-time spend on equipment, parts or services
+  overtimeHours: number; // labour to implement, worked as overtime
+  addedOperators: number; // operators added to the station for as long as it runs
+}
+
+export interface CostModel {
+  labourRates: Record<Operator['shift'], number>; // per operator hour
+  overtimeMultiplier: number; // on the day shift rate
+  contributionMargin: number; // per unit
+  discountRate: number; // percent per year
+  horizonYears: number;
+  typeCosts: Record<Recommendation['type'], RecommendationTypeCost>;
+}
+
+export interface LineCostModel {
+  lineId: string | null;
+  costModel: CostModel;
+  source: 'line' | 'default';
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+export interface RecommendationEconomics {
+  annualExtraUnits: number;
+  annualBenefit: number; // margin on the extra units less added labour
+  oneTimeCost: number;
+  paybackMonths: number | null; // null when it never pays back
+  npv: number; // over the model's horizon
+  roi: number | null; // NPV as a percentage of the one-time cost
+}
+
+// Recommendation Lifecycle Types
+export type RecommendationStatus = 'proposed' | 'accepted' | 'rejected' | 'implemented' | 'verified';
+
+// Before and after implementation at the recommendation's station
+export interface RecommendationVerification {
+  before: { from: string; to: string };
+  after: { from: string; to: string };
+  cycleTimeBefore: number; // seconds
+  cycleTimeAfter: number;
+  percentOfTargetBefore: number;
+  percentOfTargetAfter: number;
+  throughputBefore: number; // units per producing hour
+  throughputAfter: number;
+  throughputChangePercent: number;
+  actualImprovement: number; // percent reduction in cycle time against target, as expectedImprovement
+  realization: number | null; // actual over expected improvement
+}
+
+export interface TrackedRecommendation extends Omit<Recommendation, 'priority' | 'status'> {
+  proposalKey: string; // the agent's key, shared by every proposal of the same action
+  stationId: string;
+  stationName: string;
+  lineId: string;
+  status: RecommendationStatus;
+  owner: string | null;
+  note: string | null;
+  proposedAt: string;
+  lastProposedAt: string; // the last analysis that made it
+  acceptedAt: string | null;
+  rejectedAt: string | null;
+  implementedAt: string | null;
+  verifiedAt: string | null;
+  updatedBy: string | null;
+  verification: RecommendationVerification | null;
+}
+
+export interface RecommendationTrackRecord {
+  type: Recommendation['type'];
+  verified: number;
+  meanRealization: number | null;
+  confidenceFactor: number; // applied to the confidence of new recommendations of this type
 }
 
 // Simulation Types
@@ -93,12 +697,54 @@ export interface SimulationResult {
   utilizationByStation: Record<string, number>;
 }
 
+// Line Balancing Types
+export interface WorkElement {
+  id: string;
+  name: string;
+  duration: number; // standard time, seconds
+  stationId: string | null; // where the element is done today
+  predecessors: string[]; // elements that must be done first
+}
+
+export type BalancingProblem = 'salbp1' | 'salbp2'; // fewest stations for a takt | shortest cycle for a station count
+
+export interface BalanceMetrics {
+  stationCount: number;
+  cycleTime: number; // the takt for SALBP-1; the longest station time otherwise
+  maxStationTime: number;
+  balanceEfficiency: number; // percent of station time spent on work
+  balanceDelay: number; // percent idle
+  smoothnessIndex: number; // root of the squared gaps to the longest station time
+}
+
+export interface BalancedStation {
+  index: number; // 1-based, in flow order
+  elementIds: string[]; // in an order the precedences allow
+  load: number;
+  idle: number; // to the cycle time
+  stationId: string | null; // the line's station in the same place, if it has one
+  stationName: string | null;
+}
+
+export interface LineBalance extends BalanceMetrics {
+  lineId: string;
+  problem: BalancingProblem;
+  totalWorkContent: number;
+  lowerBound: number; // stations for SALBP-1, seconds of cycle time for SALBP-2
+  optimal: boolean; // false when the search stopped at its limit
+  stations: BalancedStation[];
+  current: BalanceMetrics | null; // today's assignment; null while elements are unassigned
+  simulationChanges: SimulationChange[] | null;
+  simulationNote: string | null; // why the balance can't be simulated
+}
+
 // Alert & Warning Types
 export interface Alert {
   id: string;
   type: 'bottleneck' | 'delay' | 'quality' | 'maintenance' | 'pattern_change';
   severity: 'critical' | 'warning' | 'info';
   stationId?: string;
+  lineId?: string;
   message: string;
   details: string;
   timestamp: Date;
@@ -146,6 +792,8 @@ export interface QueryResult {
 }
 
 // Dashboard Types
+export type DashboardTab = 'overview' | 'bottlenecks' | 'downtime' | 'simulation' | 'balancing' | 'query' | 'import' | 'line' | 'operators' | 'settings';
+
 export interface DashboardMetrics {
   currentThroughput: number;
   targetThroughput: number;
@@ -186,6 +834,77 @@ export interface ShiftComparison {
   topBottleneck: string;
 }
 
+// Data Import Types
+export type ImportField =
+  | 'id'
+  | 'stationId'
+  | 'operatorId'
+  | 'timestamp'
+  | 'cycleTime'
+  | 'quantity'
+  | 'defects'
+  | 'shift'
+  | 'downtimeMinutes'
+  | 'downtimeReason'
+  | 'productId';
+
+export type TimestampFormat = 'auto' | 'iso' | 'ymd' | 'mdy' | 'dmy' | 'excel_serial' | 'unix_seconds' | 'unix_ms';
+
+export interface ImportMapping {
+  id: string;
+  name: string;
+  columnMap: Partial<Record<ImportField, string>>; // target field -> source column
+  timestampFormat: TimestampFormat;
+  timezone: string; // IANA zone the source timestamps were recorded in
+  createdAt?: string;
+}
+
+export interface ImportRejectedRow {
+  row: number; // 1-based spreadsheet row, header is row 1
+  errors: string[];
+  raw: Record<string, unknown>;
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  columns: string[];
+  suggestedMapping: Partial<Record<ImportField, string>>;
+  totalRows: number;
+  validRows: number;
+  duplicateRows: number;
+  rejectedRows: number;
+  inserted: number;
+  rejected: ImportRejectedRow[];
+  preview: Array<Record<string, unknown>>;
+}
+
+// Data Retention Types
+export interface ArchiveRun {
+  id: number;
+  cutoff: string;
+  archivedRecords: number;
+  compacted: boolean;
+  durationMs: number;
+  ranAt: string;
+}
+
+export interface ArchiveResult {
+  cutoff: string;
+  archivedRecords: number;
+  months: { month: string; records: number }[]; // YYYY-MM
+  compacted: boolean;
+  durationMs: number;
+}
+
+export interface StorageReport {
+  retentionDays: number;
+  cutoff: string; // raw records older than this are due for archival
+  archivedThrough: string | null; // cutoff of the last run that archived anything
+  files: { main: number; wal: number; archive: number }; // bytes
+  tables: { database: 'main' | 'archive'; name: string; rows: number; bytes: number }[];
+  recentRuns: ArchiveRun[];
+}
+
 // API Response Types
 export interface APIResponse<T> {
   success: boolean;